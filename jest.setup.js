@@ -153,7 +153,8 @@ Object.defineProperty(global, 'crypto', {
         arr[i] = Math.floor(Math.random() * 256)
       }
       return arr
-    }
+    },
+    subtle: require('crypto').webcrypto.subtle
   }
 })
 
@@ -1,6 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // Loaded at runtime by /api/pdf; bundling breaks its worker and canvas fallbacks
+  serverExternalPackages: ['pdfjs-dist'],
   eslint: {
     ignoreDuringBuilds: true,
   },
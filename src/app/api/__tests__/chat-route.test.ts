@@ -0,0 +1,272 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('next/server', () => ({
+  after: jest.fn()
+}))
+
+jest.mock('ai', () => ({
+  streamText: jest.fn(),
+  createDataStreamResponse: jest.fn()
+}))
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn()
+}))
+
+jest.mock('@/lib/model-access', () => ({
+  authorizeModelRequest: jest.fn()
+}))
+
+jest.mock('@/lib/anonymous-quota', () => ({
+  applyAnonymousQuotaHeaders: jest.fn(),
+  getAnonymousQuota: jest.fn(() => Promise.resolve(null)),
+  identifyAnonymousVisitor: jest.fn(() => ({ id: 'visitor-1', ipHash: null, newCookie: null })),
+  releaseAnonymousQuota: jest.fn()
+}))
+
+jest.mock('@/lib/provider-failover', () => ({
+  FailoverError: class FailoverError extends Error {},
+  buildFailoverTargets: jest.fn(),
+  streamWithFailover: jest.fn()
+}))
+
+jest.mock('@/lib/chat-persistence', () => ({
+  saveAssistantMessage: jest.fn()
+}))
+
+jest.mock('@/lib/quota-policy', () => ({
+  recordUsage: jest.fn()
+}))
+
+jest.mock('@/lib/conversation-summary', () => ({
+  refreshConversationSummary: jest.fn(),
+  summarizeCompressedTurns: jest.fn()
+}))
+
+jest.mock('@/lib/document-chunk-store', () => ({
+  getDocumentChunkStore: jest.fn()
+}))
+
+import { createDataStreamResponse, streamText } from 'ai'
+import { POST } from '../chat/route'
+import { createServerClient } from '@/lib/supabase'
+import { authorizeModelRequest } from '@/lib/model-access'
+import { buildFailoverTargets, streamWithFailover } from '@/lib/provider-failover'
+import { saveAssistantMessage } from '@/lib/chat-persistence'
+import { recordUsage } from '@/lib/quota-policy'
+import { getModelById } from '@/lib/models'
+import { getDocumentChunkStore } from '@/lib/document-chunk-store'
+import { getAnnotatedSources } from '@/lib/rag-citations'
+
+const mockStreamText = streamText as jest.Mock
+const mockCreateServerClient = createServerClient as jest.Mock
+const mockAuthorizeModelRequest = authorizeModelRequest as jest.Mock
+const mockBuildFailoverTargets = buildFailoverTargets as jest.Mock
+const mockStreamWithFailover = streamWithFailover as jest.Mock
+const mockSaveAssistantMessage = saveAssistantMessage as jest.Mock
+const mockRecordUsage = recordUsage as jest.Mock
+const mockCreateDataStreamResponse = createDataStreamResponse as jest.Mock
+const mockGetDocumentChunkStore = getDocumentChunkStore as jest.Mock
+const dataStream = { writeMessageAnnotation: jest.fn() }
+
+const modelInfo = getModelById('gemini-2.5-flash-vertex')!
+const target = {
+  modelInfo,
+  adapter: { id: 'vertex', name: 'vertex', mapError: jest.fn() },
+  model: 'mocked-model',
+  source: 'server'
+}
+
+// Every query resolves to an empty result
+function queryBuilder() {
+  const result = { data: null, error: null }
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve)
+  }
+  for (const method of ['select', 'eq', 'not', 'order', 'insert', 'update']) {
+    builder[method] = jest.fn(() => builder)
+  }
+  builder.single = jest.fn(() => Promise.resolve(result))
+  builder.maybeSingle = jest.fn(() => Promise.resolve(result))
+  return builder
+}
+
+// `role` is what conversation_role() returns for the signed-in user
+function mockSupabase(user: { id: string } | null, role: string | null = user ? 'owner' : null) {
+  const supabase = {
+    auth: { getUser: jest.fn(() => Promise.resolve({ data: { user } })) },
+    from: jest.fn(() => queryBuilder()),
+    rpc: jest.fn(() => Promise.resolve({ data: role, error: null }))
+  }
+  mockCreateServerClient.mockResolvedValue(supabase)
+  return supabase
+}
+
+function chatRequest(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: modelInfo.id,
+      messages: [{ id: 'm1', role: 'user', content: 'Hello' }],
+      ...body
+    })
+  })
+}
+
+// Runs the route and then the stream's onFinish, as the provider would once the answer is complete
+async function sendAndFinish(body: Record<string, unknown>) {
+  const response = await POST(chatRequest(body))
+  const { onFinish } = mockStreamText.mock.calls[0][0]
+  await onFinish({
+    text: 'Hi there',
+    reasoning: undefined,
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    finishReason: 'stop',
+    providerMetadata: undefined
+  })
+  return response
+}
+
+describe('POST /api/chat', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockAuthorizeModelRequest.mockResolvedValue({
+      ok: true,
+      modelInfo,
+      resolution: { ok: true, adapter: target.adapter, model: target.model, source: target.source }
+    })
+    mockBuildFailoverTargets.mockReturnValue([target])
+    mockStreamText.mockReturnValue({
+      consumeStream: jest.fn(),
+      mergeIntoDataStream: jest.fn()
+    })
+    mockCreateDataStreamResponse.mockImplementation(({ execute }) => {
+      execute(dataStream)
+      return new Response('stream')
+    })
+    mockGetDocumentChunkStore.mockReturnValue({
+      getConversationDocumentIds: jest.fn(() => Promise.resolve([]))
+    })
+    mockStreamWithFailover.mockImplementation(async (targets, createStream) => ({
+      result: createStream(targets[0], new AbortController().signal),
+      target: targets[0],
+      attempts: []
+    }))
+  })
+
+  it('saves the assistant reply for signed-in users', async () => {
+    const supabase = mockSupabase({ id: 'user-1' })
+
+    const response = await sendAndFinish({ conversationId: 'conversation-1' })
+
+    expect(response.status).toBe(200)
+    expect(mockRecordUsage).toHaveBeenCalledWith(supabase, 'user-1', expect.objectContaining({ route: 'chat' }))
+    expect(mockSaveAssistantMessage).toHaveBeenCalledWith(supabase, expect.objectContaining({
+      conversationId: 'conversation-1',
+      text: 'Hi there'
+    }))
+  })
+
+  it('saves the reply under the user message it answers', async () => {
+    mockSupabase({ id: 'user-1' })
+
+    await sendAndFinish({ conversationId: 'conversation-1', parentMessageId: 'message-1' })
+
+    expect(mockSaveAssistantMessage).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      parentMessageId: 'message-1'
+    }))
+  })
+
+  it('records usage against the model that answered after a failover', async () => {
+    const supabase = mockSupabase({ id: 'user-1' })
+    const fallbackModel = getModelById('gpt-4o-mini')!
+    mockStreamWithFailover.mockImplementation(async (_targets, createStream) => {
+      const fallback = { ...target, modelInfo: fallbackModel }
+      return { result: createStream(fallback, new AbortController().signal), target: fallback, attempts: [{}] }
+    })
+
+    await sendAndFinish({ conversationId: 'conversation-1' })
+
+    expect(mockRecordUsage).toHaveBeenCalledWith(supabase, 'user-1', expect.objectContaining({ model: fallbackModel }))
+  })
+
+  it('saves the assistant reply for anonymous sessions', async () => {
+    const supabase = mockSupabase(null)
+
+    const response = await sendAndFinish({ conversationId: 'conversation-1' })
+
+    expect(response.status).toBe(200)
+    // Anonymous usage is counted by the visitor quota, not the usage ledger
+    expect(mockRecordUsage).not.toHaveBeenCalled()
+    expect(mockSaveAssistantMessage).toHaveBeenCalledWith(supabase, expect.objectContaining({
+      conversationId: 'conversation-1',
+      text: 'Hi there',
+      servedModel: modelInfo
+    }))
+  })
+
+  it('rejects viewers before checking model access', async () => {
+    mockSupabase({ id: 'user-1' }, 'viewer')
+
+    const response = await POST(chatRequest({ conversationId: 'conversation-1' }))
+
+    expect(response.status).toBe(403)
+    expect(mockAuthorizeModelRequest).not.toHaveBeenCalled()
+    expect(mockStreamText).not.toHaveBeenCalled()
+  })
+
+  it('rejects users who are not members of the conversation', async () => {
+    const supabase = mockSupabase({ id: 'user-1' }, null)
+
+    const response = await POST(chatRequest({ conversationId: 'conversation-1' }))
+
+    expect(response.status).toBe(404)
+    expect(supabase.rpc).toHaveBeenCalledWith('conversation_role', { p_conversation_id: 'conversation-1' })
+    expect(mockAuthorizeModelRequest).not.toHaveBeenCalled()
+  })
+
+  it('lets editors send messages', async () => {
+    mockSupabase({ id: 'user-1' }, 'editor')
+
+    const response = await POST(chatRequest({ conversationId: 'conversation-1' }))
+
+    expect(response.status).toBe(200)
+    expect(mockAuthorizeModelRequest).toHaveBeenCalled()
+  })
+
+  it('streams document sources ahead of the answer', async () => {
+    mockSupabase({ id: 'user-1' })
+    mockGetDocumentChunkStore.mockReturnValue({
+      getConversationDocumentIds: jest.fn(() => Promise.resolve(['doc-1'])),
+      search: jest.fn(() => Promise.resolve({
+        results: [{
+          document: { id: 'doc-1', filename: 'report.pdf' },
+          chunk: { id: 'chunk_0', pageNumber: 2, content: 'Revenue grew 12%.' },
+          relevanceScore: 0.8
+        }]
+      }))
+    })
+
+    await sendAndFinish({ conversationId: 'conversation-1' })
+
+    const [annotation] = dataStream.writeMessageAnnotation.mock.calls[0]
+    expect(getAnnotatedSources([annotation])).toEqual([
+      expect.objectContaining({ index: 1, filename: 'report.pdf', pageNumber: 2 })
+    ])
+    expect(mockStreamText.mock.calls[0][0].system).toContain('[SOURCE 1: report.pdf (Page 2)]')
+    expect(mockSaveAssistantMessage).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      sources: [expect.objectContaining({ index: 1 })]
+    }))
+  })
+
+  it('does not save replies outside a conversation', async () => {
+    mockSupabase(null)
+
+    await sendAndFinish({})
+
+    expect(mockSaveAssistantMessage).not.toHaveBeenCalled()
+  })
+})
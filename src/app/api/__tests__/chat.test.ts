@@ -44,6 +44,7 @@ jest.mock('@/lib/file-utils', () => ({
 
 // Mock reasoning prompt
 jest.mock('@/lib/reasoning', () => ({
+  ...jest.requireActual('@/lib/reasoning'),
   REASONING_SYSTEM_PROMPT: 'Test reasoning prompt'
 }))
 
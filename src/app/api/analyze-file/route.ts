@@ -1,6 +1,9 @@
-import { streamText } from 'ai'
+import { streamText, type LanguageModelUsage } from 'ai'
 import { anthropic } from '@ai-sdk/anthropic'
 import { openai } from '@ai-sdk/openai'
+import { createServerClient } from '@/lib/supabase'
+import { getModelById } from '@/lib/models'
+import { checkQuota, getQuotaErrorBody, recordUsage, releaseQuota } from '@/lib/quota-policy'
 
 export async function POST(req: Request) {
   const startTime = Date.now()
@@ -27,6 +30,33 @@ export async function POST(req: Request) {
       return new Response('Missing required fields', { status: 400 })
     }
 
+    const modelInfo = getModelById(model)
+    if (!modelInfo) {
+      return new Response(JSON.stringify({ error: `Model "${model}" not found`, type: 'model_not_found' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+
+    // File analysis runs on server keys, so it counts against the user's quota plan
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Please sign in to analyze files.', type: 'authentication_required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+    const quota = await checkQuota(supabase, user.id, { route: 'analyze-file', model: modelInfo })
+    if (!quota.allowed) {
+      return new Response(JSON.stringify(getQuotaErrorBody(quota)), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    }
+    const onFinish = ({ usage }: { usage: LanguageModelUsage }) =>
+      recordUsage(supabase, user.id, { route: 'analyze-file', model: modelInfo, usage, provider, latencyMs: Date.now() - startTime, reservationId: quota.reservationId })
+
     // Build analysis prompt based on file type and analysis type
     let analysisPrompt = ''
     
@@ -86,6 +116,7 @@ Be comprehensive and helpful.`
             messages,
             temperature: 0.3, // Lower temperature for more focused analysis
             maxTokens: 2000,
+            onFinish,
           })
         } else {
           throw new Error('Invalid Anthropic API key')
@@ -105,6 +136,7 @@ Be comprehensive and helpful.`
             messages,
             temperature: 0.3,
             maxTokens: 2000,
+            onFinish,
           })
         } else {
           throw new Error('Invalid OpenAI API key')
@@ -126,6 +158,8 @@ Be comprehensive and helpful.`
         message: aiError instanceof Error ? aiError.message : 'Unknown error',
         stack: aiError instanceof Error ? aiError.stack : undefined
       })
+      // No analysis was produced, so the request doesn't count against the quota
+      await releaseQuota(user.id, quota.reservationId)
       
       // Fallback error response
       return new Response(
@@ -1,34 +1,93 @@
-import { streamText } from "ai";
-import { getVertexAIProvider } from "@/lib/vertex-ai-provider";
-import { getModelById, type AIModel } from "@/lib/models";
+import { after } from "next/server";
+import { createDataStreamResponse, streamText, type Message } from "ai";
+import { calculateModelCost } from "@/lib/models";
+import { OPENROUTER_FEE_PERCENTAGE } from "@/lib/openrouter";
 import { createServerClient } from "@/lib/supabase";
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
-import { ServerUsageTracker } from "@/lib/usage-tracker-server";
+import { buildFailoverTargets, FailoverError, streamWithFailover } from "@/lib/provider-failover";
+import { recordUsage, releaseQuota } from "@/lib/quota-policy";
+import { authorizeModelRequest } from "@/lib/model-access";
+import {
+  applyAnonymousQuotaHeaders,
+  getAnonymousQuota,
+  identifyAnonymousVisitor,
+  releaseAnonymousQuota,
+  type AnonymousQuota,
+  type AnonymousVisitor
+} from "@/lib/anonymous-quota";
+import { saveAssistantMessage } from "@/lib/chat-persistence";
+import { canEditConversation, getConversationRole } from "@/lib/conversation-collaboration";
+import { refreshConversationSummary, summarizeCompressedTurns } from "@/lib/conversation-summary";
+import {
+  estimateTokens,
+  formatCompressedContext,
+  getContentText,
+  getContextBudget,
+  planContextWindow,
+  type ContextMessage
+} from "@/lib/context-window";
+import { getDocumentChunkStore } from "@/lib/document-chunk-store";
+import { buildSourcesFromSearch, formatSourcesForPrompt, sourcesAnnotation, type RAGSource } from "@/lib/rag-citations";
+import { getReasoningProviderOptions, getReasoningTokens, isReasoningBudget } from "@/lib/reasoning";
+import {
+  DEFAULT_CONVERSATION_SETTINGS,
+  getGenerationOptions,
+  settingsFromConversation,
+  type ConversationSettings
+} from "@/lib/conversation-settings";
 
 const isDev = process.env.NODE_ENV === "development";
 const log = isDev ? console.log : () => {};
 const logError = console.error; // Always log errors
 
+// Number of document chunks retrieved for each user turn
+const RAG_CONTEXT_CHUNKS = 5;
+
+const BASE_SYSTEM_PROMPT = "You are a helpful AI assistant. Provide comprehensive, detailed, and accurate responses. When users ask about topics, give thorough explanations with background information, examples, and practical details. Be informative and complete in your answers.";
+
+// Anonymous visitor and quota for the current request, reported in headers on every response
+interface AnonymousUsage {
+  visitor?: AnonymousVisitor;
+  quota?: AnonymousQuota;
+}
+
 export async function POST(req: Request) {
+  const anonymous: AnonymousUsage = {};
+  const response = await handleChat(req, anonymous);
+  
+  const { visitor } = anonymous;
+  if (visitor) {
+    let quota = anonymous.quota ?? null;
+    if (!quota) {
+      // Requests turned away before the quota was checked still report it
+      quota = await getAnonymousQuota(visitor).catch(error => {
+        logError("[CHAT API] Failed to load anonymous usage:", error);
+        return null;
+      });
+    }
+    applyAnonymousQuotaHeaders(response.headers, visitor, quota);
+  }
+  return response;
+}
+
+async function handleChat(req: Request, anonymous: AnonymousUsage): Promise<Response> {
   try {
     const body = await req.json();
     const { 
       messages = [],
       model = "gemini-2.5-flash-vertex",
-      conversationId 
+      conversationId,
+      parentMessageId,
+      openRouterApiKey,
+      reasoningBudget
     } = body;
     
     
     // Get user authentication status
     const supabase = await createServerClient();
     const { data: { user } } = await supabase.auth.getUser();
-    const isAuthenticated = !!user;
-    const userId = user?.id || 'anonymous';
-    
-    // Initialize usage tracker
-    const usageTracker = new ServerUsageTracker();
-    const currentUsage = await usageTracker.getUsage(user?.id);
+    if (!user) {
+      anonymous.visitor = identifyAnonymousVisitor(req.headers);
+    }
     
     // Get user preferences for traits
     let userTraits: string | null = null;
@@ -53,232 +112,231 @@ export async function POST(req: Request) {
     }
     
     
-    const modelInfo = getModelById(model);
-    if (!modelInfo) {
-      return new Response(JSON.stringify({
-        error: `Model "${model}" not found`,
-        type: "model_not_found"
-      }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" }
-      });
-    }
-    
-    // Check usage limits
-    if (!isAuthenticated) {
-      // Anonymous users - check if they can use Vertex AI models
-      const canUseModel = await usageTracker.canUseModel(undefined, 'vertex-ai', model);
-      if (!canUseModel) {
+    // Viewers of a shared conversation can read along but not send messages
+    if (user && conversationId) {
+      const role = await getConversationRole(supabase, conversationId);
+      if (!canEditConversation(role)) {
         return new Response(JSON.stringify({
-          error: "You have reached your daily limit of 10 free requests. Please sign in to continue.",
-          type: "usage_limit",
-          remainingCalls: 0
+          error: role ? "Viewers cannot send messages in this conversation" : "Conversation not found",
+          type: "forbidden"
         }), {
-          status: 429,
+          status: role ? 403 : 404,
           headers: { "Content-Type": "application/json" }
         });
       }
-    } else {
-      // Authenticated users - check based on model tier
-      if (!currentUsage.byokEnabled) {
-        const canUseModel = await usageTracker.canUseModel(user.id, modelInfo.tier, model);
-        if (modelInfo.tier === "special" && !canUseModel) {
-          return new Response(JSON.stringify({
-            error: "You have reached your daily limit of 2 Claude requests. You can still use other models or enable BYOK in settings.",
-            type: "usage_limit",
-            remainingCalls: 0
-          }), {
-            status: 429,
-            headers: { "Content-Type": "application/json" }
-          });
-        } else if (modelInfo.tier !== "special" && !canUseModel) {
-          return new Response(JSON.stringify({
-            error: "You have reached your daily limit of 20 requests. Please try again tomorrow or enable BYOK in settings.",
-            type: "usage_limit",
-            remainingCalls: 0
-          }), {
-            status: 429,
-            headers: { "Content-Type": "application/json" }
-          });
-        }
-      }
     }
     
-    // Check tier-based access control
-    if (!isAuthenticated && modelInfo.tier !== "vertex-ai") {
-      return new Response(JSON.stringify({
-        error: "Anonymous users can only use Vertex AI models. Please sign in to access premium models.",
-        type: "authentication_required",
-        modelInfo: {
-          id: modelInfo.id,
-          tier: modelInfo.tier,
-          provider: modelInfo.provider
-        }
-      }), {
-        status: 401,
+    // Tier access, BYOK credentials, provider resolution and usage limits - shared with the other model routes
+    const access = await authorizeModelRequest(
+      supabase,
+      { user, visitor: anonymous.visitor },
+      { route: "chat", modelId: model, openRouterApiKey }
+    );
+    anonymous.quota = access.anonymousQuota;
+    if (!access.ok) {
+      return new Response(JSON.stringify(access.body), {
+        status: access.status,
         headers: { "Content-Type": "application/json" }
       });
     }
     
-    // Handle Vertex AI models (for anonymous users and authenticated users)
-    // Support both "vertex-ai" and "google" providers that use Vertex AI
-    if ((modelInfo.tier === "vertex-ai" && modelInfo.provider === "vertex-ai") || 
-        (modelInfo.provider === "google")) {
-      
-      const vertexProvider = getVertexAIProvider();
-      
-      if (!vertexProvider || !vertexProvider.isAvailable) {
-        return new Response(JSON.stringify({
-          error: "Vertex AI is not configured. Please set up Google Cloud credentials.",
-          type: "vertex_ai_error"
-        }), {
-          status: 500,
-          headers: { "Content-Type": "application/json" }
-        });
+    const { modelInfo, resolution, credentials, usageReservationId } = access;
+    const { adapter, source } = resolution;
+    
+    // Conversation settings override the default system prompt and sampling parameters
+    let conversationSettings: ConversationSettings = DEFAULT_CONVERSATION_SETTINGS;
+    let conversationSummary: string | null = null;
+    let pinnedMessages: ContextMessage[] = [];
+    if (user && conversationId) {
+      const [{ data: conversation }, { data: pinned }] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('system_prompt, temperature, top_p, max_output_tokens, stop_sequences, summary')
+          .eq('id', conversationId)
+          .maybeSingle(),
+        supabase
+          .from('messages')
+          .select('id, role, content')
+          .eq('conversation_id', conversationId)
+          .not('pinned_at', 'is', null)
+      ]);
+      if (conversation) {
+        conversationSettings = settingsFromConversation(conversation);
+        conversationSummary = conversation.summary ?? null;
       }
-      
-      const vertexModelId = vertexProvider.getModelId(model);
-      
+      pinnedMessages = pinned || [];
+    }
+    
+    // Retrieve context for the latest user turn from the documents attached to this conversation
+    let sources: RAGSource[] = [];
+    const latestUserMessage = [...messages].reverse().find((m: { role: string }) => m.role === "user");
+    if (user && conversationId && typeof latestUserMessage?.content === "string" && latestUserMessage.content.trim()) {
       try {
-        // Check if vertex is a function or object
-        let modelInstance;
-        if (typeof vertexProvider.vertex === 'function') {
-          modelInstance = vertexProvider.vertex(vertexModelId);
-        } else {
-          modelInstance = vertexProvider.vertex;
+        const store = getDocumentChunkStore();
+        const documentIds = await store.getConversationDocumentIds(conversationId);
+        if (documentIds.length > 0) {
+          const searchResult = await store.search(latestUserMessage.content, RAG_CONTEXT_CHUNKS, documentIds);
+          sources = buildSourcesFromSearch(searchResult);
+          log(`[CHAT API] Injecting ${sources.length} document chunks from ${documentIds.length} documents`);
         }
-        
-        const baseSystemPrompt = "You are a helpful AI assistant. Provide comprehensive, detailed, and accurate responses. When users ask about topics, give thorough explanations with background information, examples, and practical details. Be informative and complete in your answers.";
-        const systemPrompt = userTraits ? `${baseSystemPrompt}\n\n${userTraits}` : baseSystemPrompt;
-        
-        const result = await streamText({
-          model: modelInstance,
-          messages: messages,
-          system: systemPrompt,
-          temperature: 0.7,
-          maxTokens: 4000,
-        });
-        
-        // Increment usage counter
-        if (!currentUsage.byokEnabled) {
-          await usageTracker.incrementUsage(userId, model);
-          
-          // For anonymous users, include usage info in response headers
-          if (!user) {
-            const updatedUsage = await usageTracker.getUsage(undefined);
-            const response = result.toDataStreamResponse();
-            response.headers.set('X-Usage-Count', String(updatedUsage.premiumCalls));
-            response.headers.set('X-Usage-Limit', '10');
-            return response;
-          }
-        }
-        
-        return result.toDataStreamResponse();
-      } catch (vertexError) {
-        logError("[VERTEX AI] Error:", vertexError);
-        return new Response(JSON.stringify({
-          error: `Vertex AI error: ${vertexError instanceof Error ? vertexError.message : 'Unknown error'}`,
-          type: "vertex_ai_error"
-        }), {
-          status: 500,
-          headers: { "Content-Type": "application/json" }
-        });
+      } catch (ragError) {
+        // Answer without document context rather than failing the request
+        logError("[CHAT API] Document retrieval failed:", ragError);
       }
     }
     
-    // Handle OpenAI models (for authenticated users)
-    if (modelInfo.provider === "openai") {
+    try {
+      const basePrompt = conversationSettings.systemPrompt || BASE_SYSTEM_PROMPT;
+      let systemPrompt = [basePrompt, userTraits, formatSourcesForPrompt(sources)]
+        .filter(Boolean)
+        .join("\n\n");
       
-      if (!process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY === 'your-openai-api-key') {
-        return new Response(JSON.stringify({
-          error: "OpenAI is not configured. Please set up your OpenAI API key.",
-          type: "openai_error"
-        }), {
-          status: 500,
-          headers: { "Content-Type": "application/json" }
-        });
-      }
+      // Walk the model's fallback chain until a provider starts streaming
+      const targets = buildFailoverTargets(modelInfo, resolution, credentials);
       
-      try {
-        const result = await streamText({
-          model: openai(modelInfo.id),
-          messages: messages,
-          system: userTraits || undefined,
-          temperature: 0.7,
-          maxTokens: 4000,
-        });
-        
-        // Increment usage counter for authenticated users
-        if (!currentUsage.byokEnabled && user) {
-          await usageTracker.incrementUsage(user.id, model);
+      // Fit the history into the smallest window in the chain so a fallback never overflows.
+      // Document context lives in the system prompt and pinned messages are always kept.
+      const smallestWindow = targets.reduce((smallest, target) =>
+        target.modelInfo.maxTokens < smallest.maxTokens ? target.modelInfo : smallest, modelInfo);
+      const pinnedKeys = new Set(pinnedMessages.map(message => `${message.role}:${getContentText(message.content)}`));
+      const pinnedIds = new Set(pinnedMessages.map(message => message.id));
+      const contextWindow = planContextWindow<Message>({
+        messages,
+        systemTokens: estimateTokens(systemPrompt, modelInfo.provider),
+        budgetTokens: getContextBudget(smallestWindow, getGenerationOptions(conversationSettings, smallestWindow).maxTokens),
+        provider: modelInfo.provider,
+        isPinned: message => pinnedIds.has(message.id) || pinnedKeys.has(`${message.role}:${getContentText(message.content)}`)
+      });
+      let contextSummarized = false;
+      if (contextWindow.compressed.length > 0) {
+        // Prefer the stored rolling summary; summarise the dropped turns only when there is none
+        const summary = conversationSummary || await summarizeCompressedTurns(contextWindow.compressed, user
+          ? (usage, summaryModel, latencyMs) => recordUsage(supabase, user.id, { route: "summary", model: summaryModel, usage, conversationId, latencyMs })
+          : undefined);
+        if (summary) {
+          systemPrompt += "\n\n" + formatCompressedContext(summary, contextWindow.compressed.length);
+          contextSummarized = true;
         }
-        
-        return result.toDataStreamResponse();
-      } catch (openaiError) {
-        logError("[OPENAI] Error:", openaiError);
-        return new Response(JSON.stringify({
-          error: `OpenAI error: ${openaiError instanceof Error ? openaiError.message : 'Unknown error'}`,
-          type: "openai_error"
-        }), {
-          status: 500,
-          headers: { "Content-Type": "application/json" }
-        });
+        log(`[CHAT API] Compressed ${contextWindow.compressed.length} of ${messages.length} messages to fit ${contextWindow.budgetTokens} tokens`);
       }
-    }
-    
-    // Handle Anthropic models (for authenticated users)
-    if (modelInfo.provider === "anthropic") {
+      log(`[CHAT API] Streaming ${modelInfo.id} via ${adapter.name} (${source}), ${targets.length - 1} fallbacks`);
+      const startedAt = Date.now();
+      let firstTokenAt = startedAt;
+      let failoverAttempts = 0;
+      const { result, target, attempts } = await streamWithFailover(targets, (candidate, abortSignal) => streamText({
+        model: candidate.model,
+        messages: contextWindow.messages,
+        system: systemPrompt,
+        // Re-clamped per candidate since a fallback model may have a smaller output limit
+        ...getGenerationOptions(conversationSettings, candidate.modelInfo),
+        maxRetries: 0, // Retries are handled by the failover loop
+        // Reasoning models stream their thinking alongside the answer
+        providerOptions: getReasoningProviderOptions(
+          candidate.modelInfo,
+          candidate.adapter.id,
+          isReasoningBudget(reasoningBudget) ? reasoningBudget : "default"
+        ),
+        abortSignal,
+        onFinish: async ({ text, reasoning, usage, finishReason, providerMetadata }) => {
+          // Every call lands in the usage ledger under the model that actually answered, at its price;
+          // only server-key calls count against the plan
+          if (user) {
+            await recordUsage(supabase, user.id, {
+              route: "chat",
+              model: candidate.modelInfo,
+              usage,
+              costUsd: calculateModelCost(
+                candidate.modelInfo,
+                usage.promptTokens || 0,
+                usage.completionTokens || 0,
+                candidate.adapter.id === "openrouter" ? OPENROUTER_FEE_PERCENTAGE : 0
+              ).total,
+              provider: candidate.adapter.id,
+              source: candidate.source,
+              conversationId,
+              latencyMs: Date.now() - startedAt,
+              reservationId: usageReservationId
+            });
+          }
+          // Assistant messages are persisted here rather than by the client, with real token usage.
+          // Anonymous sessions keep their conversations through the anon role's grants, so they are saved too.
+          if (!conversationId) return;
+          await saveAssistantMessage(supabase, {
+            conversationId,
+            parentMessageId,
+            text,
+            requestedModel: modelInfo.id,
+            servedModel: candidate.modelInfo,
+            provider: candidate.adapter.id,
+            source: candidate.source,
+            failoverAttempts,
+            usage,
+            reasoning,
+            reasoningTokens: getReasoningTokens(providerMetadata),
+            finishReason,
+            startedAt,
+            firstTokenAt,
+            sources
+          });
+        },
+      }));
+      firstTokenAt = Date.now();
+      failoverAttempts = attempts.length;
       
-      if (!process.env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY === 'your-anthropic-api-key') {
-        return new Response(JSON.stringify({
-          error: "Anthropic is not configured. Please set up your Anthropic API key.",
-          type: "anthropic_error"
-        }), {
-          status: 500,
-          headers: { "Content-Type": "application/json" }
-        });
+      // Keep generating and persist the answer even if the client goes away mid-stream
+      result.consumeStream();
+      
+      // Title and rolling summary are generated once the response (and its onFinish save) is done
+      if (user && conversationId) {
+        after(() => refreshConversationSummary(supabase, conversationId, user.id));
       }
       
-      try {
-        const result = await streamText({
-          model: anthropic(modelInfo.id),
-          messages: messages,
-          system: userTraits || undefined,
-          temperature: 0.7,
-          maxTokens: 4000,
-        });
-        
-        // Increment usage counter for authenticated users
-        if (!currentUsage.byokEnabled && user) {
-          await usageTracker.incrementUsage(user.id, model);
+      const response = createDataStreamResponse({
+        execute: dataStream => {
+          if (sources.length > 0) {
+            dataStream.writeMessageAnnotation(sourcesAnnotation(sources));
+          }
+          result.mergeIntoDataStream(dataStream, { sendReasoning: true });
         }
-        
-        return result.toDataStreamResponse();
-      } catch (anthropicError) {
-        logError("[ANTHROPIC] Error:", anthropicError);
-        return new Response(JSON.stringify({
-          error: `Anthropic error: ${anthropicError instanceof Error ? anthropicError.message : 'Unknown error'}`,
-          type: "anthropic_error"
-        }), {
-          status: 500,
-          headers: { "Content-Type": "application/json" }
-        });
+      });
+      
+      // Tell the client which provider actually served the answer so it lands in model_metadata
+      response.headers.set('X-Served-Model', target.modelInfo.id);
+      response.headers.set('X-Served-Provider', target.adapter.id);
+      response.headers.set('X-Served-Source', target.source);
+      response.headers.set('X-Failover-Attempts', String(attempts.length));
+      
+      // How much of the context window the request used and which turns were left out
+      const compressedThrough = contextWindow.compressed[contextWindow.compressed.length - 1];
+      response.headers.set('X-Context-Tokens', String(contextWindow.usedTokens));
+      response.headers.set('X-Context-Budget', String(contextWindow.budgetTokens));
+      response.headers.set('X-Context-Compressed', String(contextWindow.compressed.length));
+      response.headers.set('X-Context-Summarized', contextSummarized ? '1' : '0');
+      if (compressedThrough?.id) {
+        response.headers.set('X-Context-Compressed-Through', compressedThrough.id);
       }
-    }
-    
-    // Fallback for unsupported providers
-    return new Response(JSON.stringify({
-      error: `Provider "${modelInfo.provider}" is not yet implemented.`,
-      type: "provider_not_implemented",
-      modelInfo: {
-        id: modelInfo.id,
-        tier: modelInfo.tier,
-        provider: modelInfo.provider
+      
+      return response;
+    } catch (providerError) {
+      logError(`[${adapter.name.toUpperCase()}] Error:`, providerError);
+      // No model answered, so the request doesn't count against the visitor's quota
+      if (anonymous.quota) {
+        anonymous.quota = await releaseAnonymousQuota(anonymous.visitor!, anonymous.quota);
       }
-    }), {
-      status: 501,
-      headers: { "Content-Type": "application/json" }
-    });
+      if (user) {
+        await releaseQuota(user.id, usageReservationId);
+      }
+      const mapped = providerError instanceof FailoverError
+        ? providerError.toProviderError()
+        : adapter.mapError(providerError);
+      return new Response(JSON.stringify({
+        error: mapped.error,
+        type: mapped.type
+      }), {
+        status: mapped.status,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
     
   } catch (error) {
     logError("[CHAT API] Error:", error);
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import {
+  CollaborationError,
+  createInvite,
+  listCollaborators,
+  removeMember,
+  revokeInvite,
+  updateMemberRole
+} from '@/lib/conversation-collaboration'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(error: unknown, message: string) {
+  if (error instanceof CollaborationError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  console.error('[API Conversation Members] Error:', error)
+  return NextResponse.json({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 })
+}
+
+async function getUser() {
+  const supabase = await createServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  return { supabase, user }
+}
+
+// Members, pending invites (owner only) and the caller's own role
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { supabase, user } = await getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to collaborate' }, { status: 401 })
+    }
+
+    const collaborators = await listCollaborators(supabase, id)
+    return NextResponse.json({ success: true, ...collaborators })
+  } catch (error) {
+    return errorResponse(error, 'Failed to load collaborators')
+  }
+}
+
+// Create an invite link: { role: 'viewer' | 'editor', expiresInDays?: number | null }
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { supabase, user } = await getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to collaborate' }, { status: 401 })
+    }
+
+    const { role, expiresInDays } = await req.json().catch(() => ({}))
+    const invite = await createInvite(supabase, user.id, id, { role, expiresInDays })
+    return NextResponse.json({ success: true, invite }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'Failed to create invite')
+  }
+}
+
+// Change a member's role: { userId, role }
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { supabase, user } = await getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to collaborate' }, { status: 401 })
+    }
+
+    const { userId, role } = await req.json().catch(() => ({}))
+    if (typeof userId !== 'string') {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+    await updateMemberRole(supabase, id, userId, role)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'Failed to update member')
+  }
+}
+
+// Remove a member (?userId=) or revoke an invite (?inviteId=)
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const { supabase, user } = await getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to collaborate' }, { status: 401 })
+    }
+
+    const memberId = req.nextUrl.searchParams.get('userId')
+    const inviteId = req.nextUrl.searchParams.get('inviteId')
+    if (memberId) {
+      await removeMember(supabase, user.id, id, memberId)
+    } else if (inviteId) {
+      await revokeInvite(supabase, id, inviteId)
+    } else {
+      return NextResponse.json({ error: 'Pass userId or inviteId' }, { status: 400 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'Failed to remove collaborator')
+  }
+}
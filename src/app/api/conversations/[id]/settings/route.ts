@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { getModelById } from '@/lib/models'
+import {
+  settingsFromConversation,
+  settingsToConversationUpdate,
+  validateConversationSettings
+} from '@/lib/conversation-settings'
+
+const SETTINGS_COLUMNS = 'id, model_name, system_prompt, temperature, top_p, max_output_tokens, stop_sequences'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage conversation settings' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .select(SETTINGS_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[API Conversation Settings] Fetch error:', error)
+      return NextResponse.json({
+        error: 'Failed to load conversation settings',
+        details: error.message
+      }, { status: 400 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: settingsFromConversation(data)
+    })
+  } catch (error) {
+    console.error('[API Conversation Settings] Error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Partial update; `model` (optional) is the model the settings are validated against
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage conversation settings' }, { status: 401 })
+    }
+
+    const { model, ...input } = await req.json()
+
+    const { data: conversation } = await supabase
+      .from('conversations')
+      .select('id, model_name')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const validation = validateConversationSettings(input, getModelById(model || conversation.model_name))
+    if (!validation.ok) {
+      return NextResponse.json({
+        error: 'Invalid conversation settings',
+        details: validation.errors
+      }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .update({
+        ...settingsToConversationUpdate(validation.settings),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select(SETTINGS_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('[API Conversation Settings] Update error:', error)
+      return NextResponse.json({
+        error: 'Failed to save conversation settings',
+        details: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: settingsFromConversation(data)
+    })
+  } catch (error) {
+    console.error('[API Conversation Settings] Error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { createShareLink, listShareLinks, ShareLinkError } from '@/lib/conversation-share'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Share links created for this conversation, including revoked and expired ones
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to share conversations' }, { status: 401 })
+    }
+
+    const links = await listShareLinks(supabase, user.id, id)
+    return NextResponse.json({ success: true, links })
+  } catch (error) {
+    console.error('[API Conversation Share] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to load share links',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Snapshot a branch (`leafId`, default the newest message) behind a new public link
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to share conversations' }, { status: 401 })
+    }
+
+    const { leafId, expiresInDays = null } = await req.json().catch(() => ({}))
+    const link = await createShareLink(supabase, user.id, {
+      conversationId: id,
+      leafId: typeof leafId === 'string' ? leafId : undefined,
+      expiresInDays
+    })
+
+    console.log('[API Conversation Share] Created share link for:', id)
+    return NextResponse.json({ success: true, link }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[API Conversation Share] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to create share link',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { decodeCursor, getConversationArchive } from '@/lib/conversation-archive'
+
+/**
+ * Stream the user's conversations as NDJSON (default) or a zip archive with attachments.
+ * Pass the last `cursor` seen in an NDJSON progress record to resume an interrupted export, with
+ * the same optional `folder` and `tag` ids to export only that part of the sidebar.
+ */
+export async function GET(req: NextRequest) {
+  const format = req.nextUrl.searchParams.get('format') || 'ndjson'
+  const cursor = req.nextUrl.searchParams.get('cursor')
+  const filter = {
+    folderId: req.nextUrl.searchParams.get('folder'),
+    tagId: req.nextUrl.searchParams.get('tag')
+  }
+  console.log('[API Conversations Export] Exporting as', format, cursor ? '(resuming)' : '')
+
+  if (format !== 'ndjson' && format !== 'zip') {
+    return NextResponse.json({
+      error: 'Invalid format',
+      details: 'Use ndjson or zip'
+    }, { status: 400 })
+  }
+
+  try {
+    decodeCursor(cursor)
+  } catch (error) {
+    return NextResponse.json({
+      error: 'Invalid cursor',
+      details: error instanceof Error ? error.message : undefined
+    }, { status: 400 })
+  }
+
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const archive = getConversationArchive()
+    const date = new Date().toISOString().split('T')[0]
+    const stream = format === 'zip' ? archive.exportZip(user.id, cursor, filter) : archive.exportNdjson(user.id, cursor, filter)
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': format === 'zip' ? 'application/zip' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="t3-chat-export-${date}.${format === 'zip' ? 'zip' : 'ndjson'}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('[API Conversations Export] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to export conversations',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
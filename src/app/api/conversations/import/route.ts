@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { getConversationArchive } from '@/lib/conversation-archive'
+
+/**
+ * Import an NDJSON archive (a header line, then one conversation record per line). Progress is
+ * streamed back as NDJSON; conversations that already exist are skipped, so an interrupted
+ * import can simply be sent again.
+ */
+export async function POST(req: NextRequest) {
+  console.log('[API Conversations Import] Starting import')
+
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!req.body) {
+      return NextResponse.json({
+        error: 'Missing request body',
+        details: 'Send the archive as NDJSON'
+      }, { status: 400 })
+    }
+
+    return new Response(getConversationArchive().importNdjson(user.id, req.body), {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('[API Conversations Import] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to import conversations',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase'
+import { getModelById } from '@/lib/models'
+import { settingsToConversationUpdate, validateConversationSettings } from '@/lib/conversation-settings'
 
 export async function POST(req: NextRequest) {
   console.log('[API Conversations] Creating new conversation')
@@ -10,9 +12,26 @@ export async function POST(req: NextRequest) {
       title = 'New Chat',
       model_provider = 'anthropic',
       model_name = 'claude-3-5-sonnet-20241022',
-      system_prompt = null
+      system_prompt = null,
+      ...generationSettings
     } = body
     
+    // Optional generation settings, validated against the conversation's model
+    const settingsInput = Object.fromEntries(Object.entries({
+      systemPrompt: system_prompt,
+      temperature: generationSettings.temperature,
+      topP: generationSettings.top_p,
+      maxOutputTokens: generationSettings.max_output_tokens,
+      stopSequences: generationSettings.stop_sequences
+    }).filter(([, value]) => value !== undefined))
+    const validation = validateConversationSettings(settingsInput, getModelById(model_name))
+    if (!validation.ok) {
+      return NextResponse.json({ 
+        error: 'Invalid conversation settings',
+        details: validation.errors 
+      }, { status: 400 })
+    }
+    
     const supabase = await createServerClient()
     
     // Get authenticated user or use demo user
@@ -29,7 +48,7 @@ export async function POST(req: NextRequest) {
         user_id: userId,
         model_provider,
         model_name,
-        system_prompt
+        ...settingsToConversationUpdate(validation.settings)
       })
       .select()
       .single()
@@ -1,86 +1,194 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@/lib/supabase'
-import { taskExtractor } from '@/lib/task-extractor'
+import {
+  selectExtractionMessages,
+  selectMessageRange,
+  taskExtractor,
+  TaskScopeError,
+  type ConversationMessage,
+  type ExtractionScope
+} from '@/lib/task-extractor'
+import { authorizeModelRequest } from '@/lib/model-access'
+import { loadTaskBoard, syncExtractedTasks, toExtractionResult } from '@/lib/task-board'
+import { recordUsage, releaseQuota } from '@/lib/quota-policy'
+import {
+  applyAnonymousQuotaHeaders,
+  identifyAnonymousVisitor,
+  releaseAnonymousQuota,
+  type AnonymousQuota
+} from '@/lib/anonymous-quota'
 import { logger } from '@/lib/logger'
 
+// Same default as /api/chat
+const DEFAULT_MODEL_ID = 'gemini-2.5-flash-vertex'
+
+// Messages sent in the request body (conversations that aren't saved) are capped at this many
+const MAX_CLIENT_MESSAGES = 200
+
+/**
+ * Stream tasks extracted from a conversation as a JSON text stream of a TaskExtractionResult,
+ * using the model the user picked with the same provider resolution and usage limits as chat.
+ * Signed-in users pass `conversationId`; unsaved (e.g. anonymous) conversations send `messages`.
+ * `leafId` picks a branch and `fromMessageId`/`toMessageId` a range of it. Tasks from saved
+ * conversations are merged into the user's stored tasks once the extraction finishes.
+ */
 export async function POST(request: NextRequest) {
+  let anonymousQuota: AnonymousQuota | null = null
+
   try {
-    const { conversationId } = await request.json()
-    
-    if (!conversationId) {
+    const {
+      conversationId,
+      messages: clientMessages,
+      model = DEFAULT_MODEL_ID,
+      openRouterApiKey,
+      leafId,
+      fromMessageId,
+      toMessageId
+    } = await request.json()
+    const scope: ExtractionScope = { leafId, fromMessageId, toMessageId }
+
+    if (!conversationId && !Array.isArray(clientMessages)) {
       return NextResponse.json(
-        { error: 'Conversation ID is required' },
+        { error: 'Conversation ID or messages are required' },
         { status: 400 }
       )
     }
 
     logger.group('extract-tasks API')
-    logger.info('Extracting tasks for conversation', { conversationId })
+    logger.info('Extracting tasks', { conversationId, model, scope })
 
-    // Get messages from the conversation
     const supabase = await createServerClient()
-    const { data: messages, error } = await supabase
-      .from('messages')
-      .select('id, content, role, created_at')
-      .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true })
-
-    if (error) {
-      logger.error('Failed to fetch messages', error)
-      return NextResponse.json(
-        { error: 'Failed to fetch conversation messages' },
-        { status: 500 }
+    const { data: { user } } = await supabase.auth.getUser()
+    const visitor = user ? undefined : identifyAnonymousVisitor(request.headers)
+    const respond = (response: Response) => {
+      if (visitor) applyAnonymousQuotaHeaders(response.headers, visitor, anonymousQuota)
+      return response
+    }
+
+    let messages: ConversationMessage[]
+    let summary: string | null = null
+    let knownTasks: string[] = []
+    if (conversationId) {
+      if (!user) {
+        return respond(NextResponse.json(
+          { error: 'Please sign in to extract tasks from saved conversations.', type: 'authentication_required' },
+          { status: 401 }
+        ))
+      }
+
+      const [{ data: rows, error }, { data: conversation }, { data: stored }] = await Promise.all([
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('conversations')
+          .select('summary')
+          .eq('id', conversationId)
+          .maybeSingle(),
+        supabase
+          .from('tasks')
+          .select('title')
+          .eq('user_id', user.id)
+          .eq('conversation_id', conversationId)
+      ])
+
+      if (error) {
+        logger.error('Failed to fetch messages', error)
+        return respond(NextResponse.json(
+          { error: 'Failed to fetch conversation messages' },
+          { status: 500 }
+        ))
+      }
+
+      messages = selectExtractionMessages(rows || [], scope)
+      knownTasks = (stored || []).map(task => task.title)
+      // The rolling summary covers the whole conversation, so it only helps when extracting from all of it
+      if (!leafId && !fromMessageId && !toMessageId) {
+        summary = conversation?.summary ?? null
+      }
+    } else {
+      const turns: ConversationMessage[] = clientMessages.filter(
+        (message: { role?: string }) => message?.role === 'user' || message?.role === 'assistant'
       )
+      messages = selectMessageRange(turns, scope).slice(-MAX_CLIENT_MESSAGES)
     }
 
-    if (!messages || messages.length === 0) {
-      return NextResponse.json({
-        tasks: [],
-        summary: 'No messages found in conversation',
-        totalTasksFound: 0,
-        extractionMetadata: {
-          conversationLength: 0,
-          primaryTopics: [],
-          urgencyLevel: 'low' as const,
-          complexity: 'simple' as const
-        }
-      })
+    if (messages.length === 0) {
+      return respond(NextResponse.json(taskExtractor.emptyResult(0, 'No messages found in conversation')))
     }
 
-    // Extract tasks using AI
-    logger.info('About to extract tasks', { 
-      messageCount: messages.length,
-      firstMessage: messages[0] ? {
-        type: typeof messages[0].content,
-        content: messages[0].content,
-        role: messages[0].role,
-        hasText: messages[0].content?.text !== undefined
-      } : 'No messages'
-    })
-    
-    // Log all message contents for debugging
-    messages.forEach((msg, index) => {
-      logger.info(`Message ${index}:`, {
-        role: msg.role,
-        contentType: typeof msg.content,
-        content: msg.content,
-        contentKeys: msg.content && typeof msg.content === 'object' ? Object.keys(msg.content) : []
-      })
-    })
-    
-    const result = await taskExtractor.extractTasks(messages)
-    
-    // Optionally save tasks to database for persistence
-    // This could be implemented later with a tasks table
-    
-    logger.info('Task extraction successful', { 
-      tasksFound: result.totalTasksFound,
-      conversationLength: messages.length 
+    const access = await authorizeModelRequest(
+      supabase,
+      { user, visitor },
+      { route: 'extract-tasks', modelId: model, openRouterApiKey }
+    )
+    anonymousQuota = access.anonymousQuota ?? null
+    if (!access.ok) {
+      return respond(NextResponse.json(access.body, { status: access.status }))
+    }
+
+    const { modelInfo, resolution, usageReservationId } = access
+    const startedAt = Date.now()
+    const result = taskExtractor.streamTasks(resolution.model, messages, {
+      summary,
+      knownTasks,
+      abortSignal: request.signal,
+      onError: async () => {
+        // No tasks came back, so the request doesn't count against the visitor's or user's quota
+        if (visitor && anonymousQuota) {
+          await releaseAnonymousQuota(visitor, anonymousQuota)
+        }
+        if (user) {
+          await releaseQuota(user.id, usageReservationId)
+        }
+      },
+      onFinish: async ({ object, usage }) => {
+        if (!user) return
+        await recordUsage(supabase, user.id, {
+          route: 'extract-tasks',
+          model: modelInfo,
+          usage,
+          provider: resolution.adapter.id,
+          source: resolution.source,
+          conversationId,
+          latencyMs: Date.now() - startedAt,
+          reservationId: usageReservationId
+        })
+        if (conversationId && object) {
+          try {
+            const messageIds = messages.map(message => message.id).filter((id): id is string => !!id)
+            await syncExtractedTasks(supabase, user.id, conversationId, object.tasks, messageIds)
+          } catch (error) {
+            logger.error('Failed to store extracted tasks', error)
+          }
+        }
+      }
     })
 
-    return NextResponse.json(result)
+    if (!result) {
+      if (visitor && anonymousQuota) {
+        anonymousQuota = await releaseAnonymousQuota(visitor, anonymousQuota)
+      }
+      if (user) {
+        await releaseQuota(user.id, usageReservationId)
+      }
+      return respond(NextResponse.json(taskExtractor.emptyResult(messages.length)))
+    }
+
+    logger.info('Streaming task extraction', {
+      model: modelInfo.id,
+      provider: resolution.adapter.id,
+      source: resolution.source,
+      messageCount: messages.length
+    })
+    return respond(result.toTextStreamResponse())
 
   } catch (error) {
+    if (error instanceof TaskScopeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     logger.error('Task extraction API error', error)
     console.error('Extract tasks API error:', error)
     return NextResponse.json(
@@ -93,7 +201,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint to retrieve cached tasks for a conversation
+// Tasks stored for a conversation, in the same shape as an extraction
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -106,19 +214,17 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // For now, return empty result as we don't have persistent task storage yet
-    // This could query a tasks table in the future
-    return NextResponse.json({
-      tasks: [],
-      summary: 'No cached tasks found',
-      totalTasksFound: 0,
-      extractionMetadata: {
-        conversationLength: 0,
-        primaryTopics: [],
-        urgencyLevel: 'low' as const,
-        complexity: 'simple' as const
-      }
-    })
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Please sign in to see saved tasks.', type: 'authentication_required' },
+        { status: 401 }
+      )
+    }
+
+    const tasks = await loadTaskBoard(supabase, user.id, { conversationId })
+    return NextResponse.json(toExtractionResult(tasks))
 
   } catch (error) {
     logger.error('Task retrieval API error', error)
@@ -127,4 +233,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
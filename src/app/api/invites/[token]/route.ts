@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { acceptInvite } from '@/lib/conversation-collaboration'
+
+type RouteContext = { params: Promise<{ token: string }> }
+
+// Join the invited conversation as the signed-in user
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to accept this invite' }, { status: 401 })
+    }
+
+    const accepted = await acceptInvite(supabase, token)
+    if (!accepted) {
+      return NextResponse.json({ error: 'This invite does not exist, has expired or was revoked' }, { status: 404 })
+    }
+
+    console.log('[API Invites] Accepted invite for:', accepted.conversationId)
+    return NextResponse.json({ success: true, ...accepted })
+  } catch (error) {
+    console.error('[API Invites] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to accept invite',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
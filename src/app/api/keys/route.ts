@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import {
+  API_KEY_PROVIDERS,
+  getApiKeyVault,
+  isApiKeyVaultConfigured,
+  type ApiKeyProvider
+} from '@/lib/api-key-vault'
+
+function isApiKeyProvider(value: unknown): value is ApiKeyProvider {
+  return typeof value === 'string' && API_KEY_PROVIDERS.includes(value as ApiKeyProvider)
+}
+
+async function getAuthenticatedUser() {
+  const supabase = await createServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  return user
+}
+
+// List stored keys (hints only) and the routing preference
+export async function GET() {
+  try {
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage API keys' }, { status: 401 })
+    }
+
+    const vault = getApiKeyVault()
+    if (isApiKeyVaultConfigured()) {
+      await vault.migrateLegacyKeys(user.id)
+    }
+
+    const [keys, credentials] = await Promise.all([
+      vault.listKeys(user.id),
+      vault.getCredentials(user.id)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      vaultConfigured: isApiKeyVaultConfigured(),
+      keys,
+      fallbackToDirectAPIs: credentials.fallbackToDirectAPIs
+    })
+  } catch (error) {
+    console.error('[API Keys] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to load API keys',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Store a key and/or update the routing preference
+export async function PUT(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage API keys' }, { status: 401 })
+    }
+
+    const { provider, apiKey, fallbackToDirectAPIs } = await req.json()
+    const vault = getApiKeyVault()
+
+    if (provider !== undefined) {
+      if (!isApiKeyProvider(provider)) {
+        return NextResponse.json({ error: `Unknown provider "${provider}"` }, { status: 400 })
+      }
+      if (typeof apiKey !== 'string' || apiKey.trim().length < 10) {
+        return NextResponse.json({ error: 'A valid API key is required' }, { status: 400 })
+      }
+      if (!isApiKeyVaultConfigured()) {
+        return NextResponse.json({
+          error: 'API key storage is not configured on this server'
+        }, { status: 503 })
+      }
+      await vault.saveKey(user.id, provider, apiKey.trim())
+    }
+
+    if (typeof fallbackToDirectAPIs === 'boolean') {
+      await vault.setFallbackToDirectAPIs(user.id, fallbackToDirectAPIs)
+    }
+
+    return NextResponse.json({
+      success: true,
+      keys: await vault.listKeys(user.id)
+    })
+  } catch (error) {
+    console.error('[API Keys] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to save API key',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage API keys' }, { status: 401 })
+    }
+
+    const provider = new URL(req.url).searchParams.get('provider')
+    if (!isApiKeyProvider(provider)) {
+      return NextResponse.json({ error: 'Provider is required' }, { status: 400 })
+    }
+
+    const vault = getApiKeyVault()
+    await vault.deleteKey(user.id, provider)
+
+    return NextResponse.json({
+      success: true,
+      keys: await vault.listKeys(user.id)
+    })
+  } catch (error) {
+    console.error('[API Keys] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to delete API key',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -11,8 +11,32 @@ jest.mock('ai', () => ({
   generateObject: jest.fn()
 }))
 
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn()
+}))
+
+jest.mock('@/lib/quota-policy', () => ({
+  ...jest.requireActual('@/lib/quota-policy'),
+  checkQuota: jest.fn(),
+  recordUsage: jest.fn()
+}))
+
+jest.mock('@/lib/vision-analysis', () => ({
+  ...jest.requireActual('@/lib/vision-analysis'),
+  analyzeImage: jest.fn()
+}))
+
 // Import after mocks are set up
 import { POST, GET } from '../route'
+import * as pdfExtraction from '@/lib/pdf-extraction'
+import { createServerClient } from '@/lib/supabase'
+import { checkQuota, DEFAULT_QUOTA_PLAN, recordUsage } from '@/lib/quota-policy'
+import { analyzeImage } from '@/lib/vision-analysis'
+
+const mockCreateServerClient = createServerClient as jest.Mock
+const mockCheckQuota = checkQuota as jest.Mock
+const mockRecordUsage = recordUsage as jest.Mock
+const mockAnalyzeImage = analyzeImage as jest.Mock
 
 // Mock console methods
 const consoleSpy = jest.spyOn(console, 'log').mockImplementation()
@@ -40,22 +64,19 @@ describe('/api/pdf', () => {
         status: 'PDF API is running',
         capabilities: [
           'PDF text extraction',
-          'Document summarization',
-          'Topic identification',
-          'Key points extraction',
-          'Document type classification',
-          'Metadata analysis'
+          'Per-page text',
+          'Metadata extraction (title, author, dates)',
+          'Outline and bookmarks',
+          'Embedded links',
+          'OCR fallback for scanned pages',
+          'Document summarization'
         ],
         models: ['claude-3-5-sonnet-20241022'],
         limitations: [
-          'File size limits apply',
-          'Complex layouts may affect accuracy',
-          'Image extraction not fully implemented'
-        ],
-        notes: [
-          'For production use, integrate with pdf-parse or similar library',
-          'Consider implementing OCR for scanned PDFs',
-          'Add support for password-protected PDFs'
+          'Files are limited to 10MB and 300 pages',
+          'OCR is limited to 10 scanned pages per document',
+          'OCR requires signing in and counts against the vision quota',
+          'Password-protected PDFs are not supported'
         ]
       })
     })
@@ -68,98 +89,144 @@ describe('/api/pdf', () => {
       mockGenerateObject.mockClear()
     })
 
-    it('processes PDF file successfully with AI analysis', async () => {
-      const mockAnalysis = {
-        text: 'This is the extracted PDF content',
-        summary: 'A technical document about software development',
-        title: 'Software Development Guide',
-        topics: ['programming', 'best practices', 'testing'],
-        key_points: [
-          'Use version control',
-          'Write unit tests',
-          'Follow coding standards'
-        ],
-        document_type: 'Technical Manual',
-        pages: 25,
-        language: 'English',
-        metadata: {
-          has_images: true,
-          has_tables: false,
-          has_links: true,
-          estimated_reading_time: '15 minutes'
-        }
+    // Two-page PDF with an Info dictionary, an outline entry for page 2 and a link on page 1
+    function buildPdf(): Buffer {
+      const page1 = 'BT /F1 12 Tf 72 720 Td (Quarterly report on software development practices.) Tj ET'
+      const page2 = 'BT /F1 12 Tf 72 720 Td (Write unit tests and follow coding standards.) Tj ET'
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R /Outlines 9 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 5 0 R /Resources << /Font << /F1 7 0 R >> >> /Annots [11 0 R] >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 6 0 R /Resources << /Font << /F1 7 0 R >> >> >>',
+        `<< /Length ${page1.length} >>\nstream\n${page1}\nendstream`,
+        `<< /Length ${page2.length} >>\nstream\n${page2}\nendstream`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+        '<< /Title (Software Development Guide) /Author (Jane Doe) /CreationDate (D:20240115103000Z) >>',
+        '<< /Type /Outlines /First 10 0 R /Last 10 0 R /Count 1 >>',
+        '<< /Title (Testing) /Parent 9 0 R /Dest [4 0 R /Fit] >>',
+        '<< /Type /Annot /Subtype /Link /Rect [72 700 300 730] /A << /S /URI /URI (https://example.com/guide) >> >>'
+      ]
+
+      let pdf = '%PDF-1.4\n'
+      const offsets = objects.map((object, i) => {
+        const offset = pdf.length
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`
+        return offset
+      })
+      const xref = pdf.length
+      pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+      pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+      pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 8 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+      return Buffer.from(pdf, 'latin1')
+    }
+
+    function pdfRequest(name: string, content: Buffer) {
+      const file = {
+        name,
+        type: 'application/pdf',
+        size: content.length,
+        arrayBuffer: jest.fn().mockResolvedValue(content.buffer.slice(content.byteOffset, content.byteOffset + content.length))
+      }
+      return {
+        formData: jest.fn().mockResolvedValue({ get: jest.fn((key) => key === 'file' ? file : null) })
       }
+    }
 
+    it('extracts text, metadata, outline and links and summarizes the text', async () => {
       mockGenerateObject.mockResolvedValue({
-        object: mockAnalysis
+        object: {
+          summary: 'A guide to software development practices',
+          topics: ['testing'],
+          key_points: ['Write unit tests'],
+          document_type: 'Technical Manual',
+          language: 'English'
+        }
       })
 
-      // Create a mock FormData with file
-      const mockFormData = {
-        get: jest.fn((key) => {
-          if (key === 'file') {
-            return {
-              name: 'test-document.pdf',
-              type: 'application/pdf',
-              size: 1000,
-              arrayBuffer: jest.fn().mockResolvedValue(Buffer.from('fake pdf content'))
-            }
-          }
-          return null
-        })
-      }
-
-      const mockRequest = {
-        formData: jest.fn().mockResolvedValue(mockFormData)
-      }
-
-      const response = await POST(mockRequest as any)
+      const response = await POST(pdfRequest('guide.pdf', buildPdf()) as any)
       const data = await response.json()
 
       expect(response.status).toBe(200)
       expect(data).toMatchObject({
-        ...mockAnalysis,
-        filename: 'test-document.pdf',
-        size: expect.any(Number)
+        summary: 'A guide to software development practices',
+        title: 'Software Development Guide',
+        document_type: 'Technical Manual',
+        pages: 2,
+        metadata: {
+          author: 'Jane Doe',
+          creation_date: '2024-01-15T10:30:00.000Z',
+          has_links: true
+        },
+        outline: [{ title: 'Testing', pageNumber: 2, items: [] }],
+        links: [{ pageNumber: 1, url: 'https://example.com/guide' }],
+        scanned_pages: [],
+        filename: 'guide.pdf'
       })
+      expect(data.page_texts).toEqual([
+        { page: 1, text: 'Quarterly report on software development practices.', ocr: false },
+        { page: 2, text: 'Write unit tests and follow coding standards.', ocr: false }
+      ])
+      expect(data.text).toBe('[Page 1]\nQuarterly report on software development practices.\n\n[Page 2]\nWrite unit tests and follow coding standards.')
+
+      // The model summarizes the extracted text rather than guessing from the filename
+      expect(mockGenerateObject.mock.calls[0][0].prompt).toContain('Write unit tests and follow coding standards.')
     })
 
-    it('provides fallback analysis when AI analysis fails', async () => {
+    it('falls back to an extractive summary when AI analysis fails', async () => {
       mockGenerateObject.mockRejectedValue(new Error('AI analysis failed'))
 
-      const mockFormData = {
-        get: jest.fn((key) => {
-          if (key === 'file') {
-            return {
-              name: 'fallback-test.pdf',
-              type: 'application/pdf',
-              size: 1000,
-              arrayBuffer: jest.fn().mockResolvedValue(Buffer.from('fake pdf content'))
-            }
-          }
-          return null
-        })
-      }
-
-      const mockRequest = {
-        formData: jest.fn().mockResolvedValue(mockFormData)
-      }
-
-      const response = await POST(mockRequest as any)
+      const response = await POST(pdfRequest('fallback-test.pdf', buildPdf()) as any)
       const data = await response.json()
 
       expect(response.status).toBe(200)
       expect(data).toMatchObject({
-        text: 'PDF Document: fallback-test.pdf',
-        summary: expect.stringContaining('Uploaded PDF document'),
-        title: 'fallback-test',
-        topics: ['Document Analysis', 'File Upload'],
+        summary: expect.stringContaining('Quarterly report on software development practices.'),
+        title: 'Software Development Guide',
+        pages: 2,
         document_type: 'PDF Document',
         language: 'Unknown',
         filename: 'fallback-test.pdf'
       })
     })
 
+    it('returns 422 for files that are not valid PDFs', async () => {
+      const response = await POST(pdfRequest('broken.pdf', Buffer.from('fake pdf content')) as any)
+      const data = await response.json()
+
+      expect(response.status).toBe(422)
+      expect(data.error).toBe('Could not read PDF')
+      expect(mockGenerateObject).not.toHaveBeenCalled()
+    })
+
+    it('rejects files over the size limit without reading them', async () => {
+      const request = pdfRequest('huge.pdf', buildPdf())
+      const { get } = await request.formData()
+      const file = get('file')
+      file.size = 10 * 1024 * 1024 + 1
+
+      const response = await POST(request as unknown as Parameters<typeof POST>[0])
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data.error).toBe('PDF is too large')
+      expect(file.arrayBuffer).not.toHaveBeenCalled()
+    })
+
+    it('rejects documents over the page limit', async () => {
+      const extractSpy = jest.spyOn(pdfExtraction, 'extractPdf')
+        .mockRejectedValue(new pdfExtraction.PdfExtractionError('PDF has 301 pages; at most 300 are supported', 'too-large'))
+
+      const response = await POST(pdfRequest('long.pdf', buildPdf()) as unknown as Parameters<typeof POST>[0])
+      const data = await response.json()
+      const [, options] = extractSpy.mock.calls[0]
+      extractSpy.mockRestore()
+
+      expect(response.status).toBe(413)
+      expect(data.details).toBe('PDF has 301 pages; at most 300 are supported')
+      expect(options).toMatchObject({ maxPages: 300 })
+      expect(mockGenerateObject).not.toHaveBeenCalled()
+    })
+
     it('returns 400 for missing file', async () => {
       const mockFormData = {
         get: jest.fn().mockReturnValue(null)
@@ -228,34 +295,80 @@ describe('/api/pdf', () => {
       expect(data.details).toBe('File read error')
     })
 
-    it('estimates document properties correctly in fallback mode', async () => {
-      mockGenerateObject.mockRejectedValue(new Error('AI unavailable'))
-
-      const mockFormData = {
-        get: jest.fn((key) => {
-          if (key === 'file') {
-            return {
-              name: 'large-document.pdf',
-              type: 'application/pdf',
-              size: 500000, // 500KB
-              arrayBuffer: jest.fn().mockResolvedValue(Buffer.alloc(500000))
-            }
-          }
-          return null
+    describe('scanned pages', () => {
+      const usage = { promptTokens: 100, completionTokens: 20, totalTokens: 120 }
+      const supabase = { auth: { getUser: jest.fn() } }
+      let extractPdf: jest.SpyInstance
+      const postScan = () => POST(pdfRequest('scan.pdf', buildPdf()) as unknown as Parameters<typeof POST>[0])
+
+      beforeEach(() => {
+        mockGenerateObject.mockRejectedValue(new Error('No summary in these tests'))
+        mockCreateServerClient.mockResolvedValue(supabase)
+        mockCheckQuota.mockResolvedValue({ allowed: true, plan: DEFAULT_QUOTA_PLAN, exhausted: null })
+        mockAnalyzeImage.mockImplementation(async (_image, _task, _mimeType, onUsage) => {
+          await onUsage?.(usage)
+          return { text: 'Scanned invoice total' }
         })
-      }
+        const image = { data: 'cGFnZQ==', mimeType: 'image/png' as const, width: 100, height: 100 }
+        extractPdf = jest.spyOn(pdfExtraction, 'extractPdf').mockResolvedValue({
+          pageCount: 2,
+          pages: [
+            { pageNumber: 1, text: '', hasTextLayer: false, image },
+            { pageNumber: 2, text: '', hasTextLayer: false, image }
+          ],
+          metadata: {},
+          outline: [],
+          links: []
+        })
+      })
 
-      const mockRequest = {
-        formData: jest.fn().mockResolvedValue(mockFormData)
-      }
+      afterEach(() => {
+        extractPdf.mockRestore()
+      })
 
-      const response = await POST(mockRequest as any)
-      const data = await response.json()
+      it('OCRs them for signed-in users and records vision usage per page', async () => {
+        supabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } } })
 
-      expect(response.status).toBe(200)
-      expect(data.pages).toBe(Math.ceil(500000 / 50000)) // Rough page estimate
-      expect(data.metadata.estimated_reading_time).toContain('minutes')
-      expect(data.size).toBe(500000)
+        const response = await postScan()
+        const data = await response.json()
+
+        expect(response.status).toBe(200)
+        expect(mockCheckQuota).toHaveBeenCalledWith(supabase, 'user-1', expect.objectContaining({ route: 'vision' }))
+        expect(mockAnalyzeImage).toHaveBeenCalledTimes(2)
+        expect(mockRecordUsage).toHaveBeenCalledTimes(2)
+        expect(mockRecordUsage).toHaveBeenCalledWith(supabase, 'user-1', expect.objectContaining({ route: 'vision', usage }))
+        expect(data.page_texts.map((page: { ocr: boolean }) => page.ocr)).toEqual([true, true])
+        expect(data.ocr_skipped).toBeNull()
+      })
+
+      it('skips OCR for anonymous callers', async () => {
+        supabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+
+        const response = await postScan()
+        const data = await response.json()
+
+        expect(response.status).toBe(200)
+        expect(mockAnalyzeImage).not.toHaveBeenCalled()
+        expect(mockCheckQuota).not.toHaveBeenCalled()
+        expect(data.scanned_pages).toEqual([1, 2])
+        expect(data.ocr_skipped).toBe('Sign in to read text from scanned pages')
+      })
+
+      it('skips OCR when the vision quota is exhausted', async () => {
+        supabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } } })
+        mockCheckQuota.mockResolvedValue({
+          allowed: false,
+          plan: DEFAULT_QUOTA_PLAN,
+          exhausted: { scope: 'model', key: 'claude-3-5-sonnet-20241022', metric: 'requests', limit: 10, used: 10 }
+        })
+
+        const response = await postScan()
+        const data = await response.json()
+
+        expect(response.status).toBe(200)
+        expect(mockAnalyzeImage).not.toHaveBeenCalled()
+        expect(data.ocr_skipped).toContain('plan limit')
+      })
     })
 
     it('handles malformed request data', async () => {
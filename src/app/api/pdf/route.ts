@@ -2,27 +2,87 @@ import { NextRequest, NextResponse } from 'next/server'
 import { anthropic } from '@ai-sdk/anthropic'
 import { generateObject } from 'ai'
 import { z } from 'zod'
+import { extractPdf, PdfExtractionError, type ExtractedPdf } from '@/lib/pdf-extraction'
+import { analyzeImage, VISION_MODEL_ID } from '@/lib/vision-analysis'
+import { createServerClient } from '@/lib/supabase'
+import { getModelById } from '@/lib/models'
+import { checkQuota, getQuotaErrorBody, recordUsage, releaseQuota } from '@/lib/quota-policy'
 
-// Note: In a production environment, you would use a proper PDF parsing library like pdf-parse
-// For now, we'll simulate PDF processing and use AI to analyze any text content
+// Uploads are parsed in memory, so bound their size (the same 10MB as the upload component) and length
+const MAX_PDF_BYTES = 10 * 1024 * 1024
+const MAX_PDF_PAGES = 300
+// Scanned pages are OCR'd through the vision model, so cap how many a single upload can trigger
+const MAX_OCR_PAGES = 10
+// Longer documents are summarized from their beginning
+const MAX_SUMMARY_INPUT_CHARS = 60000
+const WORDS_PER_MINUTE = 200
 
-const PDFAnalysisSchema = z.object({
-  text: z.string().describe('Extracted text content from the PDF'),
+// The AI only summarizes; text, pages and metadata come from the parser
+const PDFSummarySchema = z.object({
   summary: z.string().describe('Concise summary of the document content'),
-  title: z.string().optional().describe('Detected or inferred document title'),
+  title: z.string().optional().describe('Document title, if the text makes it clear'),
   topics: z.array(z.string()).describe('Main topics covered in the document'),
   key_points: z.array(z.string()).describe('Key points or important information'),
   document_type: z.string().describe('Type of document (e.g., report, manual, article, etc.)'),
-  pages: z.number().describe('Number of pages in the document'),
   language: z.string().describe('Primary language of the document'),
-  metadata: z.object({
-    has_images: z.boolean().optional(),
-    has_tables: z.boolean().optional(),
-    has_links: z.boolean().optional(),
-    estimated_reading_time: z.string().optional()
-  }).optional()
+  has_tables: z.boolean().optional().describe('Whether the text appears to contain tables')
 })
 
+type PDFSummary = z.infer<typeof PDFSummarySchema>
+
+type OcrOutcome = { ocrPages: number[]; skipped: string | null }
+
+// OCR scanned pages in place; pages that fail keep their (empty) text layer.
+// Each page is a vision call, so OCR is limited to signed-in users within their vision quota.
+async function ocrScannedPages(extracted: ExtractedPdf): Promise<OcrOutcome> {
+  const supabase = await createServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { ocrPages: [], skipped: 'Sign in to read text from scanned pages' }
+  }
+
+  const model = getModelById(VISION_MODEL_ID)!
+  const ocrPages: number[] = []
+  for (const page of extracted.pages) {
+    if (page.hasTextLayer || !page.image) continue
+    // Each page is reserved on its own, so OCR stops where the quota runs out
+    const quota = await checkQuota(supabase, user.id, { route: 'vision', model })
+    if (!quota.allowed) {
+      return { ocrPages, skipped: getQuotaErrorBody(quota).error }
+    }
+    try {
+      const startedAt = Date.now()
+      const result = await analyzeImage(page.image.data, 'ocr', page.image.mimeType, usage =>
+        recordUsage(supabase, user.id, { route: 'vision', model, usage, latencyMs: Date.now() - startedAt, reservationId: quota.reservationId }))
+      if (result.text?.trim()) {
+        page.text = result.text.trim()
+        ocrPages.push(page.pageNumber)
+      }
+    } catch (error) {
+      console.error(`❌ [PDF API] OCR failed for page ${page.pageNumber}:`, error)
+      await releaseQuota(user.id, quota.reservationId)
+    }
+  }
+  return { ocrPages, skipped: null }
+}
+
+function fallbackSummary(text: string, title: string): PDFSummary {
+  const sentences = text.split(/(?<=[.!?])\s+/).filter(sentence => sentence.trim().length > 20)
+  let summary = ''
+  for (const sentence of sentences) {
+    if (summary.length + sentence.length > 300) break
+    summary += `${sentence.trim()} `
+  }
+
+  return {
+    summary: summary.trim() || `PDF document "${title}" with no extractable text.`,
+    topics: [],
+    key_points: [],
+    document_type: 'PDF Document',
+    language: 'Unknown'
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData()
@@ -42,55 +102,113 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (file.size > MAX_PDF_BYTES) {
+      return NextResponse.json(
+        { error: 'PDF is too large', details: `Files up to ${MAX_PDF_BYTES / 1024 / 1024}MB are supported` },
+        { status: 413 }
+      )
+    }
+
     console.log('📄 [PDF API] Processing PDF:', file.name, `(${file.size} bytes)`)
 
-    // Convert PDF to base64 for processing (TODO: Use for actual PDF processing)
-    // const arrayBuffer = await file.arrayBuffer()
-    // const base64 = Buffer.from(arrayBuffer).toString('base64')
-
-    // In a real implementation, you would:
-    // 1. Use a PDF parsing library to extract text and metadata
-    // 2. Extract images and analyze them separately
-    // 3. Parse tables and structured data
-    
-    // For now, we'll simulate the PDF processing and provide the base64 to Claude
-    // Note: Claude can analyze PDF files directly, but with size limitations
-
-    console.log('🤖 [PDF API] Providing basic PDF analysis (AI analysis temporarily disabled for faster response)...')
-
-    // For now, provide immediate fallback analysis to prevent hanging
-    // TODO: Implement proper PDF parsing with pdf-parse library and AI analysis
-    const basicAnalysis = {
-      text: `PDF Document: ${file.name}`,
-      summary: `Uploaded PDF document "${file.name}" (${(file.size / 1024 / 1024).toFixed(2)} MB). Content analysis available in chat.`,
-      title: file.name.replace(/\.pdf$/i, ''),
-      topics: ['Document Upload', 'PDF Processing'],
-      key_points: [
-        `Document uploaded: ${file.name}`,
-        `File size: ${(file.size / 1024 / 1024).toFixed(2)} MB`,
-        'Ready for AI-powered chat analysis'
-      ],
-      document_type: 'PDF Document',
-      pages: Math.max(1, Math.ceil(file.size / 50000)), // Rough estimate
-      language: 'Unknown',
+    const data = new Uint8Array(await file.arrayBuffer())
+    let extracted: ExtractedPdf
+    try {
+      extracted = await extractPdf(data, { maxScannedPageImages: MAX_OCR_PAGES, maxPages: MAX_PDF_PAGES })
+    } catch (error) {
+      if (error instanceof PdfExtractionError && error.reason === 'too-large') {
+        return NextResponse.json(
+          { error: 'PDF is too large', details: error.message },
+          { status: 413 }
+        )
+      }
+      if (error instanceof PdfExtractionError && error.reason !== 'unknown') {
+        return NextResponse.json(
+          { error: 'Could not read PDF', details: error.message },
+          { status: 422 }
+        )
+      }
+      throw error
+    }
+
+    const scannedPages = extracted.pages.filter(page => !page.hasTextLayer).length
+    const { ocrPages, skipped: ocrSkipped } = scannedPages > 0
+      ? await ocrScannedPages(extracted)
+      : { ocrPages: [], skipped: null }
+    if (scannedPages > 0) {
+      console.log(`🔍 [PDF API] ${scannedPages} pages without a text layer, OCR recovered ${ocrPages.length}${ocrSkipped ? ` (skipped: ${ocrSkipped})` : ''}`)
+    }
+
+    // Page markers let the RAG chunker keep page numbers for citations
+    const text = extracted.pages
+      .filter(page => page.text)
+      .map(page => `[Page ${page.pageNumber}]\n${page.text}`)
+      .join('\n\n')
+    const fallbackTitle = extracted.metadata.title || file.name.replace(/\.pdf$/i, '')
+
+    let analysis: PDFSummary
+    if (!text) {
+      analysis = fallbackSummary(text, fallbackTitle)
+    } else {
+      try {
+        console.log('🤖 [PDF API] Summarizing extracted text...')
+        const result = await generateObject({
+          model: anthropic('claude-3-5-sonnet-20241022'),
+          schema: PDFSummarySchema,
+          prompt: `Summarize this PDF document "${fallbackTitle}" (${extracted.pageCount} pages).\n\n${text.slice(0, MAX_SUMMARY_INPUT_CHARS)}`,
+          temperature: 0.3
+        })
+        analysis = result.object
+      } catch (error) {
+        console.error('❌ [PDF API] AI summary failed, using extractive summary:', error)
+        analysis = fallbackSummary(text, fallbackTitle)
+      }
+    }
+
+    const wordCount = text.split(/\s+/).filter(Boolean).length
+    const response = {
+      text,
+      summary: analysis.summary,
+      title: extracted.metadata.title || analysis.title || fallbackTitle,
+      topics: analysis.topics,
+      key_points: analysis.key_points,
+      document_type: analysis.document_type,
+      pages: extracted.pageCount,
+      language: analysis.language,
       metadata: {
-        has_images: false,
-        has_tables: false,
-        has_links: false,
-        estimated_reading_time: `${Math.max(1, Math.ceil(file.size / 100000))} minutes`
+        author: extracted.metadata.author,
+        subject: extracted.metadata.subject,
+        keywords: extracted.metadata.keywords,
+        creator: extracted.metadata.creator,
+        producer: extracted.metadata.producer,
+        creation_date: extracted.metadata.creationDate,
+        modification_date: extracted.metadata.modificationDate,
+        has_tables: analysis.has_tables,
+        has_links: extracted.links.length > 0,
+        estimated_reading_time: `${Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE))} minutes`
       },
+      page_texts: extracted.pages.map(page => ({
+        page: page.pageNumber,
+        text: page.text,
+        ocr: ocrPages.includes(page.pageNumber)
+      })),
+      outline: extracted.outline,
+      links: extracted.links,
+      scanned_pages: extracted.pages.filter(page => !page.hasTextLayer).map(page => page.pageNumber),
+      // Why scanned pages were left without text, when OCR did not run
+      ocr_skipped: ocrSkipped,
       filename: file.name,
       size: file.size
     }
 
-    console.log('✅ [PDF API] Basic analysis complete')
-    return NextResponse.json(basicAnalysis)
+    console.log(`✅ [PDF API] Extracted ${extracted.pageCount} pages, ${wordCount} words`)
+    return NextResponse.json(response)
 
   } catch (error) {
     console.error('❌ [PDF API] Error:', error)
-    
+
     return NextResponse.json(
-      { 
+      {
         error: 'PDF processing failed',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
@@ -104,22 +222,19 @@ export async function GET() {
     status: 'PDF API is running',
     capabilities: [
       'PDF text extraction',
-      'Document summarization',
-      'Topic identification',
-      'Key points extraction',
-      'Document type classification',
-      'Metadata analysis'
+      'Per-page text',
+      'Metadata extraction (title, author, dates)',
+      'Outline and bookmarks',
+      'Embedded links',
+      'OCR fallback for scanned pages',
+      'Document summarization'
     ],
     models: ['claude-3-5-sonnet-20241022'],
     limitations: [
-      'File size limits apply',
-      'Complex layouts may affect accuracy',
-      'Image extraction not fully implemented'
-    ],
-    notes: [
-      'For production use, integrate with pdf-parse or similar library',
-      'Consider implementing OCR for scanned PDFs',
-      'Add support for password-protected PDFs'
+      `Files are limited to ${MAX_PDF_BYTES / 1024 / 1024}MB and ${MAX_PDF_PAGES} pages`,
+      `OCR is limited to ${MAX_OCR_PAGES} scanned pages per document`,
+      'OCR requires signing in and counts against the vision quota',
+      'Password-protected PDFs are not supported'
     ]
   })
-}
\ No newline at end of file
+}
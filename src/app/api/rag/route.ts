@@ -1,24 +1,44 @@
 import { NextRequest } from 'next/server'
-import { unifiedRAG } from '@/lib/unified-rag'
+import { createServerClient } from '@/lib/supabase'
+import { getDocumentChunkStore } from '@/lib/document-chunk-store'
+import type { ProcessedDocument } from '@/lib/unified-rag'
 
-// Store for server-side document management
-const serverDocuments = new Map<string, any>()
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Documents are persisted per user, so every action needs a signed-in user
+async function getUser() {
+  const supabase = await createServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  return user
+}
+
+function unauthorized() {
+  return Response.json({ error: 'Sign in to store and search documents' }, { status: 401 })
+}
 
 export async function POST(req: NextRequest) {
   try {
+    const user = await getUser()
+    if (!user) {
+      return unauthorized()
+    }
+
     const body = await req.json()
-    const { action, document, documentId } = body
+    const { action, document, documentId, conversationId } = body
+    const store = getDocumentChunkStore()
 
     switch (action) {
       case 'store_processed': {
         console.log('📄 [RAG API] Storing pre-processed document:', document?.filename)
-        
-        if (!document) {
+
+        if (!document || !Array.isArray(document.chunks)) {
           return Response.json({ error: 'No document provided' }, { status: 400 })
         }
+        if (typeof document.id !== 'string' || !UUID_PATTERN.test(document.id)) {
+          return Response.json({ error: 'Document ID must be a UUID' }, { status: 400 })
+        }
 
-        // Store the already processed document directly
-        const processedDoc = {
+        const processedDoc: ProcessedDocument = {
           id: document.id,
           filename: document.filename,
           content: document.content,
@@ -29,20 +49,15 @@ export async function POST(req: NextRequest) {
           fileType: document.fileType
         }
 
-        // Add to unified RAG system
-        for (const chunk of document.chunks) {
-          // The RAG system needs the document object with chunks
-          if (!unifiedRAG.getDocument(document.id)) {
-            // Add document to RAG system manually
-            (unifiedRAG as any).documents.set(document.id, processedDoc)
-          }
+        // Embeds the chunks and persists them with the document
+        await store.saveDocument(user.id, processedDoc)
+        if (conversationId) {
+          await store.attachToConversation(user.id, conversationId, processedDoc.id)
         }
-        
-        serverDocuments.set(document.id, processedDoc)
-        
-        console.log(`✅ [RAG API] Document stored server-side: ${document.chunks.length} chunks`)
-        return Response.json({ 
-          success: true, 
+
+        console.log(`✅ [RAG API] Document stored: ${document.chunks.length} chunks`)
+        return Response.json({
+          success: true,
           document: {
             id: document.id,
             filename: document.filename,
@@ -54,35 +69,49 @@ export async function POST(req: NextRequest) {
 
       case 'search': {
         const { query, maxResults = 5 } = body
+        if (!query || typeof query !== 'string') {
+          return Response.json({ error: 'Query required' }, { status: 400 })
+        }
         console.log(`🔍 [RAG API] Searching for: "${query}"`)
-        
-        const searchResult = await unifiedRAG.searchDocuments(query, maxResults)
+
+        // Within a conversation, only its attached documents are searched
+        const documentIds = conversationId ? await store.getConversationDocumentIds(conversationId) : undefined
+        const searchResult = await store.search(query, maxResults, documentIds)
         console.log(`✅ [RAG API] Search completed: ${searchResult.results.length} results`)
-        
+
         return Response.json(searchResult)
       }
 
       case 'list': {
-        const documents = Array.from(serverDocuments.values())
+        const documents = await store.listDocuments(user.id, conversationId)
         return Response.json({ documents })
       }
 
+      case 'attach':
+      case 'detach': {
+        if (!documentId || !conversationId) {
+          return Response.json({ error: 'Document ID and conversation ID required' }, { status: 400 })
+        }
+
+        if (action === 'attach') {
+          await store.attachToConversation(user.id, conversationId, documentId)
+        } else {
+          await store.detachFromConversation(conversationId, documentId)
+        }
+        return Response.json({ success: true })
+      }
+
       case 'delete': {
         if (!documentId) {
           return Response.json({ error: 'Document ID required' }, { status: 400 })
         }
-        
-        const success = unifiedRAG.removeDocument(documentId)
-        if (success) {
-          serverDocuments.delete(documentId)
-        }
-        
+
+        const success = await store.deleteDocument(user.id, documentId)
         return Response.json({ success })
       }
 
       case 'clear': {
-        unifiedRAG.clearAllDocuments()
-        serverDocuments.clear()
+        await store.clear(user.id)
         return Response.json({ success: true })
       }
 
@@ -91,31 +120,35 @@ export async function POST(req: NextRequest) {
     }
   } catch (error) {
     console.error('❌ [RAG API] Error:', error)
-    return Response.json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+    return Response.json({
+      error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
 }
 
 export async function GET() {
   try {
-    const stats = unifiedRAG.getStats()
-    const documents = Array.from(serverDocuments.values()).map(doc => ({
-      id: doc.id,
-      filename: doc.filename,
-      chunks: doc.chunks.length,
-      size: doc.fileSize,
-      uploadedAt: doc.uploadedAt
-    }))
-    
-    return Response.json({ 
-      stats,
+    const user = await getUser()
+    if (!user) {
+      return unauthorized()
+    }
+
+    const documents = await getDocumentChunkStore().listDocuments(user.id)
+    const totalChunks = documents.reduce((sum, doc) => sum + doc.chunks, 0)
+
+    return Response.json({
+      stats: {
+        documentCount: documents.length,
+        totalChunks,
+        totalSize: documents.reduce((sum, doc) => sum + doc.size, 0),
+        avgChunksPerDoc: documents.length > 0 ? Math.round(totalChunks / documents.length) : 0
+      },
       documents
     })
   } catch (error) {
     console.error('❌ [RAG API] Error getting stats:', error)
-    return Response.json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+    return Response.json({
+      error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { MessageSearchError, parseSearchParams, searchMessages } from '@/lib/message-search'
+
+/**
+ * Search every conversation the user can read.
+ * ?q= is required; optional model, role, from, to, attachments=true|false, folder, tag,
+ * archived=true, semantic=true, page and pageSize narrow and page through the ranked results.
+ */
+export async function GET(req: NextRequest) {
+  let options
+  try {
+    options = parseSearchParams(req.nextUrl.searchParams)
+  } catch (error) {
+    if (error instanceof MessageSearchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    throw error
+  }
+  console.log('[API Search] Searching page', options.page, options.semantic ? '(semantic)' : '')
+
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const page = await searchMessages(supabase, user.id, options)
+    return NextResponse.json(page, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    console.error('[API Search] Error:', error)
+    return NextResponse.json({
+      error: 'Search failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { forkSharedConversation } from '@/lib/conversation-share'
+
+type RouteContext = { params: Promise<{ token: string }> }
+
+// Copy a shared snapshot into the signed-in user's account
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to fork this conversation' }, { status: 401 })
+    }
+
+    const conversationId = await forkSharedConversation(supabase, user.id, token)
+    if (!conversationId) {
+      return NextResponse.json({ error: 'This link does not exist, has expired or was revoked' }, { status: 404 })
+    }
+
+    console.log('[API Share] Forked shared conversation into:', conversationId)
+    return NextResponse.json({ success: true, conversationId }, { status: 201 })
+  } catch (error) {
+    console.error('[API Share] Fork error:', error)
+    return NextResponse.json({
+      error: 'Failed to fork conversation',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
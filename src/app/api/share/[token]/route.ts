@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { getSharedConversation, revokeShareLink } from '@/lib/conversation-share'
+
+type RouteContext = { params: Promise<{ token: string }> }
+
+// Public: anyone with the token can read the snapshot until it is revoked or expires
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params
+    const supabase = await createServerClient()
+    const shared = await getSharedConversation(supabase, token)
+    if (!shared) {
+      return NextResponse.json({ error: 'This link does not exist, has expired or was revoked' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, conversation: shared }, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+  } catch (error) {
+    console.error('[API Share] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to load shared conversation',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Revoke a link; only its owner can
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage share links' }, { status: 401 })
+    }
+
+    const revoked = await revokeShareLink(supabase, user.id, token)
+    if (!revoked) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+    }
+
+    console.log('[API Share] Revoked share link')
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[API Share] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to revoke share link',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
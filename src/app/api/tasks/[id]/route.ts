@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { deleteTask, TaskBoardError, updateTask, type TaskPatch } from '@/lib/task-board'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof TaskBoardError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  console.error('[API Tasks] Error:', error)
+  return NextResponse.json({
+    error: fallback,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 })
+}
+
+// Partial update from the task board: title, description, status, priority, dueDate, dependsOn
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to update tasks' }, { status: 401 })
+    }
+
+    const body = await req.json()
+    const patch: TaskPatch = {}
+    if (typeof body.title === 'string') patch.title = body.title
+    if (typeof body.description === 'string') patch.description = body.description
+    if (typeof body.status === 'string') patch.status = body.status
+    if (typeof body.priority === 'string') patch.priority = body.priority
+    if (body.dueDate === null || typeof body.dueDate === 'string') patch.dueDate = body.dueDate || null
+    if (Array.isArray(body.dependsOn)) {
+      patch.dependsOn = body.dependsOn.filter((dependency: unknown): dependency is string => typeof dependency === 'string')
+    }
+
+    await updateTask(supabase, user.id, id, patch)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'Failed to update task')
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to delete tasks' }, { status: 401 })
+    }
+
+    await deleteTask(supabase, user.id, id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete task')
+  }
+}
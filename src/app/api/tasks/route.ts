@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { loadTaskBoard } from '@/lib/task-board'
+
+// The user's stored tasks across conversations; `conversationId` narrows it to one
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to see your tasks' }, { status: 401 })
+    }
+
+    const conversationId = req.nextUrl.searchParams.get('conversationId') || undefined
+    const tasks = await loadTaskBoard(supabase, user.id, { conversationId })
+    return NextResponse.json({ success: true, tasks })
+  } catch (error) {
+    console.error('[API Tasks] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to load tasks',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
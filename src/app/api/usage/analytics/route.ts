@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { isUsageBucket, loadUsageReport } from '@/lib/usage-analytics'
+
+/** Usage history in `bucket` (day, week or month) buckets with per-model and per-conversation breakdowns */
+export async function GET(req: NextRequest) {
+  const bucket = req.nextUrl.searchParams.get('bucket') || 'day'
+  if (!isUsageBucket(bucket)) {
+    return NextResponse.json({
+      error: 'Invalid bucket',
+      details: 'Use day, week or month'
+    }, { status: 400 })
+  }
+
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to view usage analytics' }, { status: 401 })
+    }
+
+    const report = await loadUsageReport(supabase, user.id, bucket)
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    console.error('[API Usage Analytics] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to load usage analytics',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
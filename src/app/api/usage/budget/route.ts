@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { saveMonthlyBudget } from '@/lib/usage-analytics'
+
+// Set the monthly budget that projected spend is checked against, or clear it with null
+export async function PUT(req: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to set a budget' }, { status: 401 })
+    }
+
+    const { monthlyBudgetUsd } = await req.json()
+    if (monthlyBudgetUsd !== null && (typeof monthlyBudgetUsd !== 'number' || !(monthlyBudgetUsd > 0) || monthlyBudgetUsd >= 1e8)) {
+      return NextResponse.json({
+        error: 'Invalid budget',
+        details: 'monthlyBudgetUsd must be a positive number of dollars or null'
+      }, { status: 400 })
+    }
+
+    const budget = monthlyBudgetUsd === null ? null : Math.round(monthlyBudgetUsd * 100) / 100
+    await saveMonthlyBudget(supabase, user.id, budget)
+    return NextResponse.json({ success: true, monthlyBudgetUsd: budget })
+  } catch (error) {
+    console.error('[API Usage Budget] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to save budget',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@/lib/supabase'
+import { getHistoryStart, isUsageBucket, loadUsageEvents, usageEventsToCsv } from '@/lib/usage-analytics'
+
+/** Download every model call in the range the dashboard shows for `bucket` as CSV */
+export async function GET(req: NextRequest) {
+  const bucket = req.nextUrl.searchParams.get('bucket') || 'day'
+  if (!isUsageBucket(bucket)) {
+    return NextResponse.json({
+      error: 'Invalid bucket',
+      details: 'Use day, week or month'
+    }, { status: 400 })
+  }
+
+  try {
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const events = await loadUsageEvents(supabase, getHistoryStart(bucket))
+    const date = new Date().toISOString().split('T')[0]
+
+    return new Response(usageEventsToCsv(events), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="t3-chat-usage-${date}.csv"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('[API Usage Export] Error:', error)
+    return NextResponse.json({
+      error: 'Failed to export usage',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,24 +1,53 @@
 import { createServerClient } from "@/lib/supabase";
 import { ServerUsageTracker } from "@/lib/usage-tracker-server";
+import { getPlanLimitStatuses, loadQuotaPlan, loadUsageSummary } from "@/lib/quota-policy";
+import { applyAnonymousQuotaHeaders, getAnonymousQuota, identifyAnonymousVisitor } from "@/lib/anonymous-quota";
 import { NextResponse } from "next/server";
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
     const supabase = await createServerClient();
     const { data: { user } } = await supabase.auth.getUser();
     
+    if (!user) {
+      // Anonymous quotas are tracked per visitor over a rolling 24 hours
+      const visitor = identifyAnonymousVisitor(req.headers);
+      const quota = await getAnonymousQuota(visitor);
+      const response = NextResponse.json({
+        success: true,
+        usage: {
+          premiumCalls: quota.used,
+          specialCalls: 0,
+          lastReset: new Date().toISOString(),
+          resetAt: quota.resetAt?.toISOString() ?? null,
+          remainingCalls: quota.remaining,
+          byokEnabled: false,
+          isAuthenticated: false,
+          userId: 'anonymous'
+        }
+      });
+      applyAnonymousQuotaHeaders(response.headers, visitor, quota);
+      return response;
+    }
+    
     const usageTracker = new ServerUsageTracker();
-    const usage = await usageTracker.getUsage(user?.id);
+    const plan = await loadQuotaPlan(supabase, user.id);
+    const [usage, planUsage] = await Promise.all([
+      usageTracker.getUsage(user.id),
+      loadUsageSummary(supabase, plan)
+    ]);
     
     return NextResponse.json({
       success: true,
       usage: {
-        premiumCalls: usage.premiumCalls,
-        specialCalls: usage.specialCalls,
+        premiumCalls: planUsage.tiers.premium.requests,
+        specialCalls: planUsage.tiers.special.requests,
         lastReset: usage.lastReset,
         byokEnabled: usage.byokEnabled,
-        isAuthenticated: !!user,
-        userId: user?.id || 'anonymous'
+        isAuthenticated: true,
+        userId: user.id,
+        plan: { id: plan.id, name: plan.name, windowHours: plan.windowHours },
+        limits: getPlanLimitStatuses(plan, planUsage)
       }
     });
   } catch (error) {
@@ -31,4 +60,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -11,6 +11,39 @@ jest.mock('ai', () => ({
   generateObject: jest.fn()
 }))
 
+// Signed-in user with no plan assignment, so the default plan applies
+const mockQuery: any = {
+  select: () => mockQuery,
+  eq: () => mockQuery,
+  order: async () => ({ data: [], error: null }),
+  maybeSingle: async () => ({ data: null, error: null }),
+  insert: jest.fn(async () => ({ error: null }))
+}
+const mockSupabase = {
+  auth: { getUser: jest.fn() },
+  from: jest.fn(() => mockQuery)
+}
+// Quota reservations are made with the service role
+const mockServiceRole = { rpc: jest.fn() }
+
+jest.mock('@/lib/supabase', () => ({
+  createServerClient: jest.fn(async () => mockSupabase),
+  createServiceRoleClient: jest.fn(() => mockServiceRole)
+}))
+
+function reservationRow(overrides: Record<string, unknown> = {}) {
+  return {
+    allowed: true,
+    event_id: 41,
+    exhausted_scope: null,
+    exhausted_key: null,
+    exhausted_metric: null,
+    exhausted_limit: null,
+    exhausted_used: null,
+    ...overrides
+  }
+}
+
 // Import after mocks are set up
 import { POST, GET } from '../route'
 
@@ -60,6 +93,10 @@ describe('/api/vision', () => {
 
     beforeEach(() => {
       mockGenerateObject.mockClear()
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } } })
+      mockServiceRole.rpc.mockImplementation(async (name: string) => name === 'reserve_usage'
+        ? { data: [reservationRow()], error: null }
+        : { data: null, error: null })
     })
 
     it('analyzes image successfully', async () => {
@@ -190,6 +227,68 @@ describe('/api/vision', () => {
       expect(data.error).toBe('Image must be a base64 string')
     })
 
+    it('requires sign-in', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null } })
+
+      const response = await POST({ json: async () => ({ image: 'validbase64data' }) } as any)
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.type).toBe('authentication_required')
+      expect(mockGenerateObject).not.toHaveBeenCalled()
+    })
+
+    it('returns a structured usage_limit error once the plan is used up', async () => {
+      mockServiceRole.rpc.mockResolvedValue({
+        data: [reservationRow({
+          allowed: false,
+          event_id: null,
+          exhausted_scope: 'tier',
+          exhausted_key: 'premium',
+          exhausted_metric: 'requests',
+          exhausted_limit: 18,
+          exhausted_used: 18
+        })],
+        error: null
+      })
+
+      const response = await POST({ json: async () => ({ image: 'validbase64data' }) } as any)
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(data).toMatchObject({
+        type: 'usage_limit',
+        plan: { id: 'free' },
+        limit: { scope: 'tier', key: 'premium', metric: 'requests', limit: 18, used: 18 }
+      })
+      expect(mockGenerateObject).not.toHaveBeenCalled()
+    })
+
+    it('records the request against the plan', async () => {
+      mockGenerateObject.mockResolvedValue({
+        object: { description: 'd', summary: 's', objects: [], colors: [] },
+        usage: { promptTokens: 1000, completionTokens: 200, totalTokens: 1200 }
+      })
+
+      const response = await POST({ json: async () => ({ image: 'validbase64data' }) } as any)
+
+      expect(response.status).toBe(200)
+      expect(mockServiceRole.rpc).toHaveBeenCalledWith('reserve_usage', expect.objectContaining({
+        p_user_id: 'user-1',
+        p_route: 'vision',
+        p_model: 'claude-3-5-sonnet-20241022',
+        p_tier: 'premium'
+      }))
+      // The reservation is settled with the real usage rather than recorded a second time
+      expect(mockServiceRole.rpc).toHaveBeenCalledWith('settle_usage', expect.objectContaining({
+        p_event_id: 41,
+        p_user_id: 'user-1',
+        p_prompt_tokens: 1000,
+        p_completion_tokens: 200
+      }))
+      expect(mockQuery.insert).not.toHaveBeenCalled()
+    })
+
     it('handles AI analysis errors gracefully', async () => {
       mockGenerateObject.mockRejectedValue(new Error('AI service unavailable'))
 
@@ -205,6 +304,7 @@ describe('/api/vision', () => {
       expect(response.status).toBe(500)
       expect(data.error).toBe('Vision analysis failed')
       expect(data.details).toBe('AI service unavailable')
+      expect(mockServiceRole.rpc).toHaveBeenCalledWith('release_usage', { p_event_id: 41, p_user_id: 'user-1' })
     })
 
     it('handles malformed JSON gracefully', async () => {
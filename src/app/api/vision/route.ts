@@ -1,30 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { anthropic } from '@ai-sdk/anthropic'
-import { generateObject } from 'ai'
-import { z } from 'zod'
-
-const ImageAnalysisSchema = z.object({
-  description: z.string().describe('Detailed description of what is shown in the image'),
-  summary: z.string().describe('Brief summary of the image content'),
-  objects: z.array(z.string()).describe('List of objects, people, or entities detected in the image'),
-  text: z.string().optional().describe('Any text found in the image (OCR)'),
-  mood: z.string().optional().describe('Overall mood or atmosphere of the image'),
-  colors: z.array(z.string()).describe('Dominant colors in the image'),
-  dimensions: z.object({
-    estimated_width: z.number().optional(),
-    estimated_height: z.number().optional(),
-    aspect_ratio: z.string().optional()
-  }).optional(),
-  technical_details: z.object({
-    lighting: z.string().optional(),
-    composition: z.string().optional(),
-    quality: z.string().optional()
-  }).optional()
-})
+import { analyzeImage, VISION_MODEL_ID } from '@/lib/vision-analysis'
+import { createServerClient } from '@/lib/supabase'
+import { getModelById } from '@/lib/models'
+import { checkQuota, getQuotaErrorBody, recordUsage, releaseQuota } from '@/lib/quota-policy'
 
 export async function POST(request: NextRequest) {
   try {
-    const { image, task = 'analyze' } = await request.json()
+    const { image, task = 'analyze', mimeType = 'image/jpeg' } = await request.json()
 
     if (!image) {
       return NextResponse.json(
@@ -41,34 +23,35 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Please sign in to analyze images.', type: 'authentication_required' },
+        { status: 401 }
+      )
+    }
+
+    const model = getModelById(VISION_MODEL_ID)!
+    const quota = await checkQuota(supabase, user.id, { route: 'vision', model })
+    if (!quota.allowed) {
+      return NextResponse.json(getQuotaErrorBody(quota), { status: 429 })
+    }
+
     console.log('🔍 [Vision API] Analyzing image with Claude Vision...')
 
-    const result = await generateObject({
-      model: anthropic('claude-3-5-sonnet-20241022'),
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: task === 'ocr' 
-                ? 'Extract and transcribe all text visible in this image. Maintain formatting and structure as much as possible.'
-                : 'Analyze this image in detail. Provide a comprehensive description, identify objects and entities, extract any text (OCR), and note the overall mood and technical aspects.'
-            },
-            {
-              type: 'image',
-              image: `data:image/jpeg;base64,${image}`
-            }
-          ]
-        }
-      ],
-      schema: ImageAnalysisSchema,
-      temperature: 0.3
-    })
+    const startedAt = Date.now()
+    const analysis = await analyzeImage(image, task, mimeType, usage =>
+      recordUsage(supabase, user.id, { route: 'vision', model, usage, latencyMs: Date.now() - startedAt, reservationId: quota.reservationId }))
+      .catch(async error => {
+        // Only releases the reservation if the model never answered
+        await releaseQuota(user.id, quota.reservationId)
+        throw error
+      })
 
-    console.log('✅ [Vision API] Analysis complete:', result.object)
+    console.log('✅ [Vision API] Analysis complete:', analysis)
 
-    return NextResponse.json(result.object)
+    return NextResponse.json(analysis)
 
   } catch (error) {
     console.error('❌ [Vision API] Error:', error)
@@ -94,7 +77,7 @@ export async function GET() {
       'Color analysis',
       'Technical assessment'
     ],
-    models: ['claude-3-5-sonnet-20241022'],
+    models: [VISION_MODEL_ID],
     formats: ['JPEG', 'PNG', 'GIF', 'WebP', 'BMP']
   })
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+'use client'
+
+import { useParams, useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+
+// Accepts a collaboration invite and opens the conversation
+export default function InvitePage() {
+  const params = useParams()
+  const router = useRouter()
+  const { isAnonymous, loading } = useAuth()
+  const token = params.token as string
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (loading || isAnonymous || !token) return
+
+    const accept = async () => {
+      try {
+        const response = await fetch(`/api/invites/${token}`, { method: 'POST' })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to accept invite')
+        router.replace(`/chat/${data.conversationId}`)
+      } catch (acceptError) {
+        console.error('❌ [Invite] Failed to accept invite:', acceptError)
+        setError(acceptError instanceof Error ? acceptError.message : 'Failed to accept invite')
+      }
+    }
+
+    accept()
+  }, [loading, isAnonymous, token, router])
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 flex items-center justify-center">
+      {!loading && isAnonymous ? (
+        <div className="text-center max-w-md p-8">
+          <h1 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-2">You&apos;ve been invited to a conversation</h1>
+          <p className="text-slate-600 dark:text-slate-400 mb-4">Sign in, then open this link again to join.</p>
+          <Link href="/login" className="text-blue-600 hover:underline">Sign in</Link>
+        </div>
+      ) : error ? (
+        <div className="text-center max-w-md p-8">
+          <h1 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-2">Invite unavailable</h1>
+          <p className="text-slate-600 dark:text-slate-400 mb-4">{error}</p>
+          <Link href="/" className="text-blue-600 hover:underline">Go to OpenT3</Link>
+        </div>
+      ) : (
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      )}
+    </div>
+  )
+}
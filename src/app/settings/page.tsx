@@ -7,12 +7,22 @@ import { Button } from '@/components/ui/Button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
 import UserTraitsForm from '@/components/UserTraitsForm'
 import ConversationExportImport from '@/components/ConversationExportImport'
+import UsageDashboard from '@/components/UsageDashboard'
 import { ArrowLeftIcon } from '@heroicons/react/24/outline'
 
+type SettingsTab = 'profile' | 'usage' | 'export'
+
 export default function SettingsPage() {
   const router = useRouter()
   const { user, isAnonymous } = useAuth()
-  const [activeTab, setActiveTab] = useState<'profile' | 'export'>('profile')
+  const [activeTab, setActiveTab] = useState<SettingsTab>('profile')
+
+  useEffect(() => {
+    // Links like /settings#usage open a specific tab
+    if (window.location.hash === '#usage' || window.location.hash === '#export') {
+      setActiveTab(window.location.hash.slice(1) as SettingsTab)
+    }
+  }, [])
 
   useEffect(() => {
     // Redirect to login if not authenticated
@@ -51,7 +61,7 @@ export default function SettingsPage() {
             Settings
           </h1>
           <p className="text-gray-600 dark:text-gray-400">
-            Manage your profile, preferences, and conversation history
+            Manage your profile, preferences, usage, and conversation history
           </p>
         </div>
 
@@ -67,6 +77,16 @@ export default function SettingsPage() {
           >
             Profile & Traits
           </button>
+          <button
+            onClick={() => setActiveTab('usage')}
+            className={`flex-1 py-2 px-4 rounded-md font-medium transition-colors ${
+              activeTab === 'usage'
+                ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+            }`}
+          >
+            Usage & Costs
+          </button>
           <button
             onClick={() => setActiveTab('export')}
             className={`flex-1 py-2 px-4 rounded-md font-medium transition-colors ${
@@ -95,6 +115,20 @@ export default function SettingsPage() {
             </Card>
           )}
 
+          {activeTab === 'usage' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Usage & Costs</CardTitle>
+                <CardDescription>
+                  Every model call you have made, what it cost, and where your month is heading
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UsageDashboard />
+              </CardContent>
+            </Card>
+          )}
+
           {activeTab === 'export' && (
             <Card>
               <CardHeader>
@@ -0,0 +1,106 @@
+'use client'
+
+import { useParams, useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import MessageList from '@/components/MessageList'
+import ErrorBoundary from '@/components/ErrorBoundary'
+import { Button } from '@/components/ui/Button'
+import { useAuth } from '@/contexts/AuthContext'
+import type { SharedConversation } from '@/lib/conversation-share'
+import { formatDistanceToNow } from 'date-fns'
+
+// Read-only view of a shared conversation snapshot
+export default function SharedConversationPage() {
+  const params = useParams()
+  const router = useRouter()
+  const { isAnonymous, loading: authLoading } = useAuth()
+  const token = params.token as string
+  const [conversation, setConversation] = useState<SharedConversation | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isForking, setIsForking] = useState(false)
+
+  useEffect(() => {
+    if (!token) return
+
+    const loadSharedConversation = async () => {
+      try {
+        const response = await fetch(`/api/share/${token}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load shared conversation')
+        setConversation(data.conversation)
+      } catch (loadError) {
+        console.error('❌ [SharedConversation] Failed to load:', loadError)
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load shared conversation')
+      }
+    }
+
+    loadSharedConversation()
+  }, [token])
+
+  const handleFork = async () => {
+    setIsForking(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/share/${token}/fork`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to fork conversation')
+      router.push(`/chat/${data.conversationId}`)
+    } catch (forkError) {
+      console.error('❌ [SharedConversation] Fork failed:', forkError)
+      setError(forkError instanceof Error ? forkError.message : 'Failed to fork conversation')
+      setIsForking(false)
+    }
+  }
+
+  if (!conversation) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 flex items-center justify-center">
+        {error ? (
+          <div className="text-center max-w-md p-8">
+            <h1 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-2">Conversation unavailable</h1>
+            <p className="text-slate-600 dark:text-slate-400 mb-4">{error}</p>
+            <Link href="/" className="text-blue-600 hover:underline">Go to OpenT3</Link>
+          </div>
+        ) : (
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className="h-screen flex flex-col bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <header className="flex-shrink-0 border-b border-slate-200 dark:border-slate-700 bg-white/80 dark:bg-slate-900/80 backdrop-blur px-4 py-3">
+          <div className="max-w-4xl mx-auto flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <h1 className="font-semibold text-slate-900 dark:text-slate-100 truncate">{conversation.title}</h1>
+              <p className="text-xs text-slate-500">
+                Shared {formatDistanceToNow(new Date(conversation.created_at), { addSuffix: true })}
+                {conversation.model_name && ` • ${conversation.model_name}`}
+                {conversation.expires_at && ` • link expires ${formatDistanceToNow(new Date(conversation.expires_at), { addSuffix: true })}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 shrink-0">
+              {error && <span className="text-sm text-red-600">❌ {error}</span>}
+              {authLoading ? null : isAnonymous ? (
+                <Link href="/login" className="text-sm text-blue-600 hover:underline">
+                  Sign in to continue this conversation
+                </Link>
+              ) : (
+                <Button onClick={handleFork} disabled={isForking}>
+                  {isForking ? '⏳ Forking...' : '🍴 Fork to my chats'}
+                </Button>
+              )}
+            </div>
+          </div>
+        </header>
+
+        <main className="flex-1 min-h-0 flex flex-col relative overflow-hidden">
+          <MessageList messages={conversation.messages} />
+        </main>
+      </div>
+    </ErrorBoundary>
+  )
+}
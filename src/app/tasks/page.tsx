@@ -0,0 +1,59 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/Button'
+import TaskBoard from '@/components/TaskBoard'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+
+export default function TasksPage() {
+  const router = useRouter()
+  const { isAnonymous } = useAuth()
+
+  useEffect(() => {
+    // Tasks are only stored for signed-in users
+    if (isAnonymous) {
+      router.push('/login?redirect=/tasks')
+    }
+  }, [isAnonymous, router])
+
+  if (isAnonymous) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-slate-600 dark:text-slate-400">Redirecting to login...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="max-w-7xl mx-auto p-6">
+        {/* Header */}
+        <div className="mb-8">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push('/')}
+            className="mb-4 flex items-center gap-2"
+          >
+            <ArrowLeftIcon className="w-4 h-4" />
+            Back to Chat
+          </Button>
+
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+            Tasks
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Tasks extracted from all your conversations, with their status, due dates and dependencies
+          </p>
+        </div>
+
+        <TaskBoard />
+      </div>
+    </div>
+  )
+}
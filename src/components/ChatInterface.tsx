@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { useRealtimeChat } from '@/hooks/useRealtimeChat'
 import { useAuth } from '@/contexts/AuthContext'
@@ -8,8 +8,9 @@ import ChatSidebar from './ChatSidebar'
 import ChatMain from './ChatMain'
 import UsageCounter from './UsageCounter'
 import ResizableSidebar from './ResizableSidebar'
+import SearchModal from './SearchModal'
 import { Button } from './ui/Button'
-import { PlusIcon, UserCircleIcon } from '@heroicons/react/24/outline'
+import { ClipboardDocumentListIcon, MagnifyingGlassIcon, PlusIcon, UserCircleIcon } from '@heroicons/react/24/outline'
 import { ArrowLeftStartOnRectangleIcon } from '@heroicons/react/24/outline'
 
 interface ChatInterfaceProps {
@@ -30,6 +31,7 @@ export default function ChatInterface({ initialConversationId }: ChatInterfacePr
   const [creatingConversation, setCreatingConversation] = useState(false)
   const [sidebarKey, setSidebarKey] = useState(0) // Force sidebar refresh
   const [usageRefreshKey, setUsageRefreshKey] = useState(0) // Force usage counter refresh
+  const [searchOpen, setSearchOpen] = useState(false)
   // Model selection state - moved up from ChatMain to ensure new conversations use current model
   // Default to Vertex AI model for all users (both anonymous and signed-in)
   const [selectedModel, setSelectedModel] = useState(() => {
@@ -55,6 +57,18 @@ export default function ChatInterface({ initialConversationId }: ChatInterfacePr
     }
   }, [initialConversationId]) // Remove currentConversationId from deps to prevent loops
 
+  // Cmd/Ctrl+K opens search from anywhere in the chat
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setSearchOpen(true)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
   // Debug conversation ID changes
   useEffect(() => {
     console.log('🔄 [ChatInterface] Conversation ID changed:', currentConversationId)
@@ -67,7 +81,19 @@ export default function ChatInterface({ initialConversationId }: ChatInterfacePr
     createNewConversation,
     deleteConversation,
     clearAllConversations
-  } = useRealtimeChat(currentConversationId)
+  } = useRealtimeChat(currentConversationId, { subscribe: true })
+
+  // Reload the sidebar when a generated title or summary arrives for the open conversation
+  const conversationLabelRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!conversation) return
+    const label = `${conversation.id}:${conversation.title}:${conversation.summary ?? ''}`
+    const previous = conversationLabelRef.current
+    conversationLabelRef.current = label
+    if (previous && previous !== label && previous.startsWith(`${conversation.id}:`)) {
+      setSidebarKey(prev => prev + 1)
+    }
+  }, [conversation])
 
   const handleNewConversation = async () => {
     if (creatingConversation) return null // Prevent double-clicks
@@ -201,6 +227,17 @@ export default function ChatInterface({ initialConversationId }: ChatInterfacePr
           </div>
 
           <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSearchOpen(true)}
+              className="flex items-center gap-2"
+              title="Search conversations (⌘K)"
+            >
+              <MagnifyingGlassIcon className="w-4 h-4" />
+              Search
+            </Button>
+
             {/* Usage Counter */}
             <UsageCounter refreshKey={usageRefreshKey} />
             
@@ -220,6 +257,15 @@ export default function ChatInterface({ initialConversationId }: ChatInterfacePr
               
               {!isAnonymous ? (
                 <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => router.push('/tasks')}
+                    className="flex items-center gap-2"
+                  >
+                    <ClipboardDocumentListIcon className="w-4 h-4" />
+                    Tasks
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -318,6 +364,12 @@ export default function ChatInterface({ initialConversationId }: ChatInterfacePr
           />
         </div>
       </div>
+
+      <SearchModal
+        isOpen={searchOpen}
+        onClose={() => setSearchOpen(false)}
+        onSelectConversation={handleConversationSelect}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -2,6 +2,7 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react'
 import { useRealtimeChat } from '@/hooks/useRealtimeChat'
+import { useConversationPresence } from '@/hooks/useConversationPresence'
 import { useAIChat } from '@/lib/ai'
 import MessageList from './MessageList'
 import MessageInput from './MessageInput'
@@ -10,10 +11,21 @@ import CostTracker from './CostTracker'
 import ModelComparison from './ModelComparison'
 import TaskExtractorDropdown from './TaskExtractorDropdownPortal'
 import OpenRouterSettings from './OpenRouterSettings'
+import ConversationSettings from './ConversationSettings'
+import ConversationExportDialog from './ConversationExportDialog'
+import ShareConversationDialog from './ShareConversationDialog'
+import CollaboratorsDialog from './CollaboratorsDialog'
+import PresenceAvatars, { describeTyping } from './PresenceAvatars'
+import RAGContextViewer from './RAGContextViewer'
+import ContextWindowMeter from './ContextWindowMeter'
 import { useScrollPosition } from '@/hooks/useScrollPosition'
-import type { Database } from '@/lib/supabase'
-import { useUsageTracking } from '@/lib/usage-tracker'
+import { createClientComponentClient, type Database } from '@/lib/supabase'
+import type { OpenRouterClientConfig } from '@/lib/openrouter'
 import { useAuth } from '@/contexts/AuthContext'
+import { getModelById } from '@/lib/models'
+import { REASONING_BUDGETS, type ReasoningBudget } from '@/lib/reasoning'
+import { DEFAULT_MAX_OUTPUT_TOKENS } from '@/lib/conversation-settings'
+import { estimateMessageTokens, getCompressedMessageIds, getContextBudget } from '@/lib/context-window'
 
 type Message = Database['public']['Tables']['messages']['Row']
 
@@ -38,7 +50,7 @@ export default function ChatMain({
   onCreateConversation,
   onMessageSent
 }: ChatMainProps) {
-  const { sendMessage, updateTypingStatus } = useRealtimeChat(conversationId)
+  const { sendMessage, updateTypingStatus, role } = useRealtimeChat(conversationId)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const messageListRef = useRef<HTMLDivElement>(null)
   const [showScrollButton, setShowScrollButton] = useState(false)
@@ -47,8 +59,18 @@ export default function ChatMain({
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const scrollDebounceRef = useRef<NodeJS.Timeout | null>(null)
   const lastMessageCountRef = useRef(0)
-  const { updateByokStatus, getUsage } = useUsageTracking()
-  const { user } = useAuth()
+  const { user, isAnonymous } = useAuth()
+  const isViewer = role === 'viewer'
+  const isCollaborator = role === 'viewer' || role === 'editor'
+  const {
+    participants,
+    typingParticipants,
+    remoteAIMessages,
+    isRemoteResponding,
+    setTyping,
+    broadcastStream
+  } = useConversationPresence(conversationId, role)
+  const typingDescription = describeTyping(typingParticipants)
   
   // Use scroll position hook
   const { saveScrollPosition } = useScrollPosition(conversationId, messageListRef)
@@ -59,49 +81,39 @@ export default function ChatMain({
   // State for pending message when no conversation exists
   const [pendingMessage, setPendingMessage] = useState<{ text: string; files?: FileList | null } | null>(null)
   
-  // OpenRouter configuration state
-  const [openRouterConfig, setOpenRouterConfig] = useState({ enabled: false, apiKey: '' })
+  // OpenRouter configuration state - the key itself never leaves the server
+  const [openRouterConfig, setOpenRouterConfig] = useState<OpenRouterClientConfig>({ enabled: false, fallbackToDirectAPIs: true })
   const [showOpenRouterSettings, setShowOpenRouterSettings] = useState(false)
+  const [showConversationSettings, setShowConversationSettings] = useState(false)
+  const [showExportDialog, setShowExportDialog] = useState(false)
+  const [showShareDialog, setShowShareDialog] = useState(false)
+  const [showCollaborators, setShowCollaborators] = useState(false)
+  const [reasoningBudget, setReasoningBudget] = useState<ReasoningBudget>('default')
+  const supportsReasoning = !!getModelById(selectedModel)?.capabilities.reasoning
   
-  // Load OpenRouter config from localStorage or user profile
+  // Load OpenRouter config from the stored key hints on the server
   useEffect(() => {
     const loadOpenRouterConfig = async () => {
-      // First check localStorage
-      const stored = localStorage.getItem('openrouter-config')
-      if (stored) {
-        try {
-          const config = JSON.parse(stored)
-          setOpenRouterConfig(config)
-          
-          // Update BYOK status based on OpenRouter config
-          if (config.enabled && config.apiKey) {
-            updateByokStatus(true, { openRouter: config.apiKey })
-          }
-          return // Exit if found in localStorage
-        } catch (error) {
-          console.warn('Failed to parse OpenRouter config from localStorage:', error)
-        }
+      // Keys used to live in localStorage - make sure none are left behind
+      localStorage.removeItem('openrouter-config')
+      
+      if (!user) {
+        setOpenRouterConfig({ enabled: false, fallbackToDirectAPIs: true })
+        return
       }
       
-      // If not in localStorage and user is logged in, check profile
-      if (user) {
-        const usage = await getUsage()
-        if (usage?.apiKeys?.openRouter) {
-          const profileConfig = {
-            enabled: true,
-            apiKey: usage.apiKeys.openRouter
-          }
-          setOpenRouterConfig(profileConfig)
-          // Save to localStorage for consistency
-          localStorage.setItem('openrouter-config', JSON.stringify(profileConfig))
-          // Update BYOK status
-          updateByokStatus(true, { openRouter: usage.apiKeys.openRouter })
-        }
-      } else {
-        // User logged out - clear OpenRouter config
-        setOpenRouterConfig({ enabled: false, apiKey: '' })
-        localStorage.removeItem('openrouter-config')
-        updateByokStatus(false, {})
+      try {
+        const response = await fetch('/api/keys')
+        if (!response.ok) return
+        const data = await response.json()
+        const openRouterKey = data.keys?.find((key: { provider: string }) => key.provider === 'openRouter')
+        setOpenRouterConfig({
+          enabled: !!openRouterKey,
+          fallbackToDirectAPIs: data.fallbackToDirectAPIs ?? true,
+          keyHint: openRouterKey?.keyHint
+        })
+      } catch (error) {
+        console.warn('Failed to load OpenRouter config:', error)
       }
     }
     
@@ -109,21 +121,17 @@ export default function ChatMain({
   }, [user]) // Re-run when user changes (login/logout)
 
 
-  // Convert database messages to AI SDK format for initialization
-  // Implement sliding window to limit context size for faster processing
+  // Convert database messages to AI SDK format for initialization. The whole history is sent;
+  // /api/chat fits it into the model's context window and reports what it left out.
   const initialAIMessages = React.useMemo(() => {
-    const MAX_CONTEXT_MESSAGES = 25 // Reduced from 50 for faster processing
-    const MAX_CONTEXT_LENGTH = 50000 // Reduced from 100K for faster processing
-    
     // Filter messages based on branch if needed
-    let relevantMessages = messages
+    const relevantMessages = messages
     if (activeBranchId) {
       // TODO: Implement branch path filtering
       // For now, use all messages but this should filter to only the active branch path
       console.log('🌿 [ChatMain] Branch mode active, should filter messages for branch:', activeBranchId)
     }
     
-    // Start from the end and work backwards
     const formattedMessages = relevantMessages.map(msg => ({
       id: msg.id,
       role: msg.role as 'user' | 'assistant' | 'system',
@@ -132,32 +140,9 @@ export default function ChatMain({
         : typeof msg.content === 'string' ? msg.content : ''
     }))
     
-    // Take only the most recent messages that fit within our limits
-    let contextLength = 0
-    const contextMessages = []
-    
-    for (let i = formattedMessages.length - 1; i >= 0 && contextMessages.length < MAX_CONTEXT_MESSAGES; i--) {
-      const message = formattedMessages[i]
-      const messageLength = message.content.length
-      
-      if (contextLength + messageLength > MAX_CONTEXT_LENGTH) {
-        console.log('📏 [ChatMain] Reached context length limit, truncating older messages')
-        break
-      }
-      
-      contextMessages.unshift(message) // Add to beginning to maintain order
-      contextLength += messageLength
-    }
-    
-    console.log('📚 [ChatMain] Initialized AI messages:', {
-      totalMessages: messages.length,
-      contextMessages: contextMessages.length,
-      contextLength,
-      oldestIncluded: contextMessages[0]?.content.substring(0, 50) + '...',
-      newestIncluded: contextMessages[contextMessages.length - 1]?.content.substring(0, 50) + '...'
-    })
+    console.log('📚 [ChatMain] Initialized AI messages:', { totalMessages: formattedMessages.length })
     
-    return contextMessages
+    return formattedMessages
   }, [messages, activeBranchId])
 
   // Use AI chat hook for streaming responses
@@ -169,18 +154,18 @@ export default function ChatMain({
     messages: aiMessages,
     error: aiError,
     isUsingOpenRouter,
-    getOpenRouterFee
+    getOpenRouterFee,
+    contextWindow
   } = useAIChat({
     conversationId,
     model: selectedModel,
     provider: selectedProvider,
     initialMessages: initialAIMessages, // Pass conversation history
     useOpenRouter: openRouterConfig.enabled,
-    openRouterApiKey: openRouterConfig.apiKey,
-    onFinish: async (message) => {
-      console.log('🎯 [ChatMain] AI response finished:', message)
-      // Save AI response to Supabase
-      await sendMessage(message.content, 'assistant')
+    reasoningBudget: supportsReasoning ? reasoningBudget : undefined,
+    onFinish: async (message, servedBy) => {
+      // The assistant message is persisted by /api/chat together with its token usage
+      console.log('🎯 [ChatMain] AI response finished:', message, servedBy)
       // Refresh usage counter after AI response is complete
       onMessageSent?.()
     }
@@ -198,6 +183,52 @@ export default function ChatMain({
   }
 
 
+  // Collaborators watch the response stream in as well
+  const isBroadcastingRef = useRef(false)
+  useEffect(() => {
+    const lastMessage = aiMessages[aiMessages.length - 1]
+    if (isAILoading && lastMessage?.role === 'assistant') {
+      isBroadcastingRef.current = true
+      broadcastStream(lastMessage)
+    } else if (!isAILoading && isBroadcastingRef.current) {
+      isBroadcastingRef.current = false
+      if (lastMessage?.role === 'assistant') broadcastStream(lastMessage, true)
+    }
+  }, [aiMessages, isAILoading, broadcastStream])
+
+  // Conversations that aren't saved (anonymous chats) send their turns for task extraction
+  const unsavedTaskMessages = React.useMemo(() => conversationId ? [] : aiMessages
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .map(message => ({ id: message.id, role: message.role, content: message.content })),
+  [conversationId, aiMessages])
+
+  // Context window usage: reported by the last response, estimated locally until then
+  const contextModel = getModelById(selectedModel)
+  const estimatedContextTokens = React.useMemo(() => contextModel
+    ? aiMessages.reduce((sum, message) => sum + estimateMessageTokens(message, contextModel.provider), 0)
+    : 0, [aiMessages, contextModel])
+  const compressedMessageIds = React.useMemo(() => {
+    const pinnedIds = new Set(messages.filter(message => message.pinned_at).map(message => message.id))
+    return getCompressedMessageIds(messages, aiMessages, contextWindow, message => !!message.id && pinnedIds.has(message.id))
+  }, [messages, aiMessages, contextWindow])
+
+  // Pinned messages are always sent to the model; the realtime subscription picks up the change
+  const handleTogglePin = useCallback(async (message: Message) => {
+    const supabase = createClientComponentClient()
+    const { error } = await supabase
+      .from('messages')
+      .update({ pinned_at: message.pinned_at ? null : new Date().toISOString() })
+      .eq('id', message.id)
+    if (error) {
+      console.error('❌ [ChatMain] Failed to update pin:', error)
+    }
+  }, [])
+
+  const displayedAIMessages = React.useMemo(
+    () => conversationId ? [...aiMessages, ...remoteAIMessages] : [],
+    [conversationId, aiMessages, remoteAIMessages]
+  )
+
   // Debug AI messages and handle errors
   useEffect(() => {
     if (aiMessages.length > 0) {
@@ -413,14 +444,15 @@ export default function ChatMain({
       
       // Check if we're creating a branch from a specific message
       const parentId = activeBranchId
+      let userMessageId: string | undefined
       if (parentId) {
         console.log('🌿 [ChatMain] Creating branch message with parent:', parentId)
-        await sendMessage(input, 'user', parentId)
+        userMessageId = await sendMessage(input, 'user', parentId)
         // Reset branch mode after creating the branch
         setActiveBranchId(undefined)
       } else {
         // Normal message (no branching)
-        await sendMessage(input, 'user')
+        userMessageId = await sendMessage(input, 'user')
       }
       
       // Notify parent that a message was sent to refresh sidebar
@@ -433,7 +465,9 @@ export default function ChatMain({
       
       // The AI SDK now has the full conversation history via initialMessages
       // Just submit with attachments if any
+      // The server saves the reply as a child of the message just stored
       await handleSubmit(undefined, {
+        body: { parentMessageId: userMessageId },
         experimental_attachments: fileList || undefined
       } as any)
       
@@ -455,14 +489,13 @@ export default function ChatMain({
     handleInputChange({ target: { value } } as React.ChangeEvent<HTMLInputElement>)
     // Update typing status for real-time chat
     updateTypingStatus(value.length > 0)
+    setTyping(value.length > 0)
   }
 
   // Show chat interface even without conversation ID - it will be created on first message
 
   return (
     <div className="h-full flex flex-col">
-      {/* Collaborative Cursors Overlay */}
-      
       {/* Header with Model Selector and Controls */}
       <div className="border-b border-slate-200 dark:border-slate-700 bg-white/50 dark:bg-slate-900/50 backdrop-blur-xl p-4 flex-shrink-0">
         <div className="flex items-center justify-between">
@@ -474,6 +507,9 @@ export default function ChatMain({
               Conversation {conversationId?.split('-')[0] || 'New'}
             </span>
             
+            {/* Other people viewing this conversation */}
+            <PresenceAvatars participants={participants} />
+            
           </div>
           
           {/* Right side controls */}
@@ -497,7 +533,70 @@ export default function ChatMain({
               )}
             </button>
             
-            {conversationId && <TaskExtractorDropdown conversationId={conversationId} messageCount={messages.length} />}
+            {conversationId && user && !isCollaborator && (
+              <button
+                onClick={() => setShowConversationSettings(true)}
+                className="text-xs px-3 py-1.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors"
+                title="System prompt, temperature and output limits for this conversation"
+              >
+                ⚙️ Settings
+              </button>
+            )}
+            
+            {conversationId && user && messages.length > 0 && (
+              <button
+                onClick={() => setShowExportDialog(true)}
+                className="text-xs px-3 py-1.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors"
+                title="Export this conversation as Markdown, HTML or PDF"
+              >
+                📤 Export
+              </button>
+            )}
+            
+            {conversationId && user && !isAnonymous && role && (
+              <button
+                onClick={() => setShowCollaborators(true)}
+                className="text-xs px-3 py-1.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors"
+                title={isCollaborator ? 'People in this conversation' : 'Invite people to this conversation'}
+              >
+                👥 {isCollaborator ? 'Members' : 'Invite'}
+              </button>
+            )}
+            
+            {conversationId && user && !isCollaborator && messages.length > 0 && (
+              <button
+                onClick={() => setShowShareDialog(true)}
+                className="text-xs px-3 py-1.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors"
+                title="Create a read-only link to this conversation"
+              >
+                🔗 Share
+              </button>
+            )}
+            
+            {supportsReasoning && (
+              <select
+                value={reasoningBudget}
+                onChange={(e) => setReasoningBudget(e.target.value as ReasoningBudget)}
+                className="text-xs px-3 py-1.5 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-none focus:ring-2 focus:ring-blue-500"
+                title="How much the model may think before answering"
+                aria-label="Reasoning budget"
+              >
+                {REASONING_BUDGETS.map(budget => (
+                  <option key={budget} value={budget}>
+                    🧠 Thinking: {budget === 'default' ? 'auto' : budget}
+                  </option>
+                ))}
+              </select>
+            )}
+            
+            {(conversationId || unsavedTaskMessages.length > 0) && (
+              <TaskExtractorDropdown
+                conversationId={conversationId}
+                model={selectedModel}
+                messages={messages}
+                unsavedMessages={unsavedTaskMessages}
+              />
+            )}
             <ModelComparison 
               selectedModels={[selectedModel]}
               onModelSelect={handleModelChange}
@@ -529,9 +628,11 @@ export default function ChatMain({
               <MessageList 
                 ref={messageListRef}
                 messages={messages} 
-                aiMessages={conversationId ? aiMessages : []} 
+                aiMessages={displayedAIMessages} 
                 onScroll={handleScroll}
                 isAIResponding={isAIResponding}
+                compressedMessageIds={compressedMessageIds}
+                onTogglePin={conversationId && user && !isAnonymous && !isViewer ? handleTogglePin : undefined}
               />
               <div ref={messagesEndRef} className="flex-shrink-0 h-4" />
               
@@ -589,6 +690,26 @@ export default function ChatMain({
           </div>
         )}
 
+        {/* Collaborator activity */}
+        {(typingDescription || isRemoteResponding) && (
+          <div className="mb-2 text-xs text-slate-500 dark:text-slate-400 animate-pulse">
+            {typingDescription || 'AI is responding to a collaborator…'}
+          </div>
+        )}
+
+        {/* Document passages opened from citations */}
+        <RAGContextViewer className="mb-3" />
+
+        {conversationId && contextModel && (
+          <div className="mb-2">
+            <ContextWindowMeter
+              usage={contextWindow}
+              estimatedTokens={estimatedContextTokens}
+              budgetTokens={getContextBudget(contextModel, DEFAULT_MAX_OUTPUT_TOKENS)}
+            />
+          </div>
+        )}
+
         {/* Branch Mode Indicator */}
         {activeBranchId && (
           <div className="mb-3 p-2 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-700/50 rounded-lg">
@@ -627,9 +748,11 @@ export default function ChatMain({
                 value={input}
                 onChange={handleInputValueChange}
                 onSend={handleSendMessage}
-                disabled={isAILoading}
+                disabled={isAILoading || isViewer}
                 placeholder={
-                  isAILoading
+                  isViewer
+                    ? 'You have view-only access to this conversation'
+                    : isAILoading
                     ? 'AI is thinking...'
                     : 'Type your message... (Press Enter to send, Shift+Enter for new line)'
                 }
@@ -651,6 +774,44 @@ export default function ChatMain({
         currentConfig={openRouterConfig}
       />
 
+      {/* Conversation Settings Modal */}
+      {conversationId && (
+        <ConversationSettings
+          isOpen={showConversationSettings}
+          onClose={() => setShowConversationSettings(false)}
+          conversationId={conversationId}
+          selectedModel={selectedModel}
+        />
+      )}
+
+      {/* Conversation Export Modal */}
+      {conversationId && (
+        <ConversationExportDialog
+          isOpen={showExportDialog}
+          onClose={() => setShowExportDialog(false)}
+          conversationId={conversationId}
+        />
+      )}
+
+      {/* Collaborators Modal */}
+      {conversationId && (
+        <CollaboratorsDialog
+          isOpen={showCollaborators}
+          onClose={() => setShowCollaborators(false)}
+          conversationId={conversationId}
+        />
+      )}
+
+      {/* Share Link Modal */}
+      {conversationId && (
+        <ShareConversationDialog
+          isOpen={showShareDialog}
+          onClose={() => setShowShareDialog(false)}
+          conversationId={conversationId}
+          messages={messages}
+        />
+      )}
+
     </div>
   )
 }
\ No newline at end of file
@@ -7,11 +7,33 @@ import { Button } from './ui/Button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/Card'
 import { ScrollArea } from './ui/ScrollArea'
 import { cn } from '@/lib/utils'
-import { PlusIcon, ChatBubbleLeftIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import {
+  PlusIcon,
+  ChatBubbleLeftIcon,
+  TrashIcon,
+  ExclamationTriangleIcon,
+  EllipsisHorizontalIcon,
+  FolderIcon,
+  FolderPlusIcon,
+  ChevronDownIcon,
+  ChevronRightIcon
+} from '@heroicons/react/24/outline'
 import type { Database } from '@/lib/supabase'
+import { useConversationOrganization } from '@/hooks/useConversationOrganization'
+import {
+  groupConversations,
+  TAG_COLORS,
+  UNORGANIZED,
+  type ConversationOrganization,
+  type ConversationTag
+} from '@/lib/conversation-organization'
+import ConversationOrganizeMenu from './ConversationOrganizeMenu'
 
 type Conversation = Database['public']['Tables']['conversations']['Row']
 
+// dataTransfer type used when dragging a conversation onto a folder
+const DRAG_TYPE = 'application/x-conversation-id'
+
 interface ChatSidebarProps {
   currentConversationId: string
   onConversationSelect: (id: string) => void
@@ -27,13 +49,23 @@ const ConversationItem = memo(({
   isActive,
   onSelect,
   onDelete,
-  isDeleting
+  isDeleting,
+  isShared = false,
+  placement = UNORGANIZED,
+  tags = [],
+  onOpenMenu,
+  menu
 }: {
   conversation: Conversation
   isActive: boolean
   onSelect: () => void
-  onDelete: (e: React.MouseEvent) => void
+  onDelete?: (e: React.MouseEvent) => void
   isDeleting: boolean
+  isShared?: boolean
+  placement?: ConversationOrganization
+  tags?: ConversationTag[]
+  onOpenMenu?: () => void
+  menu?: React.ReactNode
 }) => {
   const formatDate = useCallback((dateString: string) => {
     const date = new Date(dateString)
@@ -54,8 +86,13 @@ const ConversationItem = memo(({
 
   return (
     <div
+      draggable={!!onOpenMenu}
+      onDragStart={e => {
+        e.dataTransfer.setData(DRAG_TYPE, conversation.id)
+        e.dataTransfer.effectAllowed = 'move'
+      }}
       className={`
-        w-full p-3 rounded-lg transition-colors group flex items-center gap-2
+        relative w-full p-3 rounded-lg transition-colors group flex items-center gap-2
         hover:bg-slate-100 dark:hover:bg-slate-800
         ${
           isActive
@@ -67,6 +104,7 @@ const ConversationItem = memo(({
       <button
         onClick={onSelect}
         className="flex-1 text-left"
+        title={conversation.summary || undefined}
       >
         <div className="flex items-start gap-3">
           <div className="flex-shrink-0 mt-1">
@@ -74,6 +112,8 @@ const ConversationItem = memo(({
           </div>
           <div className="flex-1 min-w-0">
             <h3 className="font-medium text-sm text-slate-900 dark:text-slate-100 truncate">
+              {placement.pinned && <span title="Pinned">📌 </span>}
+              {isShared && <span title="Shared with you">👥 </span>}
               {conversation.title || 'Untitled Chat'}
             </h3>
             <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
@@ -87,10 +127,32 @@ const ConversationItem = memo(({
                 {conversation.model_name}
               </span>
             </div>
+            {placement.tagIds.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {tags.filter(tag => placement.tagIds.includes(tag.id)).map(tag => (
+                  <span key={tag.id} className={`text-[10px] px-1.5 py-0.5 rounded-full ${TAG_COLORS[tag.color] || TAG_COLORS.slate}`}>
+                    {tag.name}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </button>
       
+      {onOpenMenu && (
+        <button
+          onClick={e => {
+            e.stopPropagation()
+            onOpenMenu()
+          }}
+          className="flex-shrink-0 p-1 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors opacity-0 group-hover:opacity-100"
+          title="Organize conversation"
+        >
+          <EllipsisHorizontalIcon className="w-4 h-4" />
+        </button>
+      )}
+
       {onDelete && (
         <button
           onClick={onDelete}
@@ -105,13 +167,18 @@ const ConversationItem = memo(({
           )}
         </button>
       )}
+
+      {menu}
     </div>
   )
 }, (prevProps, nextProps) => {
   return prevProps.conversation.id === nextProps.conversation.id &&
          prevProps.conversation.updated_at === nextProps.conversation.updated_at &&
          prevProps.isActive === nextProps.isActive &&
-         prevProps.isDeleting === nextProps.isDeleting
+         prevProps.isDeleting === nextProps.isDeleting &&
+         prevProps.placement === nextProps.placement &&
+         prevProps.tags === nextProps.tags &&
+         prevProps.menu === nextProps.menu
 })
 
 ConversationItem.displayName = 'ConversationItem'
@@ -166,6 +233,70 @@ const ClearConfirmModal = memo(({
 
 ClearConfirmModal.displayName = 'ClearConfirmModal'
 
+// Collapsible group of conversations; pass onDropConversation to make it a drop target
+const SidebarSection = ({
+  title,
+  icon,
+  count,
+  collapsed,
+  onToggle,
+  onDropConversation,
+  actions,
+  editor,
+  children
+}: {
+  title: string
+  icon?: React.ReactNode
+  count: number
+  collapsed: boolean
+  onToggle: () => void
+  onDropConversation?: (conversationId: string) => void
+  actions?: React.ReactNode
+  // Replaces the header while the section is being renamed
+  editor?: React.ReactNode
+  children: React.ReactNode
+}) => {
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  return (
+    <div
+      onDragOver={onDropConversation ? e => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'move'
+        setIsDragOver(true)
+      } : undefined}
+      onDragLeave={onDropConversation ? () => setIsDragOver(false) : undefined}
+      onDrop={onDropConversation ? e => {
+        e.preventDefault()
+        setIsDragOver(false)
+        const conversationId = e.dataTransfer.getData(DRAG_TYPE)
+        if (conversationId) onDropConversation(conversationId)
+      } : undefined}
+      className={cn('rounded-lg', isDragOver && 'ring-2 ring-blue-400 bg-blue-50/50 dark:bg-blue-950/30')}
+    >
+      <div className="group/section flex items-center gap-1 px-2 py-1">
+        {editor ?? (
+          <>
+            <button
+              type="button"
+              onClick={onToggle}
+              className="flex-1 flex items-center gap-1 min-w-0 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400"
+            >
+              {collapsed ? <ChevronRightIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />}
+              {icon}
+              <span className="truncate">{title}</span>
+              <span className="font-normal">({count})</span>
+            </button>
+            {actions}
+          </>
+        )}
+      </div>
+      {!collapsed && <div className="space-y-1">{children}</div>}
+    </div>
+  )
+}
+
 const ChatSidebar = forwardRef<{ refresh: () => void }, ChatSidebarProps>(({
   currentConversationId,
   onConversationSelect,
@@ -178,8 +309,16 @@ const ChatSidebar = forwardRef<{ refresh: () => void }, ChatSidebarProps>(({
   const [isLoading, setIsLoading] = useState(true)
   const [showClearConfirm, setShowClearConfirm] = useState(false)
   const [deletingConversation, setDeletingConversation] = useState<string | null>(null)
+  const [activeTagId, setActiveTagId] = useState<string | null>(null)
+  const [openMenuId, setOpenMenuId] = useState<string | null>(null)
+  // Archived starts collapsed; everything else starts open
+  const [collapsedSections, setCollapsedSections] = useState<Set<string>>(() => new Set(['archived']))
+  const [newFolderName, setNewFolderName] = useState<string | null>(null)
+  const [renamingFolder, setRenamingFolder] = useState<{ id: string; name: string } | null>(null)
+  const [labelError, setLabelError] = useState<string | null>(null)
   const supabase = createClientComponentClient()
   const { getSessionId } = useAuth()
+  const organizer = useConversationOrganization()
 
   const loadConversations = useCallback(async () => {
     try {
@@ -197,8 +336,18 @@ const ChatSidebar = forwardRef<{ refresh: () => void }, ChatSidebarProps>(({
         return
       }
 
-      console.log(`📚 [ChatSidebar] Loaded ${data?.length || 0} conversations`)
-      setConversations(data || [])
+      // Conversations other people invited this user to
+      const { data: memberships } = await supabase
+        .from('conversation_members')
+        .select('conversation:conversations(*)')
+        .eq('user_id', userId)
+      const shared = (memberships || [])
+        .map((membership: { conversation: Conversation | null }) => membership.conversation)
+        .filter((conversation: Conversation | null): conversation is Conversation => !!conversation)
+
+      const all = [...(data || []), ...shared].sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      console.log(`📚 [ChatSidebar] Loaded ${data?.length || 0} conversations, ${shared.length} shared`)
+      setConversations(all)
     } catch (error) {
       console.error('Error loading conversations:', error)
     } finally {
@@ -278,6 +427,91 @@ const ChatSidebar = forwardRef<{ refresh: () => void }, ChatSidebarProps>(({
     setShowClearConfirm(true)
   }, [])
 
+  const sections = useMemo(
+    () => groupConversations(conversations, organizer.organization, organizer.folders, activeTagId),
+    [conversations, organizer.organization, organizer.folders, activeTagId]
+  )
+
+  // Archived conversations stay out of the collapsed rail
+  const railConversations = useMemo(() => organizer.enabled
+    ? [...sections.pinned, ...sections.folders.flatMap(section => section.conversations), ...sections.unfiled]
+    : conversations,
+  [organizer.enabled, sections, conversations])
+
+  const toggleSection = useCallback((key: string) => {
+    setCollapsedSections(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }, [])
+
+  const closeMenu = useCallback(() => setOpenMenuId(null), [])
+
+  // Folder and tag names are validated before writing; show why a name was refused
+  const runLabelAction = useCallback(async (action: () => Promise<unknown>) => {
+    setLabelError(null)
+    try {
+      await action()
+      return true
+    } catch (error) {
+      console.warn('⚠️ [ChatSidebar] Label rejected:', error)
+      setLabelError(error instanceof Error ? error.message : 'Invalid name')
+      return false
+    }
+  }, [])
+
+  const handleCreateFolder = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (newFolderName === null) return
+    if (await runLabelAction(() => organizer.createFolder(newFolderName))) {
+      setNewFolderName(null)
+    }
+  }, [newFolderName, organizer, runLabelAction])
+
+  const handleRenameFolder = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!renamingFolder) return
+    if (await runLabelAction(() => organizer.renameFolder(renamingFolder.id, renamingFolder.name))) {
+      setRenamingFolder(null)
+    }
+  }, [renamingFolder, organizer, runLabelAction])
+
+  const renderConversation = (conversation: Conversation) => {
+    const placement = organizer.organization.get(conversation.id) || UNORGANIZED
+    return (
+      <ConversationItem
+        key={conversation.id}
+        conversation={conversation}
+        isActive={currentConversationId === conversation.id}
+        onSelect={() => handleConversationClick(conversation.id)}
+        onDelete={conversation.user_id === getSessionId() ? (e) => handleDeleteConversation(conversation.id, e) : undefined}
+        isDeleting={deletingConversation === conversation.id}
+        isShared={conversation.user_id !== getSessionId()}
+        placement={placement}
+        tags={organizer.tags}
+        onOpenMenu={organizer.enabled ? () => setOpenMenuId(conversation.id) : undefined}
+        menu={openMenuId === conversation.id ? (
+          <ConversationOrganizeMenu
+            placement={placement}
+            folders={organizer.folders}
+            tags={organizer.tags}
+            onPin={pinned => organizer.setPinned(conversation.id, pinned)}
+            onArchive={archived => organizer.setArchived(conversation.id, archived)}
+            onMove={folderId => organizer.moveToFolder(conversation.id, folderId)}
+            onToggleTag={tagId => organizer.toggleTag(conversation.id, tagId)}
+            onCreateTag={organizer.createTag}
+            onClose={closeMenu}
+          />
+        ) : undefined}
+      />
+    )
+  }
+
   // Memoize empty state
   const emptyState = useMemo(() => (
     <div className="flex flex-col items-center justify-center h-40 text-slate-500 dark:text-slate-400">
@@ -337,7 +571,7 @@ const ChatSidebar = forwardRef<{ refresh: () => void }, ChatSidebarProps>(({
 
         {/* Collapsed Conversations List */}
         <div className="flex-1 overflow-y-auto w-full space-y-2">
-          {!isLoading && conversations.map((conversation) => (
+          {!isLoading && railConversations.map((conversation) => (
             <button
               key={conversation.id}
               onClick={() => handleConversationClick(conversation.id)}
@@ -347,7 +581,7 @@ const ChatSidebar = forwardRef<{ refresh: () => void }, ChatSidebarProps>(({
                   ? 'bg-purple-600 text-white'
                   : 'hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-600 dark:text-slate-400'
               )}
-              title={conversation.title || 'Untitled'}
+              title={[conversation.title || 'Untitled', conversation.summary].filter(Boolean).join('\n\n')}
             >
               <ChatBubbleLeftIcon className="w-5 h-5" />
             </button>
@@ -391,24 +625,149 @@ const ChatSidebar = forwardRef<{ refresh: () => void }, ChatSidebarProps>(({
         onCancel={handleCancelClear}
       />
 
+      {/* Tag filter */}
+      {organizer.enabled && organizer.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 px-3 pt-2">
+          {organizer.tags.map(tag => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => setActiveTagId(prev => prev === tag.id ? null : tag.id)}
+              className={cn(
+                'text-xs px-2 py-0.5 rounded-full transition-opacity',
+                TAG_COLORS[tag.color] || TAG_COLORS.slate,
+                activeTagId && activeTagId !== tag.id && 'opacity-40',
+                activeTagId === tag.id && 'ring-1 ring-current'
+              )}
+              title={activeTagId === tag.id ? 'Show all conversations' : `Only show conversations tagged ${tag.name}`}
+            >
+              {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(labelError || organizer.error) && (
+        <div className="mx-3 mt-2 px-2 py-1 text-xs rounded bg-red-50 dark:bg-red-950 text-red-600 dark:text-red-400 flex items-center justify-between gap-2">
+          <span>{labelError || organizer.error}</span>
+          <button type="button" onClick={() => { setLabelError(null); organizer.clearError() }}>✕</button>
+        </div>
+      )}
+
       {/* Conversations List */}
       <div className="flex-1 overflow-y-auto p-2">
         {isLoading ? (
           loadingState
         ) : conversations.length === 0 ? (
           emptyState
-        ) : (
+        ) : !organizer.enabled ? (
           <div className="space-y-1">
-            {conversations.map((conversation) => (
-              <ConversationItem
-                key={conversation.id}
-                conversation={conversation}
-                isActive={currentConversationId === conversation.id}
-                onSelect={() => handleConversationClick(conversation.id)}
-                onDelete={(e) => handleDeleteConversation(conversation.id, e)}
-                isDeleting={deletingConversation === conversation.id}
-              />
+            {conversations.map(renderConversation)}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sections.pinned.length > 0 && (
+              <SidebarSection
+                title="Pinned"
+                count={sections.pinned.length}
+                collapsed={collapsedSections.has('pinned')}
+                onToggle={() => toggleSection('pinned')}
+              >
+                {sections.pinned.map(renderConversation)}
+              </SidebarSection>
+            )}
+
+            {sections.folders.map(({ folder, conversations: folderConversations }) => (
+              <SidebarSection
+                key={folder.id}
+                title={folder.name}
+                editor={renamingFolder?.id === folder.id ? (
+                  <form onSubmit={handleRenameFolder} className="flex-1">
+                    <input
+                      autoFocus
+                      value={renamingFolder.name}
+                      onChange={e => setRenamingFolder({ id: folder.id, name: e.target.value })}
+                      onBlur={() => setRenamingFolder(null)}
+                      onKeyDown={e => e.key === 'Escape' && setRenamingFolder(null)}
+                      className="w-full px-1 text-sm rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+                    />
+                  </form>
+                ) : undefined}
+                icon={<FolderIcon className="w-3 h-3" />}
+                count={folderConversations.length}
+                collapsed={collapsedSections.has(folder.id)}
+                onToggle={() => toggleSection(folder.id)}
+                onDropConversation={conversationId => organizer.moveToFolder(conversationId, folder.id)}
+                actions={
+                  <div className="flex gap-1 opacity-0 group-hover/section:opacity-100">
+                    <button
+                      type="button"
+                      onClick={() => setRenamingFolder({ id: folder.id, name: folder.name })}
+                      className="text-xs text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                      title="Rename folder"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => organizer.deleteFolder(folder.id)}
+                      className="text-slate-400 hover:text-red-500"
+                      title="Delete folder (its conversations are kept)"
+                    >
+                      <TrashIcon className="w-3 h-3" />
+                    </button>
+                  </div>
+                }
+              >
+                {folderConversations.length > 0 ? folderConversations.map(renderConversation) : (
+                  <p className="px-3 py-2 text-xs text-slate-400">Drag conversations here</p>
+                )}
+              </SidebarSection>
             ))}
+
+            {newFolderName !== null ? (
+              <form onSubmit={handleCreateFolder} className="px-2">
+                <input
+                  autoFocus
+                  value={newFolderName}
+                  onChange={e => setNewFolderName(e.target.value)}
+                  onBlur={() => !newFolderName.trim() && setNewFolderName(null)}
+                  onKeyDown={e => e.key === 'Escape' && setNewFolderName(null)}
+                  placeholder="Folder name"
+                  className="w-full px-2 py-1 text-sm rounded border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800"
+                />
+              </form>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setNewFolderName('')}
+                className="w-full flex items-center gap-2 px-2 py-1 text-xs text-slate-500 hover:text-slate-800 dark:hover:text-slate-200"
+              >
+                <FolderPlusIcon className="w-4 h-4" />
+                New folder
+              </button>
+            )}
+
+            <SidebarSection
+              title="Conversations"
+              count={sections.unfiled.length}
+              collapsed={collapsedSections.has('unfiled')}
+              onToggle={() => toggleSection('unfiled')}
+              onDropConversation={conversationId => organizer.moveToFolder(conversationId, null)}
+            >
+              {sections.unfiled.map(renderConversation)}
+            </SidebarSection>
+
+            {sections.archived.length > 0 && (
+              <SidebarSection
+                title="Archived"
+                count={sections.archived.length}
+                collapsed={collapsedSections.has('archived')}
+                onToggle={() => toggleSection('archived')}
+              >
+                {sections.archived.map(renderConversation)}
+              </SidebarSection>
+            )}
           </div>
         )}
       </div>
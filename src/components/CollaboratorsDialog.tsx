@@ -0,0 +1,246 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+import { ExportUtils } from '@/lib/export-utils'
+import {
+  COLLABORATOR_ROLE_LABELS,
+  COLLABORATOR_ROLES,
+  type CollaboratorRole,
+  type ConversationInvite,
+  type ConversationMember,
+  type ConversationRole
+} from '@/lib/conversation-collaboration'
+import { formatDistanceToNow } from 'date-fns'
+
+interface CollaboratorsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  conversationId: string
+}
+
+const ROLE_DESCRIPTIONS: Record<CollaboratorRole, string> = {
+  viewer: 'Can read along live',
+  editor: 'Can send messages and branch'
+}
+
+export default function CollaboratorsDialog({
+  isOpen,
+  onClose,
+  conversationId
+}: CollaboratorsDialogProps) {
+  const router = useRouter()
+  const { user } = useAuth()
+  const [role, setRole] = useState<ConversationRole | null>(null)
+  const [members, setMembers] = useState<ConversationMember[]>([])
+  const [invites, setInvites] = useState<ConversationInvite[]>([])
+  const [inviteRole, setInviteRole] = useState<CollaboratorRole>('editor')
+  const [isInviting, setIsInviting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const request = useCallback(async (init?: RequestInit, query = '') => {
+    const response = await fetch(`/api/conversations/${conversationId}/members${query}`, {
+      ...init,
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Request failed')
+    return data
+  }, [conversationId])
+
+  const load = useCallback(async () => {
+    try {
+      const data = await request()
+      setRole(data.role)
+      setMembers(data.members)
+      setInvites(data.invites)
+    } catch (loadError) {
+      console.error('❌ [Collaborators] Failed to load:', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load collaborators')
+    }
+  }, [request])
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null)
+      load()
+    }
+  }, [isOpen, load])
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (actionError) {
+      console.error('❌ [Collaborators] Action failed:', actionError)
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong')
+    }
+  }
+
+  const copyInvite = async (token: string) => {
+    const result = await ExportUtils.copyToClipboard(`${window.location.origin}/invite/${token}`)
+    ExportUtils.showNotification(result.success ? 'Invite link copied' : result.message || 'Copy failed', result.success ? 'success' : 'error')
+  }
+
+  const handleInvite = () => run(async () => {
+    setIsInviting(true)
+    try {
+      const { invite } = await request({ method: 'POST', body: JSON.stringify({ role: inviteRole }) })
+      setInvites(prev => [invite, ...prev])
+      await copyInvite(invite.token)
+    } finally {
+      setIsInviting(false)
+    }
+  })
+
+  const handleRoleChange = (userId: string, newRole: CollaboratorRole) => run(async () => {
+    await request({ method: 'PATCH', body: JSON.stringify({ userId, role: newRole }) })
+    setMembers(prev => prev.map(member => member.user_id === userId ? { ...member, role: newRole } : member))
+  })
+
+  const handleRemove = (userId: string) => run(async () => {
+    await request({ method: 'DELETE' }, `?userId=${encodeURIComponent(userId)}`)
+    setMembers(prev => prev.filter(member => member.user_id !== userId))
+  })
+
+  const handleRevoke = (inviteId: string) => run(async () => {
+    await request({ method: 'DELETE' }, `?inviteId=${encodeURIComponent(inviteId)}`)
+    setInvites(prev => prev.filter(invite => invite.id !== inviteId))
+  })
+
+  const handleLeave = () => run(async () => {
+    if (!user) return
+    await request({ method: 'DELETE' }, `?userId=${encodeURIComponent(user.id)}`)
+    onClose()
+    router.push('/')
+  })
+
+  if (!isOpen) return null
+
+  const isOwner = role === 'owner'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>👥 Collaborators</CardTitle>
+              <CardDescription>
+                Work on this conversation together in real time
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              ✕
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {isOwner && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Invite with a link</div>
+              <div className="grid grid-cols-2 gap-2">
+                {COLLABORATOR_ROLES.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setInviteRole(option)}
+                    className={`text-left text-sm px-3 py-2 rounded-lg border transition-colors ${
+                      inviteRole === option
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                        : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'
+                    }`}
+                  >
+                    <div className="font-medium">{COLLABORATOR_ROLE_LABELS[option]}</div>
+                    <div className="text-xs text-slate-500">{ROLE_DESCRIPTIONS[option]}</div>
+                  </button>
+                ))}
+              </div>
+              <Button onClick={handleInvite} className="w-full" disabled={isInviting}>
+                {isInviting ? '⏳ Creating invite...' : '🔗 Create & Copy Invite Link'}
+              </Button>
+              <p className="text-xs text-slate-500">Invite links expire after 7 days. Anyone who opens one while signed in joins.</p>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">❌ {error}</p>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Members</div>
+            {members.length === 0 ? (
+              <p className="text-sm text-slate-500">Nobody else has joined yet.</p>
+            ) : (
+              <ul className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-200 dark:divide-slate-700">
+                {members.map(member => (
+                  <li key={member.user_id} className="px-3 py-2 text-sm flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="truncate">{member.display_name || 'Collaborator'}</div>
+                      <div className="text-xs text-slate-500">
+                        Joined {formatDistanceToNow(new Date(member.created_at), { addSuffix: true })}
+                      </div>
+                    </div>
+                    {isOwner ? (
+                      <div className="flex items-center gap-1 shrink-0">
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member.user_id, e.target.value as CollaboratorRole)}
+                          className="text-xs px-2 py-1 rounded border border-slate-200 dark:border-slate-700 bg-transparent"
+                          aria-label="Member role"
+                        >
+                          {COLLABORATOR_ROLES.map(option => (
+                            <option key={option} value={option}>{COLLABORATOR_ROLE_LABELS[option]}</option>
+                          ))}
+                        </select>
+                        <Button variant="ghost" size="sm" onClick={() => handleRemove(member.user_id)}>
+                          Remove
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-slate-500 shrink-0">{COLLABORATOR_ROLE_LABELS[member.role]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {isOwner && invites.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Open invites</div>
+              <ul className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-200 dark:divide-slate-700">
+                {invites.map(invite => (
+                  <li key={invite.id} className="px-3 py-2 text-sm flex items-center justify-between gap-3">
+                    <div className="min-w-0 text-xs text-slate-500">
+                      {COLLABORATOR_ROLE_LABELS[invite.role]}
+                      {invite.expires_at && ` • expires ${formatDistanceToNow(new Date(invite.expires_at), { addSuffix: true })}`}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => copyInvite(invite.token)}>
+                        Copy
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite.id)}>
+                        Revoke
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {role && role !== 'owner' && user && (
+            <Button variant="outline" className="w-full" onClick={handleLeave}>
+              Leave conversation
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import React from 'react'
+import type { ContextWindowUsage } from '@/lib/context-window'
+
+interface ContextWindowMeterProps {
+  // Reported by the last response; null until this conversation gets one
+  usage: ContextWindowUsage | null
+  // Local estimate shown before the first response
+  estimatedTokens: number
+  budgetTokens: number
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(tokens % 1000000 === 0 ? 0 : 1)}M`
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`
+  return String(tokens)
+}
+
+// How much of the model's context window the conversation takes up, and what was compressed
+export default function ContextWindowMeter({ usage, estimatedTokens, budgetTokens }: ContextWindowMeterProps) {
+  const used = usage?.usedTokens ?? estimatedTokens
+  const budget = usage?.budgetTokens || budgetTokens
+  if (budget <= 0) return null
+
+  const percent = Math.min(100, Math.round((used / budget) * 100))
+  const barColor = percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-amber-500' : 'bg-blue-500'
+
+  return (
+    <div
+      className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400"
+      title={`${used.toLocaleString()} of ${budget.toLocaleString()} input tokens${usage ? '' : ' (estimated)'}`}
+    >
+      <div className="w-20 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${Math.max(percent, 1)}%` }} />
+      </div>
+      <span>
+        {usage ? '' : '~'}{formatTokens(used)} / {formatTokens(budget)} context
+      </span>
+      {usage && usage.compressedCount > 0 && (
+        <span className="text-amber-600 dark:text-amber-400">
+          • {usage.compressedCount} older {usage.compressedCount === 1 ? 'message' : 'messages'} {usage.summarized ? 'summarized' : 'trimmed'}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { createClientComponentClient } from '@/lib/supabase'
+import { ExportUtils } from '@/lib/export-utils'
+import {
+  ConversationExporter,
+  ConversationExportFormat,
+  type ConversationExportOptions
+} from '@/lib/conversation-export'
+
+interface ConversationExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  conversationId: string
+}
+
+const FORMAT_LABELS: Record<ConversationExportFormat, string> = {
+  [ConversationExportFormat.MARKDOWN]: '📝 Markdown',
+  [ConversationExportFormat.HTML]: '🌐 HTML',
+  [ConversationExportFormat.PDF]: '📄 PDF'
+}
+
+export default function ConversationExportDialog({
+  isOpen,
+  onClose,
+  conversationId
+}: ConversationExportDialogProps) {
+  const [options, setOptions] = useState<ConversationExportOptions>({
+    format: ConversationExportFormat.MARKDOWN,
+    branches: 'active',
+    includeAttachments: true,
+    includeReasoning: false,
+    includeMetadata: false
+  })
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggle = (field: 'includeAttachments' | 'includeReasoning' | 'includeMetadata') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setOptions(prev => ({ ...prev, [field]: e.target.checked }))
+    }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+    try {
+      const supabase = createClientComponentClient()
+      const [{ data: conversation, error: conversationError }, { data: messages, error: messagesError }] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('id, title, created_at, model_name, model_provider')
+          .eq('id', conversationId)
+          .single(),
+        supabase
+          .from('messages')
+          .select('*')
+          .eq('conversation_id', conversationId)
+          .order('created_at', { ascending: true })
+      ])
+      if (conversationError || messagesError || !conversation) {
+        throw conversationError || messagesError || new Error('Conversation not found')
+      }
+
+      const result = await ConversationExporter.format(conversation, messages || [], options)
+      if (options.format === ConversationExportFormat.PDF) {
+        await ExportUtils.printHtml(result.content)
+      } else {
+        ExportUtils.downloadFile({
+          filename: result.filename,
+          content: result.content,
+          mimeType: result.mimeType
+        })
+        ExportUtils.showNotification(`Exported ${result.filename}`)
+      }
+      onClose()
+    } catch (exportError) {
+      console.error('❌ [ConversationExport] Export failed:', exportError)
+      setError(exportError instanceof Error ? exportError.message : 'Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>📤 Export Conversation</CardTitle>
+              <CardDescription>
+                Save this conversation as a document
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              ✕
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {/* Format */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Format</div>
+            <div className="grid grid-cols-3 gap-2">
+              {Object.values(ConversationExportFormat).map(format => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => setOptions(prev => ({ ...prev, format }))}
+                  className={`text-sm px-3 py-2 rounded-lg border transition-colors ${
+                    options.format === format
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                      : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'
+                  }`}
+                >
+                  {FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              {ConversationExporter.getFormatDescription(options.format)}
+            </p>
+          </div>
+
+          {/* Branches */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Branches</div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="export-branches"
+                checked={options.branches === 'active'}
+                onChange={() => setOptions(prev => ({ ...prev, branches: 'active' }))}
+              />
+              Active branch (ending at the latest message)
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="export-branches"
+                checked={options.branches === 'all'}
+                onChange={() => setOptions(prev => ({ ...prev, branches: 'all' }))}
+              />
+              All branches
+            </label>
+          </div>
+
+          {/* Content */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Include</div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={!!options.includeAttachments} onChange={toggle('includeAttachments')} />
+              Attachments
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={!!options.includeReasoning} onChange={toggle('includeReasoning')} />
+              Reasoning steps
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={!!options.includeMetadata} onChange={toggle('includeMetadata')} />
+              Model, token and cost details
+            </label>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">❌ {error}</p>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4">
+            <Button onClick={handleExport} className="flex-1" disabled={isExporting}>
+              {isExporting ? '⏳ Exporting...' : options.format === ConversationExportFormat.PDF ? '🖨️ Print / Save as PDF' : '💾 Export'}
+            </Button>
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,175 +3,250 @@
 import { useState } from 'react'
 import { Button } from '@/components/ui/Button'
 import { useAuth } from '@/contexts/AuthContext'
+import { useConversationOrganization } from '@/hooks/useConversationOrganization'
 import { createClientComponentClient } from '@/lib/supabase'
+import {
+  buildImportPreview,
+  importConversations,
+  IMPORT_FORMAT_LABELS,
+  parseImportFile,
+  type ImportPreview,
+  type ImportResult
+} from '@/lib/conversation-import'
+import {
+  readNdjson,
+  type ArchiveFormat,
+  type ArchiveRecord,
+  type ImportProgressRecord
+} from '@/lib/conversation-archive'
+import { unzip } from 'fflate'
 import { ArrowDownTrayIcon, ArrowUpTrayIcon, DocumentTextIcon } from '@heroicons/react/24/outline'
 import { formatDistanceToNow } from 'date-fns'
 
+const MAX_EXPORT_RETRIES = 3
+
+function isArchiveFile(name: string): boolean {
+  return /\.(ndjson|jsonl|zip)$/i.test(name)
+}
+
 export default function ConversationExportImport() {
   const { user } = useAuth()
   const supabase = createClientComponentClient()
   const [exporting, setExporting] = useState(false)
   const [importing, setImporting] = useState(false)
   const [importFile, setImportFile] = useState<File | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
   const [importResult, setImportResult] = useState<{ success?: boolean; message?: string } | null>(null)
   const [exportStats, setExportStats] = useState<{ conversations: number; messages: number } | null>(null)
+  const [exportFormat, setExportFormat] = useState<ArchiveFormat>('ndjson')
+  const [exportProgress, setExportProgress] = useState<{ exported: number; total: number } | null>(null)
+  const [importProgress, setImportProgress] = useState<{ processed: number; imported: number } | null>(null)
+  const { folders, tags } = useConversationOrganization()
+  const [exportFolderId, setExportFolderId] = useState('')
+  const [exportTagId, setExportTagId] = useState('')
 
+  const exportUrl = (format: ArchiveFormat, cursor?: string | null) => {
+    const params = new URLSearchParams({ format })
+    if (cursor) params.set('cursor', cursor)
+    if (exportFolderId) params.set('folder', exportFolderId)
+    if (exportTagId) params.set('tag', exportTagId)
+    return `/api/conversations/export?${params}`
+  }
+
+  // Streams the NDJSON export, resuming from the last completed page if the connection drops
   const handleExport = async () => {
     if (!user) return
-    
+
     setExporting(true)
     setExportStats(null)
-    
+    setExportProgress(null)
+    setImportResult(null)
+
+    if (exportFormat === 'zip') {
+      // The browser streams the archive straight to disk
+      const a = document.createElement('a')
+      a.href = exportUrl('zip')
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      setExporting(false)
+      return
+    }
+
+    const committed: string[] = []
+    let pending: string[] = []
+    let cursor: string | null = null
+    let messageCount = 0
+    let finished: { exported: number; total: number } | null = null
+
     try {
-      // Fetch all conversations
-      const { data: conversations, error: convError } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-
-      if (convError) throw convError
-
-      // Fetch all messages for these conversations
-      const conversationIds = conversations?.map((c: any) => c.id) || []
-      const { data: messages, error: msgError } = await supabase
-        .from('messages')
-        .select('*')
-        .in('conversation_id', conversationIds)
-        .order('created_at', { ascending: true })
-
-      if (msgError) throw msgError
-
-      // Fetch user preferences
-      const { data: preferences } = await supabase
-        .from('user_preferences')
-        .select('*')
-        .eq('user_id', user.id)
-        .single()
-
-      // Create export data
-      const exportData = {
-        version: '1.0',
-        exported_at: new Date().toISOString(),
-        user: {
-          id: user.id,
-          email: user.email,
-          preferences: preferences || null
-        },
-        conversations: conversations?.map((conv: any) => ({
-          ...conv,
-          messages: messages?.filter((m: any) => m.conversation_id === conv.id) || []
-        })) || [],
-        stats: {
-          total_conversations: conversations?.length || 0,
-          total_messages: messages?.length || 0
+      for (let attempt = 0; !finished; attempt++) {
+        pending = []
+        try {
+          const response = await fetch(exportUrl('ndjson', cursor))
+          if (!response.ok || !response.body) {
+            const body = await response.json().catch(() => null)
+            throw new Error(body?.error || `Export failed (${response.status})`)
+          }
+
+          for await (const { value } of readNdjson(response.body)) {
+            const record = value as ArchiveRecord
+            if (record?.type === 'header') {
+              // Resumed requests repeat the header
+              if (committed.length === 0) committed.push(JSON.stringify(record))
+            } else if (record?.type === 'conversation') {
+              pending.push(JSON.stringify(record))
+              messageCount += record.conversation.messages.length
+            } else if (record?.type === 'progress') {
+              committed.push(...pending)
+              pending = []
+              cursor = record.cursor
+              setExportProgress({ exported: record.exported, total: record.total })
+            } else if (record?.type === 'end') {
+              finished = record
+            } else if (record?.type === 'error') {
+              throw new Error(record.error)
+            }
+          }
+          if (!finished) throw new Error('Export stream ended early')
+        } catch (error) {
+          if (attempt >= MAX_EXPORT_RETRIES) throw error
+          console.warn(`⚠️ Export interrupted, resuming (attempt ${attempt + 1}):`, error)
+          // Conversations after the last progress record are sent again on resume
+          messageCount -= pending.reduce((sum, line) => sum + (JSON.parse(line) as { conversation: { messages: unknown[] } }).conversation.messages.length, 0)
         }
       }
 
-      // Create and download file
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' })
+      const blob = new Blob([committed.join('\n') + '\n'], { type: 'application/x-ndjson' })
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = `t3-chat-export-${new Date().toISOString().split('T')[0]}.json`
+      a.download = `t3-chat-export-${new Date().toISOString().split('T')[0]}.ndjson`
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
       URL.revokeObjectURL(url)
 
       setExportStats({
-        conversations: exportData.stats.total_conversations,
-        messages: exportData.stats.total_messages
+        conversations: committed.length - 1,
+        messages: messageCount
       })
     } catch (error) {
       console.error('Export failed:', error)
       setImportResult({ success: false, message: 'Export failed. Please try again.' })
     } finally {
       setExporting(false)
+      setExportProgress(null)
     }
   }
 
-  const handleImport = async () => {
+  // NDJSON and zip archives are imported server-side in batches, with progress streamed back
+  const handleArchiveImport = async (file: File) => {
+    let body: Blob = file
+    if (/\.zip$/i.test(file.name)) {
+      const data = new Uint8Array(await file.arrayBuffer())
+      const files = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+        unzip(data, {
+          filter: entry => /^conversations\/.*\.ndjson$/.test(entry.name)
+        }, (error, result) => error ? reject(error) : resolve(result))
+      })
+      const pages = Object.keys(files).sort().map(name => files[name])
+      if (pages.length === 0) throw new Error('No conversations found in the archive')
+      body = new Blob(pages, { type: 'application/x-ndjson' })
+    }
+
+    const response = await fetch('/api/conversations/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-ndjson' },
+      body
+    })
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => null)
+      throw new Error(error?.error || `Import failed (${response.status})`)
+    }
+
+    let result: ImportResult | null = null
+    const errors: string[] = []
+    for await (const { value } of readNdjson(response.body)) {
+      const record = value as ImportProgressRecord
+      if (record?.type === 'progress' || record?.type === 'end') {
+        setImportProgress({ processed: record.processed, imported: record.importedConversations })
+        result = record
+      } else if (record?.type === 'error') {
+        errors.push(record.line ? `Line ${record.line}: ${record.error}` : record.error)
+      }
+    }
+    if (!result) throw new Error(errors[0] || 'Import did not complete')
+    return { result, errors }
+  }
+
+  const handleSelectFile = (file: File | null) => {
+    setImportFile(file)
+    setImportPreview(null)
+    setImportResult(null)
+  }
+
+  // Dry run: parse, validate and check for duplicates without writing anything
+  const handlePreview = async () => {
     if (!user || !importFile) return
 
     setImporting(true)
     setImportResult(null)
 
     try {
-      // Read file
-      const text = await importFile.text()
-      const data = JSON.parse(text)
-
-      // Validate format
-      if (!data.version || !data.conversations) {
-        throw new Error('Invalid file format')
+      if (isArchiveFile(importFile.name)) {
+        const { result, errors } = await handleArchiveImport(importFile)
+        showImportResult(result, errors)
+        setImportFile(null)
+        return
       }
 
-      // Import conversations and messages
-      let importedConversations = 0
-      let importedMessages = 0
-
-      for (const conv of data.conversations) {
-        // Create conversation
-        const { data: newConv, error: convError } = await supabase
-          .from('conversations')
-          .insert({
-            title: conv.title || 'Imported Chat',
-            user_id: user.id,
-            model_provider: conv.model_provider || 'openai',
-            model_name: conv.model_name || 'gpt-4',
-            system_prompt: conv.system_prompt,
-            created_at: conv.created_at,
-            updated_at: conv.updated_at
-          })
-          .select()
-          .single()
+      const parsed = parseImportFile(importFile.name, await importFile.text())
+      setImportPreview(await buildImportPreview(supabase, user.id, parsed))
+    } catch (error) {
+      console.error('Import preview failed:', error)
+      setImportResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Import failed. Please check the file format.'
+      })
+    } finally {
+      setImporting(false)
+      setImportProgress(null)
+    }
+  }
 
-        if (convError) {
-          console.error('Failed to import conversation:', convError)
-          continue
-        }
+  const showImportResult = (result: ImportResult, errors: string[] = []) => {
+    const skipped = result.skippedDuplicates > 0 ? ` Skipped ${result.skippedDuplicates} duplicates.` : ''
+    const failed = result.failed > 0 ? ` ${result.failed} conversations failed to import.` : ''
+    const unreadable = errors.length > 0 ? ` ${errors.length} lines could not be read.` : ''
+    setImportResult({
+      success: result.failed === 0 && errors.length === 0,
+      message: `Successfully imported ${result.importedConversations} conversations with ${result.importedMessages} messages.${skipped}${failed}${unreadable}`
+    })
+  }
 
-        importedConversations++
-
-        // Import messages for this conversation
-        if (conv.messages && conv.messages.length > 0) {
-          const messagesToInsert = conv.messages.map((msg: any) => ({
-            conversation_id: newConv.id,
-            content: msg.content,
-            role: msg.role,
-            model_metadata: msg.model_metadata,
-            attachments: msg.attachments,
-            created_at: msg.created_at,
-            parent_id: null, // TODO: Handle branching
-            branch_index: 0
-          }))
-
-          const { error: msgError } = await supabase
-            .from('messages')
-            .insert(messagesToInsert)
-
-          if (!msgError) {
-            importedMessages += messagesToInsert.length
-          }
-        }
-      }
+  const handleImport = async () => {
+    if (!user || !importPreview) return
+
+    setImporting(true)
+    setImportResult(null)
+
+    try {
+      const result = await importConversations(supabase, user.id, importPreview)
 
       // Import user preferences if available
-      if (data.user?.preferences) {
+      if (importPreview.preferences) {
         await supabase
           .from('user_preferences')
           .upsert({
-            user_id: user.id,
-            ...data.user.preferences
+            ...importPreview.preferences,
+            user_id: user.id
           })
       }
 
-      setImportResult({
-        success: true,
-        message: `Successfully imported ${importedConversations} conversations with ${importedMessages} messages.`
-      })
+      showImportResult(result)
       setImportFile(null)
+      setImportPreview(null)
     } catch (error) {
       console.error('Import failed:', error)
       setImportResult({
@@ -183,6 +258,8 @@ export default function ConversationExportImport() {
     }
   }
 
+  const newCount = importPreview?.items.filter(item => item.status === 'new').length || 0
+
   return (
     <div className="space-y-8">
       {/* Export Section */}
@@ -191,9 +268,66 @@ export default function ConversationExportImport() {
           Export Conversations
         </h3>
         <p className="text-sm text-gray-600 dark:text-gray-400">
-          Download all your conversations and messages as a JSON file for backup or migration.
+          Download all your conversations and messages for backup or migration. NDJSON exports resume
+          automatically if the connection drops; zip archives also include attachments.
         </p>
-        
+
+        <div className="flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="export-format"
+              checked={exportFormat === 'ndjson'}
+              onChange={() => setExportFormat('ndjson')}
+            />
+            NDJSON
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="export-format"
+              checked={exportFormat === 'zip'}
+              onChange={() => setExportFormat('zip')}
+            />
+            Zip with attachments
+          </label>
+        </div>
+
+        {(folders.length > 0 || tags.length > 0) && (
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {folders.length > 0 && (
+              <label className="flex items-center gap-2">
+                Folder
+                <select
+                  value={exportFolderId}
+                  onChange={e => setExportFolderId(e.target.value)}
+                  className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+                >
+                  <option value="">All folders</option>
+                  {folders.map(folder => (
+                    <option key={folder.id} value={folder.id}>{folder.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {tags.length > 0 && (
+              <label className="flex items-center gap-2">
+                Tag
+                <select
+                  value={exportTagId}
+                  onChange={e => setExportTagId(e.target.value)}
+                  className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+                >
+                  <option value="">All tags</option>
+                  {tags.map(tag => (
+                    <option key={tag.id} value={tag.id}>{tag.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        )}
+
         <div className="flex items-center gap-4">
           <Button
             onClick={handleExport}
@@ -201,9 +335,15 @@ export default function ConversationExportImport() {
             className="flex items-center gap-2"
           >
             <ArrowDownTrayIcon className="w-4 h-4" />
-            {exporting ? 'Exporting...' : 'Export All Conversations'}
+            {exporting ? 'Exporting...' : exportFolderId || exportTagId ? 'Export Selected Conversations' : 'Export All Conversations'}
           </Button>
-          
+
+          {exportProgress && (
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {exportProgress.exported} / {exportProgress.total} conversations
+            </span>
+          )}
+
           {exportStats && (
             <span className="text-sm text-green-600 dark:text-green-400">
               ✓ Exported {exportStats.conversations} conversations with {exportStats.messages} messages
@@ -220,7 +360,8 @@ export default function ConversationExportImport() {
           Import Conversations
         </h3>
         <p className="text-sm text-gray-600 dark:text-gray-400">
-          Restore conversations from a previously exported JSON file.
+          Restore a T3 Chat backup (.json, .ndjson or .zip) or bring in history from ChatGPT (conversations.json), Claude.ai
+          (conversations.json) or a Markdown transcript with &quot;## User&quot; / &quot;## Assistant&quot; headings.
         </p>
 
         <div className="space-y-4">
@@ -228,8 +369,8 @@ export default function ConversationExportImport() {
           <div className="border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg p-6">
             <input
               type="file"
-              accept=".json"
-              onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+              accept=".json,.ndjson,.jsonl,.zip,.md,.markdown,.txt"
+              onChange={(e) => handleSelectFile(e.target.files?.[0] || null)}
               className="hidden"
               id="import-file"
             />
@@ -239,7 +380,7 @@ export default function ConversationExportImport() {
             >
               <DocumentTextIcon className="w-12 h-12 text-gray-400 mb-2" />
               <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                {importFile ? importFile.name : 'Click to select a JSON file'}
+                {importFile ? importFile.name : 'Click to select an export or transcript'}
               </span>
               <span className="text-xs text-gray-500 mt-1">
                 {importFile && `${(importFile.size / 1024).toFixed(2)} KB`}
@@ -247,15 +388,70 @@ export default function ConversationExportImport() {
             </label>
           </div>
 
+          {/* Dry-run preview */}
+          {importPreview && (
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+              <div className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300">
+                {IMPORT_FORMAT_LABELS[importPreview.format]} • {importPreview.items.length} conversations, {newCount} new
+              </div>
+              <ul className="max-h-64 overflow-y-auto">
+                {importPreview.items.map(item => (
+                  <li key={item.contentHash + item.conversation.title} className="px-4 py-2 text-sm flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 dark:text-gray-100 truncate">{item.conversation.title}</div>
+                      <div className="text-xs text-gray-500">
+                        {item.conversation.messages.length} messages
+                        {item.branchCount > 1 && ` • ${item.branchCount} branches`}
+                        {item.conversation.createdAt && ` • ${formatDistanceToNow(new Date(item.conversation.createdAt), { addSuffix: true })}`}
+                      </div>
+                      {[...item.issues, ...item.conversation.warnings].map(note => (
+                        <div key={note} className="text-xs text-amber-600 dark:text-amber-400">{note}</div>
+                      ))}
+                    </div>
+                    <span className={`shrink-0 text-xs px-2 py-0.5 rounded-full ${
+                      item.status === 'new'
+                        ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                        : item.status === 'duplicate'
+                          ? 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+                          : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+                    }`}>
+                      {item.status === 'new' ? 'New' : item.status === 'duplicate' ? 'Already imported' : 'Invalid'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Import Button */}
-          <Button
-            onClick={handleImport}
-            disabled={!importFile || importing}
-            className="flex items-center gap-2"
-          >
-            <ArrowUpTrayIcon className="w-4 h-4" />
-            {importing ? 'Importing...' : 'Import Conversations'}
-          </Button>
+          {importPreview ? (
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={handleImport}
+                disabled={newCount === 0 || importing}
+                className="flex items-center gap-2"
+              >
+                <ArrowUpTrayIcon className="w-4 h-4" />
+                {importing ? 'Importing...' : `Import ${newCount} Conversations`}
+              </Button>
+              <Button variant="outline" onClick={() => setImportPreview(null)} disabled={importing}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button
+              onClick={handlePreview}
+              disabled={!importFile || importing}
+              className="flex items-center gap-2"
+            >
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              {importing
+                ? importProgress
+                  ? `Imported ${importProgress.imported} of ${importProgress.processed} checked...`
+                  : 'Checking...'
+                : importFile && isArchiveFile(importFile.name) ? 'Import Archive' : 'Preview Import'}
+            </Button>
+          )}
 
           {/* Import Result */}
           {importResult && (
@@ -277,9 +473,12 @@ export default function ConversationExportImport() {
         </h4>
         <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
           <li>• Exports include all conversations, messages, and your profile traits</li>
-          <li>• Files are saved in JSON format for easy backup and portability</li>
+          <li>• Each exported conversation records its folder, tags, pin and archive state</li>
+          <li>• Exports are streamed page by page, so large histories download without timing out</li>
+          <li>• Imports show a preview first; conversations you already imported are skipped</li>
+          <li>• Each conversation is imported completely or not at all; re-run an interrupted import to finish it</li>
           <li>• Imported conversations will be added to your existing ones</li>
-          <li>• Message branching structure is preserved during export/import</li>
+          <li>• Message branching (including ChatGPT regenerations) is preserved during import</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,128 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import {
+  TAG_COLORS,
+  type ConversationFolder,
+  type ConversationOrganization,
+  type ConversationTag
+} from '@/lib/conversation-organization'
+
+interface ConversationOrganizeMenuProps {
+  placement: ConversationOrganization
+  folders: ConversationFolder[]
+  tags: ConversationTag[]
+  onPin: (pinned: boolean) => void
+  onArchive: (archived: boolean) => void
+  onMove: (folderId: string | null) => void
+  onToggleTag: (tagId: string) => void
+  onCreateTag: (name: string) => Promise<ConversationTag | null>
+  onClose: () => void
+}
+
+// Pin, archive, folder and tag actions for one conversation in the sidebar
+export default function ConversationOrganizeMenu({
+  placement,
+  folders,
+  tags,
+  onPin,
+  onArchive,
+  onMove,
+  onToggleTag,
+  onCreateTag,
+  onClose
+}: ConversationOrganizeMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+  const [newTag, setNewTag] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    const handlePointerDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose()
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('mousedown', handlePointerDown)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [onClose])
+
+  const handleCreateTag = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    try {
+      const tag = await onCreateTag(newTag)
+      if (tag) {
+        onToggleTag(tag.id)
+        setNewTag('')
+      }
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create tag')
+    }
+  }
+
+  const itemClass = 'w-full text-left px-3 py-1.5 text-sm hover:bg-slate-100 dark:hover:bg-slate-700 rounded'
+
+  return (
+    <div
+      ref={menuRef}
+      onClick={e => e.stopPropagation()}
+      className="absolute right-2 top-10 z-30 w-56 p-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg"
+    >
+      {!placement.archived && (
+        <button type="button" className={itemClass} onClick={() => { onPin(!placement.pinned); onClose() }}>
+          {placement.pinned ? '📌 Unpin' : '📌 Pin to top'}
+        </button>
+      )}
+      <button type="button" className={itemClass} onClick={() => { onArchive(!placement.archived); onClose() }}>
+        {placement.archived ? '📤 Restore from archive' : '🗄️ Archive'}
+      </button>
+
+      <div className="border-t border-slate-200 dark:border-slate-700 my-1" />
+      <label className="block px-3 py-1 text-xs text-slate-500">
+        Folder
+        <select
+          value={placement.folderId || ''}
+          onChange={e => onMove(e.target.value || null)}
+          className="mt-1 w-full px-2 py-1 text-sm rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900"
+        >
+          <option value="">No folder</option>
+          {folders.map(folder => (
+            <option key={folder.id} value={folder.id}>{folder.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="border-t border-slate-200 dark:border-slate-700 my-1" />
+      <div className="px-3 py-1 text-xs text-slate-500">Tags</div>
+      <div className="max-h-40 overflow-y-auto">
+        {tags.map(tag => (
+          <label key={tag.id} className="flex items-center gap-2 px-3 py-1 text-sm cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700 rounded">
+            <input
+              type="checkbox"
+              checked={placement.tagIds.includes(tag.id)}
+              onChange={() => onToggleTag(tag.id)}
+            />
+            <span className={`text-xs px-2 py-0.5 rounded-full ${TAG_COLORS[tag.color] || TAG_COLORS.slate}`}>
+              {tag.name}
+            </span>
+          </label>
+        ))}
+      </div>
+      <form onSubmit={handleCreateTag} className="px-3 py-1">
+        <input
+          value={newTag}
+          onChange={e => setNewTag(e.target.value)}
+          placeholder="New tag…"
+          className="w-full px-2 py-1 text-sm rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900"
+        />
+      </form>
+      {error && <p className="px-3 py-1 text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
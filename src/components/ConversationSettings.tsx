@@ -0,0 +1,262 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { getModelById } from '@/lib/models'
+import {
+  DEFAULT_CONVERSATION_SETTINGS,
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  DEFAULT_TEMPERATURE,
+  SETTINGS_LIMITS,
+  validateConversationSettings,
+  type ConversationSettings as Settings
+} from '@/lib/conversation-settings'
+
+interface ConversationSettingsProps {
+  isOpen: boolean
+  onClose: () => void
+  conversationId: string
+  selectedModel: string
+}
+
+// Form state keeps raw strings so empty fields can mean "use the default"
+interface SettingsForm {
+  systemPrompt: string
+  temperature: string
+  topP: string
+  maxOutputTokens: string
+  stopSequences: string
+}
+
+function toForm(settings: Settings): SettingsForm {
+  return {
+    systemPrompt: settings.systemPrompt || '',
+    temperature: settings.temperature?.toString() ?? '',
+    topP: settings.topP?.toString() ?? '',
+    maxOutputTokens: settings.maxOutputTokens?.toString() ?? '',
+    stopSequences: settings.stopSequences.join('\n')
+  }
+}
+
+function fromForm(form: SettingsForm) {
+  const toNumber = (value: string) => value.trim() === '' ? null : Number(value)
+  return {
+    systemPrompt: form.systemPrompt.trim() || null,
+    temperature: toNumber(form.temperature),
+    topP: toNumber(form.topP),
+    maxOutputTokens: toNumber(form.maxOutputTokens),
+    stopSequences: form.stopSequences.split('\n').filter(sequence => sequence.length > 0)
+  }
+}
+
+export default function ConversationSettings({
+  isOpen,
+  onClose,
+  conversationId,
+  selectedModel
+}: ConversationSettingsProps) {
+  const [form, setForm] = useState<SettingsForm>(toForm(DEFAULT_CONVERSATION_SETTINGS))
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const model = getModelById(selectedModel)
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      if (!isOpen) return
+      setIsLoading(true)
+      setErrors([])
+      try {
+        const response = await fetch(`/api/conversations/${conversationId}/settings`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load settings')
+        }
+        setForm(toForm(data.settings))
+      } catch (error) {
+        setErrors([error instanceof Error ? error.message : 'Failed to load settings'])
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadSettings()
+  }, [isOpen, conversationId])
+
+  const updateField = (field: keyof SettingsForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      setForm(prev => ({ ...prev, [field]: e.target.value }))
+    }
+
+  const handleSave = async () => {
+    const settings = fromForm(form)
+
+    // Same validation the server runs, so most mistakes never leave the browser
+    const validation = validateConversationSettings(settings, model)
+    if (!validation.ok) {
+      setErrors(validation.errors)
+      return
+    }
+
+    setIsSaving(true)
+    setErrors([])
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...settings, model: selectedModel })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setErrors(Array.isArray(data.details) ? data.details : [data.error || 'Failed to save settings'])
+        return
+      }
+      onClose()
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save settings'])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReset = () => {
+    setForm(toForm(DEFAULT_CONVERSATION_SETTINGS))
+    setErrors([])
+  }
+
+  if (!isOpen) return null
+
+  const textareaClassName = 'w-full rounded-md border border-slate-200 dark:border-slate-700 bg-transparent px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>⚙️ Conversation Settings</CardTitle>
+              <CardDescription>
+                Applied to every response in this conversation{model ? ` - validated for ${model.name}` : ''}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              ✕
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
+              {/* System Prompt */}
+              <div className="space-y-2">
+                <Label htmlFor="system-prompt">System Prompt</Label>
+                <textarea
+                  id="system-prompt"
+                  rows={5}
+                  className={textareaClassName}
+                  placeholder="Leave empty to use the default assistant prompt"
+                  value={form.systemPrompt}
+                  onChange={updateField('systemPrompt')}
+                  maxLength={SETTINGS_LIMITS.systemPromptLength}
+                />
+              </div>
+
+              {/* Sampling */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="temperature">Temperature</Label>
+                  <Input
+                    id="temperature"
+                    type="number"
+                    step="0.1"
+                    min={SETTINGS_LIMITS.temperature.min}
+                    max={SETTINGS_LIMITS.temperature.max}
+                    placeholder={`Default ${DEFAULT_TEMPERATURE}`}
+                    value={form.temperature}
+                    onChange={updateField('temperature')}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="top-p">Top P</Label>
+                  <Input
+                    id="top-p"
+                    type="number"
+                    step="0.05"
+                    min={SETTINGS_LIMITS.topP.min}
+                    max={SETTINGS_LIMITS.topP.max}
+                    placeholder="Provider default"
+                    value={form.topP}
+                    onChange={updateField('topP')}
+                  />
+                </div>
+              </div>
+
+              {/* Max Output Tokens */}
+              <div className="space-y-2">
+                <Label htmlFor="max-output-tokens">Max Output Tokens</Label>
+                <Input
+                  id="max-output-tokens"
+                  type="number"
+                  min={1}
+                  max={model?.maxTokens}
+                  placeholder={`Default ${DEFAULT_MAX_OUTPUT_TOKENS}`}
+                  value={form.maxOutputTokens}
+                  onChange={updateField('maxOutputTokens')}
+                />
+                {model && (
+                  <p className="text-xs text-slate-500">
+                    {model.name} supports up to {model.maxTokens.toLocaleString()} tokens
+                  </p>
+                )}
+              </div>
+
+              {/* Stop Sequences */}
+              <div className="space-y-2">
+                <Label htmlFor="stop-sequences">Stop Sequences</Label>
+                <textarea
+                  id="stop-sequences"
+                  rows={3}
+                  className={textareaClassName}
+                  placeholder="One per line"
+                  value={form.stopSequences}
+                  onChange={updateField('stopSequences')}
+                />
+                <p className="text-xs text-slate-500">
+                  Up to {SETTINGS_LIMITS.maxStopSequences} sequences. Generation stops when any of them is produced.
+                </p>
+              </div>
+            </>
+          )}
+
+          {errors.length > 0 && (
+            <div className="space-y-1">
+              {errors.map(error => (
+                <p key={error} className="text-sm text-red-600">❌ {error}</p>
+              ))}
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4">
+            <Button onClick={handleSave} className="flex-1" disabled={isLoading || isSaving}>
+              {isSaving ? '⏳ Saving...' : '💾 Save Settings'}
+            </Button>
+            <Button variant="outline" onClick={handleReset} disabled={isLoading || isSaving}>
+              Reset to Defaults
+            </Button>
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
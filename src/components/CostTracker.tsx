@@ -4,14 +4,16 @@ import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { CurrencyDollarIcon, ChartBarIcon, ClockIcon, SparklesIcon } from '@heroicons/react/24/outline'
 import { getModelById } from '@/lib/ai'
+import { calculateModelCost } from '@/lib/models'
+import type { AssistantMessageMetadata } from '@/lib/chat-persistence'
 import { createClientComponentClient } from '@/lib/supabase'
-import { getOpenRouterProvider } from '@/lib/openrouter'
+import { OPENROUTER_FEE_PERCENTAGE, type OpenRouterClientConfig } from '@/lib/openrouter'
 import { useAuth } from '@/contexts/AuthContext'
 
 interface CostTrackerProps {
   conversationId: string
   className?: string
-  openRouterConfig?: { enabled: boolean; apiKey: string }
+  openRouterConfig?: OpenRouterClientConfig
   selectedModel?: string
 }
 
@@ -41,7 +43,7 @@ interface CostSummary {
 export default function CostTracker({ 
   conversationId, 
   className = '', 
-  openRouterConfig = { enabled: false, apiKey: '' },
+  openRouterConfig = { enabled: false, fallbackToDirectAPIs: true },
   selectedModel = 'claude-3-haiku-20240307'
 }: CostTrackerProps) {
   const [isOpen, setIsOpen] = useState(false)
@@ -57,33 +59,11 @@ export default function CostTracker({
   const supabase = createClientComponentClient()
   const { user } = useAuth()
 
-  // Estimate token count for text (rough approximation: 1 token ≈ 4 characters)
+  // Estimate token count for messages saved before real usage was recorded (1 token ≈ 4 characters)
   const estimateTokens = (text: string): number => {
     return Math.ceil(text.length / 4)
   }
 
-  // Calculate cost for given model and tokens
-  const calculateCost = (modelId: string, inputTokens: number, outputTokens: number, useOpenRouter: boolean = false): number => {
-    const model = getModelById(modelId)
-    if (!model) return 0
-
-    let inputCost = (inputTokens / 1000) * model.pricing.input
-    let outputCost = (outputTokens / 1000) * model.pricing.output
-
-    // Apply OpenRouter fee if enabled (5% additional cost)
-    if (useOpenRouter && openRouterConfig.enabled) {
-      const provider = getOpenRouterProvider({
-        ...openRouterConfig,
-        fallbackToDirectAPIs: true
-      })
-      const fee = provider.getCostSavings() // Returns negative value for fee
-      inputCost *= (1 - fee / 100) // This adds the fee since fee is negative
-      outputCost *= (1 - fee / 100)
-    }
-
-    return inputCost + outputCost
-  }
-
   // Load and calculate cost data from conversation messages
   useEffect(() => {
     const loadCostData = async () => {
@@ -141,50 +121,55 @@ export default function CostTracker({
         const byModel: Record<string, { cost: number; tokens: number; messages: number }> = {}
         const recentUsageList: TokenUsage[] = []
 
-        // Process each message pair (user + assistant)
+        const getText = (message: typeof messages[number]): string => typeof message.content === 'string'
+          ? message.content
+          : (message.content as { text?: string } | null)?.text || ''
+
+        // Assistant messages saved by /api/chat carry their real usage; older ones are estimated
         for (let i = 0; i < messages.length; i++) {
           const message = messages[i]
-          const content = typeof message.content === 'string' 
-            ? message.content 
-            : (message.content as any)?.text || ''
-
-          if (message.role === 'user') {
-            // User message = input tokens
-            const tokens = estimateTokens(content)
-            totalInputTokens += tokens
-
-            // Look for the next assistant message
-            const nextMessage = messages[i + 1]
-            if (nextMessage && nextMessage.role === 'assistant') {
-              const assistantContent = typeof nextMessage.content === 'string' 
-                ? nextMessage.content 
-                : (nextMessage.content as any)?.text || ''
-              const outputTokens = estimateTokens(assistantContent)
-              totalOutputTokens += outputTokens
-
-              // Use model from message metadata or fallback to selected model
-              const messageModel = (message.model_metadata as any)?.model || selectedModel
-              const cost = calculateCost(messageModel, tokens, outputTokens, openRouterConfig.enabled)
-              totalCost += cost
-
-              // Track by model
-              if (!byModel[messageModel]) {
-                byModel[messageModel] = { cost: 0, tokens: 0, messages: 0 }
-              }
-              byModel[messageModel].cost += cost
-              byModel[messageModel].tokens += tokens + outputTokens
-              byModel[messageModel].messages += 1
-
-              // Add to recent usage (last 10)
-              recentUsageList.push({
-                inputTokens: tokens,
-                outputTokens: outputTokens,
-                totalCost: cost,
-                modelId: messageModel,
-                timestamp: message.created_at
-              })
-            }
+          if (message.role !== 'assistant') continue
+
+          const metadata = message.model_metadata as Partial<AssistantMessageMetadata> | null
+          const messageModel = metadata?.model || selectedModel
+          let inputTokens: number
+          let outputTokens: number
+          let cost: number
+
+          if (metadata?.usage && metadata.cost) {
+            inputTokens = metadata.usage.promptTokens
+            outputTokens = metadata.usage.completionTokens
+            cost = metadata.cost.total
+          } else {
+            const previousMessage = messages[i - 1]
+            inputTokens = previousMessage?.role === 'user' ? estimateTokens(getText(previousMessage)) : 0
+            outputTokens = estimateTokens(getText(message))
+            const model = getModelById(messageModel)
+            // Apply OpenRouter fee if enabled (5% additional cost)
+            const feePercentage = openRouterConfig.enabled ? OPENROUTER_FEE_PERCENTAGE : 0
+            cost = model ? calculateModelCost(model, inputTokens, outputTokens, feePercentage).total : 0
+          }
+
+          totalInputTokens += inputTokens
+          totalOutputTokens += outputTokens
+          totalCost += cost
+
+          // Track by model
+          if (!byModel[messageModel]) {
+            byModel[messageModel] = { cost: 0, tokens: 0, messages: 0 }
           }
+          byModel[messageModel].cost += cost
+          byModel[messageModel].tokens += inputTokens + outputTokens
+          byModel[messageModel].messages += 1
+
+          // Add to recent usage (last 10)
+          recentUsageList.push({
+            inputTokens,
+            outputTokens,
+            totalCost: cost,
+            modelId: messageModel,
+            timestamp: message.created_at
+          })
         }
 
         setCostSummary({
@@ -412,6 +397,17 @@ export default function CostTracker({
                   </div>
                 </div>
               )}
+
+              {user && (
+                <div className="p-3 border-t border-gray-200 dark:border-gray-700 text-center">
+                  <a
+                    href="/settings#usage"
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    View usage across all conversations
+                  </a>
+                </div>
+              )}
             </motion.div>
           </>
         )}
@@ -19,22 +19,13 @@ import {
   DocumentDuplicateIcon
 } from '@heroicons/react/24/outline'
 import { CpuChipIcon, EyeIcon, AcademicCapIcon } from '@heroicons/react/24/solid'
-
-interface ThoughtStep {
-  type: 'analysis' | 'reasoning' | 'conclusion' | 'verification' | 'reflection' | 'hypothesis' | 'evaluation'
-  thought: string
-  confidence?: number
-  evidence?: string[]
-  duration?: number
-  emotion?: 'curious' | 'confident' | 'uncertain' | 'excited' | 'concerned' | 'satisfied'
-  keywords?: string[]
-  relatedConcepts?: string[]
-  complexity?: number // 1-5 scale
-  timestamp?: number
-}
+import type { ThoughtStep } from '@/lib/reasoning'
 
 interface EnhancedChainOfThoughtProps {
   reasoning: ThoughtStep[]
+  title?: string
+  // Reasoning is still arriving from the model
+  isStreaming?: boolean
   isVisible?: boolean
   onToggle?: () => void
   autoPlay?: boolean
@@ -45,6 +36,8 @@ interface EnhancedChainOfThoughtProps {
 
 export default function EnhancedChainOfThought({ 
   reasoning, 
+  title = 'Enhanced Chain of Thought',
+  isStreaming = false,
   isVisible = true, 
   onToggle,
   autoPlay = false,
@@ -221,7 +214,11 @@ export default function EnhancedChainOfThought({
 
   const calculateMetrics = () => {
     const totalDuration = reasoning.reduce((sum, step) => sum + (step.duration || 0), 0)
-    const avgConfidence = reasoning.reduce((sum, step) => sum + (step.confidence || 0), 0) / reasoning.length
+    // Only average confidence the model actually reported
+    const scored = reasoning.filter(step => step.confidence !== undefined)
+    const avgConfidence = scored.length > 0
+      ? scored.reduce((sum, step) => sum + step.confidence!, 0) / scored.length
+      : undefined
     const complexityScore = reasoning.reduce((sum, step) => sum + (step.complexity || 1), 0) / reasoning.length
     
     return { totalDuration, avgConfidence, complexityScore }
@@ -242,10 +239,12 @@ export default function EnhancedChainOfThought({
           </div>
           <div>
             <h3 className="text-lg font-bold text-slate-900 dark:text-slate-100">
-              Enhanced Chain of Thought
+              {title}
             </h3>
             <p className="text-sm text-slate-500 dark:text-slate-400">
-              {reasoning.length} reasoning steps • {Math.round(totalDuration)}ms total
+              {reasoning.length} reasoning steps
+              {totalDuration > 0 && ` • ${Math.round(totalDuration)}ms total`}
+              {isStreaming && <span className="ml-1 animate-pulse">• thinking…</span>}
             </p>
           </div>
         </div>
@@ -310,7 +309,7 @@ export default function EnhancedChainOfThought({
         <div className="grid grid-cols-3 gap-4 p-4 bg-white/30 dark:bg-slate-800/30 rounded-xl">
           <div className="text-center">
             <div className="text-2xl font-bold text-slate-900 dark:text-slate-100">
-              {(avgConfidence * 100).toFixed(0)}%
+              {avgConfidence !== undefined ? `${(avgConfidence * 100).toFixed(0)}%` : '—'}
             </div>
             <div className="text-xs text-slate-500 dark:text-slate-400">Avg Confidence</div>
           </div>
@@ -491,8 +490,11 @@ export default function EnhancedChainOfThought({
                           </div>
                         </div>
 
-                        <p className="text-slate-700 dark:text-slate-300 leading-relaxed mb-3">
+                        <p className="text-slate-700 dark:text-slate-300 leading-relaxed mb-3 whitespace-pre-wrap">
                           {step.thought}
+                          {isStreaming && index === reasoning.length - 1 && (
+                            <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-slate-400 animate-pulse" />
+                          )}
                         </p>
 
                         {/* Keywords */}
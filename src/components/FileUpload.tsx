@@ -15,6 +15,7 @@ import {
 import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid'
 import ModelSelector from './ModelSelector'
 import { useRealtimeChat } from '@/hooks/useRealtimeChat'
+import { blocksToMarkdown, getStructuredFormat, parseStructuredDocument } from '@/lib/document-parsers'
 
 export interface UploadedFile {
   id: string
@@ -53,8 +54,10 @@ export default function FileUpload({
   accept = {
     'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.bmp', '.webp'],
     'application/pdf': ['.pdf'],
-    'text/*': ['.txt', '.md', '.csv'],
-    'application/json': ['.json']
+    'text/*': ['.txt', '.md', '.csv', '.tsv', '.html', '.htm', '.yaml', '.yml'],
+    'application/json': ['.json'],
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
   },
   disabled = false
 }: FileUploadProps) {
@@ -73,7 +76,7 @@ export default function FileUpload({
       return await analyzeImage(file)
     } else if (fileType === 'application/pdf') {
       return await analyzePDF(file)
-    } else if (fileType.startsWith('text/')) {
+    } else if (fileType.startsWith('text/') || getStructuredFormat(file)) {
       return await analyzeText(file)
     }
 
@@ -269,7 +272,12 @@ export default function FileUpload({
         summary: result.summary,
         metadata: {
           pages: result.pages,
-          size: file.size
+          size: file.size,
+          title: result.title,
+          author: result.metadata?.author,
+          outline: result.outline,
+          links: result.links,
+          ocrPages: result.page_texts?.filter((page: { ocr: boolean }) => page.ocr).map((page: { page: number }) => page.page)
         }
       }
     } catch (error) {
@@ -287,8 +295,10 @@ export default function FileUpload({
 
   const analyzeText = async (file: File): Promise<UploadedFile['analysis']> => {
     try {
-      // Convert file to text for analysis
-      const fileContent = await file.text()
+      // Convert file to text for analysis; structured formats are flattened to markdown
+      const fileContent = getStructuredFormat(file)
+        ? blocksToMarkdown((await parseStructuredDocument(file)).blocks)
+        : await file.text()
 
       // Call analysis API with selected model
       const response = await fetch('/api/analyze-file', {
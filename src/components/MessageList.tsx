@@ -5,7 +5,11 @@ import ReactMarkdown from 'react-markdown'
 import rehypeHighlight from 'rehype-highlight'
 import MessageActions from './MessageActions'
 import CodeBlock from './CodeBlock'
+import EnhancedChainOfThought from './EnhancedChainOfThought'
 import { detectCodeLanguage } from '@/lib/code-detection'
+import { describeSource, getAnnotatedSources, getCitationIndex, linkCitations, type RAGSource } from '@/lib/rag-citations'
+import { ragContextManager } from '@/lib/rag-context'
+import { reasoningToThoughtSteps } from '@/lib/reasoning'
 import type { Database } from '@/lib/supabase'
 import type { Message as AIMessage } from 'ai'
 
@@ -17,6 +21,9 @@ interface MessageListProps {
   onCreateBranch?: (messageId: string) => void
   onScroll?: () => void
   isAIResponding?: boolean
+  // Messages the last response left out to fit the model's context window
+  compressedMessageIds?: Set<string>
+  onTogglePin?: (message: DBMessage) => void
 }
 
 // Memoized markdown components to prevent recreation on every render
@@ -67,6 +74,28 @@ const MarkdownComponents = {
   })
 }
 
+// Inline [n] citation that opens the cited chunk in the RAG context viewer
+type AnchorProps = React.ComponentPropsWithoutRef<'a'>
+
+function CitationLink({ href, title, children, sources }: AnchorProps & { sources: RAGSource[] }) {
+  const index = getCitationIndex(href)
+  const source = index !== null ? sources.find(s => s.index === index) : undefined
+  if (!source) {
+    return <a href={href} title={title}>{children}</a>
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => ragContextManager.showSource(source)}
+      className="mx-0.5 px-1 rounded text-xs font-medium align-super text-purple-700 bg-purple-100 hover:bg-purple-200 dark:text-purple-300 dark:bg-purple-900/50 dark:hover:bg-purple-800/50 no-underline"
+      title={describeSource(source)}
+    >
+      {children}
+    </button>
+  )
+}
+
 // Memoized empty state component
 const EmptyState = memo(() => (
   <div className="h-full flex items-center justify-center p-8">
@@ -102,10 +131,16 @@ EmptyState.displayName = 'EmptyState'
 interface MessageBubbleProps {
   message: DBMessage
   isLast: boolean
+  // The model is still writing this message
+  isStreaming?: boolean
+  isCompressed?: boolean
+  // Sources sent with an answer that hasn't been saved yet
+  streamedSources?: RAGSource[]
   onCreateBranch?: (messageId: string) => void
+  onTogglePin?: (message: DBMessage) => void
 }
 
-const MessageBubble = memo(({ message, onCreateBranch }: MessageBubbleProps) => {
+const MessageBubble = memo(({ message, isStreaming = false, isCompressed = false, streamedSources, onCreateBranch, onTogglePin }: MessageBubbleProps) => {
   const isUser = message.role === 'user'
   const isAssistant = message.role === 'assistant'
   const isSystem = message.role === 'system'
@@ -132,6 +167,23 @@ const MessageBubble = memo(({ message, onCreateBranch }: MessageBubbleProps) =>
     console.log('📋 [MessageList] Copied to clipboard:', content.substring(0, 50) + '...')
   }, [])
 
+  const sources = useMemo(() => {
+    if (!isAssistant) return []
+    if (streamedSources?.length) return streamedSources
+    const metadata = message.model_metadata as { sources?: RAGSource[] } | null
+    return Array.isArray(metadata?.sources) ? metadata.sources : []
+  }, [message.model_metadata, isAssistant, streamedSources])
+
+  const [showReasoning, setShowReasoning] = useState(false)
+  const thoughtSteps = useMemo(
+    () => isAssistant && message.reasoning ? reasoningToThoughtSteps(message.reasoning) : [],
+    [message.reasoning, isAssistant]
+  )
+
+  const markdownComponents = useMemo(() => sources.length > 0
+    ? { ...MarkdownComponents, a: (props: AnchorProps) => <CitationLink {...props} sources={sources} /> }
+    : MarkdownComponents, [sources])
+
   const messageContent = getMessageContent()
 
   if (isSystem) {
@@ -159,20 +211,71 @@ const MessageBubble = memo(({ message, onCreateBranch }: MessageBubbleProps) =>
               {(message.model_metadata as { model?: string }).model || 'AI'}
             </span>
           )}
+          {message.pinned_at && (
+            <span className="text-xs text-amber-600 dark:text-amber-400" title="Always sent to the model">
+              📌 Pinned
+            </span>
+          )}
+          {isCompressed && (
+            <span
+              className="text-xs px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400"
+              title="Left out of the last request to fit the model's context window; replaced by a summary when one was available"
+            >
+              Compressed
+            </span>
+          )}
+          {onTogglePin && !message.id.startsWith('ai-temp-') && (
+            <button
+              type="button"
+              onClick={() => onTogglePin(message)}
+              className="ml-auto opacity-0 group-hover:opacity-100 transition-opacity text-xs text-slate-500 hover:text-amber-600 dark:text-slate-400 dark:hover:text-amber-400"
+              title={message.pinned_at ? 'Unpin: may be compressed in long conversations' : 'Pin: always send this message to the model'}
+            >
+              {message.pinned_at ? 'Unpin' : '📌 Pin'}
+            </button>
+          )}
         </div>
 
+        {/* Native reasoning tokens, streamed before and alongside the answer */}
+        {thoughtSteps.length > 0 && (
+          <EnhancedChainOfThought
+            reasoning={thoughtSteps}
+            title={isStreaming ? 'Thinking' : 'Reasoning'}
+            isStreaming={isStreaming}
+            isVisible={isStreaming || showReasoning}
+            onToggle={() => setShowReasoning(visible => !visible)}
+            showMetrics={false}
+          />
+        )}
+
         {/* Message Content */}
         <div className="text-slate-900 dark:text-slate-100">
           <div className="prose prose-base dark:prose-invert max-w-none">
             <ReactMarkdown
               rehypePlugins={[[rehypeHighlight, { detect: true }]]}
-              components={MarkdownComponents}
+              components={markdownComponents}
             >
-              {messageContent}
+              {linkCitations(messageContent, sources)}
             </ReactMarkdown>
           </div>
         </div>
 
+        {/* Sources cited by the answer */}
+        {sources.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {sources.map(source => (
+              <button
+                key={source.index}
+                type="button"
+                onClick={() => ragContextManager.showSource(source)}
+                className="text-xs px-2 py-0.5 rounded-full border border-purple-200 dark:border-purple-700/50 text-purple-700 dark:text-purple-300 hover:bg-purple-50 dark:hover:bg-purple-900/30 transition-colors"
+              >
+                [{source.index}] {describeSource(source)}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Message Actions and Time */}
         {!isSystem && (
           <div className="flex items-center justify-between mt-1">
@@ -197,13 +300,32 @@ const MessageBubble = memo(({ message, onCreateBranch }: MessageBubbleProps) =>
   // Custom comparison function for memo
   return prevProps.message.id === nextProps.message.id &&
          prevProps.message.content === nextProps.message.content &&
-         prevProps.isLast === nextProps.isLast
+         prevProps.message.reasoning === nextProps.message.reasoning &&
+         prevProps.message.pinned_at === nextProps.message.pinned_at &&
+         prevProps.isLast === nextProps.isLast &&
+         prevProps.isStreaming === nextProps.isStreaming &&
+         prevProps.isCompressed === nextProps.isCompressed &&
+         prevProps.streamedSources === nextProps.streamedSources &&
+         prevProps.onTogglePin === nextProps.onTogglePin
 })
 
 MessageBubble.displayName = 'MessageBubble'
 
+// Pins change messages in the middle of the list, which the length and last-id checks miss
+function pinnedSignature(messages: DBMessage[]): string {
+  return messages.filter(message => message.pinned_at).map(message => message.id).join(',')
+}
+
 // Main MessageList component with memoization and ref forwarding
-const MessageList = memo(forwardRef<HTMLDivElement, MessageListProps>(({ messages, aiMessages = [], onCreateBranch, onScroll, isAIResponding = false }, ref) => {
+const MessageList = memo(forwardRef<HTMLDivElement, MessageListProps>(({
+  messages,
+  aiMessages = [],
+  onCreateBranch,
+  onScroll,
+  isAIResponding = false,
+  compressedMessageIds,
+  onTogglePin
+}, ref) => {
   // Use startTransition for non-urgent updates
   const [visibleMessages, setVisibleMessages] = useState<DBMessage[]>([])
   
@@ -234,6 +356,7 @@ const MessageList = memo(forwardRef<HTMLDivElement, MessageListProps>(({ message
           parent_id: null,
           role: aiMsg.role as 'user' | 'assistant' | 'system',
           content: { text: aiMsg.content },
+          reasoning: aiMsg.reasoning || null,
           created_at: new Date().toISOString(),
           model_metadata: null,
           attachments: null,
@@ -245,6 +368,11 @@ const MessageList = memo(forwardRef<HTMLDivElement, MessageListProps>(({ message
     return combined
   }, [messages, aiMessages])
 
+  // Citations for answers still streaming, keyed by their temporary message id
+  const streamedSources = useMemo(() => new Map(aiMessages.map(aiMsg =>
+    [`ai-temp-${aiMsg.id}`, getAnnotatedSources(aiMsg.annotations)]
+  )), [aiMessages])
+
   // Update visible messages with React 18 transitions for better performance
   useEffect(() => {
     startTransition(() => {
@@ -264,14 +392,21 @@ const MessageList = memo(forwardRef<HTMLDivElement, MessageListProps>(({ message
       onScroll={onScroll}
     >
       <div className="max-w-3xl mx-auto px-4 py-8 space-y-6 contain-layout message-list">
-        {(visibleMessages.length > 0 ? visibleMessages : allMessages).map((message, index) => (
-          <MessageBubble
-            key={message.id}
-            message={message}
-            isLast={index === visibleMessages.length - 1}
-            onCreateBranch={onCreateBranch}
-          />
-        ))}
+        {(visibleMessages.length > 0 ? visibleMessages : allMessages).map((message, index) => {
+          const isLast = index === visibleMessages.length - 1
+          return (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              isLast={isLast}
+              isStreaming={isAIResponding && isLast && message.id.startsWith('ai-temp-')}
+              isCompressed={!!compressedMessageIds?.has(message.id)}
+              streamedSources={streamedSources.get(message.id)}
+              onCreateBranch={onCreateBranch}
+              onTogglePin={onTogglePin}
+            />
+          )
+        })}
         {/* Add padding at bottom for better scrolling */}
         <div className="h-24" />
       </div>
@@ -284,7 +419,13 @@ const MessageList = memo(forwardRef<HTMLDivElement, MessageListProps>(({ message
          nextProps.messages[nextProps.messages.length - 1]?.id &&
          prevProps.aiMessages?.length === nextProps.aiMessages?.length &&
          prevProps.aiMessages?.[prevProps.aiMessages.length - 1]?.content === 
-         nextProps.aiMessages?.[nextProps.aiMessages.length - 1]?.content
+         nextProps.aiMessages?.[nextProps.aiMessages.length - 1]?.content &&
+         prevProps.aiMessages?.[prevProps.aiMessages.length - 1]?.reasoning === 
+         nextProps.aiMessages?.[nextProps.aiMessages.length - 1]?.reasoning &&
+         prevProps.isAIResponding === nextProps.isAIResponding &&
+         pinnedSignature(prevProps.messages) === pinnedSignature(nextProps.messages) &&
+         prevProps.compressedMessageIds === nextProps.compressedMessageIds &&
+         prevProps.onTogglePin === nextProps.onTogglePin
 })
 
 MessageList.displayName = 'MessageList'
@@ -7,18 +7,31 @@ import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/badge'
-import { OPENROUTER_FEE_PERCENTAGE } from '@/lib/openrouter'
-import { AI_MODELS } from '@/lib/ai'
+import { OPENROUTER_FEE_PERCENTAGE, type OpenRouterClientConfig } from '@/lib/openrouter'
 import { useUsageTracking } from '@/lib/usage-tracker'
 import { useAuth } from '@/contexts/AuthContext'
 
 interface OpenRouterSettingsProps {
   isOpen: boolean
   onClose: () => void
-  onConfigChange: (config: { enabled: boolean; apiKey: string }) => void
-  currentConfig: { enabled: boolean; apiKey: string }
+  onConfigChange: (config: OpenRouterClientConfig) => void
+  currentConfig: OpenRouterClientConfig
 }
 
+type DirectKeyProvider = 'openai' | 'anthropic' | 'google' | 'xai'
+
+interface StoredKey {
+  provider: 'openRouter' | DirectKeyProvider
+  keyHint: string
+}
+
+const DIRECT_KEY_PROVIDERS: { id: DirectKeyProvider; label: string; placeholder: string }[] = [
+  { id: 'openai', label: 'OpenAI', placeholder: 'sk-...' },
+  { id: 'anthropic', label: 'Anthropic', placeholder: 'sk-ant-...' },
+  { id: 'google', label: 'Google AI', placeholder: 'AIza...' },
+  { id: 'xai', label: 'xAI', placeholder: 'xai-...' }
+]
+
 export default function OpenRouterSettings({
   isOpen,
   onClose,
@@ -26,38 +39,40 @@ export default function OpenRouterSettings({
   currentConfig
 }: OpenRouterSettingsProps) {
   const [enabled, setEnabled] = useState(currentConfig.enabled)
-  const [apiKey, setApiKey] = useState(currentConfig.apiKey)
+  const [apiKey, setApiKey] = useState('')
+  const [fallbackToDirectAPIs, setFallbackToDirectAPIs] = useState(currentConfig.fallbackToDirectAPIs)
+  const [storedKeys, setStoredKeys] = useState<StoredKey[]>([])
+  const [directKeys, setDirectKeys] = useState<Partial<Record<DirectKeyProvider, string>>>({})
   const [isValidating, setIsValidating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
   const [validationResult, setValidationResult] = useState<'valid' | 'invalid' | null>(null)
-  const { updateByokStatus, getUsage } = useUsageTracking()
+  const { invalidateCache } = useUsageTracking()
   const { user } = useAuth()
 
+  const storedOpenRouterKey = storedKeys.find(key => key.provider === 'openRouter')
+
   useEffect(() => {
     setEnabled(currentConfig.enabled)
-    setApiKey(currentConfig.apiKey)
+    setFallbackToDirectAPIs(currentConfig.fallbackToDirectAPIs)
   }, [currentConfig])
 
-  // Load config from user profile on mount
+  // Load stored key hints from the server when the modal opens
   useEffect(() => {
-    const loadFromProfile = async () => {
-      if (user) {
-        const usage = await getUsage()
-        if (usage?.apiKeys?.openRouter) {
-          const profileConfig = {
-            enabled: true,
-            apiKey: usage.apiKeys.openRouter
-          }
-          setEnabled(true)
-          setApiKey(usage.apiKeys.openRouter)
-          // Also update localStorage for consistency
-          localStorage.setItem('openrouter-config', JSON.stringify(profileConfig))
-          // Notify parent component
-          onConfigChange(profileConfig)
-        }
+    const loadStoredKeys = async () => {
+      if (!isOpen || !user) return
+      try {
+        const response = await fetch('/api/keys')
+        if (!response.ok) return
+        const data = await response.json()
+        setStoredKeys(data.keys || [])
+        setFallbackToDirectAPIs(data.fallbackToDirectAPIs ?? true)
+      } catch (error) {
+        console.warn('Failed to load stored API keys:', error)
       }
     }
-    loadFromProfile()
-  }, [user, getUsage, onConfigChange])
+    loadStoredKeys()
+  }, [isOpen, user])
 
   const validateApiKey = async () => {
     if (!apiKey || apiKey.length < 10) {
@@ -77,24 +92,78 @@ export default function OpenRouterSettings({
     }
   }
 
-  const handleSave = async () => {
-    const config = {
-      enabled: enabled && !!apiKey,
-      apiKey: apiKey
+  const requestKeys = async (init: RequestInit, query = '') => {
+    const response = await fetch(`/api/keys${query}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update API keys')
+    }
+    return data as { keys?: StoredKey[] }
+  }
+
+  const removeKey = async (provider: StoredKey['provider']) => {
+    try {
+      const data = await requestKeys({ method: 'DELETE' }, `?provider=${provider}`)
+      setStoredKeys(data.keys || [])
+      invalidateCache()
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to remove key')
     }
-    
-    // Store in localStorage
-    localStorage.setItem('openrouter-config', JSON.stringify(config))
-    
-    // Update BYOK status in usage tracker
-    if (config.enabled && config.apiKey) {
-      await updateByokStatus(true, { openRouter: config.apiKey })
-    } else {
-      await updateByokStatus(false, {})
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      let keys = storedKeys
+
+      // Keys are sent once over HTTPS, encrypted server-side and never stored in the browser
+      if (enabled && apiKey) {
+        keys = (await requestKeys({
+          method: 'PUT',
+          body: JSON.stringify({ provider: 'openRouter', apiKey })
+        })).keys || keys
+      } else if (!enabled && storedOpenRouterKey) {
+        keys = (await requestKeys({ method: 'DELETE' }, '?provider=openRouter')).keys || keys
+      }
+
+      for (const { id } of DIRECT_KEY_PROVIDERS) {
+        const directKey = directKeys[id]?.trim()
+        if (directKey) {
+          keys = (await requestKeys({
+            method: 'PUT',
+            body: JSON.stringify({ provider: id, apiKey: directKey })
+          })).keys || keys
+        }
+      }
+
+      await requestKeys({
+        method: 'PUT',
+        body: JSON.stringify({ fallbackToDirectAPIs })
+      })
+
+      setStoredKeys(keys)
+      setApiKey('')
+      setDirectKeys({})
+      invalidateCache()
+
+      const openRouterKey = keys.find(key => key.provider === 'openRouter')
+      onConfigChange({
+        enabled: !!openRouterKey,
+        fallbackToDirectAPIs,
+        keyHint: openRouterKey?.keyHint
+      })
+      onClose()
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save configuration')
+    } finally {
+      setIsSaving(false)
     }
-    
-    onConfigChange(config)
-    onClose()
   }
 
   // OpenRouter doesn't provide savings - it charges a fee
@@ -123,20 +192,27 @@ export default function OpenRouterSettings({
             </Button>
           </div>
         </CardHeader>
-        
+
         <CardContent className="space-y-6">
+          {!user && (
+            <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-950 text-sm text-blue-700 dark:text-blue-300">
+              Sign in to bring your own API keys. Keys are stored encrypted on the server, never in your browser.
+            </div>
+          )}
+
           {/* Enable Toggle */}
           <div className="flex items-center justify-between">
             <div className="space-y-1">
               <Label htmlFor="enable-openrouter">Enable OpenRouter</Label>
               <p className="text-sm text-slate-500">
-                Route AI requests through OpenRouter for unified API access
+                Route BYOK models and models we don&apos;t host through OpenRouter
               </p>
             </div>
             <Switch
               id="enable-openrouter"
               checked={enabled}
               onCheckedChange={setEnabled}
+              disabled={!user}
             />
           </div>
 
@@ -147,13 +223,13 @@ export default function OpenRouterSettings({
               <Input
                 id="openrouter-key"
                 type="password"
-                placeholder="sk-or-v1-..."
+                placeholder={storedOpenRouterKey ? `Stored key ${storedOpenRouterKey.keyHint} - enter a new key to replace it` : 'sk-or-v1-...'}
                 value={apiKey}
                 onChange={(e) => {
                   setApiKey(e.target.value)
                   setValidationResult(null)
                 }}
-                disabled={!enabled}
+                disabled={!enabled || !user}
               />
               <Button
                 variant="outline"
@@ -164,16 +240,16 @@ export default function OpenRouterSettings({
                 {isValidating ? '⏳' : '🔍'}
               </Button>
             </div>
-            
+
             {validationResult && (
               <p className={`text-sm ${validationResult === 'valid' ? 'text-green-600' : 'text-red-600'}`}>
-                {validationResult === 'valid' 
-                  ? '✅ API key format looks valid' 
+                {validationResult === 'valid'
+                  ? '✅ API key format looks valid'
                   : '❌ Invalid API key format'
                 }
               </p>
             )}
-            
+
             <p className="text-xs text-slate-500">
               Get your free API key at{' '}
               <a
@@ -187,6 +263,51 @@ export default function OpenRouterSettings({
             </p>
           </div>
 
+          {/* Routing preference */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-1">
+              <Label htmlFor="fallback-direct">Prefer direct APIs</Label>
+              <p className="text-sm text-slate-500">
+                Use our direct provider connections when available. Turn off to send every supported model through OpenRouter.
+              </p>
+            </div>
+            <Switch
+              id="fallback-direct"
+              checked={fallbackToDirectAPIs}
+              onCheckedChange={setFallbackToDirectAPIs}
+              disabled={!user}
+            />
+          </div>
+
+          {/* Direct provider keys */}
+          <div className="space-y-3">
+            <h4 className="font-semibold">🔑 Direct Provider Keys</h4>
+            <p className="text-sm text-slate-500">
+              Optional. A provider key is used for that provider&apos;s models before OpenRouter.
+            </p>
+            {DIRECT_KEY_PROVIDERS.map(({ id, label, placeholder }) => {
+              const stored = storedKeys.find(key => key.provider === id)
+              return (
+                <div key={id} className="flex items-center gap-2">
+                  <Label htmlFor={`${id}-key`} className="w-24 flex-shrink-0">{label}</Label>
+                  <Input
+                    id={`${id}-key`}
+                    type="password"
+                    placeholder={stored ? `Stored key ${stored.keyHint}` : placeholder}
+                    value={directKeys[id] || ''}
+                    onChange={(e) => setDirectKeys(prev => ({ ...prev, [id]: e.target.value }))}
+                    disabled={!user}
+                  />
+                  {stored && (
+                    <Button variant="outline" size="sm" onClick={() => removeKey(id)}>
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
           {/* Pricing Notice */}
           <div className="bg-gradient-to-r from-amber-50 to-orange-50 dark:from-amber-950 dark:to-orange-950 p-4 rounded-lg space-y-3">
             <h4 className="font-semibold text-amber-800 dark:text-amber-300">
@@ -212,10 +333,14 @@ export default function OpenRouterSettings({
             </ul>
           </div>
 
+          {saveError && (
+            <p className="text-sm text-red-600">❌ {saveError}</p>
+          )}
+
           {/* Action Buttons */}
           <div className="flex gap-3 pt-4">
-            <Button onClick={handleSave} className="flex-1">
-              {enabled ? '💾 Save Configuration' : '💾 Save (Disabled)'}
+            <Button onClick={handleSave} className="flex-1" disabled={!user || isSaving}>
+              {isSaving ? '⏳ Saving...' : enabled ? '💾 Save Configuration' : '💾 Save (Disabled)'}
             </Button>
             <Button variant="outline" onClick={onClose}>
               Cancel
@@ -225,4 +350,4 @@ export default function OpenRouterSettings({
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import React, { memo } from 'react'
+import Image from 'next/image'
+import { COLLABORATOR_ROLE_LABELS, type PresenceParticipant } from '@/lib/conversation-collaboration'
+
+interface PresenceAvatarsProps {
+  participants: PresenceParticipant[]
+  max?: number
+}
+
+function initials(name: string): string {
+  return name
+    .split(/[\s@._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0]?.toUpperCase())
+    .join('') || '?'
+}
+
+// Everyone else currently viewing the conversation; a pulsing ring marks who is typing
+const PresenceAvatars = memo(({ participants, max = 4 }: PresenceAvatarsProps) => {
+  if (participants.length === 0) return null
+
+  const visible = participants.slice(0, max)
+  const hidden = participants.length - visible.length
+
+  return (
+    <div className="flex items-center -space-x-2" aria-label={`${participants.length} others here`}>
+      {visible.map(participant => (
+        <div
+          key={participant.userId}
+          title={`${participant.name}${participant.role ? ` (${COLLABORATOR_ROLE_LABELS[participant.role]})` : ''}${participant.typing ? ' – typing…' : ''}`}
+          className={`relative w-7 h-7 rounded-full border-2 border-white dark:border-slate-900 bg-gradient-to-br from-blue-500 to-purple-600 text-white text-[10px] font-semibold flex items-center justify-center overflow-hidden ${
+            participant.typing ? 'ring-2 ring-green-400 animate-pulse' : ''
+          }`}
+        >
+          {participant.avatarUrl ? (
+            // Avatars come from whichever OAuth provider the user signed in with, so they are not optimized
+            <Image
+              src={participant.avatarUrl}
+              alt={participant.name}
+              width={28}
+              height={28}
+              unoptimized
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            initials(participant.name)
+          )}
+        </div>
+      ))}
+      {hidden > 0 && (
+        <div className="w-7 h-7 rounded-full border-2 border-white dark:border-slate-900 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-[10px] font-semibold flex items-center justify-center">
+          +{hidden}
+        </div>
+      )}
+    </div>
+  )
+})
+
+PresenceAvatars.displayName = 'PresenceAvatars'
+
+export function describeTyping(participants: PresenceParticipant[]): string | null {
+  if (participants.length === 0) return null
+  if (participants.length === 1) return `${participants[0].name} is typing…`
+  if (participants.length === 2) return `${participants[0].name} and ${participants[1].name} are typing…`
+  return `${participants.length} people are typing…`
+}
+
+export default PresenceAvatars
@@ -1,5 +1,6 @@
 'use client'
 
+import { useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   XMarkIcon, 
@@ -49,7 +50,8 @@ export default function RAGContextViewer({ className }: RAGContextViewerProps) {
     removeContext, 
     toggleContext, 
     clearAllContext, 
-    toggleEnabled 
+    toggleEnabled,
+    clearFocus
   } = useRAGContext()
 
   if (state.items.length === 0) {
@@ -109,6 +111,8 @@ export default function RAGContextViewer({ className }: RAGContextViewerProps) {
               onRemove={() => removeContext(item.id)}
               onToggle={() => toggleContext(item.id)}
               isEnabled={state.isEnabled}
+              focusedChunkId={state.focusedChunkId}
+              onCloseFocus={clearFocus}
             />
           ))}
         </AnimatePresence>
@@ -121,15 +125,28 @@ function ContextItem({
   item, 
   onRemove, 
   onToggle, 
-  isEnabled 
+  isEnabled,
+  focusedChunkId,
+  onCloseFocus
 }: { 
   item: RAGContextItem
   onRemove: () => void
   onToggle: () => void
   isEnabled: boolean
+  focusedChunkId: string | null
+  onCloseFocus: () => void
 }) {
   const chunkTypes = [...new Set(item.chunks.map(c => c.type))]
   const totalTokens = item.chunks.reduce((acc, chunk) => acc + Math.ceil(chunk.content.length / 4), 0)
+  const focusedChunk = item.chunks.find(chunk => chunk.id === focusedChunkId)
+  const focusedRef = useRef<HTMLDivElement>(null)
+
+  // Bring the chunk opened from a citation into view
+  useEffect(() => {
+    if (focusedChunk) {
+      focusedRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+    }
+  }, [focusedChunk])
 
   return (
     <motion.div
@@ -195,6 +212,29 @@ function ContextItem({
           </div>
         </div>
 
+        {focusedChunk && (
+          <div
+            ref={focusedRef}
+            className="mb-2 p-2 rounded-md border border-purple-300 dark:border-purple-600 bg-white/70 dark:bg-gray-900/50"
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-purple-700 dark:text-purple-300">
+                📌 Cited passage{focusedChunk.metadata.page ? ` • Page ${focusedChunk.metadata.page}` : ''}
+              </span>
+              <button
+                onClick={onCloseFocus}
+                className="p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                title="Close cited passage"
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </div>
+            <p className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap max-h-32 overflow-y-auto">
+              {focusedChunk.content}
+            </p>
+          </div>
+        )}
+
         <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
           <div className="flex items-center gap-1">
             <ClockIcon className="w-3 h-3" />
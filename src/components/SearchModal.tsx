@@ -1,19 +1,17 @@
 'use client'
 
 import React, { useState, useEffect, useRef, useCallback, memo } from 'react'
-import { createClientComponentClient } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
+import { useConversationOrganization } from '@/hooks/useConversationOrganization'
+import { AI_MODELS } from '@/lib/models'
+import type { MessageSearchFilters, MessageSearchPage, MessageSearchResult } from '@/lib/message-search'
 import type { Database } from '@/lib/supabase'
 
 type Conversation = Database['public']['Tables']['conversations']['Row']
-type Message = Database['public']['Tables']['messages']['Row']
 
-interface SearchResult {
-  type: 'conversation' | 'message'
-  conversation: Conversation
-  message?: Message
-  matchedText?: string
-}
+type SearchResult =
+  | { type: 'conversation'; conversation: Conversation }
+  | { type: 'message'; message: MessageSearchResult }
 
 interface SearchModalProps {
   isOpen: boolean
@@ -21,14 +19,51 @@ interface SearchModalProps {
   onSelectConversation: (conversationId: string) => void
 }
 
+function resultConversationId(result: SearchResult): string {
+  return result.type === 'conversation' ? result.conversation.id : result.message.conversationId
+}
+
+// Snippets wrap hits in <mark></mark>; split them out so message text is never rendered as HTML
+function highlightSegments(snippet: string): { text: string; highlighted: boolean }[] {
+  return snippet
+    .split(/(<mark>[\s\S]*?<\/mark>)/)
+    .filter(Boolean)
+    .map(part => part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? { text: part.slice(6, -7), highlighted: true }
+      : { text: part, highlighted: false })
+}
+
+function buildSearchParams(query: string, filters: MessageSearchFilters, semantic: boolean, page: number): URLSearchParams {
+  const params = new URLSearchParams({ q: query.trim(), page: String(page) })
+  if (filters.model) params.set('model', filters.model)
+  if (filters.role) params.set('role', filters.role)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.hasAttachments) params.set('attachments', 'true')
+  if (filters.folderId) params.set('folder', filters.folderId)
+  if (filters.tagId) params.set('tag', filters.tagId)
+  if (filters.includeArchived) params.set('archived', 'true')
+  if (semantic) params.set('semantic', 'true')
+  return params
+}
+
 const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModalProps) => {
   const [query, setQuery] = useState('')
+  const [filters, setFilters] = useState<MessageSearchFilters>({})
+  const [semantic, setSemantic] = useState(false)
+  const [showFilters, setShowFilters] = useState(false)
   const [results, setResults] = useState<SearchResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [selectedIndex, setSelectedIndex] = useState(0)
   const inputRef = useRef<HTMLInputElement>(null)
-  const supabase = createClientComponentClient()
-  const { getSessionId } = useAuth()
+  // Responses for an outdated query are dropped
+  const requestIdRef = useRef(0)
+  const { isAnonymous } = useAuth()
+  const { folders, tags } = useConversationOrganization()
 
   // Focus input when modal opens
   useEffect(() => {
@@ -36,6 +71,9 @@ const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModal
       inputRef.current.focus()
       setQuery('')
       setResults([])
+      setTotal(0)
+      setHasMore(false)
+      setError(null)
       setSelectedIndex(0)
     }
   }, [isOpen])
@@ -43,75 +81,58 @@ const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModal
   // Debounced search function
   const searchDebounced = useRef<NodeJS.Timeout | null>(null)
   
-  const performSearch = useCallback(async (searchQuery: string) => {
+  const performSearch = useCallback(async (searchQuery: string, nextPage = 1) => {
     if (searchQuery.trim().length < 2) {
       setResults([])
+      setTotal(0)
+      setHasMore(false)
+      return
+    }
+
+    if (isAnonymous) {
+      setError('Sign in to search your conversations')
       return
     }
 
+    const requestId = ++requestIdRef.current
     setIsLoading(true)
+    setError(null)
     try {
-      const userId = getSessionId()
-      
-      // Search conversations by title
-      const { data: conversations, error: convError } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('user_id', userId)
-        .ilike('title', `%${searchQuery}%`)
-        .limit(5)
-
-      if (convError) {
-        console.error('Search error:', convError)
-        return
+      const response = await fetch(`/api/search?${buildSearchParams(searchQuery, filters, semantic, nextPage)}`)
+      const data = await response.json()
+      if (requestId !== requestIdRef.current) return
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? 'Sign in to search your conversations' : data.error || 'Search failed')
       }
 
-      // Search messages by content
-      const { data: messages, error: msgError } = await supabase
-        .from('messages')
-        .select('*, conversation:conversations!inner(*)')
-        .eq('conversations.user_id', userId)
-        .textSearch('content', searchQuery, {
-          type: 'plain',
-          config: 'english'
-        })
-        .limit(10)
-
-      if (msgError) {
-        console.error('Message search error:', msgError)
-      }
-
-      // Combine results
-      const searchResults: SearchResult[] = []
-      
-      // Add conversation results
-      conversations?.forEach((conv: Conversation) => {
-        searchResults.push({
-          type: 'conversation',
-          conversation: conv
-        })
-      })
-
-      // Add message results
-      messages?.forEach((msg: any) => {
-        const conversation = (msg as any).conversation
-        if (conversation) {
-          searchResults.push({
-            type: 'message',
-            conversation: conversation,
-            message: msg,
-            matchedText: typeof msg.content === 'string' 
-              ? msg.content.substring(0, 100) + '...'
-              : JSON.stringify(msg.content).substring(0, 100) + '...'
-          })
-        }
-      })
+      const searchPage = data as MessageSearchPage
+      const searchResults: SearchResult[] = [
+        ...searchPage.conversations.map(conversation => ({ type: 'conversation' as const, conversation })),
+        ...searchPage.results.map(message => ({ type: 'message' as const, message }))
+      ]
 
-      setResults(searchResults)
+      setResults(prev => nextPage === 1 ? searchResults : [...prev, ...searchResults])
+      setTotal(searchPage.total)
+      setPage(searchPage.page)
+      setHasMore(searchPage.hasMore)
+    } catch (searchError) {
+      if (requestId !== requestIdRef.current) return
+      console.error('Search error:', searchError)
+      setError(searchError instanceof Error ? searchError.message : 'Search failed')
     } finally {
-      setIsLoading(false)
+      if (requestId === requestIdRef.current) setIsLoading(false)
     }
-  }, [getSessionId, supabase])
+  }, [filters, semantic, isAnonymous])
+
+  // Filters apply to the current query straight away; typing goes through the debounce instead
+  const queryRef = useRef(query)
+  queryRef.current = query
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIndex(0)
+      performSearch(queryRef.current)
+    }
+  }, [isOpen, performSearch])
 
   // Handle search input change
   const handleSearchChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -128,6 +149,12 @@ const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModal
     }, 300)
   }, [performSearch])
 
+  const updateFilter = <K extends keyof MessageSearchFilters>(key: K, value: MessageSearchFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }))
+  }
+
+  const activeFilterCount = Object.values(filters).filter(value => value !== undefined).length + (semantic ? 1 : 0)
+
   // Handle keyboard navigation
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     switch (e.key) {
@@ -142,7 +169,7 @@ const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModal
       case 'Enter':
         e.preventDefault()
         if (results[selectedIndex]) {
-          onSelectConversation(results[selectedIndex].conversation.id)
+          onSelectConversation(resultConversationId(results[selectedIndex]))
           onClose()
         }
         break
@@ -189,14 +216,133 @@ const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModal
             placeholder="Search conversations and messages..."
             className="flex-1 bg-transparent text-slate-900 dark:text-slate-100 placeholder-slate-400 outline-none"
           />
+          <button
+            type="button"
+            onClick={() => setShowFilters(prev => !prev)}
+            className={`px-2 py-1 text-xs rounded ${
+              activeFilterCount > 0
+                ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                : 'bg-slate-100 dark:bg-slate-800 text-slate-500'
+            }`}
+          >
+            Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+          </button>
           <kbd className="px-2 py-1 text-xs bg-slate-100 dark:bg-slate-800 text-slate-500 rounded">
             ESC
           </kbd>
         </div>
+
+        {/* Filters */}
+        {showFilters && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 p-4 border-b border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-400">
+            <label className="flex flex-col gap-1">
+              Model
+              <select
+                value={filters.model || ''}
+                onChange={e => updateFilter('model', e.target.value)}
+                className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+              >
+                <option value="">Any model</option>
+                {AI_MODELS.map(model => (
+                  <option key={model.id} value={model.id}>{model.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Role
+              <select
+                value={filters.role || ''}
+                onChange={e => updateFilter('role', e.target.value as MessageSearchFilters['role'])}
+                className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+              >
+                <option value="">Anyone</option>
+                <option value="user">You</option>
+                <option value="assistant">Assistant</option>
+                <option value="system">System</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              From
+              <input
+                type="date"
+                value={filters.from || ''}
+                onChange={e => updateFilter('from', e.target.value)}
+                className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              To
+              <input
+                type="date"
+                value={filters.to || ''}
+                onChange={e => updateFilter('to', e.target.value)}
+                className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+              />
+            </label>
+            {folders.length > 0 && (
+              <label className="flex flex-col gap-1">
+                Folder
+                <select
+                  value={filters.folderId || ''}
+                  onChange={e => updateFilter('folderId', e.target.value)}
+                  className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+                >
+                  <option value="">Any folder</option>
+                  {folders.map(folder => (
+                    <option key={folder.id} value={folder.id}>{folder.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {tags.length > 0 && (
+              <label className="flex flex-col gap-1">
+                Tag
+                <select
+                  value={filters.tagId || ''}
+                  onChange={e => updateFilter('tagId', e.target.value)}
+                  className="px-2 py-1 rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+                >
+                  <option value="">Any tag</option>
+                  {tags.map(tag => (
+                    <option key={tag.id} value={tag.id}>{tag.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2 mt-4">
+              <input
+                type="checkbox"
+                checked={!!filters.includeArchived}
+                onChange={e => updateFilter('includeArchived', e.target.checked)}
+              />
+              Include archived
+            </label>
+            <label className="flex items-center gap-2 mt-4">
+              <input
+                type="checkbox"
+                checked={!!filters.hasAttachments}
+                onChange={e => updateFilter('hasAttachments', e.target.checked)}
+              />
+              Has attachments
+            </label>
+            <label className="flex items-center gap-2 mt-4" title="Also find messages about related ideas, not just matching words">
+              <input
+                type="checkbox"
+                checked={semantic}
+                onChange={e => setSemantic(e.target.checked)}
+              />
+              Semantic search
+            </label>
+          </div>
+        )}
         
         {/* Search Results */}
         <div className="max-h-96 overflow-y-auto">
-          {isLoading ? (
+          {error ? (
+            <div className="p-8 text-center text-red-600">
+              {error}
+            </div>
+          ) : isLoading && results.length === 0 ? (
             <div className="p-8 text-center text-slate-500">
               <div className="w-6 h-6 mx-auto mb-2 animate-spin rounded-full border-2 border-current border-t-transparent" />
               Searching...
@@ -209,9 +355,9 @@ const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModal
             <div className="py-2">
               {results.map((result, index) => (
                 <button
-                  key={`${result.type}-${result.conversation.id}-${result.message?.id || ''}`}
+                  key={result.type === 'conversation' ? `conversation-${result.conversation.id}` : `message-${result.message.messageId}`}
                   onClick={() => {
-                    onSelectConversation(result.conversation.id)
+                    onSelectConversation(resultConversationId(result))
                     onClose()
                   }}
                   className={`
@@ -253,17 +399,48 @@ const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModal
                     </div>
                     <div className="flex-1 min-w-0">
                       <h3 className="font-medium text-sm text-slate-900 dark:text-slate-100">
-                        {result.conversation.title || 'Untitled Chat'}
+                        {result.type === 'conversation'
+                          ? result.conversation.title || 'Untitled Chat'
+                          : result.message.conversationTitle}
                       </h3>
-                      {result.matchedText && (
-                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 truncate">
-                          {result.matchedText}
+                      {result.type === 'conversation' && result.conversation.summary && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 line-clamp-2">
+                          {result.conversation.summary}
                         </p>
                       )}
+                      {result.type === 'message' && (
+                        <>
+                          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 line-clamp-2">
+                            {highlightSegments(result.message.snippet).map((segment, segmentIndex) => segment.highlighted ? (
+                              <mark key={segmentIndex} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <React.Fragment key={segmentIndex}>{segment.text}</React.Fragment>
+                            ))}
+                          </p>
+                          <p className="text-[11px] text-slate-400 mt-1">
+                            {result.message.role === 'user' ? 'You' : result.message.role === 'assistant' ? 'Assistant' : 'System'}
+                            {result.message.model && ` • ${result.message.model}`}
+                            {` • ${new Date(result.message.createdAt).toLocaleDateString()}`}
+                            {result.message.hasAttachments && ' • 📎'}
+                          </p>
+                        </>
+                      )}
                     </div>
                   </div>
                 </button>
               ))}
+              {hasMore && (
+                <button
+                  type="button"
+                  onClick={() => performSearch(query, page + 1)}
+                  disabled={isLoading}
+                  className="w-full px-4 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50"
+                >
+                  {isLoading ? 'Loading...' : 'Load more results'}
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -280,6 +457,9 @@ const SearchModal = memo(({ isOpen, onClose, onSelectConversation }: SearchModal
               Select
             </span>
           </div>
+          {total > 0 && (
+            <span>{total} matching message{total === 1 ? '' : 's'}</span>
+          )}
         </div>
       </div>
     </div>
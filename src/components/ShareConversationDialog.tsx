@@ -0,0 +1,230 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { ExportUtils } from '@/lib/export-utils'
+import { getActiveBranch, getAllBranches } from '@/lib/conversation-export'
+import { isShareLinkActive, SHARE_EXPIRY_OPTIONS, type ShareLink } from '@/lib/conversation-share'
+import type { Database } from '@/lib/supabase'
+import { formatDistanceToNow } from 'date-fns'
+
+type Message = Database['public']['Tables']['messages']['Row']
+
+interface ShareConversationDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  conversationId: string
+  messages: Message[]
+}
+
+function messagePreview(message: Message): string {
+  const content = message.content as { text?: string } | string | null
+  const text = typeof content === 'string' ? content : content?.text || ''
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text
+}
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`
+}
+
+export default function ShareConversationDialog({
+  isOpen,
+  onClose,
+  conversationId,
+  messages
+}: ShareConversationDialogProps) {
+  const branches = useMemo(() => getAllBranches(messages), [messages])
+  const newestLeafId = useMemo(() => getActiveBranch(messages).slice(-1)[0]?.id, [messages])
+  const [leafId, setLeafId] = useState<string | undefined>()
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null)
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [isSharing, setIsSharing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/share`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load share links')
+      setLinks(data.links)
+    } catch (loadError) {
+      console.error('❌ [ShareConversation] Failed to load links:', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load share links')
+    }
+  }, [conversationId])
+
+  useEffect(() => {
+    if (isOpen) {
+      setError(null)
+      loadLinks()
+    }
+  }, [isOpen, loadLinks])
+
+  const copyLink = async (token: string) => {
+    const result = await ExportUtils.copyToClipboard(shareUrl(token))
+    ExportUtils.showNotification(result.success ? 'Share link copied' : result.message || 'Copy failed', result.success ? 'success' : 'error')
+  }
+
+  const handleShare = async () => {
+    setIsSharing(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leafId: leafId || newestLeafId, expiresInDays })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to create share link')
+
+      setLinks(prev => [data.link, ...prev])
+      await copyLink(data.link.token)
+    } catch (shareError) {
+      console.error('❌ [ShareConversation] Share failed:', shareError)
+      setError(shareError instanceof Error ? shareError.message : 'Failed to create share link')
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  const handleRevoke = async (token: string) => {
+    try {
+      const response = await fetch(`/api/share/${token}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to revoke link')
+      setLinks(prev => prev.map(link => link.token === token ? { ...link, revoked_at: new Date().toISOString() } : link))
+    } catch (revokeError) {
+      console.error('❌ [ShareConversation] Revoke failed:', revokeError)
+      setError(revokeError instanceof Error ? revokeError.message : 'Failed to revoke link')
+    }
+  }
+
+  if (!isOpen) return null
+
+  const selectedLeafId = leafId || newestLeafId
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>🔗 Share Conversation</CardTitle>
+              <CardDescription>
+                Anyone with the link can read a snapshot of this branch and fork it
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              ✕
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {/* Branch */}
+          {branches.length > 1 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Branch</div>
+              {branches.map(branch => {
+                const leaf = branch.messages[branch.messages.length - 1]
+                return (
+                  <label key={leaf.id} className="flex items-start gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="share-branch"
+                      className="mt-1"
+                      checked={selectedLeafId === leaf.id}
+                      onChange={() => setLeafId(leaf.id)}
+                    />
+                    <span className="min-w-0">
+                      <span className="font-medium">Branch {branch.index}</span>
+                      {leaf.id === newestLeafId && <span className="text-slate-500"> (latest)</span>}
+                      <span className="block text-xs text-slate-500 truncate">{messagePreview(leaf)}</span>
+                    </span>
+                  </label>
+                )
+              })}
+            </div>
+          )}
+
+          {/* Expiry */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Link expires</div>
+            <div className="grid grid-cols-4 gap-2">
+              {SHARE_EXPIRY_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setExpiresInDays(option.days)}
+                  className={`text-sm px-3 py-2 rounded-lg border transition-colors ${
+                    expiresInDays === option.days
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                      : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              Messages sent after the link is created are not included.
+            </p>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">❌ {error}</p>
+          )}
+
+          <div className="flex gap-3">
+            <Button onClick={handleShare} className="flex-1" disabled={isSharing || !selectedLeafId}>
+              {isSharing ? '⏳ Creating link...' : '🔗 Create & Copy Link'}
+            </Button>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+
+          {/* Existing links */}
+          {links.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Links</div>
+              <ul className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-200 dark:divide-slate-700">
+                {links.map(link => {
+                  const active = isShareLinkActive(link)
+                  return (
+                    <li key={link.id} className="px-3 py-2 text-sm flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className={`truncate font-mono text-xs ${active ? '' : 'line-through text-slate-400'}`}>
+                          /share/{link.token}
+                        </div>
+                        <div className="text-xs text-slate-500">
+                          Created {formatDistanceToNow(new Date(link.created_at), { addSuffix: true })}
+                          {link.revoked_at
+                            ? ' • revoked'
+                            : link.expires_at
+                              ? ` • ${active ? 'expires' : 'expired'} ${formatDistanceToNow(new Date(link.expires_at), { addSuffix: true })}`
+                              : ' • never expires'}
+                        </div>
+                      </div>
+                      {active && (
+                        <div className="flex gap-1 shrink-0">
+                          <Button variant="ghost" size="sm" onClick={() => copyLink(link.token)}>
+                            Copy
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleRevoke(link.token)}>
+                            Revoke
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -79,7 +79,7 @@ export default function SimpleDocumentUpload() {
           ref={fileInputRef}
           type="file"
           onChange={handleFileUpload}
-          accept=".pdf,.txt,.md,.docx"
+          accept=".pdf,.txt,.md,.docx,.html,.htm,.csv,.tsv,.xlsx,.json,.yaml,.yml"
           multiple
           className="hidden"
         />
@@ -0,0 +1,366 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import {
+  ArrowPathIcon,
+  CalendarIcon,
+  ChatBubbleLeftRightIcon,
+  LinkIcon,
+  Squares2X2Icon,
+  ShareIcon,
+  TrashIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import {
+  getOpenDependencies,
+  groupTasksByStatus,
+  layoutDependencyGraph,
+  TASK_STATUSES,
+  type BoardTask,
+  type TaskPatch,
+  type TaskStatus
+} from '@/lib/task-board'
+
+type BoardView = 'board' | 'graph'
+
+const PRIORITY_STYLES: Record<BoardTask['priority'], string> = {
+  urgent: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  high: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300',
+  low: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'
+}
+
+const STATUS_STYLES: Record<TaskStatus, string> = {
+  pending: 'border-slate-300 dark:border-slate-600',
+  in_progress: 'border-blue-400 dark:border-blue-500',
+  blocked: 'border-red-400 dark:border-red-500',
+  completed: 'border-green-400 dark:border-green-500'
+}
+
+// Graph layout, in pixels
+const NODE_WIDTH = 220
+const NODE_HEIGHT = 64
+const COLUMN_GAP = 80
+const ROW_GAP = 20
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+export default function TaskBoard() {
+  const [tasks, setTasks] = useState<BoardTask[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [view, setView] = useState<BoardView>('board')
+  const [conversationFilter, setConversationFilter] = useState('')
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+
+  const loadTasks = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/tasks')
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.details || body.error || 'Failed to load tasks')
+      setTasks(body.tasks)
+      setError(null)
+    } catch (err) {
+      console.error('❌ Failed to load tasks:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load tasks')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTasks()
+  }, [loadTasks])
+
+  // Applied locally right away; the board is reloaded if the server rejects the change
+  const saveTask = async (task: BoardTask, patch: TaskPatch) => {
+    setTasks(current => current.map(item => item.id === task.id ? {
+      ...item,
+      ...(patch.status !== undefined && { status: patch.status }),
+      ...(patch.dueDate !== undefined && { due_date: patch.dueDate }),
+      ...(patch.dependsOn !== undefined && { dependsOn: patch.dependsOn })
+    } : item))
+
+    try {
+      const response = await fetch(`/api/tasks/${task.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch)
+      })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.details || body.error || 'Failed to update task')
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update task')
+      await loadTasks()
+    }
+  }
+
+  const removeTask = async (task: BoardTask) => {
+    if (!confirm(`Delete "${task.title}"?`)) return
+    setTasks(current => current
+      .filter(item => item.id !== task.id)
+      .map(item => ({ ...item, dependsOn: item.dependsOn.filter(id => id !== task.id) })))
+    const response = await fetch(`/api/tasks/${task.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError('Failed to delete task')
+      await loadTasks()
+    }
+  }
+
+  const conversations = useMemo(() => {
+    const titles = new Map<string, string>()
+    tasks.forEach(task => titles.set(task.conversation_id, task.conversationTitle || 'Untitled conversation'))
+    return Array.from(titles.entries())
+  }, [tasks])
+
+  const visibleTasks = conversationFilter
+    ? tasks.filter(task => task.conversation_id === conversationFilter)
+    : tasks
+  const tasksById = useMemo(() => new Map(tasks.map(task => [task.id, task])), [tasks])
+  const columns = groupTasksByStatus(visibleTasks)
+  const graph = layoutDependencyGraph(visibleTasks)
+
+  const renderCard = (task: BoardTask) => {
+    const waitingOn = getOpenDependencies(task, tasksById)
+    const overdue = !!task.due_date && task.status !== 'completed' && task.due_date < today()
+    // Any other task can be a dependency; the server rejects ones that would form a loop
+    const candidates = tasks.filter(other => other.id !== task.id && !task.dependsOn.includes(other.id))
+
+    return (
+      <div
+        key={task.id}
+        draggable
+        onDragStart={() => setDraggedId(task.id)}
+        onDragEnd={() => setDraggedId(null)}
+        className={`p-3 rounded-lg bg-white dark:bg-slate-800 border-l-4 shadow-sm space-y-2 cursor-grab ${STATUS_STYLES[task.status]}`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <p className={`text-sm font-medium ${task.status === 'completed' ? 'line-through text-gray-400' : 'text-gray-900 dark:text-gray-100'}`}>
+            {task.title}
+          </p>
+          <button
+            onClick={() => removeTask(task)}
+            className="p-1 text-gray-400 hover:text-red-600 rounded"
+            title="Delete task"
+          >
+            <TrashIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        {task.description && (
+          <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-3">{task.description}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className={`px-1.5 py-0.5 rounded ${PRIORITY_STYLES[task.priority]}`}>{task.priority}</span>
+          <Link
+            href={`/chat/${task.conversation_id}`}
+            className="flex items-center gap-1 text-gray-500 dark:text-gray-400 hover:text-blue-600 truncate max-w-[12rem]"
+            title="Open the conversation this task came from"
+          >
+            <ChatBubbleLeftRightIcon className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="truncate">{task.conversationTitle || 'Untitled conversation'}</span>
+          </Link>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs">
+          <label className={`flex items-center gap-1 ${overdue ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+            <CalendarIcon className="w-3.5 h-3.5" />
+            <input
+              type="date"
+              value={task.due_date || ''}
+              onChange={(e) => saveTask(task, { dueDate: e.target.value || null })}
+              className="bg-transparent border-none p-0 text-xs focus:ring-0"
+            />
+          </label>
+          <select
+            value={task.status}
+            onChange={(e) => saveTask(task, { status: e.target.value as TaskStatus })}
+            className="ml-auto text-xs bg-transparent border border-gray-200 dark:border-gray-700 rounded px-1 py-0.5"
+          >
+            {TASK_STATUSES.map(column => (
+              <option key={column.status} value={column.status}>{column.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {task.status !== 'completed' && waitingOn.length > 0 && (
+          <p className="text-xs text-amber-700 dark:text-amber-400">
+            Waiting on {waitingOn.map(dependency => dependency.title).join(', ')}
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          {task.dependsOn.map(id => (
+            <span key={id} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+              <LinkIcon className="w-3 h-3" />
+              <span className="truncate max-w-[8rem]">{tasksById.get(id)?.title || 'Deleted task'}</span>
+              <button
+                onClick={() => saveTask(task, { dependsOn: task.dependsOn.filter(other => other !== id) })}
+                className="hover:text-red-600"
+                title="Remove dependency"
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          {candidates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && saveTask(task, { dependsOn: [...task.dependsOn, e.target.value] })}
+              className="text-xs bg-transparent border border-dashed border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 text-gray-500"
+            >
+              <option value="">+ Depends on…</option>
+              {candidates.map(other => (
+                <option key={other.id} value={other.id}>{other.title}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const positions = new Map(graph.nodes.map(node => [node.task.id, {
+    x: node.level * (NODE_WIDTH + COLUMN_GAP),
+    y: node.row * (NODE_HEIGHT + ROW_GAP)
+  }]))
+  const graphWidth = Math.max(graph.levels * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP, 0)
+  const graphHeight = Math.max(...graph.nodes.map(node => (node.row + 1) * (NODE_HEIGHT + ROW_GAP)), 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg">
+          {([['board', 'Board', Squares2X2Icon], ['graph', 'Dependencies', ShareIcon]] as const).map(([option, label, Icon]) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`flex items-center gap-2 py-1.5 px-3 rounded-md text-sm font-medium transition-colors ${
+                view === option
+                  ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={conversationFilter}
+            onChange={(e) => setConversationFilter(e.target.value)}
+            className="text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg px-2 py-1.5"
+          >
+            <option value="">All conversations</option>
+            {conversations.map(([id, title]) => (
+              <option key={id} value={id}>{title}</option>
+            ))}
+          </select>
+          <button
+            onClick={loadTasks}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            title="Reload tasks"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {!isLoading && tasks.length === 0 ? (
+        <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+          <p>No tasks yet.</p>
+          <p className="text-sm mt-1">Use Extract Tasks in a conversation and they will show up here.</p>
+        </div>
+      ) : view === 'board' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {TASK_STATUSES.map(({ status, label }) => (
+            <div
+              key={status}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                const task = draggedId ? tasksById.get(draggedId) : undefined
+                if (task && task.status !== status) saveTask(task, { status })
+                setDraggedId(null)
+              }}
+              className="rounded-xl bg-gray-100 dark:bg-gray-900/50 p-3 space-y-3 min-h-[12rem]"
+            >
+              <h2 className="flex items-center justify-between text-sm font-semibold text-gray-700 dark:text-gray-300">
+                {label}
+                <span className="text-xs font-normal text-gray-500">{columns[status].length}</span>
+              </h2>
+              {columns[status].map(renderCard)}
+            </div>
+          ))}
+        </div>
+      ) : graph.nodes.length === 0 ? (
+        <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+          <p>No dependencies between tasks yet.</p>
+          <p className="text-sm mt-1">Add them from a task card on the board.</p>
+        </div>
+      ) : (
+        <div className="overflow-auto rounded-xl bg-gray-50 dark:bg-gray-900/50 p-4">
+          <div className="relative" style={{ width: graphWidth, height: graphHeight }}>
+            <svg className="absolute inset-0 pointer-events-none" width={graphWidth} height={graphHeight}>
+              {graph.edges.map(edge => {
+                const from = positions.get(edge.dependsOnId)
+                const to = positions.get(edge.taskId)
+                if (!from || !to) return null
+                const startX = from.x + NODE_WIDTH
+                const startY = from.y + NODE_HEIGHT / 2
+                const endX = to.x
+                const endY = to.y + NODE_HEIGHT / 2
+                const bend = (endX - startX) / 2
+                return (
+                  <path
+                    key={`${edge.taskId}-${edge.dependsOnId}`}
+                    d={`M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`}
+                    className="stroke-gray-400 dark:stroke-gray-500"
+                    strokeWidth={1.5}
+                    fill="none"
+                  />
+                )
+              })}
+            </svg>
+            {graph.nodes.map(({ task }) => {
+              const position = positions.get(task.id)!
+              return (
+                <div
+                  key={task.id}
+                  className={`absolute p-2 rounded-lg bg-white dark:bg-slate-800 border-l-4 shadow-sm text-xs ${STATUS_STYLES[task.status]}`}
+                  style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                  title={task.description}
+                >
+                  <p className={`font-medium truncate ${task.status === 'completed' ? 'line-through text-gray-400' : 'text-gray-900 dark:text-gray-100'}`}>
+                    {task.title}
+                  </p>
+                  <p className="mt-1 text-gray-500 dark:text-gray-400 truncate">
+                    {TASK_STATUSES.find(column => column.status === task.status)?.label}
+                    {task.due_date && ` · due ${task.due_date}`}
+                  </p>
+                </div>
+              )
+            })}
+          </div>
+          {visibleTasks.length > graph.nodes.length && (
+            <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+              {visibleTasks.length - graph.nodes.length} tasks without dependencies are only shown on the board.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
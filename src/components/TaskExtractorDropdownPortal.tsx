@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo } from 'react'
 import { createPortal } from 'react-dom'
+import Link from 'next/link'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   ClipboardDocumentListIcon,
@@ -11,28 +12,59 @@ import {
   CheckCircleIcon,
   ExclamationTriangleIcon,
   ClockIcon,
-  ArrowsPointingOutIcon
+  ArrowsPointingOutIcon,
+  ViewColumnsIcon
 } from '@heroicons/react/24/outline'
 import { Badge } from './ui/badge'
-import type { Task, TaskExtractionResult } from '@/lib/task-extractor'
 import TaskExportSelector from './TaskExportSelector'
+import TasksPanel from './TasksPanel'
+import { useTaskExtraction } from '@/hooks/useTaskExtraction'
+import type { TaskExtractionResult } from '@/lib/task-extractor'
+import { getActiveBranch, getAllBranches, getMessageText } from '@/lib/conversation-export'
+import type { Database } from '@/lib/supabase'
+
+type Message = Database['public']['Tables']['messages']['Row']
+
+// A message of a conversation that hasn't been saved, as held by the chat hook
+interface UnsavedMessage {
+  id: string
+  role: string
+  content: string
+}
 
 interface TaskExtractorDropdownProps {
-  conversationId: string
+  conversationId: string | null
+  // Model the tasks are extracted with - the one selected for chat
+  model: string
+  // Saved messages, used to offer branches and ranges to extract from
+  messages?: Message[]
+  // Sent instead when the conversation isn't saved (e.g. anonymous chats)
+  unsavedMessages?: UnsavedMessage[]
   className?: string
-  messageCount?: number
+}
+
+function excerpt(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim()
+  return line.length > 48 ? `${line.slice(0, 48)}…` : line || '(empty)'
 }
 
 export default function TaskExtractorDropdown({ 
   conversationId, 
-  className = '', 
-  messageCount = 0 
+  model,
+  messages = [],
+  unsavedMessages = [],
+  className = ''
 }: TaskExtractorDropdownProps) {
   const [isOpen, setIsOpen] = useState(false)
-  const [isExtracting, setIsExtracting] = useState(false)
-  const [extractionResult, setExtractionResult] = useState<TaskExtractionResult | null>(null)
-  const [error, setError] = useState<string | null>(null)
+  const { partial, result: extractionResult, isExtracting, error, extract } = useTaskExtraction()
   const [showExportModal, setShowExportModal] = useState(false)
+  const [showPanel, setShowPanel] = useState(false)
+  // Tasks stored for the conversation by earlier extractions
+  const [savedResult, setSavedResult] = useState<TaskExtractionResult | null>(null)
+  // Scope of the next extraction: a branch (by its leaf) and an optional range of it
+  const [leafId, setLeafId] = useState('')
+  const [fromMessageId, setFromMessageId] = useState('')
+  const [toMessageId, setToMessageId] = useState('')
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0 })
   const buttonRef = useRef<HTMLButtonElement>(null)
   const dropdownRef = useRef<HTMLDivElement>(null)
@@ -97,47 +129,71 @@ export default function TaskExtractorDropdown({
     }
   }, [isOpen])
 
-  const extractTasks = async () => {
-    if (!conversationId || isExtracting) return
+  // Saved conversations can branch; each branch is offered by its last message
+  const branches = useMemo(() => conversationId ? getAllBranches(messages) : [], [conversationId, messages])
+  const branchMessages = useMemo(() => {
+    if (!conversationId) {
+      return unsavedMessages.map(message => ({ id: message.id, role: message.role, text: message.content }))
+    }
+    return getActiveBranch(messages, leafId || undefined)
+      .map(message => ({ id: message.id, role: message.role, text: getMessageText(message) }))
+  }, [conversationId, messages, unsavedMessages, leafId])
+
+  // A range from a different branch no longer applies
+  useEffect(() => {
+    setFromMessageId(current => branchMessages.some(message => message.id === current) ? current : '')
+    setToMessageId(current => branchMessages.some(message => message.id === current) ? current : '')
+  }, [branchMessages])
+
+  const fromIndex = fromMessageId ? branchMessages.findIndex(message => message.id === fromMessageId) : 0
+  const toIndex = toMessageId ? branchMessages.findIndex(message => message.id === toMessageId) : branchMessages.length - 1
+  const selectedCount = Math.max(0, toIndex - fromIndex + 1)
+
+  const extractTasks = () => {
+    if (isExtracting || branchMessages.length === 0) return
 
-    setIsExtracting(true)
-    setError(null)
     setIsOpen(true)
-    
-    // Reset previous results when re-extracting
-    if (extractionResult) {
-      setExtractionResult(null)
-    }
+    extract({
+      conversationId,
+      model,
+      messages: conversationId ? undefined : unsavedMessages,
+      leafId: leafId || undefined,
+      fromMessageId: fromMessageId || undefined,
+      toMessageId: toMessageId || undefined
+    })
+  }
 
-    try {
-      const response = await fetch('/api/extract-tasks', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ conversationId })
+  // Saved tasks may have changed since the last look (another tab, the task board, an extraction)
+  useEffect(() => {
+    if (!conversationId || !isOpen || isExtracting) return
+    let cancelled = false
+    fetch(`/api/extract-tasks?conversationId=${conversationId}`)
+      .then(response => response.ok ? response.json() : null)
+      .then((result: TaskExtractionResult | null) => {
+        if (!cancelled) setSavedResult(result && result.tasks.length > 0 ? result : null)
       })
+      .catch(err => console.error('Failed to load saved tasks:', err))
+    return () => { cancelled = true }
+  }, [conversationId, isOpen, isExtracting])
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Failed to extract tasks' }))
-        throw new Error(errorData.error || 'Failed to extract tasks')
-      }
+  useEffect(() => {
+    setSavedResult(null)
+  }, [conversationId])
 
-      const result = await response.json()
-      setExtractionResult(result)
-    } catch (err) {
-      console.error('Task extraction error:', err)
-      setError(err instanceof Error ? err.message : 'An error occurred')
-    } finally {
-      setIsExtracting(false)
-    }
-  }
+  // A fresh extraction replaces the saved tasks while it streams in; tasks still missing their
+  // title are skipped
+  const shown = partial ?? savedResult
+  const exportable = extractionResult ?? savedResult
+  const tasks = (shown?.tasks || []).filter((task): task is NonNullable<typeof task> => !!task?.title)
+  const hasResult = !!shown
 
   const handleExport = () => {
-    if (!extractionResult) return
+    if (!exportable) return
     setShowExportModal(true)
     setIsOpen(false)
   }
 
-  const getPriorityColor = (priority: string) => {
+  const getPriorityColor = (priority?: string) => {
     switch (priority) {
       case 'urgent': return 'text-red-600 bg-red-50 dark:text-red-400 dark:bg-red-950/30'
       case 'high': return 'text-orange-600 bg-orange-50 dark:text-orange-400 dark:bg-orange-950/30'
@@ -184,22 +240,96 @@ export default function TaskExtractorDropdown({
               {isExtracting ? 'Analyzing Conversation...' : 'Extracted Tasks'}
             </h3>
           </div>
-          <button
-            onClick={() => setIsOpen(false)}
-            className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors"
-          >
-            <XMarkIcon className="w-4 h-4" />
-          </button>
+          <div className="flex items-center gap-1">
+            {hasResult && (
+              <button
+                onClick={() => { setShowPanel(true); setIsOpen(false) }}
+                className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                title="Open in side panel"
+              >
+                <ViewColumnsIcon className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
         </div>
+
+        {/* Scope */}
+        {!isExtracting && branchMessages.length > 0 && (
+          <div className="mt-3 space-y-2 text-xs">
+            {branches.length > 1 && (
+              <label className="flex items-center gap-2">
+                <span className="w-12 text-slate-500 dark:text-slate-400">Branch</span>
+                <select
+                  value={leafId}
+                  onChange={(e) => setLeafId(e.target.value)}
+                  className="flex-1 px-2 py-1 rounded-md bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700"
+                >
+                  <option value="">Latest branch</option>
+                  {branches.map(branch => {
+                    const leaf = branch.messages[branch.messages.length - 1]
+                    return (
+                      <option key={leaf.id} value={leaf.id}>
+                        Branch {branch.index}: {excerpt(getMessageText(leaf))}
+                      </option>
+                    )
+                  })}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2">
+              <span className="w-12 text-slate-500 dark:text-slate-400">From</span>
+              <select
+                value={fromMessageId}
+                onChange={(e) => setFromMessageId(e.target.value)}
+                className="flex-1 px-2 py-1 rounded-md bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700"
+              >
+                <option value="">First message</option>
+                {branchMessages.map((message, index) => (
+                  <option key={message.id} value={message.id} disabled={index > toIndex}>
+                    {index + 1}. {message.role === 'user' ? 'You' : 'AI'}: {excerpt(message.text)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-12 text-slate-500 dark:text-slate-400">To</span>
+              <select
+                value={toMessageId}
+                onChange={(e) => setToMessageId(e.target.value)}
+                className="flex-1 px-2 py-1 rounded-md bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700"
+              >
+                <option value="">Last message</option>
+                {branchMessages.map((message, index) => (
+                  <option key={message.id} value={message.id} disabled={index < fromIndex}>
+                    {index + 1}. {message.role === 'user' ? 'You' : 'AI'}: {excerpt(message.text)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={extractTasks}
+              disabled={selectedCount === 0}
+              className="w-full px-3 py-1.5 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+            >
+              {hasResult ? 'Extract again' : 'Extract'} from {selectedCount} {selectedCount === 1 ? 'message' : 'messages'}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Content */}
       <div className="max-h-[400px] overflow-y-auto">
-        {isExtracting ? (
+        {isExtracting && tasks.length === 0 ? (
           <div className="p-8 text-center">
             <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-purple-600 mx-auto mb-3"></div>
             <p className="text-sm text-slate-600 dark:text-slate-400">
-              Analyzing {messageCount} messages...
+              Analyzing {selectedCount} messages...
             </p>
           </div>
         ) : error ? (
@@ -217,22 +347,22 @@ export default function TaskExtractorDropdown({
               Try Again
             </button>
           </div>
-        ) : extractionResult && extractionResult.tasks.length > 0 ? (
+        ) : tasks.length > 0 ? (
           <div className="p-4 space-y-3">
-            {/* Summary */}
-            {extractionResult.summary && (
+            {/* Summary - streamed after the tasks */}
+            {shown?.summary && (
               <div className="p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg">
                 <p className="text-xs text-slate-600 dark:text-slate-400 leading-relaxed">
-                  {extractionResult.summary}
+                  {shown.summary}
                 </p>
               </div>
             )}
 
             {/* Tasks List */}
             <div className="space-y-2">
-              {extractionResult.tasks.slice(0, 5).map((task) => (
+              {tasks.slice(0, 5).map((task, index) => (
                 <div
-                  key={task.id}
+                  key={task.id || index}
                   className={`p-3 rounded-lg border ${
                     task.priority === 'urgent' ? 'border-red-200 dark:border-red-800' :
                     task.priority === 'high' ? 'border-orange-200 dark:border-orange-800' :
@@ -272,13 +402,16 @@ export default function TaskExtractorDropdown({
               ))}
             </div>
 
-            {extractionResult.tasks.length > 5 && (
-              <p className="text-xs text-center text-slate-500 dark:text-slate-400">
-                +{extractionResult.tasks.length - 5} more tasks
-              </p>
+            {tasks.length > 5 && (
+              <button
+                onClick={() => { setShowPanel(true); setIsOpen(false) }}
+                className="w-full text-xs text-center text-slate-500 dark:text-slate-400 hover:text-purple-600"
+              >
+                +{tasks.length - 5} more tasks
+              </button>
             )}
           </div>
-        ) : extractionResult ? (
+        ) : exportable ? (
           <div className="p-8 text-center">
             <ClipboardDocumentListIcon className="w-10 h-10 text-slate-400 mx-auto mb-3" />
             <p className="text-sm text-slate-600 dark:text-slate-400">
@@ -289,15 +422,24 @@ export default function TaskExtractorDropdown({
       </div>
 
       {/* Footer */}
-      {extractionResult && extractionResult.tasks.length > 0 && (
-        <div className="p-3 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+      {exportable && exportable.tasks.length > 0 && !isExtracting && (
+        <div className="p-3 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex gap-2">
           <button
             onClick={handleExport}
-            className="w-full flex items-center justify-center gap-2 text-xs px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+            className="flex-1 flex items-center justify-center gap-2 text-xs px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
           >
             <DocumentArrowDownIcon className="w-4 h-4" />
             Export Tasks
           </button>
+          {conversationId && (
+            <Link
+              href="/tasks"
+              className="flex-1 flex items-center justify-center gap-2 text-xs px-3 py-1.5 border border-slate-200 dark:border-slate-700 hover:bg-white dark:hover:bg-slate-800 rounded-lg transition-colors"
+            >
+              <ViewColumnsIcon className="w-4 h-4" />
+              Task Board
+            </Link>
+          )}
         </div>
       )}
       </motion.div>
@@ -309,18 +451,11 @@ export default function TaskExtractorDropdown({
       {/* Trigger Button */}
       <button
         ref={buttonRef}
-        onClick={() => {
-          if (!isOpen && !extractionResult) {
-            extractTasks()
-          } else {
-            setIsOpen(!isOpen)
-          }
-        }}
-        disabled={isExtracting}
+        onClick={() => setIsOpen(!isOpen)}
         className={`relative flex items-center gap-2 text-xs px-3 py-1.5 rounded-lg transition-all z-10 ${
           isExtracting 
             ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 cursor-wait' 
-            : extractionResult 
+            : hasResult 
               ? 'bg-purple-600 text-white hover:bg-purple-700' 
               : 'bg-white dark:bg-slate-800 hover:bg-slate-50 dark:hover:bg-slate-700 border border-slate-200 dark:border-slate-700'
         } ${className}`}
@@ -329,9 +464,9 @@ export default function TaskExtractorDropdown({
         <span>
           {isExtracting ? 'Extracting...' : 'Extract Tasks'}
         </span>
-        {extractionResult && (
+        {hasResult && (
           <Badge variant="secondary" className="ml-1 px-1.5 py-0.5 text-xs">
-            {extractionResult.totalTasksFound}
+            {exportable?.totalTasksFound ?? tasks.length}
           </Badge>
         )}
         <ChevronDownIcon className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
@@ -348,7 +483,7 @@ export default function TaskExtractorDropdown({
       }
 
       {/* Export Modal */}
-      {showExportModal && extractionResult && typeof window !== 'undefined' && createPortal(
+      {showExportModal && exportable && typeof window !== 'undefined' && createPortal(
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4" style={{ zIndex: 100000 }}>
           <motion.div
             initial={{ opacity: 0, scale: 0.9 }}
@@ -372,7 +507,7 @@ export default function TaskExtractorDropdown({
             
             <div className="p-6">
               <TaskExportSelector 
-                taskResult={extractionResult}
+                taskResult={exportable}
                 onExportComplete={() => setShowExportModal(false)}
               />
             </div>
@@ -380,6 +515,14 @@ export default function TaskExtractorDropdown({
         </div>,
         document.body
       )}
+
+      <TasksPanel
+        isOpen={showPanel}
+        onClose={() => setShowPanel(false)}
+        extractionResult={shown}
+        isExtracting={isExtracting}
+        onExport={exportable ? handleExport : undefined}
+      />
     </>
   )
 }
\ No newline at end of file
@@ -16,16 +16,19 @@ import {
   ChevronRightIcon
 } from '@heroicons/react/24/outline'
 import { Button } from './ui/Button'
-import type { Task, TaskExtractionResult } from '@/lib/task-extractor'
+import type { Task } from '@/lib/task-extractor'
+import type { PartialTaskExtraction } from '@/hooks/useTaskExtraction'
 
 interface TasksPanelProps {
   isOpen: boolean
   onClose: () => void
-  extractionResult: TaskExtractionResult | null
-  onExport: () => void
+  // Partial while the extraction is still streaming in
+  extractionResult: PartialTaskExtraction | null
+  isExtracting?: boolean
+  onExport?: () => void
 }
 
-const handleExportClick = (extractionResult: TaskExtractionResult | null, onExport: () => void) => {
+const handleExportClick = (extractionResult: PartialTaskExtraction | null, onExport?: () => void) => {
   console.log('Export button clicked', { extractionResult, onExport })
   
   if (!extractionResult) {
@@ -65,7 +68,10 @@ const handleExportClick = (extractionResult: TaskExtractionResult | null, onExpo
   }
 }
 
-export default function TasksPanel({ isOpen, onClose, extractionResult, onExport }: TasksPanelProps) {
+export default function TasksPanel({ isOpen, onClose, extractionResult, isExtracting = false, onExport }: TasksPanelProps) {
+  // Tasks still missing their title are skipped until more of them streams in
+  const tasks = (extractionResult?.tasks || []).filter((task): task is NonNullable<typeof task> => !!task?.title)
+  const primaryTopics = (extractionResult?.extractionMetadata?.primaryTopics || []).filter(Boolean)
   const [isMinimized, setIsMinimized] = useState(false)
   const [isResizing, setIsResizing] = useState(false)
   const [panelWidth, setPanelWidth] = useState(420)
@@ -90,7 +96,7 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
     document.addEventListener('mousemove', handleMouseMove)
     document.addEventListener('mouseup', handleMouseUp)
   }, [panelWidth])
-  const getPriorityIcon = (priority: Task['priority']) => {
+  const getPriorityIcon = (priority?: Task['priority']) => {
     switch (priority) {
       case 'urgent':
         return <ExclamationTriangleIcon className="w-4 h-4 text-red-500" />
@@ -103,7 +109,7 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
     }
   }
 
-  const getPriorityColor = (priority: Task['priority']) => {
+  const getPriorityColor = (priority?: Task['priority']) => {
     switch (priority) {
       case 'urgent':
         return 'border-l-red-500 bg-red-50 dark:bg-red-950/20'
@@ -116,7 +122,7 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
     }
   }
 
-  const getCategoryEmoji = (category: Task['category']) => {
+  const getCategoryEmoji = (category?: Task['category']) => {
     switch (category) {
       case 'technical': return '⚙️'
       case 'research': return '🔍'
@@ -165,7 +171,7 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
                 </div>
                 {extractionResult && (
                   <div className="text-xs text-center text-slate-500 dark:text-slate-400 writing-mode-vertical transform rotate-180">
-                    {extractionResult.totalTasksFound}
+                    {tasks.length}
                   </div>
                 )}
               </div>
@@ -179,9 +185,14 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
                     <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
                       Extracted Tasks
                     </h3>
-                    {extractionResult && (
+                    {isExtracting ? (
                       <p className="text-sm text-slate-500 dark:text-slate-400">
-                        {extractionResult.totalTasksFound} tasks found • {extractionResult.extractionMetadata.complexity} complexity
+                        {tasks.length} tasks so far…
+                      </p>
+                    ) : extractionResult && (
+                      <p className="text-sm text-slate-500 dark:text-slate-400">
+                        {extractionResult.totalTasksFound ?? tasks.length} tasks found
+                        {extractionResult.extractionMetadata?.complexity && ` • ${extractionResult.extractionMetadata.complexity} complexity`}
                       </p>
                     )}
                   </div>
@@ -217,9 +228,9 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
                     <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-3">Summary</h4>
                     <p className="text-sm text-gray-600 dark:text-gray-300 leading-relaxed mb-3">{extractionResult.summary}</p>
                     
-                    {extractionResult.extractionMetadata.primaryTopics.length > 0 && (
+                    {primaryTopics.length > 0 && (
                       <div className="flex flex-wrap gap-2">
-                        {extractionResult.extractionMetadata.primaryTopics.map((topic, index) => (
+                        {primaryTopics.map((topic, index) => (
                           <span
                             key={index}
                             className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 text-xs rounded-full"
@@ -234,18 +245,18 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
                 )}
 
                 {/* Tasks */}
-                {extractionResult.tasks.length > 0 ? (
+                {tasks.length > 0 ? (
                   <div className="space-y-3">
                     <h4 className="font-medium text-gray-900 dark:text-gray-100">
-                      Action Items ({extractionResult.tasks.length})
+                      Action Items ({tasks.length})
                     </h4>
                     
-                    {extractionResult.tasks.map((task, index) => (
+                    {tasks.map((task, index) => (
                       <motion.div
-                        key={task.id}
+                        key={task.id || index}
                         initial={{ opacity: 0, y: 10 }}
                         animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.1 }}
+                        transition={{ delay: isExtracting ? 0 : index * 0.1 }}
                         className={`p-3 border-l-4 rounded-lg ${getPriorityColor(task.priority)}`}
                       >
                         <div className="flex items-start justify-between">
@@ -298,6 +309,11 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
                       </motion.div>
                     ))}
                   </div>
+                ) : isExtracting ? (
+                  <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-purple-600 mx-auto mb-4"></div>
+                    <p>Looking for tasks…</p>
+                  </div>
                 ) : (
                   <div className="text-center py-8 text-gray-500 dark:text-gray-400">
                     <ClipboardDocumentListIcon className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -316,11 +332,11 @@ export default function TasksPanel({ isOpen, onClose, extractionResult, onExport
           )}
 
           {/* Footer */}
-          {extractionResult && !isMinimized && (
+          {extractionResult && !isExtracting && !isMinimized && (
             <div className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50">
               <div className="flex items-center justify-between">
                 <div className="text-xs text-gray-500 dark:text-gray-400">
-                  From {extractionResult.extractionMetadata.conversationLength} messages
+                  From {extractionResult.extractionMetadata?.conversationLength ?? 0} messages
                 </div>
                 <Button 
                   onClick={() => handleExportClick(extractionResult, onExport)}
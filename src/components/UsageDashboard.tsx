@@ -0,0 +1,272 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/input'
+import { getModelById } from '@/lib/models'
+import { USAGE_BUCKETS, type UsageBucket, type UsageReport } from '@/lib/usage-analytics'
+import { ArrowDownTrayIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+
+const BUCKET_LABELS: Record<UsageBucket, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly' }
+
+// Chart segment colours, assigned to models from most to least expensive
+const MODEL_COLORS = ['bg-blue-500', 'bg-emerald-500', 'bg-amber-500', 'bg-purple-500', 'bg-rose-500', 'bg-cyan-500']
+const OTHER_COLOR = 'bg-gray-400'
+
+function formatCost(costUsd: number): string {
+  if (costUsd === 0) return '$0.00'
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`
+  return `$${costUsd.toFixed(2)}`
+}
+
+function formatBucket(start: string, bucket: UsageBucket): string {
+  // Buckets are UTC; shift so the local formatter shows the UTC date
+  const date = new Date(start)
+  const utc = new Date(date.getTime() + date.getTimezoneOffset() * 60000)
+  return format(utc, bucket === 'month' ? 'MMM yyyy' : 'MMM d')
+}
+
+function modelName(modelId: string): string {
+  return getModelById(modelId)?.name || modelId
+}
+
+export default function UsageDashboard() {
+  const [bucket, setBucket] = useState<UsageBucket>('day')
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [budgetInput, setBudgetInput] = useState('')
+  const [savingBudget, setSavingBudget] = useState(false)
+
+  const loadReport = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/usage/analytics?bucket=${bucket}`)
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.details || body.error || 'Failed to load usage')
+      setReport(body.report)
+      setBudgetInput(body.report.budget.monthlyBudgetUsd?.toString() ?? '')
+    } catch (err) {
+      console.error('❌ Failed to load usage analytics:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load usage')
+    } finally {
+      setLoading(false)
+    }
+  }, [bucket])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  const saveBudget = async () => {
+    const trimmed = budgetInput.trim()
+    const monthlyBudgetUsd = trimmed ? Number(trimmed) : null
+    if (monthlyBudgetUsd !== null && !(monthlyBudgetUsd > 0)) {
+      setError('Enter a budget above $0, or leave it empty to turn alerts off')
+      return
+    }
+
+    setSavingBudget(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/usage/budget', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ monthlyBudgetUsd })
+      })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.details || body.error || 'Failed to save budget')
+      await loadReport()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget')
+    } finally {
+      setSavingBudget(false)
+    }
+  }
+
+  const colorFor = (modelId: string) => {
+    const index = report?.models.findIndex(model => model.model === modelId) ?? -1
+    return index >= 0 && index < MODEL_COLORS.length ? MODEL_COLORS[index] : OTHER_COLOR
+  }
+  const maxCost = Math.max(...(report?.series.map(point => point.costUsd) || []), 0)
+  const budget = report?.budget
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg">
+          {USAGE_BUCKETS.map(option => (
+            <button
+              key={option}
+              onClick={() => setBucket(option)}
+              className={`py-1.5 px-3 rounded-md text-sm font-medium transition-colors ${
+                bucket === option
+                  ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+            >
+              {BUCKET_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`/api/usage/export?bucket=${bucket}`} download className="flex items-center gap-2">
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {budget && budget.alert !== 'none' && budget.monthlyBudgetUsd && (
+        <div className={`flex items-start gap-3 p-3 rounded-lg text-sm ${
+          budget.alert === 'exceeded'
+            ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400'
+            : 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+        }`}>
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+          <span>
+            {budget.alert === 'exceeded'
+              ? `You've spent ${formatCost(budget.monthToDateUsd)} this month, over your ${formatCost(budget.monthlyBudgetUsd)} budget.`
+              : `At this rate you'll spend about ${formatCost(budget.projectedUsd)} this month, over your ${formatCost(budget.monthlyBudgetUsd)} budget.`}
+          </span>
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : report && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Requests', value: report.totals.requests.toLocaleString() },
+              { label: 'Tokens', value: report.totals.tokens.toLocaleString() },
+              { label: 'Cost', value: formatCost(report.totals.costUsd) },
+              { label: 'Projected this month', value: formatCost(report.budget.projectedUsd) }
+            ].map(stat => (
+              <div key={stat.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+                <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">Cost by {bucket}</h3>
+            <div className="flex items-end gap-1 h-40">
+              {report.series.map(point => (
+                <div
+                  key={point.start}
+                  className="flex-1 h-full flex flex-col-reverse"
+                  title={`${formatBucket(point.start, bucket)}: ${formatCost(point.costUsd)} · ${point.requests} requests`}
+                >
+                  {maxCost > 0 && Object.entries(point.models).map(([modelId, cost]) => (
+                    <div
+                      key={modelId}
+                      className={colorFor(modelId)}
+                      style={{ height: `${(cost / maxCost) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+              <span>{report.series[0] && formatBucket(report.series[0].start, bucket)}</span>
+              <span>{report.series.length > 0 && formatBucket(report.series[report.series.length - 1].start, bucket)}</span>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">By model</h3>
+            {report.models.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No usage in this period</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                    <th className="py-1 font-medium">Model</th>
+                    <th className="py-1 font-medium text-right">Requests</th>
+                    <th className="py-1 font-medium text-right">Tokens</th>
+                    <th className="py-1 font-medium text-right">Avg latency</th>
+                    <th className="py-1 font-medium text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900 dark:text-gray-100">
+                  {report.models.map(model => (
+                    <tr key={model.model} className="border-t border-gray-100 dark:border-gray-800">
+                      <td className="py-1.5">
+                        <span className={`inline-block w-2.5 h-2.5 rounded-sm mr-2 ${colorFor(model.model)}`} />
+                        {modelName(model.model)}
+                      </td>
+                      <td className="py-1.5 text-right">{model.requests.toLocaleString()}</td>
+                      <td className="py-1.5 text-right">{model.tokens.toLocaleString()}</td>
+                      <td className="py-1.5 text-right">
+                        {model.avgLatencyMs === null ? '—' : `${(model.avgLatencyMs / 1000).toFixed(1)}s`}
+                      </td>
+                      <td className="py-1.5 text-right">{formatCost(model.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {report.conversations.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Top conversations</h3>
+              <table className="w-full text-sm">
+                <tbody className="text-gray-900 dark:text-gray-100">
+                  {report.conversations.map(conversation => (
+                    <tr key={conversation.conversationId ?? 'none'} className="border-t border-gray-100 dark:border-gray-800">
+                      <td className="py-1.5 truncate max-w-xs">
+                        {conversation.conversationId ? (
+                          <a href={`/chat/${conversation.conversationId}`} className="hover:underline">
+                            {conversation.title || 'Untitled conversation'}
+                          </a>
+                        ) : (
+                          <span className="text-gray-500 dark:text-gray-400">Outside conversations</span>
+                        )}
+                      </td>
+                      <td className="py-1.5 text-right">{conversation.requests.toLocaleString()} requests</td>
+                      <td className="py-1.5 text-right">{formatCost(conversation.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">Monthly budget</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Get an alert here when your projected spend for the month crosses this amount. Leave empty to turn alerts off.
+        </p>
+        <div className="flex items-center gap-2 max-w-xs">
+          <span className="text-gray-500">$</span>
+          <Input
+            type="number"
+            min="0.01"
+            step="0.01"
+            placeholder="No budget"
+            value={budgetInput}
+            onChange={e => setBudgetInput(e.target.value)}
+          />
+          <Button size="sm" onClick={saveBudget} disabled={savingBudget}>
+            {savingBudget ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -179,7 +179,7 @@ export default function VisualRAGInterface({ conversationId, onAddToContext, onD
             ref={fileInputRef}
             type="file"
             onChange={handleFileUpload}
-            accept=".pdf,.txt,.md,.docx"
+            accept=".pdf,.txt,.md,.docx,.html,.htm,.csv,.tsv,.xlsx,.json,.yaml,.yml"
             className="hidden"
           />
 
@@ -319,7 +319,7 @@ export default function VisualRAGInterface({ conversationId, onAddToContext, onD
         ref={fileInputRef}
         type="file"
         onChange={handleFileUpload}
-        accept=".pdf,.txt,.md,.docx"
+        accept=".pdf,.txt,.md,.docx,.html,.htm,.csv,.tsv,.xlsx,.json,.yaml,.yml"
         className="hidden"
       />
     </div>
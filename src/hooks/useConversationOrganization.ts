@@ -0,0 +1,203 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { createClientComponentClient } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  buildOrganizationMap,
+  nextTagColor,
+  normalizeLabelName,
+  UNORGANIZED,
+  type ConversationFolder,
+  type ConversationOrganization,
+  type ConversationTag
+} from '@/lib/conversation-organization'
+
+/**
+ * Folders, tags, pins and archive state for the signed-in user's sidebar. Changes are applied
+ * locally first and written straight to Supabase (RLS keeps rows per user); a failed write
+ * reloads everything so the sidebar never shows state that was not saved.
+ */
+export function useConversationOrganization() {
+  const supabase = createClientComponentClient()
+  const { user, isAnonymous } = useAuth()
+  const [folders, setFolders] = useState<ConversationFolder[]>([])
+  const [tags, setTags] = useState<ConversationTag[]>([])
+  const [organization, setOrganization] = useState<Map<string, ConversationOrganization>>(new Map())
+  const [error, setError] = useState<string | null>(null)
+
+  const userId = !isAnonymous ? user?.id : undefined
+  const enabled = !!userId
+
+  const load = useCallback(async () => {
+    if (!userId) return
+    try {
+      const [foldersResult, tagsResult, organizationResult, assignmentsResult] = await Promise.all([
+        supabase.from('conversation_folders').select('*').order('position', { ascending: true }),
+        supabase.from('conversation_tags').select('*').order('name', { ascending: true }),
+        supabase.from('conversation_organization').select('conversation_id, folder_id, pinned_at, archived_at'),
+        supabase.from('conversation_tag_assignments').select('conversation_id, tag_id')
+      ])
+      const failed = [foldersResult, tagsResult, organizationResult, assignmentsResult].find(result => result.error)
+      if (failed?.error) throw failed.error
+
+      setFolders(foldersResult.data || [])
+      setTags(tagsResult.data || [])
+      setOrganization(buildOrganizationMap(organizationResult.data || [], assignmentsResult.data || []))
+    } catch (loadError) {
+      console.error('❌ [useConversationOrganization] Failed to load:', loadError)
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load folders and tags')
+    }
+  }, [userId, supabase])
+
+  useEffect(() => {
+    if (enabled) {
+      load()
+    } else {
+      setFolders([])
+      setTags([])
+      setOrganization(new Map())
+    }
+  }, [enabled, load])
+
+  // Run a write after an optimistic update, reloading if it fails
+  const persist = useCallback(async (action: string, write: () => PromiseLike<{ error: unknown }>) => {
+    setError(null)
+    const { error: writeError } = await write()
+    if (writeError) {
+      console.error(`❌ [useConversationOrganization] Failed to ${action}:`, writeError)
+      setError(`Failed to ${action}`)
+      await load()
+      return false
+    }
+    return true
+  }, [load])
+
+  const updatePlacement = useCallback(async (
+    conversationId: string,
+    changes: Partial<Pick<ConversationOrganization, 'folderId' | 'pinned' | 'archived'>>,
+    action: string
+  ) => {
+    if (!userId) return false
+    setOrganization(prev => {
+      const next = new Map(prev)
+      next.set(conversationId, { ...(prev.get(conversationId) || UNORGANIZED), ...changes })
+      return next
+    })
+
+    const now = new Date().toISOString()
+    return persist(action, () => supabase
+      .from('conversation_organization')
+      .upsert({
+        user_id: userId,
+        conversation_id: conversationId,
+        ...(changes.folderId !== undefined ? { folder_id: changes.folderId } : {}),
+        ...(changes.pinned !== undefined ? { pinned_at: changes.pinned ? now : null } : {}),
+        ...(changes.archived !== undefined ? { archived_at: changes.archived ? now : null } : {}),
+        updated_at: now
+      }, { onConflict: 'user_id,conversation_id' }))
+  }, [userId, supabase, persist])
+
+  const moveToFolder = useCallback((conversationId: string, folderId: string | null) =>
+    updatePlacement(conversationId, { folderId }, 'move conversation'), [updatePlacement])
+
+  const setPinned = useCallback((conversationId: string, pinned: boolean) =>
+    updatePlacement(conversationId, { pinned }, pinned ? 'pin conversation' : 'unpin conversation'), [updatePlacement])
+
+  // Archiving also unpins, so the conversation leaves the Pinned section
+  const setArchived = useCallback((conversationId: string, archived: boolean) =>
+    updatePlacement(conversationId, archived ? { archived, pinned: false } : { archived }, archived ? 'archive conversation' : 'restore conversation'), [updatePlacement])
+
+  const createFolder = useCallback(async (name: string) => {
+    if (!userId) return null
+    const { data, error: insertError } = await supabase
+      .from('conversation_folders')
+      .insert({ user_id: userId, name: normalizeLabelName(name, folders), position: folders.length })
+      .select('*')
+      .single()
+    if (insertError) {
+      console.error('❌ [useConversationOrganization] Failed to create folder:', insertError)
+      setError('Failed to create folder')
+      return null
+    }
+    setFolders(prev => [...prev, data])
+    return data as ConversationFolder
+  }, [userId, supabase, folders])
+
+  const renameFolder = useCallback(async (folderId: string, name: string) => {
+    const normalized = normalizeLabelName(name, folders.filter(folder => folder.id !== folderId))
+    setFolders(prev => prev.map(folder => folder.id === folderId ? { ...folder, name: normalized } : folder))
+    return persist('rename folder', () => supabase
+      .from('conversation_folders')
+      .update({ name: normalized, updated_at: new Date().toISOString() })
+      .eq('id', folderId))
+  }, [supabase, folders, persist])
+
+  // Conversations in the folder move back to unfiled (folder_id is set null by the database)
+  const deleteFolder = useCallback(async (folderId: string) => {
+    setFolders(prev => prev.filter(folder => folder.id !== folderId))
+    setOrganization(prev => new Map([...prev].map(([id, placement]) =>
+      [id, placement.folderId === folderId ? { ...placement, folderId: null } : placement])))
+    return persist('delete folder', () => supabase.from('conversation_folders').delete().eq('id', folderId))
+  }, [supabase, persist])
+
+  const createTag = useCallback(async (name: string) => {
+    if (!userId) return null
+    const { data, error: insertError } = await supabase
+      .from('conversation_tags')
+      .insert({ user_id: userId, name: normalizeLabelName(name, tags), color: nextTagColor(tags) })
+      .select('*')
+      .single()
+    if (insertError) {
+      console.error('❌ [useConversationOrganization] Failed to create tag:', insertError)
+      setError('Failed to create tag')
+      return null
+    }
+    setTags(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)))
+    return data as ConversationTag
+  }, [userId, supabase, tags])
+
+  const deleteTag = useCallback(async (tagId: string) => {
+    setTags(prev => prev.filter(tag => tag.id !== tagId))
+    setOrganization(prev => new Map([...prev].map(([id, placement]) =>
+      [id, { ...placement, tagIds: placement.tagIds.filter(assigned => assigned !== tagId) }])))
+    return persist('delete tag', () => supabase.from('conversation_tags').delete().eq('id', tagId))
+  }, [supabase, persist])
+
+  const toggleTag = useCallback(async (conversationId: string, tagId: string) => {
+    if (!userId) return false
+    const assigned = (organization.get(conversationId) || UNORGANIZED).tagIds.includes(tagId)
+    setOrganization(prev => {
+      const next = new Map(prev)
+      const current = prev.get(conversationId) || UNORGANIZED
+      next.set(conversationId, {
+        ...current,
+        tagIds: assigned ? current.tagIds.filter(id => id !== tagId) : [...current.tagIds, tagId]
+      })
+      return next
+    })
+
+    return persist(assigned ? 'remove tag' : 'add tag', () => assigned
+      ? supabase.from('conversation_tag_assignments').delete().eq('conversation_id', conversationId).eq('tag_id', tagId)
+      : supabase.from('conversation_tag_assignments').insert({ user_id: userId, conversation_id: conversationId, tag_id: tagId }))
+  }, [userId, supabase, organization, persist])
+
+  return {
+    enabled,
+    folders,
+    tags,
+    organization,
+    error,
+    clearError: () => setError(null),
+    reload: load,
+    moveToFolder,
+    setPinned,
+    setArchived,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    createTag,
+    deleteTag,
+    toggleTag
+  }
+}
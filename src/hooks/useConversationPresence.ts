@@ -0,0 +1,176 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import type { Message as AIMessage } from 'ai'
+import { createClientComponentClient } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  participantsFromPresence,
+  type ConversationRole,
+  type PresenceParticipant
+} from '@/lib/conversation-collaboration'
+
+// Typing clears itself if no keystroke arrives for this long
+const TYPING_TIMEOUT_MS = 3000
+// Stream chunks are coalesced so a fast model does not flood the channel
+const STREAM_THROTTLE_MS = 150
+// Remote previews are hidden by MessageList once the saved message arrives; drop them after this
+const STREAM_RETENTION_MS = 10000
+
+interface StreamPayload {
+  userId: string
+  name: string
+  messageId: string
+  content: string
+  reasoning?: string
+  done: boolean
+}
+
+/**
+ * Presence, typing indicators and live AI output for everyone in a conversation, on a Supabase
+ * Realtime channel per conversation. Only signed-in members join; anonymous sessions have no access
+ * to shared conversations anyway.
+ */
+export function useConversationPresence(conversationId: string | null, role: ConversationRole | null) {
+  const supabase = createClientComponentClient()
+  const { user, isAnonymous } = useAuth()
+  const [participants, setParticipants] = useState<PresenceParticipant[]>([])
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, StreamPayload>>({})
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const selfRef = useRef<PresenceParticipant | null>(null)
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const pendingStreamRef = useRef<StreamPayload | null>(null)
+  const streamTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const retentionTimersRef = useRef<Map<string, NodeJS.Timeout>>(new Map())
+
+  const userId = !isAnonymous ? user?.id : undefined
+  const enabled = !!conversationId && !!userId && !!role
+
+  useEffect(() => {
+    if (!enabled || !conversationId || !user) return
+
+    selfRef.current = {
+      userId: user.id,
+      name: user.user_metadata?.full_name || user.user_metadata?.name || user.email || 'Someone',
+      avatarUrl: user.user_metadata?.avatar_url || null,
+      role,
+      typing: false,
+      onlineAt: new Date().toISOString()
+    }
+
+    // Private, so Realtime checks the realtime.messages policies and only members can join
+    const channel = supabase.channel(`presence:${conversationId}`, {
+      config: { private: true, presence: { key: user.id }, broadcast: { self: false } }
+    })
+    const retentionTimers = retentionTimersRef.current
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setParticipants(participantsFromPresence(channel.presenceState() as Record<string, PresenceParticipant[]>, user.id))
+      })
+      .on('broadcast', { event: 'ai-stream' }, ({ payload }: { payload: StreamPayload }) => {
+        setRemoteStreams(prev => ({ ...prev, [payload.userId]: payload }))
+        clearTimeout(retentionTimers.get(payload.userId))
+        if (payload.done) {
+          retentionTimers.set(payload.userId, setTimeout(() => {
+            setRemoteStreams(prev => {
+              const next = { ...prev }
+              delete next[payload.userId]
+              return next
+            })
+          }, STREAM_RETENTION_MS))
+        }
+      })
+      .subscribe(async (status: string) => {
+        console.log('👥 [useConversationPresence] Channel status:', status)
+        if (status === 'SUBSCRIBED' && selfRef.current) {
+          await channel.track(selfRef.current)
+        }
+      })
+
+    channelRef.current = channel
+
+    return () => {
+      channelRef.current = null
+      retentionTimers.forEach(timer => clearTimeout(timer))
+      retentionTimers.clear()
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
+      if (streamTimerRef.current) clearTimeout(streamTimerRef.current)
+      streamTimerRef.current = null
+      setParticipants([])
+      setRemoteStreams({})
+      supabase.removeChannel(channel)
+    }
+  }, [enabled, conversationId, user, role, supabase])
+
+  const setTyping = useCallback((typing: boolean) => {
+    const channel = channelRef.current
+    const self = selfRef.current
+    if (!channel || !self) return
+
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current)
+    if (typing) {
+      typingTimeoutRef.current = setTimeout(() => setTyping(false), TYPING_TIMEOUT_MS)
+    }
+    if (self.typing === typing) return
+
+    selfRef.current = { ...self, typing }
+    channel.track(selfRef.current).catch((error: unknown) => {
+      console.warn('⚠️ [useConversationPresence] Failed to update typing status:', error)
+    })
+  }, [])
+
+  // Share the in-progress AI response; `done` flushes immediately
+  const broadcastStream = useCallback((message: { id: string; content: string; reasoning?: string }, done = false) => {
+    const channel = channelRef.current
+    const self = selfRef.current
+    if (!channel || !self) return
+
+    pendingStreamRef.current = {
+      userId: self.userId,
+      name: self.name,
+      messageId: message.id,
+      content: message.content,
+      reasoning: message.reasoning,
+      done
+    }
+
+    const flush = () => {
+      streamTimerRef.current = null
+      const payload = pendingStreamRef.current
+      pendingStreamRef.current = null
+      if (payload) {
+        channel.send({ type: 'broadcast', event: 'ai-stream', payload })
+      }
+    }
+
+    if (done) {
+      if (streamTimerRef.current) clearTimeout(streamTimerRef.current)
+      flush()
+    } else if (!streamTimerRef.current) {
+      streamTimerRef.current = setTimeout(flush, STREAM_THROTTLE_MS)
+    }
+  }, [])
+
+  // Shaped like AI SDK messages so MessageList renders them next to local ones
+  const remoteAIMessages = useMemo<AIMessage[]>(() =>
+    Object.values(remoteStreams)
+      .filter(stream => stream.content)
+      .map(stream => ({
+        id: `remote-${stream.userId}-${stream.messageId}`,
+        role: 'assistant',
+        content: stream.content,
+        reasoning: stream.reasoning
+      })),
+  [remoteStreams])
+
+  return {
+    participants,
+    typingParticipants: participants.filter(participant => participant.typing),
+    remoteAIMessages,
+    isRemoteResponding: Object.values(remoteStreams).some(stream => !stream.done),
+    setTyping,
+    broadcastStream
+  }
+}
@@ -1,30 +1,34 @@
 'use client'
 
 import { useEffect, useState, useCallback } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
 import { createClientComponentClient } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { logger } from '@/lib/logger'
 import { LocalStorageFallback } from '@/lib/local-storage-fallback'
 import type { Database } from '@/lib/supabase'
+import type { ConversationRole } from '@/lib/conversation-collaboration'
 
 type Message = Database['public']['Tables']['messages']['Row']
 type Conversation = Database['public']['Tables']['conversations']['Row']
 
-export function useRealtimeChat(conversationId: string | null) {
+interface UseRealtimeChatOptions {
+  // Subscribe to message changes; only the instance that owns the message list should
+  subscribe?: boolean
+}
+
+export function useRealtimeChat(conversationId: string | null, options: UseRealtimeChatOptions = {}) {
   const supabase = createClientComponentClient()
   const { getSessionId } = useAuth()
   const [messages, setMessages] = useState<Message[]>([])
   const [conversation, setConversation] = useState<Conversation | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isTyping, setIsTyping] = useState(false)
+  const [role, setRole] = useState<ConversationRole | null>(null)
   const [useLocalFallback, setUseLocalFallback] = useState(false)
   
-  // Disable real-time in production until RLS is fixed
-  const isProduction = typeof window !== 'undefined' && 
-    (window.location.hostname.includes('vercel.app') || 
-     window.location.hostname.includes('t3-crusher') ||
-     window.location.hostname !== 'localhost')
-  const ENABLE_REALTIME = false
+  // RLS lets collaborators read shared conversations, so their messages arrive live as well
+  const ENABLE_REALTIME = options.subscribe ?? false
 
   // Helper function to validate UUID format
   const isValidUUID = (uuid: string) => {
@@ -38,6 +42,7 @@ export function useRealtimeChat(conversationId: string | null) {
     console.log('🔄 [useRealtimeChat] Conversation changed, clearing messages. New ID:', conversationId)
     setMessages([])
     setConversation(null)
+    setRole(null)
     
     if (!conversationId || conversationId === '' || conversationId === 'default') {
       console.log('⚠️ [useRealtimeChat] No valid conversation ID, skipping load')
@@ -69,6 +74,20 @@ export function useRealtimeChat(conversationId: string | null) {
 
         setConversation(conversationData)
 
+        // Owners see their own conversations; anyone else reading it is a collaborator
+        const userId = getSessionId()
+        if (conversationData.user_id === userId) {
+          setRole('owner')
+        } else {
+          const { data: membership } = await supabase
+            .from('conversation_members')
+            .select('role')
+            .eq('conversation_id', conversationId)
+            .eq('user_id', userId)
+            .maybeSingle()
+          setRole(membership?.role || null)
+        }
+
         // Load messages
         console.log('📄 [useRealtimeChat] Loading messages for conversation:', conversationId)
         const { data: messagesData, error: messagesError } = await supabase
@@ -97,11 +116,13 @@ export function useRealtimeChat(conversationId: string | null) {
   // Store active channel reference
   const [activeChannel, setActiveChannel] = useState<any>(null)
 
+  // Resubscribe when a different conversation loads, not when its title or timestamp changes
+  const loadedConversationId = conversation?.id
+
   // Enable real-time subscriptions for enhanced collaboration
   useEffect(() => {
     // Skip real-time in production
     if (!ENABLE_REALTIME) {
-      console.log('🔌 [useRealtimeChat] Real-time disabled in production')
       return
     }
     
@@ -112,7 +133,7 @@ export function useRealtimeChat(conversationId: string | null) {
     }
 
     // Don't create new subscription if conversation hasn't loaded yet
-    if (!conversation) {
+    if (!loadedConversationId) {
       console.log('🔌 [useRealtimeChat] Waiting for conversation to load before subscribing')
       return
     }
@@ -147,6 +168,10 @@ export function useRealtimeChat(conversationId: string | null) {
       }
     })
     
+    // Tracked locally so cleanup sees the channel created by this run of the effect
+    let subscribedChannel: RealtimeChannel | null = null
+    let pollingInterval: NodeJS.Timeout | null = null
+
     // Small delay to ensure cleanup completes
     const setupTimeout = setTimeout(() => {
       // Set up real-time subscription for new messages
@@ -203,11 +228,25 @@ export function useRealtimeChat(conversationId: string | null) {
         },
         (payload: any) => {
           console.log('🗑️ [useRealtimeChat] Message deleted:', payload.old)
-          setMessages(currentMessages => 
+          setMessages(currentMessages =>
             currentMessages.filter(msg => msg.id !== payload.old.id)
           )
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversations',
+          filter: `id=eq.${conversationId}`
+        },
+        (payload: any) => {
+          // Generated titles and summaries land after the response has finished streaming
+          console.log('📝 [useRealtimeChat] Conversation updated:', payload.new.title)
+          setConversation(payload.new as Conversation)
+        }
+      )
       .subscribe((status: any) => {
         console.log('🔌 [useRealtimeChat] Subscription status:', status)
         if (status === 'SUBSCRIBED') {
@@ -221,12 +260,13 @@ export function useRealtimeChat(conversationId: string | null) {
       })
 
       // Store channel reference
+      subscribedChannel = channel
       setActiveChannel(channel)
     }, 100) // Small delay to ensure cleanup
 
     // Polling fallback function
     const setupPollingFallback = () => {
-      const interval = setInterval(async () => {
+      const interval = pollingInterval = setInterval(async () => {
         if (document.visibilityState === 'visible') {
           try {
             const { data: newMessages, error } = await supabase
@@ -250,26 +290,27 @@ export function useRealtimeChat(conversationId: string | null) {
     // Cleanup function
     return () => {
       clearTimeout(setupTimeout)
-      if (activeChannel) {
+      if (pollingInterval) clearInterval(pollingInterval)
+      if (subscribedChannel) {
         console.log('🔌 [useRealtimeChat] Cleaning up subscription for:', conversationId)
         try {
           setActiveChannel(null)
-          activeChannel.unsubscribe()
-          supabase.removeChannel(activeChannel)
+          subscribedChannel.unsubscribe()
+          supabase.removeChannel(subscribedChannel)
           console.log('🔌 [useRealtimeChat] Channel cleanup completed')
         } catch (error) {
           console.warn('⚠️ [useRealtimeChat] Error cleaning up channel:', error)
         }
       }
     }
-  }, [conversationId, conversation, supabase, getSessionId])
+  }, [conversationId, loadedConversationId, ENABLE_REALTIME, supabase, getSessionId])
 
   const sendMessage = useCallback(async (
     content: string, 
     role: 'user' | 'assistant' = 'user',
     parentId?: string,
     branchIndex?: number
-  ) => {
+  ): Promise<string | undefined> => {
     if (!conversationId) return
 
     console.log('📤 [useRealtimeChat] Sending message to conversation:', conversationId, { role, parentId })
@@ -300,9 +341,11 @@ export function useRealtimeChat(conversationId: string | null) {
         messageData.branch_index = finalBranchIndex || 0
       }
 
-      const { error } = await supabase
+      const { data: inserted, error } = await supabase
         .from('messages')
         .insert(messageData)
+        .select('id')
+        .single()
 
       if (error) {
         console.error('Error sending message:', error)
@@ -342,6 +385,9 @@ export function useRealtimeChat(conversationId: string | null) {
           console.warn('⚠️ [useRealtimeChat] Failed to update conversation timestamp:', updateError)
         }
       }
+
+      // The assistant reply saved by /api/chat is stored as a child of this message
+      return inserted?.id
     } catch (error) {
       console.error('Error sending message:', error)
       throw error
@@ -668,6 +714,7 @@ export function useRealtimeChat(conversationId: string | null) {
   return {
     messages,
     conversation,
+    role,
     isLoading,
     isTyping,
     sendMessage,
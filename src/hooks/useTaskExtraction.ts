@@ -0,0 +1,66 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { experimental_useObject as useObject } from 'ai/react'
+import type { DeepPartial } from 'ai'
+import {
+  TaskExtractionSchema,
+  type ExtractionScope,
+  type TaskExtractionResult
+} from '@/lib/task-extractor'
+
+export type PartialTaskExtraction = DeepPartial<TaskExtractionResult>
+
+export interface TaskExtractionRequest extends ExtractionScope {
+  // Saved conversations are read on the server; unsaved ones send their messages instead
+  conversationId?: string | null
+  messages?: { id?: string; role: string; content: unknown }[]
+  model: string
+}
+
+// Error bodies from /api/extract-tasks arrive as the error message
+function getErrorMessage(error: Error | undefined): string | null {
+  if (!error) return null
+  try {
+    const body = JSON.parse(error.message)
+    return body.details ? `${body.error}: ${body.details}` : body.error || error.message
+  } catch {
+    return error.message
+  }
+}
+
+/**
+ * Streams tasks from /api/extract-tasks. `partial` fills in as tasks arrive; `result` is set once
+ * the whole extraction has arrived and matches the schema.
+ */
+export function useTaskExtraction() {
+  const [result, setResult] = useState<TaskExtractionResult | null>(null)
+  const [invalid, setInvalid] = useState(false)
+  const { object, submit, isLoading, error, stop } = useObject({
+    api: '/api/extract-tasks',
+    schema: TaskExtractionSchema,
+    onFinish: ({ object: finished, error: validationError }) => {
+      if (finished) {
+        setResult(finished)
+      } else {
+        console.error('❌ [useTaskExtraction] Extraction did not match the task schema:', validationError)
+        setInvalid(true)
+      }
+    }
+  })
+
+  const extract = useCallback((request: TaskExtractionRequest) => {
+    setResult(null)
+    setInvalid(false)
+    submit(request)
+  }, [submit])
+
+  return {
+    partial: (object ?? null) as PartialTaskExtraction | null,
+    result,
+    isExtracting: isLoading,
+    error: getErrorMessage(error) ?? (invalid ? 'The model returned tasks in an unexpected format. Try again or pick another model.' : null),
+    extract,
+    stop
+  }
+}
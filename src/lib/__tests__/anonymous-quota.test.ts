@@ -0,0 +1,74 @@
+import {
+  ANONYMOUS_CALL_LIMIT,
+  ANONYMOUS_WINDOW_MS,
+  applyAnonymousQuotaHeaders,
+  consumeAnonymousQuota,
+  identifyAnonymousVisitor,
+  releaseAnonymousQuota,
+  signVisitorId,
+  verifyVisitorCookie
+} from '../anonymous-quota'
+import { createServiceRoleClient } from '../supabase'
+
+// Quota functions only run with the service role; requests never use the caller's client
+jest.mock('../supabase', () => ({
+  createServiceRoleClient: jest.fn()
+}))
+
+const mockCreateServiceRoleClient = createServiceRoleClient as jest.Mock
+
+describe('anonymous quota', () => {
+  it('keeps a visitor across requests and rejects tampered cookies', () => {
+    const first = identifyAnonymousVisitor(new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))
+    expect(first.newCookie).toBe(signVisitorId(first.id))
+
+    const returning = identifyAnonymousVisitor(new Headers({
+      cookie: `theme=dark; anon_visitor=${encodeURIComponent(first.newCookie!)}`,
+      'x-real-ip': '203.0.113.7'
+    }))
+    expect(returning).toEqual({ id: first.id, ipHash: first.ipHash, newCookie: null })
+
+    expect(verifyVisitorCookie(`someone-else.${first.newCookie!.split('.')[1]}`)).toBeNull()
+    expect(identifyAnonymousVisitor(new Headers()).ipHash).toBeNull()
+  })
+
+  it('reports usage and the rolling reset, and refunds failed requests', async () => {
+    const oldest = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+    const supabase = {
+      rpc: jest.fn()
+        .mockResolvedValueOnce({
+          data: [{ allowed: true, event_id: 42, visitor_used: 3, ip_used: 5, visitor_oldest: oldest, ip_oldest: oldest }],
+          error: null
+        })
+        .mockResolvedValueOnce({ data: null, error: null })
+    }
+    mockCreateServiceRoleClient.mockReturnValue(supabase)
+    const visitor = { id: 'visitor-1', ipHash: 'ip-hash', newCookie: null }
+
+    const quota = await consumeAnonymousQuota(visitor, 'gemini-2.5-flash-vertex')
+    expect(quota).toMatchObject({ allowed: true, used: 3, remaining: ANONYMOUS_CALL_LIMIT - 3, eventId: 42 })
+    expect(quota.resetAt?.getTime()).toBe(new Date(oldest).getTime() + ANONYMOUS_WINDOW_MS)
+
+    const released = await releaseAnonymousQuota(visitor, quota)
+    expect(supabase.rpc).toHaveBeenLastCalledWith('release_anonymous_quota', { p_event_id: 42, p_visitor_id: 'visitor-1' })
+    expect(released).toMatchObject({ used: 2, remaining: ANONYMOUS_CALL_LIMIT - 2, eventId: null })
+  })
+
+  it('sets usage headers with Retry-After once the quota is spent', () => {
+    const now = Date.now()
+    const headers = new Headers()
+    applyAnonymousQuotaHeaders(headers, { id: 'visitor-1', ipHash: null, newCookie: 'visitor-1.sig' }, {
+      allowed: false,
+      limit: ANONYMOUS_CALL_LIMIT,
+      used: ANONYMOUS_CALL_LIMIT,
+      remaining: 0,
+      resetAt: new Date(now + 90 * 1000),
+      eventId: null
+    }, now)
+
+    expect(headers.get('X-Usage-Count')).toBe(String(ANONYMOUS_CALL_LIMIT))
+    expect(headers.get('X-Usage-Remaining')).toBe('0')
+    expect(headers.get('Retry-After')).toBe('90')
+    expect(headers.get('Set-Cookie')).toContain('anon_visitor=visitor-1.sig; Path=/')
+  })
+})
@@ -0,0 +1,121 @@
+import { getModelById } from '../models'
+import { buildAssistantMetadata, saveAssistantMessage, type AssistantMessageRecord } from '../chat-persistence'
+
+function record(overrides: Partial<AssistantMessageRecord> = {}): AssistantMessageRecord {
+  const startedAt = Date.now() - 1000
+  return {
+    conversationId: 'conversation-1',
+    text: 'Hello there',
+    requestedModel: 'gemini-2.5-flash-vertex',
+    servedModel: getModelById('gemini-2.5-flash-vertex')!,
+    provider: 'vertex-ai',
+    source: 'server',
+    failoverAttempts: 0,
+    usage: { promptTokens: 1000000, completionTokens: 500000, totalTokens: 1500000 },
+    finishReason: 'stop',
+    startedAt,
+    firstTokenAt: startedAt + 200,
+    ...overrides
+  }
+}
+
+describe('chat persistence', () => {
+  it('computes cost from the served model pricing per 1M tokens', () => {
+    const metadata = buildAssistantMetadata(record())
+
+    expect(metadata.cost.input).toBeCloseTo(0.15)
+    expect(metadata.cost.output).toBeCloseTo(0.30)
+    expect(metadata.cost.total).toBeCloseTo(0.45)
+    expect(metadata.timeToFirstTokenMs).toBe(200)
+    expect(metadata.latencyMs).toBeGreaterThanOrEqual(1000)
+    expect(metadata.fallback).toBe(false)
+  })
+
+  it('records fallbacks and the OpenRouter fee', () => {
+    const metadata = buildAssistantMetadata(record({
+      servedModel: getModelById('gemini-2.0-flash')!,
+      provider: 'openrouter',
+      source: 'server',
+      failoverAttempts: 2
+    }))
+
+    expect(metadata.model).toBe('gemini-2.0-flash')
+    expect(metadata.requestedModel).toBe('gemini-2.5-flash-vertex')
+    expect(metadata.fallback).toBe(true)
+    expect(metadata.cost.total).toBeCloseTo((0.10 + 0.20) * 1.05)
+  })
+
+  it('inserts the assistant message with its metadata', async () => {
+    const insert = jest.fn().mockResolvedValue({ error: null })
+    const eq = jest.fn().mockResolvedValue({ error: null })
+    const supabase = {
+      from: jest.fn((table: string) => table === 'messages'
+        ? { insert }
+        : { update: jest.fn(() => ({ eq })) })
+    }
+
+    await saveAssistantMessage(supabase as never, record({
+      usage: { promptTokens: NaN, completionTokens: 12, totalTokens: NaN }
+    }))
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      conversation_id: 'conversation-1',
+      role: 'assistant',
+      content: { text: 'Hello there' },
+      model_metadata: expect.objectContaining({
+        provider: 'vertex-ai',
+        finishReason: 'stop',
+        usage: { promptTokens: 0, completionTokens: 12, totalTokens: 12 }
+      })
+    }))
+    expect(eq).toHaveBeenCalledWith('id', 'conversation-1')
+  })
+
+  it('stores the reply as the next branch under the user message it answers', async () => {
+    const parentId = '11111111-1111-4111-8111-111111111111'
+    const insert = jest.fn().mockResolvedValue({ error: null })
+    const lookups: Array<Record<string, jest.Mock>> = []
+    const supabase = {
+      from: jest.fn((table: string) => {
+        if (table !== 'messages') return { update: jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) })) }
+        // The parent lookup, then the sibling query; each resolves like a Supabase builder
+        const lookup: Record<string, jest.Mock> = {
+          select: jest.fn(() => lookup),
+          eq: jest.fn(() => lookup),
+          maybeSingle: jest.fn().mockResolvedValue({ data: { id: parentId }, error: null }),
+          then: jest.fn(resolve => Promise.resolve({ data: [{ branch_index: 0 }, { branch_index: 1 }], error: null }).then(resolve)),
+          insert
+        }
+        lookups.push(lookup)
+        return lookup
+      })
+    }
+
+    await saveAssistantMessage(supabase as never, record({ parentMessageId: parentId }))
+
+    expect(lookups[0].eq).toHaveBeenCalledWith('conversation_id', 'conversation-1')
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({ parent_id: parentId, branch_index: 2 }))
+  })
+
+  it('stores the reply without a parent outside the conversation', async () => {
+    const insert = jest.fn().mockResolvedValue({ error: null })
+    const lookup: Record<string, jest.Mock> = {
+      select: jest.fn(() => lookup),
+      eq: jest.fn(() => lookup),
+      maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+      insert
+    }
+    const supabase = {
+      from: jest.fn((table: string) => table === 'messages'
+        ? lookup
+        : { update: jest.fn(() => ({ eq: jest.fn().mockResolvedValue({ error: null }) })) })
+    }
+
+    await saveAssistantMessage(supabase as never, record({ parentMessageId: '22222222-2222-4222-8222-222222222222' }))
+    await saveAssistantMessage(supabase as never, record({ parentMessageId: 'not-a-message-id' }))
+
+    expect(lookup.maybeSingle).toHaveBeenCalledTimes(1)
+    expect(insert).toHaveBeenNthCalledWith(1, expect.objectContaining({ parent_id: null, branch_index: 0 }))
+    expect(insert).toHaveBeenNthCalledWith(2, expect.objectContaining({ parent_id: null, branch_index: 0 }))
+  })
+})
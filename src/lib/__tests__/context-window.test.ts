@@ -0,0 +1,68 @@
+import {
+  estimateMessageTokens,
+  getCompressedMessageIds,
+  getContextBudget,
+  planContextWindow,
+  SUMMARY_RESERVE_TOKENS,
+  type ContextMessage
+} from '../context-window'
+
+function turn(id: string, role: 'user' | 'assistant', chars: number): ContextMessage {
+  return { id, role, content: `${id} `.padEnd(chars, 'x') }
+}
+
+describe('context window', () => {
+  // Ten turns of ~100 tokens each with OpenAI's 4 characters per token
+  const messages = Array.from({ length: 10 }, (_, index) =>
+    turn(`m${index}`, index % 2 === 0 ? 'user' : 'assistant', 400))
+  const perMessage = estimateMessageTokens(messages[0], 'openai')
+
+  it('sends everything when the conversation fits', () => {
+    const plan = planContextWindow({ messages, systemTokens: 50, budgetTokens: 10000, provider: 'openai' })
+
+    expect(plan.messages).toBe(messages)
+    expect(plan.compressed).toEqual([])
+    expect(plan.usedTokens).toBe(50 + perMessage * 10)
+  })
+
+  it('keeps the newest turns and pinned messages, resuming on a user turn', () => {
+    const budget = 100 + SUMMARY_RESERVE_TOKENS + perMessage * 4
+    const plan = planContextWindow({
+      messages,
+      systemTokens: 100,
+      budgetTokens: budget,
+      provider: 'openai',
+      isPinned: message => message.id === 'm1'
+    })
+
+    // m1 (pinned) and the last turns; m7 would fit but is an assistant turn
+    expect(plan.messages.map(message => message.id)).toEqual(['m1', 'm8', 'm9'])
+    expect(plan.compressed.map(message => message.id)).toEqual(['m0', 'm2', 'm3', 'm4', 'm5', 'm6', 'm7'])
+    expect(plan.usedTokens).toBeLessThanOrEqual(budget)
+  })
+
+  it('counts attachments and reserves room for the response', () => {
+    expect(estimateMessageTokens({ role: 'user', content: '', experimental_attachments: [{}, {}] }, 'openai')).toBe(2004)
+    expect(estimateMessageTokens({ role: 'user', content: 'x'.repeat(350) }, 'anthropic')).toBe(104)
+    expect(getContextBudget({ maxTokens: 128000 }, 4000)).toBe(117600)
+  })
+
+  it('maps compressed turns onto displayed messages, skipping pinned ones', () => {
+    const displayed = [
+      { id: 'db-1', role: 'user', content: { text: 'first' } },
+      { id: 'db-2', role: 'assistant', content: { text: 'second' } },
+      { id: 'db-3', role: 'user', content: { text: 'third' } }
+    ]
+    const sent = [
+      { id: 'db-1', role: 'user', content: 'first' },
+      // Sent before it was saved, so only the text matches
+      { id: 'local-2', role: 'assistant', content: 'second' },
+      { id: 'local-3', role: 'user', content: 'third' }
+    ]
+    const usage = { usedTokens: 10, budgetTokens: 20, compressedCount: 2, compressedThroughId: 'local-2', summarized: true }
+
+    expect([...getCompressedMessageIds(displayed, sent, usage, () => false)]).toEqual(['db-1', 'db-2'])
+    expect([...getCompressedMessageIds(displayed, sent, usage, message => message.id === 'db-1')]).toEqual(['db-2'])
+    expect(getCompressedMessageIds(displayed, sent, null, () => false).size).toBe(0)
+  })
+})
@@ -0,0 +1,106 @@
+import { ConversationArchive, decodeCursor, encodeCursor, isStorageUrl, readNdjson } from '../conversation-archive'
+
+jest.mock('../supabase', () => ({ createServerClient: jest.fn() }))
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let index = 0
+  return {
+    getReader: () => ({
+      read: async () => index < chunks.length
+        ? { done: false, value: encoder.encode(chunks[index++]) }
+        : { done: true, value: undefined }
+    })
+  } as unknown as ReadableStream<Uint8Array>
+}
+
+describe('conversation archive', () => {
+  it('round-trips export cursors and rejects tampered ones', () => {
+    const cursor = { createdAt: '2025-06-01T10:00:00.000Z', id: '7f0c1b9e-0000-4000-8000-000000000001' }
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor)
+    expect(decodeCursor(null)).toBeNull()
+    expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid export cursor')
+  })
+
+  it('accepts Postgres timestamps and rejects cursors that would inject filters', () => {
+    const id = '7f0c1b9e-0000-4000-8000-000000000001'
+    const postgresCursor = { createdAt: '2025-06-01T10:00:00.123456+00:00', id }
+    expect(decodeCursor(encodeCursor(postgresCursor))).toEqual(postgresCursor)
+
+    const tampered = [
+      { createdAt: '2025-06-01",id.gt.0', id },
+      { createdAt: '2025-13-45T99:00:00Z', id },
+      { createdAt: '2025-06-01T10:00:00.000Z', id: `${id}),or(user_id.neq.x` },
+      { createdAt: '2025-06-01T10:00:00.000Z', id: 42 }
+    ]
+    tampered.forEach(cursor => {
+      expect(() => decodeCursor(Buffer.from(JSON.stringify(cursor)).toString('base64url'))).toThrow('Invalid export cursor')
+    })
+  })
+
+  it('reads NDJSON records split across chunks and reports bad lines', async () => {
+    const records = []
+    for await (const record of readNdjson(streamOf(['{"type":"hea', 'der"}\n\n{"type":"conv', 'ersation"}\nnope\n{"type":"end"}']))) {
+      records.push(record)
+    }
+    expect(records).toEqual([
+      { line: 1, value: { type: 'header' } },
+      { line: 3, value: { type: 'conversation' } },
+      { line: 4, error: 'Invalid JSON' },
+      { line: 5, value: { type: 'end' } }
+    ])
+  })
+
+  it('reports lines over the length limit without buffering them', async () => {
+    const records = []
+    const chunks = ['{"type":"header"}\n{"type":"conv', 'ersation","title":"', 'x'.repeat(40), '"}\n{"type":"end"}']
+    for await (const record of readNdjson(streamOf(chunks), 32)) {
+      records.push(record)
+    }
+    expect(records).toEqual([
+      { line: 1, value: { type: 'header' } },
+      { line: 2, error: 'Line too long' },
+      { line: 3, value: { type: 'end' } }
+    ])
+  })
+
+  describe('attachment downloads', () => {
+    const originalUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const originalFetch = global.fetch
+    const storageUrl = 'https://project.supabase.co/storage/v1/object/public/attachments/report.pdf'
+
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://project.supabase.co'
+      global.fetch = jest.fn(() => Promise.resolve({
+        ok: true,
+        headers: { get: () => null },
+        arrayBuffer: () => Promise.resolve(Buffer.from('file'))
+      })) as jest.Mock
+    })
+
+    afterEach(() => {
+      process.env.NEXT_PUBLIC_SUPABASE_URL = originalUrl
+      global.fetch = originalFetch
+    })
+
+    it('only treats objects in the app storage as downloadable', () => {
+      expect(isStorageUrl(storageUrl)).toBe(true)
+      expect(isStorageUrl('https://project.supabase.co/rest/v1/profiles')).toBe(false)
+      expect(isStorageUrl('https://project.supabase.co.evil.com/storage/v1/object/x')).toBe(false)
+      expect(isStorageUrl('http://169.254.169.254/latest/meta-data/')).toBe(false)
+      expect(isStorageUrl('not a url')).toBe(false)
+    })
+
+    it('fetches storage objects without following redirects and never fetches other hosts', async () => {
+      const archive = new ConversationArchive()
+
+      const bytes = await archive['readAttachment']({ url: storageUrl })
+      const internal = await archive['readAttachment']({ url: 'http://10.0.0.1/admin' })
+
+      expect(Buffer.from(bytes!).toString()).toBe('file')
+      expect(internal).toBeNull()
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      expect(global.fetch).toHaveBeenCalledWith(storageUrl, expect.objectContaining({ redirect: 'manual' }))
+    })
+  })
+})
@@ -0,0 +1,39 @@
+import {
+  canEditConversation,
+  createInvite,
+  participantsFromPresence,
+  type PresenceParticipant
+} from '../conversation-collaboration'
+
+function presence(userId: string, name: string, typing = false): PresenceParticipant {
+  return { userId, name, role: 'editor', typing, onlineAt: '2025-06-01T10:00:00.000Z' }
+}
+
+describe('conversation collaboration', () => {
+  it('lists each other participant once, typing if any of their tabs is', () => {
+    const participants = participantsFromPresence({
+      'user-1': [presence('user-1', 'Me', true)],
+      'user-2': [presence('user-2', 'Sam'), presence('user-2', 'Sam', true)],
+      'user-3': [presence('user-3', 'Alex')]
+    }, 'user-1')
+
+    expect(participants.map(p => [p.name, p.typing])).toEqual([['Alex', false], ['Sam', true]])
+  })
+
+  it('only lets owners and editors send messages', () => {
+    expect(canEditConversation('owner')).toBe(true)
+    expect(canEditConversation('editor')).toBe(true)
+    expect(canEditConversation('viewer')).toBe(false)
+    expect(canEditConversation(null)).toBe(false)
+  })
+
+  it('refuses invites from anyone but the owner', async () => {
+    const supabase = { rpc: jest.fn().mockResolvedValue({ data: 'editor', error: null }), from: jest.fn() }
+
+    await expect(createInvite(supabase as never, 'user-2', 'conversation-1', { role: 'editor' }))
+      .rejects.toMatchObject({ status: 403 })
+    await expect(createInvite(supabase as never, 'user-2', 'conversation-1', { role: 'admin' as never }))
+      .rejects.toMatchObject({ status: 400 })
+    expect(supabase.from).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,97 @@
+import {
+  ConversationExporter,
+  ConversationExportFormat,
+  getActiveBranch,
+  getAllBranches
+} from '../conversation-export'
+import { parseMarkdownTranscript } from '../conversation-import'
+import { messageRow } from './message-fixtures'
+
+// The unified pipeline is ESM-only; rendering itself is not what these tests cover
+jest.mock('../markdown-html', () => ({
+  ...jest.requireActual('../markdown-html'),
+  renderMarkdownToHtml: jest.fn(async (markdown: string) => `<p>${markdown}</p>`)
+}))
+
+// q1 -> a1 (retried as a2, newest) -> q2 on a1
+const messages = [
+  messageRow('q1', null, 'user', 'What is a monad?', 0),
+  messageRow('a1', 'q1', 'assistant', 'A monoid in the category of endofunctors.', 1, {
+    reasoning: 'The user wants a short answer.',
+    model_metadata: { model: 'claude-sonnet-4', usage: { totalTokens: 1200 }, cost: { total: 0.0123 } }
+  }),
+  messageRow('q2', 'a1', 'user', 'Simpler please', 2),
+  messageRow('a2', 'q1', 'assistant', 'A way to chain computations.', 3, { branch_index: 1 })
+]
+
+const conversation = { id: 'conversation-1', title: 'Monads', created_at: '2025-06-01T10:00:00.000Z' }
+
+describe('conversation export', () => {
+  it('follows parent_id from the chosen or newest leaf', () => {
+    expect(getActiveBranch(messages).map(m => m.id)).toEqual(['q1', 'a2'])
+    expect(getActiveBranch(messages, 'q2').map(m => m.id)).toEqual(['q1', 'a1', 'q2'])
+  })
+
+  it('lists every branch once, starting later branches at their fork', () => {
+    const branches = getAllBranches(messages)
+    expect(branches.map(branch => branch.messages.map(m => m.id))).toEqual([['q1', 'a1', 'q2'], ['a2']])
+    expect(branches[1].forkedFrom?.id).toBe('q1')
+  })
+
+  it('continues parent-less messages from the message before them', () => {
+    // As the chat UI stores them: only a branch's first message has a parent_id
+    const chat = [
+      messageRow('q1', null, 'user', 'Hi', 0),
+      messageRow('a1', null, 'assistant', 'Hello', 1),
+      messageRow('q2', null, 'user', 'Tell me a joke', 2),
+      messageRow('a2', null, 'assistant', 'No.', 3),
+      messageRow('q3', 'a1', 'user', 'Tell me a story', 4, { branch_index: 1 }),
+      messageRow('a3', null, 'assistant', 'Once upon a time', 5)
+    ]
+    expect(getActiveBranch(chat).map(m => m.id)).toEqual(['q1', 'a1', 'q3', 'a3'])
+    expect(getActiveBranch(chat, 'a2').map(m => m.id)).toEqual(['q1', 'a1', 'q2', 'a2'])
+    expect(getAllBranches(chat).map(branch => branch.messages.map(m => m.id))).toEqual([['q1', 'a1', 'q2', 'a2'], ['q3', 'a3']])
+
+    // An imported conversation (every row parented) continued in the app
+    const continued = [
+      messageRow('i1', null, 'user', 'Imported question', 0),
+      messageRow('i2', 'i1', 'assistant', 'Imported answer', 1),
+      messageRow('q4', null, 'user', 'Follow-up', 2),
+      messageRow('a4', null, 'assistant', 'More', 3)
+    ]
+    expect(getActiveBranch(continued).map(m => m.id)).toEqual(['i1', 'i2', 'q4', 'a4'])
+  })
+
+  it('writes Markdown that the transcript importer reads back', async () => {
+    const result = await ConversationExporter.format(conversation, messages, {
+      format: ConversationExportFormat.MARKDOWN,
+      branches: 'active',
+      leafId: 'q2',
+      includeReasoning: true,
+      includeMetadata: true
+    })
+
+    expect(result.filename).toMatch(/^monads-\d{4}-\d{2}-\d{2}\.md$/)
+    expect(result.content).toContain('## Assistant (claude-sonnet-4 · 1,200 tokens · $0.0123)')
+    expect(result.content).toContain('<summary>Reasoning</summary>\n\nThe user wants a short answer.')
+
+    const [imported] = parseMarkdownTranscript(result.content)
+    expect(imported.title).toBe('Monads')
+    expect(imported.messages.map(m => m.role)).toEqual(['user', 'assistant', 'user'])
+    expect(imported.messages[2].text).toBe('Simpler please')
+  })
+
+  it('renders a self-contained HTML document with escaped titles', async () => {
+    const result = await ConversationExporter.format({ ...conversation, title: '<b>Monads</b>' }, messages, {
+      format: ConversationExportFormat.PDF,
+      branches: 'all',
+      includeReasoning: true
+    })
+
+    expect(result.mimeType).toBe('text/html')
+    expect(result.content).toContain('<title>&lt;b&gt;Monads&lt;/b&gt;</title>')
+    expect(result.content).toContain('Branch 2 of 2')
+    expect(result.content).toContain('<details class="reasoning" open>')
+    expect(result.content).toContain('.hljs-keyword')
+  })
+})
@@ -0,0 +1,155 @@
+import {
+  buildImportPreview,
+  detectImportFormat,
+  importConversations,
+  parseChatGptExport,
+  parseClaudeExport,
+  parseImportFile,
+  parseMarkdownTranscript,
+  parseT3ChatExport
+} from '../conversation-import'
+
+function chatGptNode(id: string, parent: string | null, children: string[], role?: string, text?: string) {
+  return {
+    id,
+    parent,
+    children,
+    message: role ? {
+      id,
+      author: { role },
+      create_time: 1700000000,
+      content: { content_type: 'text', parts: [text] },
+      metadata: role === 'assistant' ? { model_slug: 'gpt-4o' } : {}
+    } : null
+  }
+}
+
+// A prompt answered twice (regenerated), with a follow-up on the second answer
+const chatGptExport = [{
+  title: 'Sorting',
+  create_time: 1700000000,
+  update_time: 1700000100,
+  mapping: {
+    root: chatGptNode('root', null, ['q1']),
+    q1: chatGptNode('q1', 'root', ['a1', 'a2'], 'user', 'How do I sort?'),
+    a1: chatGptNode('a1', 'q1', [], 'assistant', 'Use sort().'),
+    a2: chatGptNode('a2', 'q1', ['tool'], 'assistant', 'Use sorted().'),
+    tool: chatGptNode('tool', 'a2', ['q2'], 'tool', 'python output'),
+    q2: chatGptNode('q2', 'tool', [], 'user', 'Thanks')
+  }
+}]
+
+describe('conversation import', () => {
+  it('detects the exporter from the file shape', () => {
+    expect(detectImportFormat('conversations.json', JSON.stringify(chatGptExport))).toBe('chatgpt')
+    expect(detectImportFormat('conversations.json', JSON.stringify([{ uuid: 'c1', chat_messages: [] }]))).toBe('claude')
+    expect(detectImportFormat('backup.json', JSON.stringify({ version: '1.0', conversations: [] }))).toBe('t3-chat')
+    expect(detectImportFormat('notes.md', '# Chat\n\n## User\nHi')).toBe('markdown')
+    expect(() => detectImportFormat('broken.json', '{ nope')).toThrow('File is not valid JSON')
+  })
+
+  it('maps the ChatGPT mapping tree onto parent ids and skips tool nodes', () => {
+    const [conversation] = parseChatGptExport(chatGptExport)
+
+    expect(conversation.title).toBe('Sorting')
+    expect(conversation.modelName).toBe('gpt-4o')
+    expect(conversation.messages.map(m => [m.sourceId, m.parentSourceId])).toEqual([
+      ['q1', null],
+      ['a1', 'q1'],
+      ['a2', 'q1'],
+      ['q2', 'a2']
+    ])
+    expect(conversation.warnings).toEqual(['1 tool messages were skipped'])
+  })
+
+  it('chains Claude.ai messages and reads text content blocks', () => {
+    const [conversation] = parseClaudeExport([{
+      uuid: 'c1',
+      name: 'Trip plan',
+      created_at: '2024-05-01T10:00:00Z',
+      chat_messages: [
+        { uuid: 'm1', sender: 'human', text: 'Plan a trip', created_at: '2024-05-01T10:00:00Z', attachments: [{ file_name: 'map.pdf' }] },
+        { uuid: 'm2', sender: 'assistant', text: '', content: [{ type: 'text', text: 'Day 1: Lisbon' }], created_at: '2024-05-01T10:00:05Z' }
+      ]
+    }])
+
+    expect(conversation.messages).toMatchObject([
+      { sourceId: 'm1', parentSourceId: null, role: 'user', text: 'Plan a trip' },
+      { sourceId: 'm2', parentSourceId: 'm1', role: 'assistant', text: 'Day 1: Lisbon' }
+    ])
+    expect(conversation.warnings).toEqual(['1 attachments were not imported'])
+  })
+
+  it('keeps replies to empty messages by attaching them to the nearest kept ancestor', () => {
+    const [claude] = parseClaudeExport([{
+      uuid: 'c1',
+      chat_messages: [
+        { uuid: 'm1', sender: 'human', text: 'Plan a trip', parent_message_uuid: '00000000-0000-4000-8000-000000000000' },
+        { uuid: 'm2', sender: 'assistant', text: '', parent_message_uuid: 'm1' },
+        { uuid: 'm3', sender: 'human', text: '  ', parent_message_uuid: 'm2' },
+        { uuid: 'm4', sender: 'assistant', text: 'Day 1: Lisbon', parent_message_uuid: 'm3' }
+      ]
+    }])
+    expect(claude.messages.map(m => [m.sourceId, m.parentSourceId])).toEqual([['m1', null], ['m4', 'm1']])
+
+    const { conversations: [t3] } = parseT3ChatExport({
+      version: '1.0',
+      conversations: [{
+        id: 'c1',
+        messages: [
+          { id: 'm1', parent_id: null, role: 'user', content: { text: 'Hi' } },
+          { id: 'm2', parent_id: 'm1', role: 'assistant', content: { text: '' } },
+          { id: 'm3', parent_id: 'm2', role: 'user', content: { text: 'Are you there?' } },
+          { id: 'm4', parent_id: 'm3', role: 'assistant', content: { text: 'Yes' } }
+        ]
+      }]
+    })
+    expect(t3.messages.map(m => [m.sourceId, m.parentSourceId])).toEqual([['m1', null], ['m3', 'm1'], ['m4', 'm3']])
+  })
+
+  it('splits Markdown transcripts on role headings and bold labels', () => {
+    const [conversation] = parseMarkdownTranscript(
+      '# Regex help\n\n## User\nMatch digits?\n\n---\n\n## Assistant\n```\n## User\n\\d+\n```\n\n**User:** Thanks!',
+      'regex.md'
+    )
+
+    expect(conversation.title).toBe('Regex help')
+    expect(conversation.messages.map(m => [m.role, m.text])).toEqual([
+      ['user', 'Match digits?'],
+      ['assistant', '```\n## User\n\\d+\n```'],
+      ['user', 'Thanks!']
+    ])
+    expect(() => parseMarkdownTranscript('just some notes')).toThrow('No messages found')
+  })
+
+  it('previews duplicates by content hash and writes branches with remapped ids', async () => {
+    const parsed = parseImportFile('conversations.json', JSON.stringify([...chatGptExport, ...chatGptExport]))
+    const supabase = {
+      from: jest.fn(() => ({
+        select: () => ({
+          eq: () => ({ in: jest.fn().mockResolvedValue({ data: [], error: null }) })
+        })
+      })),
+      rpc: jest.fn().mockResolvedValue({ data: 'conversation-1', error: null })
+    }
+
+    const preview = await buildImportPreview(supabase as never, 'user-1', parsed)
+    expect(preview.items.map(item => item.status)).toEqual(['new', 'duplicate'])
+    expect(preview.items[0].branchCount).toBe(2)
+    expect(preview.items[0].contentHash).toMatch(/^[0-9a-f]{64}$/)
+
+    const result = await importConversations(supabase as never, 'user-1', preview)
+    expect(result).toEqual({ importedConversations: 1, importedMessages: 4, skippedDuplicates: 1, failed: 0 })
+    expect(supabase.rpc).toHaveBeenCalledTimes(1)
+    const [fn, { p_conversation, p_messages }] = supabase.rpc.mock.calls[0]
+    expect(fn).toBe('import_conversation')
+    expect(p_conversation).toMatchObject({ import_hash: preview.items[0].contentHash, import_source: 'chatgpt' })
+
+    const rows = p_messages as Array<{ id: string; conversation_id: string; parent_id: string | null; branch_index: number }>
+    expect(rows.every(row => row.conversation_id === p_conversation.id)).toBe(true)
+    expect(rows[0].parent_id).toBeNull()
+    expect(rows[1]).toMatchObject({ parent_id: rows[0].id, branch_index: 0 })
+    expect(rows[2]).toMatchObject({ parent_id: rows[0].id, branch_index: 1 })
+    expect(rows[3]).toMatchObject({ parent_id: rows[2].id, branch_index: 0 })
+  })
+})
@@ -0,0 +1,74 @@
+import type { Database } from '../supabase'
+import {
+  buildOrganizationMap,
+  groupConversations,
+  nextTagColor,
+  normalizeLabelName,
+  type ConversationFolder
+} from '../conversation-organization'
+
+type ConversationRow = Database['public']['Tables']['conversations']['Row']
+
+function conversation(id: string): ConversationRow {
+  return {
+    id,
+    title: id,
+    user_id: 'user-1',
+    model_provider: 'openai',
+    model_name: 'gpt-4o',
+    system_prompt: null,
+    temperature: null,
+    top_p: null,
+    max_output_tokens: null,
+    stop_sequences: null,
+    created_at: '2025-06-01T10:00:00.000Z',
+    updated_at: '2025-06-01T10:00:00.000Z'
+  }
+}
+
+function folder(id: string, name: string, position: number): ConversationFolder {
+  return { id, user_id: 'user-1', name, position, created_at: '', updated_at: '' }
+}
+
+describe('conversation organization', () => {
+  const conversations = ['c1', 'c2', 'c3', 'c4', 'c5'].map(conversation)
+  const organization = buildOrganizationMap([
+    { conversation_id: 'c1', folder_id: 'work', pinned_at: '2025-06-02T00:00:00.000Z', archived_at: null },
+    { conversation_id: 'c2', folder_id: 'work', pinned_at: null, archived_at: null },
+    { conversation_id: 'c3', folder_id: 'work', pinned_at: '2025-06-02T00:00:00.000Z', archived_at: '2025-06-03T00:00:00.000Z' },
+    { conversation_id: 'c4', folder_id: 'deleted-folder', pinned_at: null, archived_at: null }
+  ], [
+    { conversation_id: 'c2', tag_id: 'urgent' },
+    { conversation_id: 'c5', tag_id: 'urgent' }
+  ])
+  const folders = [folder('work', 'Work', 1), folder('home', 'Home', 0)]
+
+  it('puts each conversation in exactly one section', () => {
+    const sections = groupConversations(conversations, organization, folders)
+
+    expect(sections.pinned.map(c => c.id)).toEqual(['c1'])
+    expect(sections.folders.map(section => [section.folder.name, section.conversations.map(c => c.id)]))
+      .toEqual([['Home', []], ['Work', ['c2']]])
+    // Unknown folders fall back to unfiled; archive wins over pinning
+    expect(sections.unfiled.map(c => c.id)).toEqual(['c4', 'c5'])
+    expect(sections.archived.map(c => c.id)).toEqual(['c3'])
+  })
+
+  it('keeps only conversations with the selected tag', () => {
+    const sections = groupConversations(conversations, organization, folders, 'urgent')
+
+    expect(sections.folders[1].conversations.map(c => c.id)).toEqual(['c2'])
+    expect(sections.unfiled.map(c => c.id)).toEqual(['c5'])
+    expect(sections.pinned).toEqual([])
+    expect(organization.get('c5')).toEqual({ folderId: null, pinned: false, archived: false, tagIds: ['urgent'] })
+  })
+
+  it('normalizes names and rejects blanks and duplicates', () => {
+    expect(normalizeLabelName('  Side   projects ')).toBe('Side projects')
+    expect(() => normalizeLabelName('   ')).toThrow('Name cannot be empty')
+    expect(() => normalizeLabelName('x'.repeat(51))).toThrow('limited to 50 characters')
+    expect(() => normalizeLabelName('work', folders)).toThrow('"work" already exists')
+    expect(nextTagColor([])).toBe('slate')
+    expect(nextTagColor([{ color: 'slate' }])).toBe('blue')
+  })
+})
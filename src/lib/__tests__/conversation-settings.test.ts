@@ -0,0 +1,56 @@
+import { getModelById } from '../models'
+import {
+  DEFAULT_CONVERSATION_SETTINGS,
+  getGenerationOptions,
+  settingsToConversationUpdate,
+  validateConversationSettings
+} from '../conversation-settings'
+
+describe('conversation settings', () => {
+  const gpt4oMini = getModelById('gpt-4o-mini')!
+
+  it('accepts a partial update and only returns the provided keys', () => {
+    const validation = validateConversationSettings({ temperature: 1.2, stopSequences: ['END', ''] }, gpt4oMini)
+
+    expect(validation).toEqual({ ok: true, settings: { temperature: 1.2, stopSequences: ['END'] } })
+  })
+
+  it('rejects out-of-range values', () => {
+    const validation = validateConversationSettings({
+      temperature: 3,
+      topP: 0,
+      stopSequences: ['a', 'b', 'c', 'd', 'e']
+    })
+
+    expect(validation.ok).toBe(false)
+    if (!validation.ok) {
+      expect(validation.errors).toHaveLength(3)
+    }
+  })
+
+  it("validates max output tokens against the model's limit", () => {
+    expect(validateConversationSettings({ maxOutputTokens: 128000 }, gpt4oMini).ok).toBe(true)
+    expect(validateConversationSettings({ maxOutputTokens: 128001 }, gpt4oMini).ok).toBe(false)
+    expect(validateConversationSettings({ maxOutputTokens: 1.5 }, gpt4oMini).ok).toBe(false)
+  })
+
+  it('maps settings to conversation columns', () => {
+    expect(settingsToConversationUpdate({ systemPrompt: null, topP: 0.9, maxOutputTokens: 2000 })).toEqual({
+      system_prompt: null,
+      top_p: 0.9,
+      max_output_tokens: 2000
+    })
+  })
+
+  it('falls back to defaults and clamps max tokens to the model', () => {
+    expect(getGenerationOptions(DEFAULT_CONVERSATION_SETTINGS, gpt4oMini)).toEqual({
+      temperature: 0.7,
+      topP: undefined,
+      maxTokens: 4000,
+      stopSequences: undefined
+    })
+
+    const options = getGenerationOptions({ ...DEFAULT_CONVERSATION_SETTINGS, maxOutputTokens: 500000 }, gpt4oMini)
+    expect(options.maxTokens).toBe(128000)
+  })
+})
@@ -0,0 +1,56 @@
+import {
+  forkSharedConversation,
+  generateShareToken,
+  isShareLinkActive,
+  snapshotBranch
+} from '../conversation-share'
+import { messageRow, type MessageRow } from './message-fixtures'
+
+// q1 -> a1 -> q2, with a1 retried as a2
+const messages = [
+  messageRow('q1', null, 'user', 'Summarise my notes', 0),
+  messageRow('a1', 'q1', 'assistant', 'Here is a summary.', 1, {
+    model_metadata: { model: 'gpt-4o', cost: { total: 0.02 }, sources: [{ index: 1, content: 'private notes' }] }
+  }),
+  messageRow('q2', 'a1', 'user', 'Shorter', 2),
+  messageRow('a2', 'q1', 'assistant', 'Summary.', 3, { branch_index: 1 })
+]
+
+describe('conversation share', () => {
+  it('snapshots only the chosen branch and keeps just the model name', () => {
+    const snapshot = snapshotBranch(messages, 'q2')
+    expect(snapshot.map(m => m.id)).toEqual(['q1', 'a1', 'q2'])
+    expect(snapshot[1].model_metadata).toEqual({ model: 'gpt-4o' })
+    expect(snapshotBranch(messages).map(m => m.id)).toEqual(['q1', 'a2'])
+  })
+
+  it('treats revoked and expired links as inactive', () => {
+    const now = Date.parse('2025-06-10T00:00:00Z')
+    expect(isShareLinkActive({ revoked_at: null, expires_at: null }, now)).toBe(true)
+    expect(isShareLinkActive({ revoked_at: null, expires_at: '2025-06-11T00:00:00Z' }, now)).toBe(true)
+    expect(isShareLinkActive({ revoked_at: null, expires_at: '2025-06-09T00:00:00Z' }, now)).toBe(false)
+    expect(isShareLinkActive({ revoked_at: '2025-06-09T00:00:00Z', expires_at: null }, now)).toBe(false)
+    expect(generateShareToken()).toMatch(/^[\w-]{32}$/)
+  })
+
+  it('forks a snapshot into a new conversation with fresh ids', async () => {
+    const snapshot = snapshotBranch(messages, 'q2')
+    const rpc = jest.fn(async (fn: string) => fn === 'get_shared_conversation'
+      ? { data: [{ token: 't', title: 'Notes', model_provider: 'openai', model_name: 'gpt-4o', messages: snapshot, expires_at: null, created_at: '2025-06-01T11:00:00Z' }], error: null }
+      : { data: null, error: null })
+
+    const conversationId = await forkSharedConversation({ rpc } as never, 'user-2', 't')
+    const [, { p_conversation, p_messages }] = rpc.mock.calls[1] as unknown as [string, { p_conversation: { id: string; title: string }; p_messages: MessageRow[] }]
+    expect(p_conversation).toMatchObject({ id: conversationId, title: 'Notes', model_name: 'gpt-4o' })
+    expect(p_messages.map(m => m.id)).not.toContain('q1')
+    expect(p_messages[0].parent_id).toBeNull()
+    expect(p_messages[2].parent_id).toBe(p_messages[1].id)
+    expect(p_messages.every(m => m.conversation_id === conversationId)).toBe(true)
+  })
+
+  it('returns null when the link is gone', async () => {
+    const rpc = jest.fn().mockResolvedValue({ data: [], error: null })
+    expect(await forkSharedConversation({ rpc } as never, 'user-2', 'revoked')).toBeNull()
+    expect(rpc).toHaveBeenCalledTimes(1)
+  })
+})
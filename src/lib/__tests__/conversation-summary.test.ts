@@ -0,0 +1,125 @@
+import { generateText } from 'ai'
+import { AI_MODELS } from '../models'
+import { resolveModel } from '../provider-registry'
+import {
+  cleanGeneratedTitle,
+  getSummaryModel,
+  isPlaceholderTitle,
+  planSummaryUpdate,
+  refreshConversationSummary
+} from '../conversation-summary'
+
+jest.mock('ai', () => ({
+  generateText: jest.fn()
+}))
+
+jest.mock('../provider-registry', () => ({
+  resolveModel: jest.fn()
+}))
+
+const mockGenerateText = generateText as jest.Mock
+const mockResolveModel = resolveModel as jest.Mock
+
+function message(role: 'user' | 'assistant', text: string) {
+  return { role, content: { text } }
+}
+
+function mockSupabase(conversation: Record<string, unknown>, messages: unknown[]) {
+  const rpc = jest.fn().mockResolvedValue({ error: null })
+  const range = jest.fn().mockResolvedValue({ data: messages, error: null })
+  return {
+    rpc,
+    range,
+    from: jest.fn((table: string) => ({
+      select: jest.fn((_columns: string, options?: { head?: boolean }) => ({
+        eq: jest.fn(() => table === 'conversations'
+          ? { maybeSingle: jest.fn().mockResolvedValue({ data: conversation, error: null }) }
+          : options?.head
+            ? Promise.resolve({ count: messages.length, error: null })
+            : { order: jest.fn(() => ({ range })) })
+      }))
+    }))
+  }
+}
+
+describe('conversation summary', () => {
+  beforeEach(() => {
+    mockGenerateText.mockReset()
+    // Only OpenAI is configured on this server
+    mockResolveModel.mockImplementation(model => model.provider === 'openai'
+      ? { ok: true, model: `model:${model.id}` }
+      : { ok: false, error: { error: 'not configured' } })
+  })
+
+  it('picks the cheapest model the server can serve', () => {
+    const cheapestOpenAI = AI_MODELS
+      .filter(model => model.provider === 'openai')
+      .sort((a, b) => (a.pricing.input + a.pricing.output) - (b.pricing.input + b.pricing.output))[0]
+
+    expect(getSummaryModel()?.modelInfo.id).toBe(cheapestOpenAI.id)
+    mockResolveModel.mockReturnValue({ ok: false, error: { error: 'not configured' } })
+    expect(getSummaryModel()).toBeNull()
+  })
+
+  it('titles after the first exchange and refreshes the summary every few messages', () => {
+    const fresh = { title: 'New Chat', summary: null, summary_message_count: 0, title_generated_at: null }
+    expect(planSummaryUpdate(fresh, 1)).toEqual({ title: false, summary: false })
+    expect(planSummaryUpdate(fresh, 2)).toEqual({ title: true, summary: true })
+
+    const summarised = { title: 'Trip', summary: 'Planning a trip', summary_message_count: 2, title_generated_at: '2025-07-01' }
+    expect(planSummaryUpdate(summarised, 6)).toEqual({ title: false, summary: false })
+    expect(planSummaryUpdate(summarised, 8)).toEqual({ title: false, summary: true })
+  })
+
+  it('only replaces titles that were set automatically', () => {
+    const long = 'Can you help me plan a two week train trip through Japan in the spring?'
+    expect(isPlaceholderTitle('New Chat', long)).toBe(true)
+    expect(isPlaceholderTitle(long.slice(0, 50) + '...', long)).toBe(true)
+    expect(isPlaceholderTitle('Japan trip', long)).toBe(false)
+
+    expect(cleanGeneratedTitle('Title: "Japan Rail Itinerary."\nExtra')).toBe('Japan Rail Itinerary')
+    expect(cleanGeneratedTitle('  **  ')).toBeNull()
+    expect(cleanGeneratedTitle('x'.repeat(80))).toHaveLength(60)
+  })
+
+  it('saves a generated title and summary after the first exchange', async () => {
+    mockGenerateText
+      .mockResolvedValueOnce({ text: 'Japan Rail Itinerary' })
+      .mockResolvedValueOnce({ text: 'The user is planning a spring train trip through Japan.' })
+    const supabase = mockSupabase(
+      { title: 'Plan a train trip through Japan', summary: null, summary_message_count: 0, title_generated_at: null },
+      [message('user', 'Plan a train trip through Japan'), message('assistant', 'Start in Tokyo...')]
+    )
+
+    await refreshConversationSummary(supabase as never, 'conversation-1')
+
+    expect(mockGenerateText).toHaveBeenCalledTimes(2)
+    expect(mockGenerateText.mock.calls[0][0].prompt).toContain('User: Plan a train trip through Japan')
+    expect(supabase.rpc).toHaveBeenCalledWith('save_conversation_summary', {
+      p_conversation_id: 'conversation-1',
+      p_summary: 'The user is planning a spring train trip through Japan.',
+      p_message_count: 2,
+      p_title: 'Japan Rail Itinerary'
+    })
+  })
+
+  it('keeps a renamed title and skips work that is not due', async () => {
+    mockGenerateText.mockResolvedValue({ text: 'Updated summary' })
+    const renamed = mockSupabase(
+      { title: 'My trip', summary: null, summary_message_count: 0, title_generated_at: null },
+      [message('user', 'Plan a train trip'), message('assistant', 'Sure')]
+    )
+    await refreshConversationSummary(renamed as never, 'conversation-1')
+    expect(mockGenerateText).toHaveBeenCalledTimes(1)
+    expect(renamed.rpc.mock.calls[0][1].p_title).toBeNull()
+
+    mockGenerateText.mockClear()
+    const upToDate = mockSupabase(
+      { title: 'My trip', summary: 'Trip planning', summary_message_count: 2, title_generated_at: '2025-07-01' },
+      [message('user', 'a'), message('assistant', 'b'), message('user', 'c'), message('assistant', 'd')]
+    )
+    await refreshConversationSummary(upToDate as never, 'conversation-1')
+    expect(mockGenerateText).not.toHaveBeenCalled()
+    expect(upToDate.rpc).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,56 @@
+import { dataToBlocks, parseCsv, parseHtml, rowsToTableBlocks } from '../document-parsers'
+
+describe('document parsers', () => {
+  it('extracts readable HTML content as typed blocks', () => {
+    const { blocks, metadata } = parseHtml(`
+      <html>
+        <head><title>Release notes</title><meta name="author" content="Docs Team"></head>
+        <body>
+          <nav><a href="/">Home</a></nav>
+          <main>
+            <h1>Version 2.0</h1>
+            <p>This release adds   <strong>offline mode</strong>.</p>
+            <ul><li>Sync queue<ul><li>Retries</li></ul></li><li>Conflict view</li></ul>
+            <table><tr><th>Platform</th><th>Status</th></tr><tr><td>iOS</td><td>Ready</td></tr></table>
+            <script>track()</script>
+          </main>
+        </body>
+      </html>
+    `)
+
+    expect(metadata).toEqual({ title: 'Release notes', author: 'Docs Team' })
+    expect(blocks).toEqual([
+      { type: 'heading', content: '# Version 2.0', level: 1 },
+      { type: 'text', content: 'This release adds offline mode.' },
+      { type: 'list', content: '- Sync queue\n  - Retries\n- Conflict view' },
+      { type: 'table', content: '| Platform | Status |\n| --- | --- |\n| iOS | Ready |' }
+    ])
+  })
+
+  it('parses quoted CSV and repeats the header in every table chunk', () => {
+    const rows = parseCsv('name,notes\n"Smith, J","said ""hi""\nthen left"\nLee,ok\n')
+    expect(rows).toEqual([['name', 'notes'], ['Smith, J', 'said "hi"\nthen left'], ['Lee', 'ok']])
+
+    const blocks = rowsToTableBlocks(rows, { maxTableChars: 50 })
+    expect(blocks).toHaveLength(2)
+    blocks.forEach(block => {
+      expect(block.type).toBe('table')
+      expect(block.content.startsWith('| name | notes |\n| --- | --- |\n')).toBe(true)
+    })
+    expect(blocks[0].content).toContain('| Smith, J | said "hi" then left |')
+    expect(blocks[1].content).toContain('| Lee | ok |')
+  })
+
+  it('turns JSON data into sections, lists and tables', () => {
+    const blocks = dataToBlocks({
+      name: 'inventory',
+      tags: ['warehouse', 'q3'],
+      items: [{ sku: 'A1', qty: 4 }, { sku: 'B2', qty: 0 }]
+    })
+
+    expect(blocks.map(block => block.type)).toEqual(['list', 'heading', 'list', 'heading', 'table'])
+    expect(blocks[0].content).toBe('- name: inventory')
+    expect(blocks[1].content).toBe('# tags')
+    expect(blocks[4].content).toBe('| sku | qty |\n| --- | --- |\n| A1 | 4 |\n| B2 | 0 |')
+  })
+})
@@ -0,0 +1,60 @@
+import { embedLocally, localEmbeddingProvider } from '../embeddings'
+import { BM25Index, cosineSimilarity, rankHybrid } from '../hybrid-search'
+
+describe('hybrid search', () => {
+  const chunks = [
+    { key: 'solar', content: 'Solar panels convert sunlight into electricity for renewable energy grids.' },
+    { key: 'wind', content: 'Wind turbines generate renewable electricity along windy coastlines.' },
+    { key: 'pasta', content: 'Boil the pasta in salted water and finish it with olive oil and garlic.' }
+  ].map(chunk => ({
+    ...chunk,
+    embedding: embedLocally(chunk.content),
+    embeddingModel: localEmbeddingProvider.id
+  }))
+
+  it('produces deterministic unit-length local embeddings', () => {
+    const first = embedLocally('renewable energy sources')
+    const second = embedLocally('renewable energy sources')
+
+    expect(first).toEqual(second)
+    expect(first).toHaveLength(localEmbeddingProvider.dimensions)
+    expect(cosineSimilarity(first, second)).toBeCloseTo(1)
+    expect(cosineSimilarity(first, embedLocally('renewables and energy'))).toBeGreaterThan(
+      cosineSimilarity(first, embedLocally('garlic pasta recipe'))
+    )
+  })
+
+  it('updates BM25 statistics when chunks are removed', () => {
+    const index = new BM25Index()
+    chunks.forEach(chunk => index.add(chunk.key, chunk.content))
+
+    expect(Array.from(index.score(['renewable']).keys()).sort()).toEqual(['solar', 'wind'])
+
+    index.remove('wind')
+    expect(Array.from(index.score(['renewable']).keys())).toEqual(['solar'])
+    expect(index.size).toBe(2)
+  })
+
+  it('fuses lexical and vector scores and drops unrelated chunks', () => {
+    const query = 'solar electricity'
+    const matches = rankHybrid(query, chunks, {
+      queryEmbedding: embedLocally(query),
+      embeddingModel: localEmbeddingProvider.id,
+      minSimilarity: localEmbeddingProvider.minSimilarity
+    })
+
+    expect(matches[0].key).toBe('solar')
+    expect(matches[0].matchedTerms).toEqual(['solar', 'electricity'])
+    expect(matches.map(match => match.key)).not.toContain('pasta')
+  })
+
+  it('ignores vectors from a different embedding model', () => {
+    const matches = rankHybrid('turbines', chunks, {
+      queryEmbedding: embedLocally('turbines'),
+      embeddingModel: 'some-other-model'
+    })
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({ key: 'wind', vectorSimilarity: null, score: 1 })
+  })
+})
@@ -0,0 +1,26 @@
+import type { Database } from '../supabase'
+
+export type MessageRow = Database['public']['Tables']['messages']['Row']
+
+// A stored message row; `minute` orders rows by created_at within one test conversation
+export function messageRow(
+  id: string,
+  parentId: string | null,
+  role: MessageRow['role'],
+  text: string,
+  minute: number,
+  overrides: Partial<MessageRow> = {}
+): MessageRow {
+  return {
+    id,
+    conversation_id: 'conversation-1',
+    parent_id: parentId,
+    role,
+    content: { text },
+    model_metadata: null,
+    attachments: null,
+    created_at: `2025-06-01T10:${String(minute).padStart(2, '0')}:00.000Z`,
+    branch_index: 0,
+    ...overrides
+  }
+}
@@ -0,0 +1,104 @@
+import { localEmbeddingProvider } from '../embeddings'
+import { parseSearchParams, searchMessages } from '../message-search'
+
+function searchRow(id: string, total: number) {
+  return {
+    message_id: id,
+    conversation_id: 'conversation-1',
+    conversation_title: 'Trip planning',
+    role: 'assistant',
+    model: 'gpt-4o',
+    created_at: '2025-06-01T10:00:00.000Z',
+    has_attachments: false,
+    snippet: 'Book the <mark>train</mark> early',
+    rank: 0.4,
+    similarity: null,
+    score: 0.4,
+    total_count: total
+  }
+}
+
+function mockSupabase(rows: unknown[], missingEmbeddings: unknown[] = []) {
+  const results: Record<string, unknown[]> = {
+    search_messages: rows,
+    search_conversations: [],
+    messages_missing_embeddings: missingEmbeddings
+  }
+  const embeddings = { upsert: jest.fn().mockResolvedValue({ error: null }) }
+  return {
+    embeddings,
+    rpc: jest.fn((name: string) => Promise.resolve({ data: results[name], error: null })),
+    from: jest.fn(() => embeddings)
+  }
+}
+
+describe('message search', () => {
+  it('validates the query string and makes a bare `to` date cover the whole day', () => {
+    const folderId = '7f0c1b9e-0000-4000-8000-000000000001'
+    const options = parseSearchParams(new URLSearchParams(`q=train&role=user&from=2025-06-01&to=2025-06-02&attachments=true&page=2&folder=${folderId}`))
+    expect(options).toMatchObject({
+      query: 'train',
+      role: 'user',
+      from: '2025-06-01T00:00:00.000Z',
+      to: '2025-06-03T00:00:00.000Z',
+      hasAttachments: true,
+      folderId,
+      page: 2,
+      pageSize: 20,
+      semantic: false
+    })
+
+    expect(() => parseSearchParams(new URLSearchParams('q=a'))).toThrow('at least 2 characters')
+    expect(() => parseSearchParams(new URLSearchParams('q=train&role=admin'))).toThrow('Role must be')
+    expect(() => parseSearchParams(new URLSearchParams('q=train&page=0'))).toThrow('page must be a positive integer')
+    expect(() => parseSearchParams(new URLSearchParams('q=train&tag=not-an-id'))).toThrow('Invalid tag id')
+    expect(() => parseSearchParams(new URLSearchParams('q=train&from=2025-06-05&to=2025-06-01'))).toThrow('before the to date')
+    expect(parseSearchParams(new URLSearchParams('q=train&pageSize=500')).pageSize).toBe(50)
+  })
+
+  it('passes filters and the page offset to search_messages and reports whether more pages exist', async () => {
+    const supabase = mockSupabase([searchRow('m3', 45)])
+    const page = await searchMessages(supabase as never, 'user-1', {
+      ...parseSearchParams(new URLSearchParams('q=train&model=gpt-4o&page=2')),
+      pageSize: 20
+    })
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_messages', expect.objectContaining({
+      query_text: 'train',
+      query_embedding: null,
+      filter_model: 'gpt-4o',
+      include_archived: false,
+      result_limit: 20,
+      result_offset: 20
+    }))
+    expect(page).toMatchObject({ total: 45, page: 2, hasMore: true, semantic: false, conversations: [] })
+    expect(page.results[0]).toMatchObject({ messageId: 'm3', snippet: 'Book the <mark>train</mark> early' })
+    // Title matches are only looked up for the first page
+    expect(supabase.rpc).not.toHaveBeenCalledWith('search_conversations', expect.anything())
+  })
+
+  it('embeds unindexed messages and the query for semantic search', async () => {
+    const previous = process.env.EMBEDDING_PROVIDER
+    process.env.EMBEDDING_PROVIDER = 'local'
+    try {
+      const supabase = mockSupabase([searchRow('m1', 1)], [{ id: 'm1', text: 'Book the train early' }])
+      const page = await searchMessages(supabase as never, 'user-1', parseSearchParams(new URLSearchParams('q=railway&semantic=true')))
+
+      expect(supabase.rpc).toHaveBeenCalledWith('messages_missing_embeddings', expect.objectContaining({
+        p_embedding_model: localEmbeddingProvider.id
+      }))
+      expect(supabase.embeddings.upsert).toHaveBeenCalledWith([
+        expect.objectContaining({ message_id: 'm1', user_id: 'user-1', embedding_model: localEmbeddingProvider.id })
+      ], { onConflict: 'message_id' })
+      expect(supabase.rpc).toHaveBeenCalledWith('search_messages', expect.objectContaining({
+        filter_embedding_model: localEmbeddingProvider.id,
+        query_embedding: expect.any(Array)
+      }))
+      expect(page).toMatchObject({ semantic: true, hasMore: false })
+      expect(supabase.rpc).toHaveBeenCalledWith('search_conversations', expect.objectContaining({ query_text: 'railway' }))
+    } finally {
+      if (previous === undefined) delete process.env.EMBEDDING_PROVIDER
+      else process.env.EMBEDDING_PROVIDER = previous
+    }
+  })
+})
@@ -0,0 +1,94 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+
+// There is no database in the test environment, so these check the SQL that controls access:
+// grants on SECURITY DEFINER functions, which run with the owner's rights whoever calls them,
+// and row level security policies.
+
+function readMigration(name: string): string {
+  return readFileSync(join(process.cwd(), 'supabase', 'migrations', name), 'utf8')
+}
+
+function functionBody(sql: string, name: string): string {
+  const start = sql.indexOf(`CREATE OR REPLACE FUNCTION ${name}(`)
+  expect(start).toBeGreaterThanOrEqual(0)
+  return sql.slice(start, sql.indexOf('$$;', start))
+}
+
+describe('save_conversation_summary', () => {
+  const sql = readMigration('20250701_conversation_summaries.sql')
+
+  it('rejects callers who are not members of the conversation', () => {
+    const body = functionBody(sql, 'save_conversation_summary')
+    // conversation_role() is NULL for non-members; a bare NOT IN would let them through
+    expect(body).toContain("IF COALESCE(conversation_role(p_conversation_id), '') NOT IN ('owner', 'editor') THEN")
+    expect(body).not.toMatch(/IF conversation_role\(p_conversation_id\) NOT IN/)
+  })
+
+  it('can only be called by signed-in users', () => {
+    expect(sql).toContain('REVOKE EXECUTE ON FUNCTION save_conversation_summary(UUID, TEXT, INTEGER, TEXT) FROM PUBLIC, anon;')
+    expect(sql).toContain('GRANT EXECUTE ON FUNCTION save_conversation_summary(UUID, TEXT, INTEGER, TEXT) TO authenticated;')
+  })
+})
+
+describe('shared conversation messages', () => {
+  const sql = readMigration('20250628_conversation_members.sql')
+
+  it('only lets editors update messages they wrote, in the same conversation', () => {
+    const policy = sql.slice(sql.indexOf('ON messages FOR UPDATE'), sql.indexOf(');', sql.indexOf('WITH CHECK', sql.indexOf('ON messages FOR UPDATE'))))
+    expect(policy).toMatch(/USING \(\s*conversation_role\(conversation_id\) = 'editor' AND created_by = auth\.uid\(\)\s*\) WITH CHECK/)
+    expect(policy).toContain('AND conversation_id = message_conversation_id(id)')
+    expect(sql).not.toMatch(/ON messages FOR UPDATE USING \(\s*conversation_role\(conversation_id\) = 'editor'\s*\);/)
+    expect(functionBody(sql, 'message_conversation_id')).toContain('conversation_role(conversation_id) IS NOT NULL')
+  })
+})
+
+describe('anonymous quota functions', () => {
+  const sql = readMigration('20250703_anonymous_usage.sql')
+  const signatures = [
+    'anonymous_quota_status(TEXT, TEXT, INTEGER)',
+    'consume_anonymous_quota(TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT)',
+    'release_anonymous_quota(BIGINT, TEXT)'
+  ]
+
+  it('can only be executed by the service role', () => {
+    signatures.forEach(signature => {
+      expect(sql).toContain(`REVOKE EXECUTE ON FUNCTION ${signature} FROM PUBLIC, anon, authenticated;`)
+      expect(sql).toContain(`GRANT EXECUTE ON FUNCTION ${signature} TO service_role;`)
+    })
+    expect(sql).not.toMatch(/GRANT EXECUTE[^;]*TO[^;]*\b(anon|authenticated)\b/)
+  })
+})
+
+describe('conversation presence channels', () => {
+  const sql = readMigration('20250628_conversation_members.sql')
+
+  it('only lets conversation members join and only editors broadcast', () => {
+    expect(sql).toMatch(/ON realtime\.messages FOR SELECT TO authenticated USING \([^;]*conversation_role\(presence_conversation_id\(realtime\.topic\(\)\)\) IS NOT NULL/)
+    expect(sql).toMatch(/extension = 'presence'\s+AND conversation_role\(presence_conversation_id\(realtime\.topic\(\)\)\) IS NOT NULL/)
+    expect(sql).toMatch(/extension = 'broadcast'\s+AND conversation_role\(presence_conversation_id\(realtime\.topic\(\)\)\) IN \('owner', 'editor'\)/)
+  })
+})
+
+describe('usage reservation functions', () => {
+  const sql = readMigration('20250707_usage_reservations.sql')
+  const signatures = [
+    'reserve_usage(UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ, JSONB)',
+    'settle_usage(BIGINT, UUID, TEXT, TEXT, INTEGER, INTEGER, NUMERIC, TEXT, TEXT, UUID, INTEGER)',
+    'release_usage(BIGINT, UUID)'
+  ]
+
+  it('can only be executed by the service role', () => {
+    signatures.forEach(signature => {
+      expect(sql).toContain(`REVOKE EXECUTE ON FUNCTION ${signature} FROM PUBLIC, anon, authenticated;`)
+      expect(sql).toContain(`GRANT EXECUTE ON FUNCTION ${signature} TO service_role;`)
+    })
+    expect(sql).not.toMatch(/GRANT EXECUTE[^;]*TO[^;]*\b(anon|authenticated)\b/)
+  })
+
+  it('serialises reservations per user and only touches reserved rows', () => {
+    expect(functionBody(sql, 'reserve_usage')).toContain("pg_advisory_xact_lock(hashtext('usage-reservation:' || p_user_id::TEXT))")
+    expect(functionBody(sql, 'settle_usage')).toContain('WHERE id = p_event_id AND user_id = p_user_id AND reserved')
+    expect(functionBody(sql, 'release_usage')).toContain('WHERE id = p_event_id AND user_id = p_user_id AND reserved')
+  })
+})
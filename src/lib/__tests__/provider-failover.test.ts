@@ -0,0 +1,186 @@
+import { APICallError } from 'ai'
+import { getModelById } from '../models'
+
+// jest.setup.js stubs the AI SDK; the failover loop needs its real error classes and providers
+jest.unmock('ai')
+jest.unmock('@ai-sdk/openai')
+jest.unmock('@ai-sdk/google')
+
+jest.mock('../vertex-ai-provider', () => ({
+  getVertexAIProvider: jest.fn(() => null)
+}))
+
+jest.mock('../azure-openai-provider', () => ({
+  getAzureProvider: jest.fn(() => null)
+}))
+
+jest.mock('../azure-ai-provider', () => ({
+  getAzureAIProvider: jest.fn(() => null)
+}))
+
+import {
+  buildFailoverTargets,
+  FailoverError,
+  isTransientError,
+  streamWithFailover,
+  type ChatStreamResult,
+  type FailoverTarget
+} from '../provider-failover'
+import { resolveModel } from '../provider-registry'
+
+const noDelay = { baseDelayMs: 0, maxDelayMs: 0, firstTokenTimeoutMs: 50 }
+
+function apiError(statusCode: number) {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://example.com',
+    requestBodyValues: {},
+    statusCode
+  })
+}
+
+// Minimal stand-in for a streamText result: the failover loop only reads parts off fullStream
+function fakeStream(parts: unknown[], delayMs = 0): ChatStreamResult {
+  const queue = [...parts]
+  return {
+    fullStream: {
+      getReader: () => ({
+        read: async () => {
+          if (delayMs) await new Promise(resolve => setTimeout(resolve, delayMs))
+          return queue.length ? { done: false, value: queue.shift() } : { done: true, value: undefined }
+        },
+        cancel: async () => {}
+      })
+    }
+  } as unknown as ChatStreamResult
+}
+
+function target(modelId: string, providerId: string): FailoverTarget {
+  return {
+    modelInfo: getModelById(modelId)!,
+    adapter: {
+      id: providerId,
+      name: providerId,
+      errorType: `${providerId}_error`,
+      isConfigured: () => true,
+      getModel: jest.fn(),
+      mapError: (error: unknown) => ({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        type: `${providerId}_error`,
+        provider: providerId,
+        status: APICallError.isInstance(error) && error.statusCode ? error.statusCode : 500
+      })
+    },
+    model: { modelId } as FailoverTarget['model'],
+    source: 'server'
+  } as FailoverTarget
+}
+
+const textParts = [{ type: 'step-start' }, { type: 'text-delta', textDelta: 'Hi' }]
+
+describe('provider failover', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.OPENROUTER_API_KEY
+    delete process.env.MODEL_FALLBACK_CHAINS
+    delete process.env.GOOGLE_GENERATIVE_AI_API_KEY
+    delete process.env.GOOGLE_AI_API_KEY
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  it('classifies rate limits and server errors as transient', () => {
+    expect(isTransientError(apiError(429))).toBe(true)
+    expect(isTransientError(apiError(503))).toBe(true)
+    expect(isTransientError(apiError(400))).toBe(false)
+    expect(isTransientError(new Error('Invalid prompt'))).toBe(false)
+  })
+
+  it('retries transient errors on the same provider before streaming', async () => {
+    const createStream = jest.fn()
+      .mockReturnValueOnce(fakeStream([{ type: 'error', error: apiError(503) }]))
+      .mockReturnValueOnce(fakeStream(textParts))
+
+    const { target: served, attempts } = await streamWithFailover(
+      [target('gemini-2.5-flash-vertex', 'vertex-ai'), target('gemini-2.5-flash-azure', 'azure-ai')],
+      createStream,
+      noDelay
+    )
+
+    expect(createStream).toHaveBeenCalledTimes(2)
+    expect(served.adapter.id).toBe('vertex-ai')
+    expect(attempts).toEqual([expect.objectContaining({ provider: 'vertex-ai', status: 503, transient: true })])
+  })
+
+  it('moves to the next provider on non-transient errors and timeouts', async () => {
+    const createStream = jest.fn((candidate: FailoverTarget) => {
+      if (candidate.adapter.id === 'vertex-ai') return fakeStream([{ type: 'error', error: apiError(400) }])
+      if (candidate.adapter.id === 'azure-ai') return fakeStream(textParts, 200)
+      return fakeStream(textParts)
+    })
+
+    const { target: served, attempts } = await streamWithFailover(
+      [
+        target('gemini-2.5-flash-vertex', 'vertex-ai'),
+        target('gemini-2.5-flash-azure', 'azure-ai'),
+        target('gemini-2.0-flash', 'google')
+      ],
+      createStream,
+      { ...noDelay, retriesPerTarget: 0 }
+    )
+
+    expect(served.modelInfo.id).toBe('gemini-2.0-flash')
+    expect(attempts.map(attempt => attempt.provider)).toEqual(['vertex-ai', 'azure-ai'])
+  })
+
+  it('throws a FailoverError carrying the last provider error when every target fails', async () => {
+    const createStream = jest.fn(() => fakeStream([{ type: 'error', error: apiError(500) }]))
+
+    const failover = streamWithFailover(
+      [target('gemini-2.5-flash-vertex', 'vertex-ai'), target('gemini-2.5-flash-azure', 'azure-ai')],
+      createStream,
+      { ...noDelay, retriesPerTarget: 1 }
+    )
+
+    await expect(failover).rejects.toBeInstanceOf(FailoverError)
+    const error: FailoverError = await failover.then(() => { throw new Error('expected failure') }, e => e)
+    expect(error.attempts).toHaveLength(4)
+    expect(error.toProviderError()).toMatchObject({ provider: 'azure-ai', status: 500 })
+  })
+
+  it('builds the chain from MODEL_FALLBACK_CHAINS and skips unservable entries', () => {
+    process.env.GOOGLE_GENERATIVE_AI_API_KEY = 'google-server-key'
+    process.env.OPENROUTER_API_KEY = 'sk-or-v1-server-key'
+    process.env.MODEL_FALLBACK_CHAINS = JSON.stringify({
+      'gemini-2.5-flash-preview-05-20': ['gemini-2.5-flash-azure', 'gemini-2.0-flash', 'openrouter']
+    })
+    const modelInfo = getModelById('gemini-2.5-flash-preview-05-20')!
+    const primary = resolveModel(modelInfo)
+    if (!primary.ok) throw new Error('expected primary resolution')
+
+    const targets = buildFailoverTargets(modelInfo, primary)
+
+    expect(targets.map(t => `${t.modelInfo.id}:${t.adapter.id}`)).toEqual([
+      'gemini-2.5-flash-preview-05-20:google',
+      'gemini-2.0-flash:google',
+      'gemini-2.5-flash-preview-05-20:openrouter'
+    ])
+  })
+
+  it('never falls back onto server credentials for requests served with user keys', () => {
+    process.env.OPENROUTER_API_KEY = 'sk-or-v1-server-key'
+    const modelInfo = getModelById('gpt-4o-mini')!
+    const credentials = { apiKeys: { openai: 'sk-user-key' }, fallbackToDirectAPIs: true }
+    const primary = resolveModel(modelInfo, credentials)
+    if (!primary.ok) throw new Error('expected primary resolution')
+
+    const targets = buildFailoverTargets(modelInfo, primary, credentials)
+
+    expect(targets).toHaveLength(1)
+    expect(targets[0].source).toBe('user-key')
+  })
+})
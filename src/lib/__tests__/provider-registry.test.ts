@@ -0,0 +1,138 @@
+import { APICallError } from 'ai'
+import { AI_MODELS, getModelById } from '../models'
+
+// jest.setup.js stubs the AI SDK; the registry needs its real error classes
+jest.unmock('ai')
+
+jest.mock('../vertex-ai-provider', () => ({
+  getVertexAIProvider: jest.fn(() => null)
+}))
+
+jest.mock('../azure-openai-provider', () => ({
+  getAzureProvider: jest.fn(() => null)
+}))
+
+jest.mock('../azure-ai-provider', () => ({
+  getAzureAIProvider: jest.fn(() => null)
+}))
+
+import { getProviderAdapter, resolveModel } from '../provider-registry'
+
+describe('provider registry', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.OPENAI_API_KEY
+    delete process.env.ANTHROPIC_API_KEY
+    delete process.env.XAI_API_KEY
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  it('registers an adapter for every provider used in AI_MODELS', () => {
+    const providers = new Set(AI_MODELS.map(model => model.provider))
+    providers.forEach(provider => {
+      expect(getProviderAdapter(provider)).toBeDefined()
+    })
+  })
+
+  it('reports unconfigured providers with the provider error type', () => {
+    const resolution = resolveModel(getModelById('gpt-4o-mini')!)
+
+    expect(resolution.ok).toBe(false)
+    if (!resolution.ok) {
+      expect(resolution.error.type).toBe('openai_error')
+      expect(resolution.error.provider).toBe('openai')
+      expect(resolution.error.status).toBe(500)
+    }
+  })
+
+  it('treats placeholder keys as unconfigured', () => {
+    process.env.ANTHROPIC_API_KEY = 'your-anthropic-api-key'
+
+    expect(getProviderAdapter('anthropic')!.isConfigured()).toBe(false)
+  })
+
+  it('resolves xAI models once a key is set', () => {
+    process.env.XAI_API_KEY = 'xai-test-key'
+
+    const resolution = resolveModel(getModelById('grok-3-reasoning')!)
+
+    expect(resolution.ok).toBe(true)
+    if (resolution.ok) {
+      expect(resolution.adapter.id).toBe('xai')
+      expect(resolution.model.modelId).toBe('grok-3-mini')
+    }
+  })
+
+  it('serves byok-tier models through the user OpenRouter key', () => {
+    const resolution = resolveModel(getModelById('claude-4-opus')!, {
+      apiKeys: { openRouter: 'sk-or-v1-test-key' },
+      fallbackToDirectAPIs: true
+    })
+
+    expect(resolution.ok).toBe(true)
+    if (resolution.ok) {
+      expect(resolution.source).toBe('openrouter')
+      expect(resolution.adapter.id).toBe('openrouter')
+    }
+  })
+
+  it('prefers a per-provider user key over OpenRouter', () => {
+    const resolution = resolveModel(getModelById('grok-3-reasoning')!, {
+      apiKeys: { openRouter: 'sk-or-v1-test-key', xai: 'xai-user-key' },
+      fallbackToDirectAPIs: true
+    })
+
+    expect(resolution.ok).toBe(true)
+    if (resolution.ok) {
+      expect(resolution.source).toBe('user-key')
+      expect(resolution.adapter.id).toBe('xai')
+    }
+  })
+
+  it('keeps configured models on direct APIs unless fallback is disabled', () => {
+    process.env.XAI_API_KEY = 'xai-server-key'
+    const model = getModelById('grok-3-reasoning')!
+    const apiKeys = { openRouter: 'sk-or-v1-test-key' }
+
+    const direct = resolveModel(model, { apiKeys, fallbackToDirectAPIs: true })
+    const routed = resolveModel(model, { apiKeys, fallbackToDirectAPIs: false })
+
+    expect(direct.ok && direct.source).toBe('server')
+    expect(routed.ok && routed.source).toBe('openrouter')
+  })
+
+  it('rejects byok-tier models without user credentials', () => {
+    process.env.OPENAI_API_KEY = 'sk-server-key'
+
+    const resolution = resolveModel(getModelById('o3-pro')!)
+
+    expect(resolution.ok).toBe(false)
+    if (!resolution.ok) {
+      expect(resolution.error.type).toBe('byok_required')
+      expect(resolution.error.status).toBe(403)
+    }
+  })
+
+  it('maps API call errors to the upstream status code', () => {
+    const error = new APICallError({
+      message: 'Rate limited',
+      url: 'https://api.openai.com/v1/chat/completions',
+      requestBodyValues: {},
+      statusCode: 429
+    })
+
+    const mapped = getProviderAdapter('openai')!.mapError(error)
+
+    expect(mapped).toEqual({
+      error: 'OpenAI error: Rate limited',
+      type: 'openai_error',
+      provider: 'openai',
+      status: 429
+    })
+  })
+})
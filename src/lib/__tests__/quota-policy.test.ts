@@ -0,0 +1,169 @@
+import {
+  checkQuota,
+  DEFAULT_QUOTA_PLAN,
+  evaluateQuota,
+  getPlanLimitStatuses,
+  getQuotaErrorBody,
+  getQuotaTier,
+  recordUsage,
+  releaseQuota,
+  summarizeUsage,
+  type QuotaPlan
+} from '../quota-policy'
+import { getModelById } from '../models'
+import { createServiceRoleClient } from '../supabase'
+
+// Reservations only run with the service role; the caller's client only reads the plan
+jest.mock('../supabase', () => ({
+  createServiceRoleClient: jest.fn()
+}))
+
+const mockCreateServiceRoleClient = createServiceRoleClient as jest.Mock
+
+describe('quota policy', () => {
+  const plan: QuotaPlan = {
+    id: 'team',
+    name: 'Team',
+    windowHours: 24,
+    limits: {
+      total: { costUsd: 1 },
+      tiers: { premium: { requests: 3 }, special: { requests: 1, tokens: 5000 } },
+      models: { 'claude-4-sonnet': { requests: 5 } }
+    }
+  }
+
+  it('sums usage per tier and per model', () => {
+    const usage = summarizeUsage([
+      { model: 'gpt-4o-mini', tier: 'premium', requests: 2, tokens: '1200', cost_usd: '0.002' },
+      { model: 'gemini-2.5-flash-vertex', tier: 'premium', requests: 1, tokens: 300, cost_usd: 0.0001 },
+      { model: 'claude-4-sonnet', tier: 'special', requests: 2, tokens: 4000, cost_usd: 0.05 }
+    ])
+
+    expect(usage.tiers.premium).toEqual({ requests: 3, tokens: 1500, costUsd: 0.0021 })
+    expect(usage.models['claude-4-sonnet'].requests).toBe(2)
+    expect(usage.total.requests).toBe(5)
+    expect(getQuotaTier('vertex-ai')).toBe('premium')
+  })
+
+  it('names the exhausted limit, letting model overrides replace tier caps', () => {
+    const usage = summarizeUsage([
+      { model: 'gpt-4o-mini', tier: 'premium', requests: 3, tokens: 900, cost_usd: 0.01 },
+      { model: 'claude-4-sonnet', tier: 'special', requests: 2, tokens: 4000, cost_usd: 0.05 }
+    ])
+
+    const premium = evaluateQuota(plan, usage, 'gpt-4o', 'premium')
+    expect(premium.exhausted).toEqual({ scope: 'tier', key: 'premium', metric: 'requests', limit: 3, used: 3 })
+    expect(getQuotaErrorBody(premium)).toMatchObject({
+      type: 'usage_limit',
+      plan: { id: 'team' },
+      limit: { scope: 'tier', key: 'premium', metric: 'requests' }
+    })
+    expect(getQuotaErrorBody(premium).error).toContain('Team plan limit of 3 requests for premium models')
+
+    // The special tier allows one request, but this model has its own cap of five
+    expect(evaluateQuota(plan, usage, 'claude-4-sonnet', 'special').allowed).toBe(true)
+    expect(evaluateQuota(plan, usage, 'claude-4-opus', 'special').exhausted?.metric).toBe('requests')
+  })
+
+  it('applies spend caps across every model', () => {
+    const usage = summarizeUsage([{ model: 'o3', tier: 'premium', requests: 1, tokens: 50000, cost_usd: 1.2 }])
+    const decision = evaluateQuota(plan, usage, 'gemini-2.0-flash', 'free')
+
+    expect(decision.exhausted).toMatchObject({ scope: 'total', metric: 'costUsd', limit: 1 })
+    expect(getQuotaErrorBody(decision).error).toContain('$1.00 of usage in 24 hours')
+    expect(getPlanLimitStatuses(plan, usage).map(status => `${status.key}:${status.metric}`))
+      .toEqual(['total:costUsd', 'premium:requests', 'special:requests', 'special:tokens', 'claude-4-sonnet:requests'])
+  })
+
+  it('keeps the shipped daily limits as the fallback plan', () => {
+    const usage = summarizeUsage([{ model: 'claude-4-sonnet', tier: 'special', requests: 2, tokens: 10, cost_usd: 0 }])
+
+    expect(evaluateQuota(DEFAULT_QUOTA_PLAN, usage, 'claude-4-sonnet', 'special').allowed).toBe(false)
+    expect(evaluateQuota(DEFAULT_QUOTA_PLAN, usage, 'gemini-2.0-flash', 'free').allowed).toBe(true)
+  })
+
+  describe('reservations', () => {
+    const model = getModelById('claude-4-sonnet')!
+    const serviceRole = { rpc: jest.fn() }
+    // No plan assignments, so the default plan applies
+    const supabase = {
+      from: jest.fn(() => {
+        const builder: Record<string, jest.Mock> = {
+          select: jest.fn(() => builder),
+          eq: jest.fn(() => builder),
+          order: jest.fn(() => Promise.resolve({ data: [], error: null })),
+          maybeSingle: jest.fn(() => Promise.resolve({ data: null, error: null })),
+          insert: jest.fn(() => Promise.resolve({ error: null }))
+        }
+        return builder
+      })
+    }
+
+    beforeEach(() => {
+      serviceRole.rpc.mockReset()
+      supabase.from.mockClear()
+      mockCreateServiceRoleClient.mockReturnValue(serviceRole)
+    })
+
+    it('checks the caps and reserves the request in one database call', async () => {
+      serviceRole.rpc.mockResolvedValue({
+        data: [{ allowed: true, event_id: 7, exhausted_scope: null, exhausted_key: null, exhausted_metric: null, exhausted_limit: null, exhausted_used: null }],
+        error: null
+      })
+      const now = Date.parse('2025-07-07T12:00:00.000Z')
+
+      const decision = await checkQuota(supabase as never, 'user-1', { route: 'chat', model }, now)
+
+      expect(decision).toMatchObject({ allowed: true, exhausted: null, reservationId: 7 })
+      expect(serviceRole.rpc).toHaveBeenCalledWith('reserve_usage', {
+        p_user_id: 'user-1',
+        p_route: 'chat',
+        p_model: 'claude-4-sonnet',
+        p_tier: 'special',
+        p_since: '2025-07-06T12:00:00.000Z',
+        p_limits: [{ scope: 'tier', key: 'special', metric: 'requests', limit: 2 }]
+      })
+    })
+
+    it('names the cap the database refused the request on', async () => {
+      serviceRole.rpc.mockResolvedValue({
+        data: [{ allowed: false, event_id: null, exhausted_scope: 'tier', exhausted_key: 'special', exhausted_metric: 'requests', exhausted_limit: '2', exhausted_used: '2' }],
+        error: null
+      })
+
+      const decision = await checkQuota(supabase as never, 'user-1', { route: 'chat', model })
+
+      expect(decision).toMatchObject({ allowed: false, reservationId: null })
+      expect(decision.exhausted).toEqual({ scope: 'tier', key: 'special', metric: 'requests', limit: 2, used: 2 })
+    })
+
+    it('settles a reservation with the served usage, or releases it', async () => {
+      serviceRole.rpc.mockResolvedValue({ data: null, error: null })
+
+      await recordUsage(supabase as never, 'user-1', {
+        route: 'chat',
+        model,
+        usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+        costUsd: 0.01,
+        provider: 'anthropic',
+        latencyMs: 1200,
+        reservationId: 7
+      })
+      await releaseQuota('user-1', 8)
+      await releaseQuota('user-1', null)
+
+      expect(supabase.from).not.toHaveBeenCalled()
+      expect(serviceRole.rpc).toHaveBeenCalledWith('settle_usage', expect.objectContaining({
+        p_event_id: 7,
+        p_user_id: 'user-1',
+        p_model: 'claude-4-sonnet',
+        p_prompt_tokens: 100,
+        p_completion_tokens: 50,
+        p_cost_usd: 0.01,
+        p_source: 'server'
+      }))
+      expect(serviceRole.rpc).toHaveBeenCalledWith('release_usage', { p_event_id: 8, p_user_id: 'user-1' })
+      expect(serviceRole.rpc).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import {
+  formatSourcesForPrompt,
+  getAnnotatedSources,
+  getCitationIndex,
+  linkCitations,
+  sourcesAnnotation,
+  type RAGSource
+} from '../rag-citations'
+
+describe('rag citations', () => {
+  const sources: RAGSource[] = [
+    {
+      index: 1,
+      documentId: 'doc-1',
+      filename: 'report.pdf',
+      chunkId: 'chunk_3',
+      pageNumber: 4,
+      content: 'Revenue grew 12% year over year.',
+      relevanceScore: 0.8
+    },
+    {
+      index: 2,
+      documentId: 'doc-2',
+      filename: 'notes.md',
+      chunkId: 'chunk_0',
+      content: 'The launch moved to March.',
+      relevanceScore: 0.5
+    }
+  ]
+
+  it('numbers sources with their page in the prompt', () => {
+    const prompt = formatSourcesForPrompt(sources)
+
+    expect(prompt).toContain('[SOURCE 1: report.pdf (Page 4)]\nRevenue grew 12% year over year.')
+    expect(prompt).toContain('[SOURCE 2: notes.md]')
+    expect(formatSourcesForPrompt([])).toBe('')
+  })
+
+  it('links known source markers and leaves unknown ones alone', () => {
+    const linked = linkCitations('Revenue grew [SOURCE 1] and the launch slipped [source 2: notes.md]. See [SOURCE 7].', sources)
+
+    expect(linked).toBe('Revenue grew [[1]](#rag-source-1) and the launch slipped [[2]](#rag-source-2). See [SOURCE 7].')
+    expect(getCitationIndex('#rag-source-2')).toBe(2)
+    expect(getCitationIndex('https://example.com')).toBeNull()
+  })
+
+  it('reads the sources back from the streamed message annotations', () => {
+    // Annotations arrive as JSON, so a missing page number must survive the round trip
+    const annotations = JSON.parse(JSON.stringify([{ other: true }, sourcesAnnotation(sources)]))
+
+    expect(getAnnotatedSources(annotations)).toEqual(sources)
+    expect(getAnnotatedSources(undefined)).toEqual([])
+  })
+})
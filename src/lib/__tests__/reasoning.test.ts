@@ -0,0 +1,41 @@
+import { getModelById } from '../models'
+import { getReasoningProviderOptions, getReasoningTokens, reasoningToThoughtSteps } from '../reasoning'
+
+describe('reasoning', () => {
+  it('maps the budget onto each provider\'s thinking options', () => {
+    const claude = getModelById('claude-sonnet-4')!
+    const gemini = getModelById('gemini-2.5-flash-vertex')!
+    const o3 = getModelById('o3')!
+
+    expect(getReasoningProviderOptions(claude, 'anthropic', 'default')).toBeUndefined()
+    expect(getReasoningProviderOptions(claude, 'anthropic', 'medium')).toEqual({
+      anthropic: { thinking: { type: 'enabled', budgetTokens: 8192 } }
+    })
+    expect(getReasoningProviderOptions(gemini, 'vertex-ai', 'off')).toEqual({
+      google: { thinkingConfig: { thinkingBudget: 0, includeThoughts: false } }
+    })
+    expect(getReasoningProviderOptions(o3, 'openai', 'high')).toEqual({
+      openai: { reasoningEffort: 'high', reasoningSummary: 'auto' }
+    })
+    expect(getReasoningProviderOptions(getModelById('gemini-2.0-flash')!, 'google', 'high')).toBeUndefined()
+  })
+
+  it('reads reasoning tokens from provider metadata', () => {
+    expect(getReasoningTokens({ openai: { reasoningTokens: 640 } })).toBe(640)
+    expect(getReasoningTokens(undefined)).toBeUndefined()
+  })
+
+  it('splits summarized reasoning on bold headings and plain reasoning on paragraphs', () => {
+    const summarized = reasoningToThoughtSteps('**Reading the question**\nThe user wants a sort.\n\n**Choosing an approach**\nMerge sort is stable.')
+    expect(summarized.map(step => step.thought)).toEqual([
+      '**Reading the question**\nThe user wants a sort.',
+      '**Choosing an approach**\nMerge sort is stable.'
+    ])
+
+    const plain = reasoningToThoughtSteps('First idea.\n\nSecond idea.\n')
+    expect(plain).toEqual([
+      { type: 'reasoning', thought: 'First idea.' },
+      { type: 'reasoning', thought: 'Second idea.' }
+    ])
+  })
+})
@@ -0,0 +1,184 @@
+import {
+  createsDependencyCycle,
+  groupTasksByStatus,
+  layoutDependencyGraph,
+  mergeExtractedTasks,
+  TaskBoardError,
+  updateTask,
+  type BoardTask
+} from '../task-board'
+import type { Task } from '../task-extractor'
+
+function extracted(id: string, title: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title,
+    description: `${title} description`,
+    priority: 'medium',
+    category: 'technical',
+    status: 'pending',
+    confidence: 0.9,
+    ...overrides
+  }
+}
+
+function boardTask(id: string, overrides: Partial<BoardTask> = {}): BoardTask {
+  return {
+    id,
+    user_id: 'user-1',
+    conversation_id: 'conversation-1',
+    source_message_ids: [],
+    title: id,
+    description: '',
+    priority: 'medium',
+    category: 'technical',
+    status: 'pending',
+    due_date: null,
+    assignee: null,
+    estimated_hours: null,
+    tags: [],
+    confidence: 0.9,
+    completed_at: null,
+    created_at: '2025-07-01T10:00:00.000Z',
+    updated_at: '2025-07-01T10:00:00.000Z',
+    dependsOn: [],
+    conversationTitle: 'Planning',
+    ...overrides
+  }
+}
+
+const context = { userId: 'user-1', conversationId: 'conversation-1', messageIds: ['m1', 'm2', 'm3'] }
+
+describe('mergeExtractedTasks', () => {
+  it('updates stored tasks with the same title instead of duplicating them', () => {
+    const stored = [{ id: 'stored-1', title: 'Add rate limiting', source_message_ids: ['m1'], tags: ['api'], due_date: '2025-08-01', assignee: null }]
+
+    const merge = mergeExtractedTasks(stored, [
+      extracted('TASK-1', 'add rate-limiting!', { sourceMessages: [3], tags: ['security'], dueDate: '2025-09-01', priority: 'high' }),
+      extracted('TASK-2', 'Write the docs', { sourceMessages: [2] })
+    ], context)
+
+    expect(merge.updates).toHaveLength(1)
+    expect(merge.updates[0]).toMatchObject({
+      id: 'stored-1',
+      changes: { priority: 'high', source_message_ids: ['m1', 'm3'], tags: ['api', 'security'], due_date: '2025-08-01' }
+    })
+    // Status is left to the user
+    expect(merge.updates[0].changes).not.toHaveProperty('status')
+    expect(merge.inserts).toEqual([
+      expect.objectContaining({ key: 'TASK-2', row: expect.objectContaining({ title: 'Write the docs', source_message_ids: ['m2'], status: 'pending' }) })
+    ])
+  })
+
+  it('falls back to every extracted message and drops invalid due dates', () => {
+    const merge = mergeExtractedTasks([], [extracted('TASK-1', 'Ship it', { sourceMessages: [9], dueDate: 'next Friday' })], context)
+
+    expect(merge.inserts[0].row).toMatchObject({ source_message_ids: ['m1', 'm2', 'm3'], due_date: null })
+  })
+
+  it('collapses repeated tasks and keeps dependencies between the merged keys', () => {
+    const merge = mergeExtractedTasks([], [
+      extracted('TASK-1', 'Design schema'),
+      extracted('TASK-2', 'Build API', { dependencies: ['TASK-3', 'TASK-9'] }),
+      extracted('TASK-3', 'design  schema')
+    ], context)
+
+    expect(merge.inserts.map(insert => insert.key)).toEqual(['TASK-1', 'TASK-2'])
+    expect(merge.dependencies).toEqual([{ key: 'TASK-2', dependsOnKey: 'TASK-1' }])
+  })
+})
+
+describe('createsDependencyCycle', () => {
+  const edges = [
+    { taskId: 'b', dependsOnId: 'a' },
+    { taskId: 'c', dependsOnId: 'b' }
+  ]
+
+  it('detects loops through existing dependencies', () => {
+    expect(createsDependencyCycle(edges, 'a', 'c')).toBe(true)
+    expect(createsDependencyCycle(edges, 'c', 'a')).toBe(false)
+    expect(createsDependencyCycle(edges, 'd', 'c')).toBe(false)
+  })
+})
+
+describe('task board layout', () => {
+  it('sorts columns by due date, then priority', () => {
+    const columns = groupTasksByStatus([
+      boardTask('later', { due_date: '2025-09-01' }),
+      boardTask('none-urgent', { priority: 'urgent' }),
+      boardTask('sooner', { due_date: '2025-08-01' }),
+      boardTask('done', { status: 'completed' })
+    ])
+
+    expect(columns.pending.map(task => task.id)).toEqual(['sooner', 'later', 'none-urgent'])
+    expect(columns.completed.map(task => task.id)).toEqual(['done'])
+  })
+
+  it('places each task after everything it depends on and leaves out unconnected tasks', () => {
+    const graph = layoutDependencyGraph([
+      boardTask('schema'),
+      boardTask('api', { dependsOn: ['schema'] }),
+      boardTask('ui', { dependsOn: ['api', 'schema'] }),
+      boardTask('docs')
+    ])
+
+    expect(graph.nodes.map(node => [node.task.id, node.level])).toEqual([['schema', 0], ['api', 1], ['ui', 2]])
+    expect(graph.levels).toBe(3)
+    expect(graph.edges).toHaveLength(3)
+  })
+})
+
+describe('updateTask', () => {
+  const taskId = '00000000-0000-4000-8000-000000000001'
+  const schemaId = '00000000-0000-4000-8000-000000000002'
+  const docsId = '00000000-0000-4000-8000-000000000003'
+
+  // The user owns `ownedIds`; `edges` are the stored dependencies
+  function mockSupabase(ownedIds: string[], edges: { task_id: string; depends_on_id: string }[] = []) {
+    const update = jest.fn(() => ({
+      eq: () => ({ eq: () => ({ select: () => Promise.resolve({ data: [{ id: taskId }], error: null }) }) })
+    }))
+    const select = jest.fn((columns: string) => columns === 'id'
+      ? { eq: () => ({ in: (_column: string, ids: string[]) => Promise.resolve({ data: ids.filter(id => ownedIds.includes(id)).map(id => ({ id })), error: null }) }) }
+      : Promise.resolve({ data: edges, error: null }))
+    return {
+      from: jest.fn(() => ({ select, update })),
+      rpc: jest.fn(() => Promise.resolve({ error: null })),
+      update
+    }
+  }
+
+  async function expectRejected(promise: Promise<void>, status: number) {
+    const error = await promise.catch(caught => caught)
+    expect(error).toBeInstanceOf(TaskBoardError)
+    expect(error.status).toBe(status)
+  }
+
+  it('replaces dependencies in a single call after updating the task', async () => {
+    const supabase = mockSupabase([schemaId, docsId])
+
+    await updateTask(supabase as never, 'user-1', taskId, { status: 'blocked', dependsOn: [schemaId, docsId, schemaId] })
+
+    expect(supabase.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'blocked' }))
+    expect(supabase.rpc).toHaveBeenCalledWith('replace_task_dependencies', { p_task_id: taskId, p_depends_on: [schemaId, docsId] })
+  })
+
+  it('rejects tasks that are not on the board without writing anything', async () => {
+    const supabase = mockSupabase([schemaId])
+
+    await expectRejected(updateTask(supabase as never, 'user-1', taskId, { title: 'Renamed', dependsOn: [schemaId, docsId] }), 400)
+    await expectRejected(updateTask(supabase as never, 'user-1', taskId, { dependsOn: ['TASK-1'] }), 400)
+
+    expect(supabase.update).not.toHaveBeenCalled()
+    expect(supabase.rpc).not.toHaveBeenCalled()
+  })
+
+  it('rejects loops without writing anything', async () => {
+    const supabase = mockSupabase([schemaId], [{ task_id: schemaId, depends_on_id: taskId }])
+
+    await expectRejected(updateTask(supabase as never, 'user-1', taskId, { status: 'completed', dependsOn: [schemaId] }), 409)
+
+    expect(supabase.update).not.toHaveBeenCalled()
+    expect(supabase.rpc).not.toHaveBeenCalled()
+  })
+})
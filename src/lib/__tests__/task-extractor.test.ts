@@ -0,0 +1,44 @@
+import { selectExtractionMessages, selectMessageRange, TaskScopeError } from '../task-extractor'
+import { messageRow } from './message-fixtures'
+
+// q1 -> a1 -> q2 -> a2, with a1 retried as r1 (newest)
+const messages = [
+  messageRow('q1', null, 'user', 'q1', 0),
+  messageRow('a1', 'q1', 'assistant', 'a1', 1),
+  messageRow('q2', 'a1', 'user', 'q2', 2),
+  messageRow('a2', 'q2', 'assistant', 'a2', 3),
+  messageRow('r1', 'q1', 'assistant', 'r1', 4)
+]
+
+const ids = (rows: { id?: string }[]) => rows.map(row => row.id)
+
+describe('selectMessageRange', () => {
+  it('returns every message without a range and an inclusive slice with one', () => {
+    expect(ids(selectMessageRange(messages))).toEqual(['q1', 'a1', 'q2', 'a2', 'r1'])
+    expect(ids(selectMessageRange(messages, { fromMessageId: 'a1', toMessageId: 'q2' }))).toEqual(['a1', 'q2'])
+    expect(ids(selectMessageRange(messages, { fromMessageId: 'a2' }))).toEqual(['a2', 'r1'])
+  })
+
+  it('rejects unknown or reversed bounds', () => {
+    expect(() => selectMessageRange(messages, { fromMessageId: 'missing' })).toThrow(TaskScopeError)
+    expect(() => selectMessageRange(messages, { fromMessageId: 'q2', toMessageId: 'a1' })).toThrow(TaskScopeError)
+  })
+})
+
+describe('selectExtractionMessages', () => {
+  it('extracts from the latest branch by default and from the branch ending at the chosen leaf', () => {
+    expect(ids(selectExtractionMessages(messages))).toEqual(['q1', 'r1'])
+    expect(ids(selectExtractionMessages(messages, { leafId: 'a2' }))).toEqual(['q1', 'a1', 'q2', 'a2'])
+    expect(ids(selectExtractionMessages(messages, { leafId: 'a2', fromMessageId: 'q2' }))).toEqual(['q2', 'a2'])
+  })
+
+  it('follows the branch of the range end when no leaf is given', () => {
+    expect(ids(selectExtractionMessages(messages, { fromMessageId: 'a1', toMessageId: 'q2' }))).toEqual(['a1', 'q2'])
+  })
+
+  it('reports a leaf that is not in the conversation as not found', () => {
+    expect(() => selectExtractionMessages(messages, { leafId: 'missing' })).toThrow(
+      expect.objectContaining({ status: 404 })
+    )
+  })
+})
@@ -0,0 +1,69 @@
+import {
+  buildUsageSeries,
+  getBucketStart,
+  getBudgetStatus,
+  getHistoryStart,
+  summarizeModels,
+  usageEventsToCsv,
+  type UsageHistoryRow
+} from '../usage-analytics'
+
+describe('usage analytics', () => {
+  const now = new Date('2025-07-10T12:00:00Z')
+
+  it('buckets by UTC day, Monday-start week and month', () => {
+    const date = new Date('2025-07-06T23:30:00Z') // a Sunday
+    expect(getBucketStart(date, 'day').toISOString()).toBe('2025-07-06T00:00:00.000Z')
+    expect(getBucketStart(date, 'week').toISOString()).toBe('2025-06-30T00:00:00.000Z')
+    expect(getBucketStart(date, 'month').toISOString()).toBe('2025-07-01T00:00:00.000Z')
+    expect(getHistoryStart('month', now).toISOString()).toBe('2024-08-01T00:00:00.000Z')
+  })
+
+  it('fills empty buckets and stacks cost per model', () => {
+    const rows: UsageHistoryRow[] = [
+      { bucket: '2025-07-08T00:00:00+00:00', model: 'gpt-4o', requests: 2, tokens: '1000', cost_usd: '0.02', avg_latency_ms: 900 },
+      { bucket: '2025-07-08T00:00:00+00:00', model: 'gemini-2.0-flash', requests: 1, tokens: 200, cost_usd: 0, avg_latency_ms: null },
+      { bucket: '2025-07-10T00:00:00+00:00', model: 'gpt-4o', requests: 1, tokens: 500, cost_usd: 0.01, avg_latency_ms: 1500 }
+    ]
+    const series = buildUsageSeries(rows, 'day', new Date('2025-07-07T00:00:00Z'), now)
+
+    expect(series.map(point => point.requests)).toEqual([0, 3, 0, 1])
+    expect(series[1].models).toEqual({ 'gpt-4o': 0.02, 'gemini-2.0-flash': 0 })
+
+    const models = summarizeModels(rows)
+    expect(models[0]).toMatchObject({ model: 'gpt-4o', requests: 3, tokens: 1500, avgLatencyMs: 1100 })
+    expect(models[1].avgLatencyMs).toBeNull()
+  })
+
+  it('alerts when projected monthly spend crosses the budget', () => {
+    // Ten days into a 31-day month
+    const status = getBudgetStatus(4, 10, new Date('2025-07-11T00:00:00Z'))
+    expect(status.projectedUsd).toBeCloseTo(12.4)
+    expect(status.alert).toBe('projected')
+
+    expect(getBudgetStatus(11, 10, now).alert).toBe('exceeded')
+    expect(getBudgetStatus(4, null, now).alert).toBe('none')
+    // The first hours of a month project from at least one day
+    expect(getBudgetStatus(1, 50, new Date('2025-07-01T01:00:00Z')).alert).toBe('none')
+  })
+
+  it('exports ledger rows as CSV, quoting titles', () => {
+    const csv = usageEventsToCsv([{
+      created_at: '2025-07-08T10:00:00Z',
+      route: 'chat',
+      model: 'gpt-4o',
+      provider: 'openai',
+      source: 'server',
+      conversation_id: 'c1',
+      prompt_tokens: 100,
+      completion_tokens: 50,
+      cost_usd: '0.0015',
+      latency_ms: 820,
+      conversation: { title: 'Plans, "draft" 2' }
+    }])
+
+    const [header, row] = csv.trim().split('\n')
+    expect(header.split(',')).toContain('conversation_title')
+    expect(row).toBe('2025-07-08T10:00:00Z,chat,gpt-4o,openai,server,c1,"Plans, ""draft"" 2",100,50,150,0.001500,820')
+  })
+})
@@ -1,11 +1,44 @@
 import React from 'react'
 import { useChat, type Message } from 'ai/react'
-import { getOpenRouterProvider } from './openrouter'
+import { OPENROUTER_FEE_PERCENTAGE } from './openrouter'
+import type { ReasoningBudget } from './reasoning'
+import type { ContextWindowUsage } from './context-window'
 
 // Re-export from models for backward compatibility
 export type { AIModel } from './models'
 export { AI_MODELS, getModelById, getModelsByProvider } from './models'
 
+// Which provider served a response, read from the X-Served-* headers set by /api/chat
+export interface ServedModelInfo {
+  model: string
+  provider: string
+  source: string
+  failoverAttempts: number
+}
+
+function getServedModelInfo(response: Response): ServedModelInfo | undefined {
+  const model = response.headers.get('X-Served-Model')
+  if (!model) return undefined
+  return {
+    model,
+    provider: response.headers.get('X-Served-Provider') || 'unknown',
+    source: response.headers.get('X-Served-Source') || 'server',
+    failoverAttempts: Number(response.headers.get('X-Failover-Attempts')) || 0
+  }
+}
+
+function getContextWindowUsage(response: Response): ContextWindowUsage | null {
+  const budget = response.headers.get('X-Context-Budget')
+  if (!budget) return null
+  return {
+    usedTokens: Number(response.headers.get('X-Context-Tokens')) || 0,
+    budgetTokens: Number(budget) || 0,
+    compressedCount: Number(response.headers.get('X-Context-Compressed')) || 0,
+    compressedThroughId: response.headers.get('X-Context-Compressed-Through'),
+    summarized: response.headers.get('X-Context-Summarized') === '1'
+  }
+}
+
 export interface ChatState {
   messages: Message[]
   input: string
@@ -27,31 +60,22 @@ export function useAIChat({
   onFinish,
   initialMessages = [],
   useOpenRouter = false,
-  openRouterApiKey = ''
+  reasoningBudget = 'default'
 }: {
   conversationId: string | null
   model?: string
   provider?: string
   systemPrompt?: string
   ragContext?: string
-  onFinish?: (message: Message) => void
+  onFinish?: (message: Message, servedBy?: ServedModelInfo) => void
   initialMessages?: Message[]
   useOpenRouter?: boolean
-  openRouterApiKey?: string
+  // Sent with every request; only applied to models with native reasoning
+  reasoningBudget?: ReasoningBudget
 }) {
   const [previousConversationId, setPreviousConversationId] = React.useState<string | null>(null)
-  
-  // Initialize OpenRouter if requested
-  const openRouterProvider = React.useMemo(() => {
-    if (useOpenRouter && openRouterApiKey) {
-      return getOpenRouterProvider({
-        apiKey: openRouterApiKey,
-        enabled: true,
-        fallbackToDirectAPIs: true
-      })
-    }
-    return null
-  }, [useOpenRouter, openRouterApiKey])
+  const servedByRef = React.useRef<ServedModelInfo | undefined>(undefined)
+  const [contextWindow, setContextWindow] = React.useState<ContextWindowUsage | null>(null)
   
   const chat = useChat({
     id: conversationId || 'no-conversation', // Force reset when conversation changes
@@ -63,12 +87,18 @@ export function useAIChat({
       provider,
       systemPrompt,
       ragContext,
-      useOpenRouter,
-      openRouterApiKey: useOpenRouter ? openRouterApiKey : undefined
+      reasoningBudget
+    },
+    onResponse: (response) => {
+      servedByRef.current = getServedModelInfo(response)
+      setContextWindow(getContextWindowUsage(response))
+      if (servedByRef.current?.failoverAttempts) {
+        console.warn('🔁 [useAIChat] Response served by fallback:', servedByRef.current)
+      }
     },
     onFinish: (message) => {
       console.log('🎯 [useAIChat] AI response finished:', message)
-      onFinish?.(message)
+      onFinish?.(message, servedByRef.current)
     },
     onError: (error) => {
       console.error('❌ [useAIChat] Chat error:', error)
@@ -111,8 +141,8 @@ export function useAIChat({
           provider,
           systemPrompt,
           ragContext,
-          useOpenRouter,
-          openRouterApiKey: useOpenRouter ? openRouterApiKey : undefined
+          reasoningBudget,
+          ...chatRequestOptions?.body
         },
         experimental_attachments: chatRequestOptions?.experimental_attachments
       })
@@ -125,6 +155,7 @@ export function useAIChat({
       console.log('🧹 [useAIChat] Conversation changed, updating AI messages with history')
       // Set the messages to the initial messages (conversation history)
       chat.setMessages(initialMessages)
+      setContextWindow(null)
       setPreviousConversationId(conversationId)
     }
   }, [conversationId, previousConversationId, chat, initialMessages])
@@ -132,9 +163,11 @@ export function useAIChat({
   return {
     ...chat,
     handleSubmit: enhancedHandleSubmit,
-    openRouterProvider,
-    isUsingOpenRouter: useOpenRouter && !!openRouterProvider?.isAvailable(),
-    getOpenRouterFee: () => openRouterProvider?.getCostSavings() || 0 // Returns negative value (fee)
+    // Context window usage reported with the latest response
+    contextWindow,
+    // BYOK keys are resolved server-side; this only drives the fee badge
+    isUsingOpenRouter: useOpenRouter,
+    getOpenRouterFee: () => useOpenRouter ? -OPENROUTER_FEE_PERCENTAGE : 0 // Returns negative value (fee)
   }
 }
 
@@ -0,0 +1,224 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { createServiceRoleClient } from '@/lib/supabase'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+export const ANONYMOUS_CALL_LIMIT = 10 // Per visitor in any 24 hours (Vertex AI Gemini only)
+// Per IP address, so clearing cookies doesn't reset the quota while a shared office or
+// household connection still gets room for several visitors
+export const ANONYMOUS_IP_CALL_LIMIT = 30
+export const ANONYMOUS_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export const VISITOR_COOKIE = 'anon_visitor'
+const VISITOR_COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+export interface AnonymousVisitor {
+  id: string
+  // HMAC of the client IP; null when the request carries no forwarding headers
+  ipHash: string | null
+  // Signed cookie to send back when the request didn't present a valid one
+  newCookie: string | null
+}
+
+export interface AnonymousQuota {
+  allowed: boolean
+  limit: number
+  used: number
+  remaining: number
+  // When the oldest counted request leaves the window and frees a slot; null when none are counted
+  resetAt: Date | null
+  // Recorded request, released again if it never reaches a model
+  eventId: number | null
+}
+
+interface QuotaRow {
+  allowed?: boolean
+  event_id?: number | null
+  visitor_used: number
+  ip_used: number
+  visitor_oldest: string | null
+  ip_oldest: string | null
+}
+
+// The quota functions can only be executed by the service role: with the anon key anyone could
+// refund their own requests or record usage for any visitor
+let quotaClient: ReturnType<typeof createServiceRoleClient> | null = null
+
+function getQuotaClient() {
+  if (!quotaClient) {
+    quotaClient = createServiceRoleClient()
+  }
+  return quotaClient
+}
+
+function getQuotaSecret(): string {
+  const secret = process.env.ANONYMOUS_QUOTA_SECRET || process.env.API_KEY_ENCRYPTION_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('ANONYMOUS_QUOTA_SECRET is not configured')
+  }
+  return 'development-anonymous-quota-secret'
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getQuotaSecret()).update(value).digest('base64url')
+}
+
+export function signVisitorId(visitorId: string): string {
+  return `${visitorId}.${sign(`visitor:${visitorId}`)}`
+}
+
+/** The visitor id in a signed cookie value, or null if it was tampered with */
+export function verifyVisitorCookie(value: string | undefined | null): string | null {
+  if (!value) return null
+  const separator = value.lastIndexOf('.')
+  if (separator <= 0) return null
+
+  const visitorId = value.slice(0, separator)
+  const signature = Buffer.from(value.slice(separator + 1))
+  const expected = Buffer.from(sign(`visitor:${visitorId}`))
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return null
+  return visitorId
+}
+
+function readCookie(header: string | null, name: string): string | null {
+  if (!header) return null
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(rest.join('='))
+  }
+  return null
+}
+
+export function getClientIp(headers: Headers): string | null {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwarded || headers.get('x-real-ip')?.trim() || null
+}
+
+/** Identify an anonymous visitor by their signed cookie (issuing one if needed) and IP */
+export function identifyAnonymousVisitor(headers: Headers): AnonymousVisitor {
+  const ip = getClientIp(headers)
+  const ipHash = ip ? sign(`ip:${ip}`) : null
+
+  const existing = verifyVisitorCookie(readCookie(headers.get('cookie'), VISITOR_COOKIE))
+  if (existing) {
+    return { id: existing, ipHash, newCookie: null }
+  }
+
+  const id = randomUUID()
+  log('🪪 [ANONYMOUS QUOTA] Issuing visitor cookie:', id)
+  return { id, ipHash, newCookie: signVisitorId(id) }
+}
+
+function toQuota(row: QuotaRow | undefined, visitor: AnonymousVisitor, now = Date.now()): AnonymousQuota {
+  const visitorUsed = row?.visitor_used ?? 0
+  const ipUsed = row?.ip_used ?? 0
+  const visitorRemaining = ANONYMOUS_CALL_LIMIT - visitorUsed
+  const ipRemaining = visitor.ipHash ? ANONYMOUS_IP_CALL_LIMIT - ipUsed : Infinity
+  const remaining = Math.max(0, Math.min(visitorRemaining, ipRemaining))
+
+  const resetFrom = (oldest: string | null | undefined) =>
+    oldest ? new Date(new Date(oldest).getTime() + ANONYMOUS_WINDOW_MS) : null
+  const visitorReset = resetFrom(row?.visitor_oldest)
+  const ipReset = resetFrom(row?.ip_oldest)
+
+  // Report the reset of whichever limit is binding; when both are exhausted, the later one
+  let resetAt = ipRemaining < visitorRemaining ? ipReset : visitorReset
+  if (visitorRemaining <= 0 && ipRemaining <= 0 && visitorReset && ipReset) {
+    resetAt = visitorReset > ipReset ? visitorReset : ipReset
+  }
+
+  return {
+    allowed: row?.allowed ?? remaining > 0,
+    limit: ANONYMOUS_CALL_LIMIT,
+    used: Math.min(visitorUsed, ANONYMOUS_CALL_LIMIT),
+    remaining,
+    resetAt: resetAt && resetAt.getTime() > now ? resetAt : null,
+    eventId: row?.event_id ?? null
+  }
+}
+
+/** Current usage for a visitor without recording a request */
+export async function getAnonymousQuota(visitor: AnonymousVisitor): Promise<AnonymousQuota> {
+  const { data, error } = await getQuotaClient().rpc('anonymous_quota_status', {
+    p_visitor_id: visitor.id,
+    p_ip_hash: visitor.ipHash,
+    p_window_seconds: ANONYMOUS_WINDOW_MS / 1000
+  })
+  if (error) {
+    throw new Error(`Failed to load anonymous usage: ${error.message}`)
+  }
+  return toQuota((data as QuotaRow[] | null)?.[0], visitor)
+}
+
+/**
+ * Record one request against the visitor's and their IP's rolling 24 hour quotas. The count and
+ * insert happen atomically in the database, so concurrent requests on any instance can't overshoot.
+ */
+export async function consumeAnonymousQuota(visitor: AnonymousVisitor, modelId: string): Promise<AnonymousQuota> {
+  const { data, error } = await getQuotaClient().rpc('consume_anonymous_quota', {
+    p_visitor_id: visitor.id,
+    p_ip_hash: visitor.ipHash,
+    p_visitor_limit: ANONYMOUS_CALL_LIMIT,
+    p_ip_limit: ANONYMOUS_IP_CALL_LIMIT,
+    p_window_seconds: ANONYMOUS_WINDOW_MS / 1000,
+    p_model: modelId
+  })
+  if (error) {
+    throw new Error(`Failed to record anonymous usage: ${error.message}`)
+  }
+
+  const quota = toQuota((data as QuotaRow[] | null)?.[0], visitor)
+  log(`${quota.allowed ? '✅' : '🚫'} [ANONYMOUS QUOTA] Visitor ${visitor.id} - ${quota.used}/${quota.limit} used`)
+  return quota
+}
+
+/** Give back a recorded request that failed before any model answered */
+export async function releaseAnonymousQuota(visitor: AnonymousVisitor, quota: AnonymousQuota): Promise<AnonymousQuota> {
+  if (quota.eventId === null) return quota
+
+  const { error } = await getQuotaClient().rpc('release_anonymous_quota', {
+    p_event_id: quota.eventId,
+    p_visitor_id: visitor.id
+  })
+  if (error) {
+    logError('Error releasing anonymous usage:', error)
+    return quota
+  }
+  return {
+    ...quota,
+    used: Math.max(0, quota.used - 1),
+    remaining: Math.min(quota.limit, quota.remaining + 1),
+    eventId: null
+  }
+}
+
+function formatVisitorCookie(value: string): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : ''
+  return `${VISITOR_COOKIE}=${encodeURIComponent(value)}; Path=/; Max-Age=${VISITOR_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax${secure}`
+}
+
+/** X-Usage-* headers (plus Retry-After once the quota is spent) and any new visitor cookie */
+export function applyAnonymousQuotaHeaders(
+  headers: Headers,
+  visitor: AnonymousVisitor,
+  quota: AnonymousQuota | null,
+  now = Date.now()
+): void {
+  if (visitor.newCookie) {
+    headers.append('Set-Cookie', formatVisitorCookie(visitor.newCookie))
+  }
+  if (!quota) return
+
+  headers.set('X-Usage-Count', String(quota.used))
+  headers.set('X-Usage-Limit', String(quota.limit))
+  headers.set('X-Usage-Remaining', String(quota.remaining))
+  if (quota.resetAt) {
+    headers.set('X-Usage-Reset', quota.resetAt.toISOString())
+  }
+  if ((!quota.allowed || quota.remaining === 0) && quota.resetAt) {
+    headers.set('Retry-After', String(Math.max(1, Math.ceil((quota.resetAt.getTime() - now) / 1000))))
+  }
+}
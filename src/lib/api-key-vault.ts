@@ -0,0 +1,234 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { createServerClient } from '@/lib/supabase'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+export type ApiKeyProvider = 'openRouter' | 'openai' | 'anthropic' | 'google' | 'xai'
+
+export const API_KEY_PROVIDERS: ApiKeyProvider[] = ['openRouter', 'openai', 'anthropic', 'google', 'xai']
+
+export type UserApiKeys = Partial<Record<ApiKeyProvider, string>>
+
+// Decrypted keys for a single request - never sent back to the client
+export interface ByokCredentials {
+  apiKeys: UserApiKeys
+  fallbackToDirectAPIs: boolean
+}
+
+export interface StoredApiKey {
+  provider: ApiKeyProvider
+  keyHint: string
+  updatedAt: string
+}
+
+const CIPHER = 'aes-256-gcm'
+const PAYLOAD_VERSION = 'v1'
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.API_KEY_ENCRYPTION_SECRET
+  if (!secret) {
+    throw new Error('API_KEY_ENCRYPTION_SECRET is not configured')
+  }
+  return createHash('sha256').update(secret).digest()
+}
+
+export function isApiKeyVaultConfigured(): boolean {
+  return !!process.env.API_KEY_ENCRYPTION_SECRET
+}
+
+export function encryptApiKey(apiKey: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(CIPHER, getEncryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return [PAYLOAD_VERSION, iv.toString('base64'), tag.toString('base64'), encrypted.toString('base64')].join(':')
+}
+
+export function decryptApiKey(payload: string): string {
+  const [version, iv, tag, encrypted] = payload.split(':')
+  if (version !== PAYLOAD_VERSION || !iv || !tag || !encrypted) {
+    throw new Error('Unrecognized API key payload')
+  }
+  const decipher = createDecipheriv(CIPHER, getEncryptionKey(), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, 'base64')),
+    decipher.final()
+  ]).toString('utf8')
+}
+
+// Only the last four characters are ever shown back to the user
+export function getKeyHint(apiKey: string): string {
+  return apiKey.length > 8 ? `…${apiKey.slice(-4)}` : '…'
+}
+
+export class ApiKeyVault {
+  private async getSupabase() {
+    return await createServerClient()
+  }
+
+  // Decrypt every stored key for a user along with their routing preference
+  async getCredentials(userId: string): Promise<ByokCredentials> {
+    const credentials: ByokCredentials = { apiKeys: {}, fallbackToDirectAPIs: true }
+    if (!isApiKeyVaultConfigured()) {
+      return credentials
+    }
+
+    try {
+      const supabase = await this.getSupabase()
+      const [{ data: keys, error }, { data: profile }] = await Promise.all([
+        supabase
+          .from('user_api_keys')
+          .select('provider, encrypted_key')
+          .eq('user_id', userId),
+        supabase
+          .from('profiles')
+          .select('byok_fallback_to_direct')
+          .eq('id', userId)
+          .maybeSingle()
+      ])
+
+      if (error) {
+        logError('Error loading API keys:', error)
+        return credentials
+      }
+
+      for (const row of keys || []) {
+        try {
+          credentials.apiKeys[row.provider as ApiKeyProvider] = decryptApiKey(row.encrypted_key)
+        } catch (decryptError) {
+          logError(`Failed to decrypt ${row.provider} API key:`, decryptError)
+        }
+      }
+      credentials.fallbackToDirectAPIs = profile?.byok_fallback_to_direct ?? true
+    } catch (error) {
+      logError('Error loading BYOK credentials:', error)
+    }
+
+    return credentials
+  }
+
+  async listKeys(userId: string): Promise<StoredApiKey[]> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('user_api_keys')
+      .select('provider, key_hint, updated_at')
+      .eq('user_id', userId)
+
+    if (error) {
+      throw error
+    }
+
+    return (data || []).map(row => ({
+      provider: row.provider as ApiKeyProvider,
+      keyHint: row.key_hint || '…',
+      updatedAt: row.updated_at
+    }))
+  }
+
+  async saveKey(userId: string, provider: ApiKeyProvider, apiKey: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('user_api_keys')
+      .upsert({
+        user_id: userId,
+        provider,
+        encrypted_key: encryptApiKey(apiKey),
+        key_hint: getKeyHint(apiKey),
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id,provider'
+      })
+
+    if (error) {
+      throw error
+    }
+
+    log(`🔐 [ApiKeyVault] Stored ${provider} key for user ${userId}`)
+    await this.syncByokStatus(userId)
+  }
+
+  async deleteKey(userId: string, provider: ApiKeyProvider): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('user_api_keys')
+      .delete()
+      .eq('user_id', userId)
+      .eq('provider', provider)
+
+    if (error) {
+      throw error
+    }
+
+    log(`🗑️ [ApiKeyVault] Removed ${provider} key for user ${userId}`)
+    await this.syncByokStatus(userId)
+  }
+
+  async setFallbackToDirectAPIs(userId: string, fallbackToDirectAPIs: boolean): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('profiles')
+      .update({ byok_fallback_to_direct: fallbackToDirectAPIs })
+      .eq('id', userId)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  // Move plaintext keys left in profiles.api_keys by older clients into the vault
+  async migrateLegacyKeys(userId: string): Promise<number> {
+    const supabase = await this.getSupabase()
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('api_keys')
+      .eq('id', userId)
+      .maybeSingle()
+
+    const legacyKeys = (profile?.api_keys || {}) as Record<string, string>
+    const providers = API_KEY_PROVIDERS.filter(provider => !!legacyKeys[provider])
+    if (providers.length === 0) {
+      return 0
+    }
+
+    for (const provider of providers) {
+      await this.saveKey(userId, provider, legacyKeys[provider])
+    }
+
+    log(`🔐 [ApiKeyVault] Migrated ${providers.length} legacy keys for user ${userId}`)
+    return providers.length
+  }
+
+  // BYOK is enabled whenever the user has at least one stored key; plaintext keys are cleared
+  private async syncByokStatus(userId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { count } = await supabase
+      .from('user_api_keys')
+      .select('provider', { count: 'exact', head: true })
+      .eq('user_id', userId)
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        byok_enabled: (count || 0) > 0,
+        api_keys: {}
+      })
+      .eq('id', userId)
+
+    if (error) {
+      logError('Error syncing BYOK status:', error)
+    }
+  }
+}
+
+// Singleton instance for server-side usage
+let apiKeyVault: ApiKeyVault | null = null
+
+export function getApiKeyVault(): ApiKeyVault {
+  if (!apiKeyVault) {
+    apiKeyVault = new ApiKeyVault()
+  }
+  return apiKeyVault
+}
@@ -0,0 +1,158 @@
+import type { FinishReason, LanguageModelUsage } from 'ai'
+import { calculateModelCost, type AIModel, type ModelCost } from './models'
+import { OPENROUTER_FEE_PERCENTAGE } from './openrouter'
+import type { createServerClient } from './supabase'
+import type { ModelSource, ProviderId } from './provider-registry'
+import type { RAGSource } from './rag-citations'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Shape of messages.model_metadata for assistant messages written by /api/chat
+export interface AssistantMessageMetadata {
+  model: string
+  requestedModel: string
+  provider: ProviderId
+  source: ModelSource
+  fallback: boolean
+  failoverAttempts: number
+  usage: {
+    promptTokens: number
+    completionTokens: number
+    totalTokens: number
+  }
+  finishReason: FinishReason
+  latencyMs: number
+  timeToFirstTokenMs: number
+  cost: ModelCost
+  // Document chunks injected as [SOURCE n]; citations in the text refer to these
+  sources?: RAGSource[]
+  reasoningTokens?: number
+}
+
+export interface AssistantMessageRecord {
+  conversationId: string
+  // The user message this reply answers; the reply is stored as its child
+  parentMessageId?: string | null
+  text: string
+  requestedModel: string
+  servedModel: AIModel
+  provider: ProviderId
+  source: ModelSource
+  failoverAttempts: number
+  usage: LanguageModelUsage
+  // Native reasoning streamed by the model, stored apart from the answer text
+  reasoning?: string
+  reasoningTokens?: number
+  finishReason: FinishReason
+  startedAt: number
+  firstTokenAt: number
+  sources?: RAGSource[]
+}
+
+export function buildAssistantMetadata(record: AssistantMessageRecord): AssistantMessageMetadata {
+  // Providers occasionally omit usage; NaN would otherwise end up in the JSON column
+  const promptTokens = record.usage.promptTokens || 0
+  const completionTokens = record.usage.completionTokens || 0
+
+  return {
+    model: record.servedModel.id,
+    requestedModel: record.requestedModel,
+    provider: record.provider,
+    source: record.source,
+    fallback: record.servedModel.id !== record.requestedModel || record.failoverAttempts > 0,
+    failoverAttempts: record.failoverAttempts,
+    usage: {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    },
+    finishReason: record.finishReason,
+    latencyMs: Date.now() - record.startedAt,
+    timeToFirstTokenMs: record.firstTokenAt - record.startedAt,
+    cost: calculateModelCost(
+      record.servedModel,
+      promptTokens,
+      completionTokens,
+      record.provider === 'openrouter' ? OPENROUTER_FEE_PERCENTAGE : 0
+    ),
+    ...(record.sources?.length ? { sources: record.sources } : {}),
+    ...(record.reasoningTokens ? { reasoningTokens: record.reasoningTokens } : {})
+  }
+}
+
+/**
+ * Where a reply to `parentMessageId` sits in the message tree. The parent must be a message of the
+ * same conversation; otherwise the reply is stored without one. Regenerated replies to the same
+ * message become new branches after the existing ones.
+ */
+async function resolveReplyPosition(
+  supabase: ServerSupabaseClient,
+  conversationId: string,
+  parentMessageId: string | null | undefined
+): Promise<{ parent_id: string | null; branch_index: number }> {
+  if (!parentMessageId || !UUID_PATTERN.test(parentMessageId)) {
+    return { parent_id: null, branch_index: 0 }
+  }
+
+  const { data: parent } = await supabase
+    .from('messages')
+    .select('id')
+    .eq('id', parentMessageId)
+    .eq('conversation_id', conversationId)
+    .maybeSingle()
+
+  if (!parent) {
+    logError('Assistant reply parent not found in conversation:', parentMessageId)
+    return { parent_id: null, branch_index: 0 }
+  }
+
+  const { data: siblings } = await supabase
+    .from('messages')
+    .select('branch_index')
+    .eq('conversation_id', conversationId)
+    .eq('parent_id', parentMessageId)
+
+  const branchIndex = (siblings || []).reduce((max, sibling) => Math.max(max, (sibling.branch_index ?? 0) + 1), 0)
+  return { parent_id: parentMessageId, branch_index: branchIndex }
+}
+
+/**
+ * Store a finished assistant response. Called from streamText's onFinish so the message is saved
+ * even if the client disconnects before the stream ends.
+ */
+export async function saveAssistantMessage(
+  supabase: ServerSupabaseClient,
+  record: AssistantMessageRecord
+): Promise<void> {
+  const metadata = buildAssistantMetadata(record)
+  const position = await resolveReplyPosition(supabase, record.conversationId, record.parentMessageId)
+
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      conversation_id: record.conversationId,
+      content: { text: record.text },
+      role: 'assistant',
+      model_metadata: metadata,
+      reasoning: record.reasoning || null,
+      ...position
+    })
+
+  if (error) {
+    logError('Error saving assistant message:', error)
+    return
+  }
+
+  await supabase
+    .from('conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', record.conversationId)
+
+  log(`💾 [ChatPersistence] Saved ${metadata.model} response: ${metadata.usage.totalTokens} tokens, $${metadata.cost.total.toFixed(6)}`)
+}
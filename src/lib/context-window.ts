@@ -0,0 +1,163 @@
+import type { AIModel } from './models'
+
+// Rough characters per token for each provider's tokenizer. Exact counts would need every
+// provider's tokenizer in the bundle; these err on the high side so estimates stay conservative.
+const CHARS_PER_TOKEN: Record<AIModel['provider'], number> = {
+  openai: 4,
+  azure: 4,
+  anthropic: 3.5,
+  google: 4,
+  'vertex-ai': 4,
+  'azure-ai': 4,
+  xai: 4
+}
+
+// Role markers and separators each provider adds around a message
+const MESSAGE_OVERHEAD_TOKENS = 4
+// Images and documents are billed by size; this is a typical page or photo
+const ATTACHMENT_TOKENS = 1000
+// Head-room for estimation error, taken off the model's window
+const SAFETY_MARGIN = 0.05
+// Kept free for the note that replaces compressed turns
+export const SUMMARY_RESERVE_TOKENS = 600
+
+// The parts of a chat message (UI or database shaped) that take up context
+export interface ContextMessage {
+  id?: string
+  role: string
+  content: unknown
+  experimental_attachments?: unknown[]
+}
+
+export interface ContextWindowPlan<T extends ContextMessage> {
+  // Messages to send, in their original order
+  messages: T[]
+  // Older turns left out to fit the window, oldest first
+  compressed: T[]
+  usedTokens: number
+  budgetTokens: number
+}
+
+// Window usage reported by /api/chat in X-Context-* headers
+export interface ContextWindowUsage {
+  usedTokens: number
+  budgetTokens: number
+  compressedCount: number
+  // Newest compressed message; every unpinned message up to it was left out
+  compressedThroughId: string | null
+  summarized: boolean
+}
+
+export function getContentText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) {
+    return content
+      .map(part => part && typeof part === 'object' && 'text' in part ? String((part as { text: unknown }).text ?? '') : '')
+      .join('\n')
+  }
+  if (content && typeof content === 'object' && 'text' in content) {
+    return String((content as { text: unknown }).text ?? '')
+  }
+  return ''
+}
+
+export function estimateTokens(text: string, provider: AIModel['provider']): number {
+  return Math.ceil(text.length / (CHARS_PER_TOKEN[provider] || 4))
+}
+
+export function estimateMessageTokens(message: ContextMessage, provider: AIModel['provider']): number {
+  const attachments = message.experimental_attachments?.length || 0
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(getContentText(message.content), provider) + attachments * ATTACHMENT_TOKENS
+}
+
+/** Input tokens available once the response and a safety margin are set aside */
+export function getContextBudget(model: Pick<AIModel, 'maxTokens'>, maxOutputTokens: number): number {
+  return Math.max(0, Math.floor(model.maxTokens * (1 - SAFETY_MARGIN)) - maxOutputTokens)
+}
+
+/**
+ * Choose which messages fit in `budgetTokens` alongside a system prompt of `systemTokens`
+ * (which carries any attached document context and is never trimmed). The latest message and
+ * pinned messages always stay; otherwise the most recent turns are kept and everything older
+ * than the first turn that no longer fits is compressed, so the model sees one unbroken tail of
+ * the conversation. The kept tail never starts with an assistant turn.
+ */
+export function planContextWindow<T extends ContextMessage>({
+  messages,
+  systemTokens,
+  budgetTokens,
+  provider,
+  isPinned = () => false
+}: {
+  messages: T[]
+  systemTokens: number
+  budgetTokens: number
+  provider: AIModel['provider']
+  isPinned?: (message: T) => boolean
+}): ContextWindowPlan<T> {
+  const sizes = messages.map(message => estimateMessageTokens(message, provider))
+  const total = systemTokens + sizes.reduce((sum, size) => sum + size, 0)
+  if (total <= budgetTokens || messages.length <= 1) {
+    return { messages, compressed: [], usedTokens: total, budgetTokens }
+  }
+
+  const last = messages.length - 1
+  const pinned = messages.map((message, index) => index === last || isPinned(message))
+  let used = systemTokens + SUMMARY_RESERVE_TOKENS + sizes.reduce((sum, size, index) => pinned[index] ? sum + size : sum, 0)
+
+  // Walk back from the newest turn until one no longer fits
+  let cut = last
+  for (let index = last - 1; index >= 0; index--) {
+    if (pinned[index]) continue
+    if (used + sizes[index] > budgetTokens) break
+    used += sizes[index]
+    cut = index
+  }
+  // Providers expect the conversation to resume on a user turn
+  while (cut < last && messages[cut].role === 'assistant' && !pinned[cut]) {
+    used -= sizes[cut]
+    cut++
+  }
+
+  const kept: T[] = []
+  const compressed: T[] = []
+  messages.forEach((message, index) => {
+    if (index >= cut || pinned[index]) {
+      kept.push(message)
+    } else {
+      compressed.push(message)
+    }
+  })
+  return { messages: kept, compressed, usedTokens: used, budgetTokens }
+}
+
+export function formatCompressedContext(summary: string, compressedCount: number): string {
+  return `EARLIER CONVERSATION (${compressedCount} older messages were compressed to fit the context window):\n${summary}`
+}
+
+/**
+ * Ids of the displayed messages a response left out, given the messages that were sent with
+ * the request. Sent messages are matched to displayed ones by id, or by role and text for
+ * messages that were saved after being sent.
+ */
+export function getCompressedMessageIds(
+  displayed: ContextMessage[],
+  sent: ContextMessage[],
+  usage: ContextWindowUsage | null,
+  isPinned: (message: ContextMessage) => boolean
+): Set<string> {
+  const ids = new Set<string>()
+  if (!usage?.compressedThroughId) return ids
+  const through = sent.findIndex(message => message.id === usage.compressedThroughId)
+  if (through < 0) return ids
+
+  const keys = new Set(sent.slice(0, through + 1).map(message => `${message.role}:${getContentText(message.content)}`))
+  const sentIds = new Set(sent.slice(0, through + 1).map(message => message.id))
+  displayed.forEach(message => {
+    if (!message.id || isPinned(message)) return
+    if (sentIds.has(message.id) || keys.has(`${message.role}:${getContentText(message.content)}`)) {
+      ids.add(message.id)
+    }
+  })
+  return ids
+}
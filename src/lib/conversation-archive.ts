@@ -0,0 +1,589 @@
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from 'fflate'
+import { createServerClient, type Database } from '@/lib/supabase'
+import {
+  buildImportPreview,
+  importConversations,
+  parseT3ChatExport,
+  type ImportFormat,
+  type ImportResult
+} from './conversation-import'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+export const ARCHIVE_VERSION = '2.0'
+
+// Conversations per export page; their ids go into a single `.in()` query for messages
+const EXPORT_PAGE_SIZE = 50
+const MESSAGE_PAGE_SIZE = 1000
+// Explicit so derived search columns (search_vector) stay out of archives
+const MESSAGE_COLUMNS = 'id, conversation_id, parent_id, role, content, reasoning, model_metadata, attachments, branch_index, created_at'
+// Conversations checked for duplicates and written per import step
+export const IMPORT_BATCH_SIZE = 25
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+const ATTACHMENT_FETCH_TIMEOUT_MS = 15000
+// Attachments are only downloaded from the app's own Supabase storage
+const STORAGE_OBJECT_PATH = '/storage/v1/object/'
+// Longest NDJSON line (one conversation) an import buffers; longer lines are reported and skipped
+const MAX_NDJSON_LINE_LENGTH = 32 * 1024 * 1024
+
+type ConversationRow = Database['public']['Tables']['conversations']['Row']
+type MessageRow = Database['public']['Tables']['messages']['Row']
+
+export type ArchiveFormat = 'ndjson' | 'zip'
+
+// The exporting user's folder, tags, pin and archive state for a conversation
+export interface ArchivedOrganization {
+  folder: string | null
+  tags: string[]
+  pinned: boolean
+  archived: boolean
+}
+
+export type ArchivedConversation = ConversationRow & { messages: MessageRow[]; organization?: ArchivedOrganization }
+
+// Limit an export to one folder and/or one tag of the exporting user
+export interface ExportFilter {
+  folderId?: string | null
+  tagId?: string | null
+}
+
+type ExportedConversationRow = ConversationRow & {
+  placement?: { folder_id: string | null; pinned_at: string | null; archived_at: string | null }[]
+  tag_assignments?: { tag_id: string }[]
+  folder_filter?: unknown
+  tag_filter?: unknown
+}
+
+/**
+ * One line of an NDJSON archive. Progress lines carry the cursor to resume from if the
+ * download is interrupted; imports ignore everything except the header and conversations.
+ */
+export type ArchiveRecord =
+  | { type: 'header'; version: string; exported_at?: string; total?: number; source?: ImportFormat }
+  | { type: 'conversation'; conversation: ArchivedConversation }
+  | { type: 'progress'; exported: number; total: number; cursor: string }
+  | { type: 'end'; exported: number; total: number }
+  | { type: 'error'; error: string; cursor: string | null }
+
+export type ImportProgressRecord =
+  | ({ type: 'progress' | 'end'; processed: number } & ImportResult)
+  | { type: 'error'; error: string; line?: number }
+
+interface ExportCursor {
+  createdAt: string
+  id: string
+}
+
+interface ExportPage {
+  conversations: ArchivedConversation[]
+  cursor: string
+  exported: number
+  total: number
+}
+
+// Cursor fields are interpolated into PostgREST filters, so they must be exactly these shapes
+const CURSOR_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Cursors are opaque to clients: base64url of the last exported (created_at, id)
+export function encodeCursor(cursor: ExportCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeCursor(value: string | null | undefined): ExportCursor | null {
+  if (!value) return null
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    const { createdAt, id } = parsed ?? {}
+    if (
+      typeof createdAt === 'string' && CURSOR_TIMESTAMP_PATTERN.test(createdAt) && !Number.isNaN(Date.parse(createdAt)) &&
+      typeof id === 'string' && UUID_PATTERN.test(id)
+    ) {
+      return { createdAt, id }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid export cursor')
+}
+
+function toLine(record: ArchiveRecord | ImportProgressRecord): string {
+  return `${JSON.stringify(record)}\n`
+}
+
+/**
+ * Parse an NDJSON byte stream line by line without buffering the whole body. Lines that are not
+ * valid JSON or longer than `maxLineLength` are reported with their line number instead of
+ * aborting the stream.
+ */
+export async function* readNdjson(
+  stream: ReadableStream<Uint8Array>,
+  maxLineLength = MAX_NDJSON_LINE_LENGTH
+): AsyncGenerator<{ line: number; value?: unknown; error?: string }> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+  let lineNumber = 0
+  // Set while discarding the rest of a line that was already reported as too long
+  let skippingLine = false
+
+  const parse = (text: string) => {
+    lineNumber++
+    const trimmed = text.trim()
+    if (!trimmed) return null
+    try {
+      return { line: lineNumber, value: JSON.parse(trimmed) as unknown }
+    } catch {
+      return { line: lineNumber, error: 'Invalid JSON' }
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    buffered += decoder.decode(value, { stream: !done })
+    const lines = buffered.split('\n')
+    buffered = done ? '' : lines.pop() || ''
+    for (const line of lines) {
+      if (skippingLine) {
+        skippingLine = false
+        continue
+      }
+      const parsed = parse(line)
+      if (parsed) yield parsed
+    }
+    if (buffered.length > maxLineLength) {
+      if (!skippingLine) {
+        lineNumber++
+        yield { line: lineNumber, error: 'Line too long' }
+        skippingLine = true
+      }
+      buffered = ''
+    }
+    if (done) break
+  }
+}
+
+function attachmentSource(attachment: Record<string, unknown>): string | null {
+  return typeof attachment.url === 'string' ? attachment.url : typeof attachment.data === 'string' ? attachment.data : null
+}
+
+// Whether a URL points into the app's own Supabase storage
+export function isStorageUrl(url: string): boolean {
+  const storageUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!storageUrl) return false
+  try {
+    const parsed = new URL(url)
+    return parsed.origin === new URL(storageUrl).origin && parsed.pathname.startsWith(STORAGE_OBJECT_PATH)
+  } catch {
+    return false
+  }
+}
+
+function toArchivedConversation(
+  row: ExportedConversationRow,
+  labels: { folders: Map<string, string>; tags: Map<string, string> },
+  messages: MessageRow[]
+): ArchivedConversation {
+  const { placement, tag_assignments: tagAssignments, ...conversation } = row
+  delete conversation.folder_filter
+  delete conversation.tag_filter
+  const [organization] = placement || []
+  return {
+    ...conversation,
+    organization: {
+      folder: (organization?.folder_id && labels.folders.get(organization.folder_id)) || null,
+      tags: (tagAssignments || [])
+        .map(assignment => labels.tags.get(assignment.tag_id))
+        .filter((name): name is string => !!name),
+      pinned: !!organization?.pinned_at,
+      archived: !!organization?.archived_at
+    },
+    messages
+  }
+}
+
+function safePathSegment(name: string): string {
+  return name.replace(/[^\w.-]+/g, '_').slice(0, 100) || 'file'
+}
+
+/**
+ * Server-side export and import of a user's whole conversation history. Export pages through
+ * conversations by (created_at, id) so memory stays flat and an interrupted download can resume
+ * from the last cursor. Import works through NDJSON in batches; every conversation is written in
+ * its own transaction and already-imported conversations are skipped by content hash, so re-running
+ * an interrupted import picks up where it stopped.
+ */
+export class ConversationArchive {
+  private async getSupabase() {
+    return await createServerClient()
+  }
+
+  // Folder and tag filters go through inner-joined embeds so paging and counts stay in SQL
+  private filterColumns(columns: string, filter: ExportFilter): string {
+    return [
+      columns,
+      filter.folderId ? 'folder_filter:conversation_organization!inner(folder_id)' : null,
+      filter.tagId ? 'tag_filter:conversation_tag_assignments!inner(tag_id)' : null
+    ].filter(Boolean).join(', ')
+  }
+
+  private async countConversations(userId: string, after: ExportCursor | null, filter: ExportFilter): Promise<number> {
+    const supabase = await this.getSupabase()
+    let query = supabase
+      .from('conversations')
+      .select(this.filterColumns('id', filter), { count: 'exact', head: true })
+      .eq('user_id', userId)
+    if (filter.folderId) query = query.eq('folder_filter.folder_id', filter.folderId)
+    if (filter.tagId) query = query.eq('tag_filter.tag_id', filter.tagId)
+    if (after) {
+      query = query.or(`created_at.gt."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.gt.${after.id})`)
+    }
+    const { count, error } = await query
+    if (error) throw error
+    return count || 0
+  }
+
+  private async fetchMessages(conversationIds: string[]): Promise<MessageRow[]> {
+    const supabase = await this.getSupabase()
+    const messages: MessageRow[] = []
+    for (let from = 0; ; from += MESSAGE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .in('conversation_id', conversationIds)
+        .order('conversation_id', { ascending: true })
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + MESSAGE_PAGE_SIZE - 1)
+      if (error) throw error
+      messages.push(...(data || []))
+      if (!data || data.length < MESSAGE_PAGE_SIZE) return messages
+    }
+  }
+
+  // Pages of conversations (with their messages) after `cursor`, oldest first
+  private async fetchLabels(userId: string): Promise<{ folders: Map<string, string>; tags: Map<string, string> }> {
+    const supabase = await this.getSupabase()
+    const [foldersResult, tagsResult] = await Promise.all([
+      supabase.from('conversation_folders').select('id, name').eq('user_id', userId),
+      supabase.from('conversation_tags').select('id, name').eq('user_id', userId)
+    ])
+    if (foldersResult.error) throw foldersResult.error
+    if (tagsResult.error) throw tagsResult.error
+    return {
+      folders: new Map((foldersResult.data || []).map(folder => [folder.id, folder.name])),
+      tags: new Map((tagsResult.data || []).map(tag => [tag.id, tag.name]))
+    }
+  }
+
+  async *exportPages(userId: string, cursor?: string | null, filter: ExportFilter = {}): AsyncGenerator<ExportPage> {
+    const supabase = await this.getSupabase()
+    let after = decodeCursor(cursor)
+    const total = await this.countConversations(userId, after, filter)
+    const labels = await this.fetchLabels(userId)
+    let exported = 0
+
+    while (true) {
+      let query = supabase
+        .from('conversations')
+        .select(this.filterColumns(
+          '*, placement:conversation_organization(folder_id, pinned_at, archived_at), tag_assignments:conversation_tag_assignments(tag_id)',
+          filter
+        ))
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(EXPORT_PAGE_SIZE)
+      if (filter.folderId) query = query.eq('folder_filter.folder_id', filter.folderId)
+      if (filter.tagId) query = query.eq('tag_filter.tag_id', filter.tagId)
+      if (after) {
+        query = query.or(`created_at.gt."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.gt.${after.id})`)
+      }
+      const { data, error } = await query
+      if (error) throw error
+      const conversations = (data || []) as unknown as ExportedConversationRow[]
+      if (conversations.length === 0) return
+
+      const messages = await this.fetchMessages(conversations.map(conversation => conversation.id))
+      const byConversation = new Map<string, MessageRow[]>()
+      messages.forEach(message => {
+        byConversation.set(message.conversation_id, [...(byConversation.get(message.conversation_id) || []), message])
+      })
+
+      const last = conversations[conversations.length - 1]
+      after = { createdAt: last.created_at, id: last.id }
+      exported += conversations.length
+      yield {
+        conversations: conversations.map(conversation =>
+          toArchivedConversation(conversation, labels, byConversation.get(conversation.id) || [])),
+        cursor: encodeCursor(after),
+        exported,
+        total
+      }
+
+      if (conversations.length < EXPORT_PAGE_SIZE) return
+    }
+  }
+
+  exportNdjson(userId: string, cursor?: string | null, filter: ExportFilter = {}): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    const pages = this.exportPages(userId, cursor, filter)
+    let lastCursor = cursor || null
+    let started = false
+    let exported = 0
+    let total = 0
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { done, value: page } = await pages.next()
+          if (!started) {
+            started = true
+            controller.enqueue(encoder.encode(toLine({
+              type: 'header',
+              version: ARCHIVE_VERSION,
+              exported_at: new Date().toISOString(),
+              total: page?.total ?? 0
+            })))
+          }
+          if (done) {
+            controller.enqueue(encoder.encode(toLine({ type: 'end', exported, total })))
+            controller.close()
+            return
+          }
+
+          exported = page.exported
+          total = page.total
+          lastCursor = page.cursor
+          const lines = page.conversations.map(conversation => toLine({ type: 'conversation', conversation }))
+          lines.push(toLine({ type: 'progress', exported, total, cursor: page.cursor }))
+          controller.enqueue(encoder.encode(lines.join('')))
+        } catch (error) {
+          logError('❌ [ConversationArchive] Export failed:', error)
+          controller.enqueue(encoder.encode(toLine({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Export failed',
+            cursor: lastCursor
+          })))
+          controller.close()
+        }
+      },
+      cancel: async () => {
+        await pages.return(undefined)
+      }
+    })
+  }
+
+  // Attachments stored inline (data URLs) or in the app's storage are copied into the archive
+  private async readAttachment(attachment: Record<string, unknown>): Promise<Uint8Array | null> {
+    const source = attachmentSource(attachment)
+    if (!source) return null
+
+    try {
+      const dataUrl = source.match(/^data:[^;,]*(;base64)?,(.*)$/s)
+      if (dataUrl) {
+        const bytes = dataUrl[1] ? Buffer.from(dataUrl[2], 'base64') : Buffer.from(decodeURIComponent(dataUrl[2]))
+        return bytes.length <= MAX_ATTACHMENT_BYTES ? new Uint8Array(bytes) : null
+      }
+      if (!isStorageUrl(source)) return null
+
+      // Redirects could lead anywhere, so they are not followed (and are not `ok`)
+      const response = await fetch(source, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(ATTACHMENT_FETCH_TIMEOUT_MS)
+      })
+      if (!response.ok) return null
+      const declaredSize = Number(response.headers.get('content-length')) || 0
+      if (declaredSize > MAX_ATTACHMENT_BYTES) return null
+      const bytes = new Uint8Array(await response.arrayBuffer())
+      return bytes.length <= MAX_ATTACHMENT_BYTES ? bytes : null
+    } catch (error) {
+      log('⚠️ [ConversationArchive] Skipping attachment:', error)
+      return null
+    }
+  }
+
+  /**
+   * Zip archive with one NDJSON file per page under conversations/, attachment files under
+   * attachments/<conversation>/<message>/ and a manifest.json written last. Messages point at
+   * their copied files through `archivePath` on each attachment. Attachments linked from other
+   * sites are not downloaded; the manifest lists them under `linked_attachments`.
+   */
+  exportZip(userId: string, cursor?: string | null, filter: ExportFilter = {}): ReadableStream<Uint8Array> {
+    const pages = this.exportPages(userId, cursor, filter)
+
+    return new ReadableStream<Uint8Array>({
+      start: async (controller) => {
+        const zip = new Zip((error, chunk, final) => {
+          if (error) {
+            controller.error(error)
+            return
+          }
+          controller.enqueue(chunk)
+          if (final) controller.close()
+        })
+
+        const addFile = (path: string, data: Uint8Array, compress = true) => {
+          const file = compress ? new ZipDeflate(path, { level: 6 }) : new ZipPassThrough(path)
+          zip.add(file)
+          file.push(data, true)
+        }
+
+        let pageNumber = 0
+        let exported = 0
+        let total = 0
+        let lastCursor = cursor || null
+        let attachmentCount = 0
+        const linkedAttachments: { conversation_id: string; message_id: string; url: string }[] = []
+        let failure: string | null = null
+
+        try {
+          for await (const page of pages) {
+            pageNumber++
+            for (const conversation of page.conversations) {
+              for (const message of conversation.messages) {
+                const attachments = Array.isArray(message.attachments) ? message.attachments as Record<string, unknown>[] : []
+                for (const [index, attachment] of attachments.entries()) {
+                  const source = attachment && typeof attachment === 'object' ? attachmentSource(attachment) : null
+                  if (source && /^https?:\/\//i.test(source) && !isStorageUrl(source)) {
+                    linkedAttachments.push({ conversation_id: conversation.id, message_id: message.id, url: source })
+                    continue
+                  }
+                  const bytes = attachment && typeof attachment === 'object' ? await this.readAttachment(attachment) : null
+                  if (!bytes) continue
+                  const name = safePathSegment(String(attachment.name || attachment.filename || `attachment-${index + 1}`))
+                  const archivePath = `attachments/${conversation.id}/${message.id}/${index + 1}-${name}`
+                  // Already-compressed formats are stored as-is
+                  addFile(archivePath, bytes, !/\.(png|jpe?g|gif|webp|zip|pdf|docx|xlsx|mp3|mp4)$/i.test(name))
+                  attachment.archivePath = archivePath
+                  attachmentCount++
+                }
+              }
+            }
+
+            const lines = page.conversations.map(conversation => toLine({ type: 'conversation', conversation }))
+            addFile(`conversations/page-${String(pageNumber).padStart(5, '0')}.ndjson`, strToU8(lines.join('')))
+            exported = page.exported
+            total = page.total
+            lastCursor = page.cursor
+          }
+        } catch (error) {
+          logError('❌ [ConversationArchive] Zip export failed:', error)
+          failure = error instanceof Error ? error.message : 'Export failed'
+        }
+
+        // The manifest records how far the export got, so a failed archive can be continued
+        addFile('manifest.json', strToU8(JSON.stringify({
+          version: ARCHIVE_VERSION,
+          exported_at: new Date().toISOString(),
+          exported,
+          total,
+          attachments: attachmentCount,
+          linked_attachments: linkedAttachments,
+          cursor: lastCursor,
+          complete: !failure,
+          error: failure
+        }, null, 2)))
+        zip.end()
+      },
+      cancel: async () => {
+        await pages.return(undefined)
+      }
+    })
+  }
+
+  /**
+   * Import archive records, writing conversations in batches of IMPORT_BATCH_SIZE and reporting
+   * a progress record after each batch.
+   */
+  async *importRecords(
+    userId: string,
+    records: AsyncIterable<{ line: number; value?: unknown; error?: string }>
+  ): AsyncGenerator<ImportProgressRecord> {
+    const supabase = await this.getSupabase()
+    const totals: ImportResult & { processed: number } = {
+      processed: 0,
+      importedConversations: 0,
+      importedMessages: 0,
+      skippedDuplicates: 0,
+      failed: 0
+    }
+    let source: ImportFormat = 't3-chat'
+    let batch: unknown[] = []
+
+    const flush = async () => {
+      const { conversations } = parseT3ChatExport({ version: ARCHIVE_VERSION, conversations: batch })
+      batch = []
+      const preview = await buildImportPreview(supabase, userId, { format: source, conversations })
+      const result = await importConversations(supabase, userId, preview)
+      totals.processed += conversations.length
+      totals.importedConversations += result.importedConversations
+      totals.importedMessages += result.importedMessages
+      totals.skippedDuplicates += result.skippedDuplicates
+      // Conversations that failed validation count as failed too
+      totals.failed += result.failed + preview.items.filter(item => item.status === 'invalid').length
+    }
+
+    for await (const record of records) {
+      if (record.error) {
+        yield { type: 'error', error: record.error, line: record.line }
+        continue
+      }
+      const value = record.value as Partial<ArchiveRecord> | undefined
+      if (value?.type === 'header' && value.source) {
+        source = value.source
+      } else if (value?.type === 'conversation' && value.conversation) {
+        batch.push(value.conversation)
+        if (batch.length >= IMPORT_BATCH_SIZE) {
+          await flush()
+          yield { type: 'progress', ...totals }
+        }
+      }
+    }
+
+    if (batch.length > 0) {
+      await flush()
+    }
+    log(`✅ [ConversationArchive] Import finished: ${totals.importedConversations}/${totals.processed} conversations`)
+    yield { type: 'end', ...totals }
+  }
+
+  importNdjson(userId: string, body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder()
+    const progress = this.importRecords(userId, readNdjson(body))
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await progress.next()
+          if (done) {
+            controller.close()
+            return
+          }
+          controller.enqueue(encoder.encode(toLine(value)))
+        } catch (error) {
+          logError('❌ [ConversationArchive] Import failed:', error)
+          controller.enqueue(encoder.encode(toLine({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Import failed'
+          })))
+          controller.close()
+        }
+      },
+      cancel: async () => {
+        await progress.return(undefined)
+      }
+    })
+  }
+}
+
+let conversationArchive: ConversationArchive | null = null
+
+export function getConversationArchive(): ConversationArchive {
+  if (!conversationArchive) {
+    conversationArchive = new ConversationArchive()
+  }
+  return conversationArchive
+}
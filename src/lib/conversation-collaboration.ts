@@ -0,0 +1,210 @@
+import type { Database } from './supabase'
+import type { createServerClient } from './supabase'
+import { generateShareToken } from './conversation-share'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+
+export type CollaboratorRole = 'viewer' | 'editor'
+export type ConversationRole = 'owner' | CollaboratorRole
+
+export type ConversationMember = Database['public']['Tables']['conversation_members']['Row']
+export type ConversationInvite = Database['public']['Tables']['conversation_invites']['Row']
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['viewer', 'editor']
+
+export const COLLABORATOR_ROLE_LABELS: Record<ConversationRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+}
+
+const MAX_INVITE_DAYS = 30
+
+export function isCollaboratorRole(value: unknown): value is CollaboratorRole {
+  return value === 'viewer' || value === 'editor'
+}
+
+// Viewers can read along but not send messages
+export function canEditConversation(role: ConversationRole | null): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+// What each client tracks on the conversation's presence channel
+export interface PresenceParticipant {
+  userId: string
+  name: string
+  avatarUrl?: string | null
+  role: ConversationRole | null
+  typing: boolean
+  onlineAt: string
+}
+
+/**
+ * Flatten a Supabase presence state into one entry per person, excluding the current user.
+ * Someone with several tabs open counts as typing if any of their tabs is.
+ */
+export function participantsFromPresence(
+  state: Record<string, PresenceParticipant[]>,
+  selfId: string | null | undefined
+): PresenceParticipant[] {
+  const byUser = new Map<string, PresenceParticipant>()
+  Object.values(state).flat().forEach(presence => {
+    if (!presence?.userId || presence.userId === selfId) return
+    const existing = byUser.get(presence.userId)
+    byUser.set(presence.userId, existing
+      ? { ...existing, typing: existing.typing || presence.typing }
+      : presence)
+  })
+  return [...byUser.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export class CollaborationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'CollaborationError'
+  }
+}
+
+export async function getConversationRole(
+  supabase: ServerSupabaseClient,
+  conversationId: string
+): Promise<ConversationRole | null> {
+  const { data, error } = await supabase.rpc('conversation_role', { p_conversation_id: conversationId })
+  if (error) throw error
+  return (data as ConversationRole | null) || null
+}
+
+async function requireOwner(supabase: ServerSupabaseClient, conversationId: string): Promise<void> {
+  const role = await getConversationRole(supabase, conversationId)
+  if (!role) throw new CollaborationError('Conversation not found', 404)
+  if (role !== 'owner') throw new CollaborationError('Only the owner can manage collaborators', 403)
+}
+
+export async function listCollaborators(
+  supabase: ServerSupabaseClient,
+  conversationId: string
+): Promise<{ role: ConversationRole; members: ConversationMember[]; invites: ConversationInvite[] }> {
+  const role = await getConversationRole(supabase, conversationId)
+  if (!role) throw new CollaborationError('Conversation not found', 404)
+
+  const { data: members, error } = await supabase
+    .from('conversation_members')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+
+  // Invites are only visible to the owner (RLS); skip the query for everyone else
+  let invites: ConversationInvite[] = []
+  if (role === 'owner') {
+    const { data, error: invitesError } = await supabase
+      .from('conversation_invites')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false })
+    if (invitesError) throw invitesError
+    invites = data || []
+  }
+
+  return { role, members: members || [], invites }
+}
+
+export async function createInvite(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  conversationId: string,
+  options: { role: CollaboratorRole; expiresInDays?: number | null }
+): Promise<ConversationInvite> {
+  const { role, expiresInDays = 7 } = options
+  if (!isCollaboratorRole(role)) {
+    throw new CollaborationError('Role must be viewer or editor', 400)
+  }
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_INVITE_DAYS)) {
+    throw new CollaborationError(`Invites can last between 1 and ${MAX_INVITE_DAYS} days`, 400)
+  }
+  await requireOwner(supabase, conversationId)
+
+  const { data, error } = await supabase
+    .from('conversation_invites')
+    .insert({
+      token: generateShareToken(),
+      conversation_id: conversationId,
+      role,
+      created_by: userId,
+      expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null
+    })
+    .select('*')
+    .single()
+  if (error) throw error
+
+  log(`👥 [Collaboration] Created ${role} invite for ${conversationId}`)
+  return data
+}
+
+export async function revokeInvite(
+  supabase: ServerSupabaseClient,
+  conversationId: string,
+  inviteId: string
+): Promise<void> {
+  await requireOwner(supabase, conversationId)
+  const { error } = await supabase
+    .from('conversation_invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .eq('conversation_id', conversationId)
+  if (error) throw error
+}
+
+export async function updateMemberRole(
+  supabase: ServerSupabaseClient,
+  conversationId: string,
+  memberId: string,
+  role: CollaboratorRole
+): Promise<void> {
+  if (!isCollaboratorRole(role)) {
+    throw new CollaborationError('Role must be viewer or editor', 400)
+  }
+  await requireOwner(supabase, conversationId)
+  const { error } = await supabase
+    .from('conversation_members')
+    .update({ role })
+    .eq('conversation_id', conversationId)
+    .eq('user_id', memberId)
+  if (error) throw error
+}
+
+// Owners remove anyone; members can remove themselves to leave
+export async function removeMember(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  conversationId: string,
+  memberId: string
+): Promise<void> {
+  if (memberId !== userId) {
+    await requireOwner(supabase, conversationId)
+  }
+  const { error } = await supabase
+    .from('conversation_members')
+    .delete()
+    .eq('conversation_id', conversationId)
+    .eq('user_id', memberId)
+  if (error) throw error
+}
+
+// Returns null when the invite does not exist, has expired or was revoked
+export async function acceptInvite(
+  supabase: ServerSupabaseClient,
+  token: string
+): Promise<{ conversationId: string; role: ConversationRole } | null> {
+  const { data, error } = await supabase.rpc('accept_conversation_invite', { p_token: token })
+  if (error) throw error
+  const [accepted] = (data || []) as { conversation_id: string; role: ConversationRole }[]
+  if (!accepted) return null
+
+  log(`👥 [Collaboration] Joined ${accepted.conversation_id} as ${accepted.role}`)
+  return { conversationId: accepted.conversation_id, role: accepted.role }
+}
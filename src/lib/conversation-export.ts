@@ -0,0 +1,369 @@
+import type { Database } from './supabase'
+import { escapeHtml, HIGHLIGHT_CSS, renderMarkdownToHtml } from './markdown-html'
+
+type MessageRow = Database['public']['Tables']['messages']['Row']
+type ConversationRow = Database['public']['Tables']['conversations']['Row']
+
+export enum ConversationExportFormat {
+  MARKDOWN = 'markdown',
+  HTML = 'html',
+  PDF = 'pdf'
+}
+
+export interface ConversationExportOptions {
+  format: ConversationExportFormat
+  // 'active' follows a single root-to-leaf path; 'all' includes every branch
+  branches: 'active' | 'all'
+  // Leaf of the active branch; defaults to the most recent message
+  leafId?: string
+  includeAttachments?: boolean
+  includeReasoning?: boolean
+  includeMetadata?: boolean
+}
+
+export interface ConversationExportResult {
+  content: string
+  mimeType: string
+  fileExtension: string
+  filename: string
+}
+
+export type ExportableConversation = Pick<ConversationRow, 'id' | 'title' | 'created_at'> &
+  Partial<Pick<ConversationRow, 'model_name' | 'model_provider'>>
+
+// One path through the tree. Branches after the first only list messages after their fork point.
+export interface ExportBranch {
+  index: number
+  messages: MessageRow[]
+  forkedFrom: MessageRow | null
+}
+
+interface AttachmentInfo {
+  name: string
+  url?: string
+  type?: string
+}
+
+export function getMessageText(message: MessageRow): string {
+  if (typeof message.content === 'string') return message.content
+  if (message.content && typeof message.content === 'object' && 'text' in message.content) {
+    return String((message.content as { text: unknown }).text ?? '')
+  }
+  return ''
+}
+
+function byBranchOrder(a: MessageRow, b: MessageRow): number {
+  return (a.branch_index - b.branch_index) || a.created_at.localeCompare(b.created_at)
+}
+
+function byCreatedAt(a: MessageRow, b: MessageRow): number {
+  return a.created_at.localeCompare(b.created_at)
+}
+
+/**
+ * Parent of every message in the tree. Only a branch's first message is stored with a parent_id
+ * (and messages written before branching have none), so a message without one continues from the
+ * message before it in time. Parents missing from `messages` make the message a root.
+ */
+function getEffectiveParents(messages: MessageRow[]): Map<string, string | null> {
+  const ids = new Set(messages.map(message => message.id))
+  const parents = new Map<string, string | null>()
+  let previous: MessageRow | null = null
+  for (const message of [...messages].sort(byCreatedAt)) {
+    parents.set(message.id, message.parent_id
+      ? (ids.has(message.parent_id) ? message.parent_id : null)
+      : previous?.id ?? null)
+    previous = message
+  }
+  return parents
+}
+
+function buildChildrenMap(messages: MessageRow[], parents: Map<string, string | null>): Map<string | null, MessageRow[]> {
+  const children = new Map<string | null, MessageRow[]>()
+  messages.forEach(message => {
+    const parentId = parents.get(message.id) ?? null
+    children.set(parentId, [...(children.get(parentId) || []), message])
+  })
+  children.forEach(siblings => siblings.sort(byBranchOrder))
+  return children
+}
+
+/** Root-to-leaf path ending at `leafId`, or at the newest message when no leaf is given */
+export function getActiveBranch(messages: MessageRow[], leafId?: string): MessageRow[] {
+  if (messages.length === 0) return []
+
+  const parents = getEffectiveParents(messages)
+  const byId = new Map(messages.map(message => [message.id, message]))
+  const leaf = (leafId && byId.get(leafId)) ||
+    messages.reduce((latest, message) => message.created_at > latest.created_at ? message : latest)
+
+  const path: MessageRow[] = []
+  const seen = new Set<string>()
+  let current: MessageRow | undefined = leaf
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    path.unshift(current)
+    const parentId = parents.get(current.id)
+    current = parentId ? byId.get(parentId) : undefined
+  }
+  return path
+}
+
+// Every root-to-leaf path, depth first in branch_index order
+export function getAllBranches(messages: MessageRow[]): ExportBranch[] {
+  const children = buildChildrenMap(messages, getEffectiveParents(messages))
+  const branches: ExportBranch[] = []
+  const walk = (message: MessageRow, pending: MessageRow[], forkedFrom: MessageRow | null) => {
+    const path = [...pending, message]
+    const next = children.get(message.id) || []
+    if (next.length === 0) {
+      branches.push({ index: branches.length + 1, messages: path, forkedFrom })
+      return
+    }
+    next.forEach((child, i) => i === 0 ? walk(child, path, forkedFrom) : walk(child, [], message))
+  }
+  const roots = children.get(null) || []
+  roots.forEach(root => walk(root, [], null))
+  return branches
+}
+
+function getAttachments(message: MessageRow): AttachmentInfo[] {
+  const raw = message.attachments as unknown
+  const list = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object' && Array.isArray((raw as { files?: unknown }).files)
+      ? (raw as { files: unknown[] }).files
+      : []
+  return list
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map(item => ({
+      name: String(item.name || item.filename || item.file_name || 'attachment'),
+      url: typeof item.url === 'string' ? item.url : undefined,
+      type: typeof item.type === 'string' ? item.type : typeof item.contentType === 'string' ? item.contentType : undefined
+    }))
+}
+
+interface MessageMetadata {
+  model?: string
+  usage?: { totalTokens?: number }
+  cost?: { total?: number }
+  latencyMs?: number
+}
+
+function describeMetadata(message: MessageRow): string | null {
+  const metadata = message.model_metadata as MessageMetadata | null
+  if (!metadata || message.role !== 'assistant') return null
+  const parts = [
+    metadata.model,
+    metadata.usage?.totalTokens ? `${metadata.usage.totalTokens.toLocaleString('en-US')} tokens` : null,
+    typeof metadata.cost?.total === 'number' ? `$${metadata.cost.total.toFixed(4)}` : null,
+    metadata.latencyMs ? `${(metadata.latencyMs / 1000).toFixed(1)}s` : null
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(' · ') : null
+}
+
+function getTotals(messages: MessageRow[]) {
+  return messages.reduce((totals, message) => {
+    const metadata = message.model_metadata as MessageMetadata | null
+    totals.tokens += metadata?.usage?.totalTokens || 0
+    totals.cost += metadata?.cost?.total || 0
+    return totals
+  }, { tokens: 0, cost: 0 })
+}
+
+const ROLE_LABELS: Record<MessageRow['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System'
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation'
+}
+
+function excerpt(message: MessageRow, length = 80): string {
+  const text = getMessageText(message).replace(/\s+/g, ' ').trim()
+  return text.length > length ? `${text.slice(0, length)}…` : text
+}
+
+export class ConversationExporter {
+  static async format(
+    conversation: ExportableConversation,
+    messages: MessageRow[],
+    options: ConversationExportOptions
+  ): Promise<ConversationExportResult> {
+    const branches = options.branches === 'all'
+      ? getAllBranches(messages)
+      : [{ index: 1, messages: getActiveBranch(messages, options.leafId), forkedFrom: null }]
+    const baseFilename = `${slugify(conversation.title || 'conversation')}-${new Date().toISOString().split('T')[0]}`
+
+    switch (options.format) {
+      case ConversationExportFormat.MARKDOWN:
+        return {
+          content: this.toMarkdown(conversation, branches, options),
+          mimeType: 'text/markdown',
+          fileExtension: 'md',
+          filename: `${baseFilename}.md`
+        }
+      case ConversationExportFormat.HTML:
+      case ConversationExportFormat.PDF:
+        // PDF is the same document with print styles; the browser's print dialog saves it
+        return {
+          content: await this.toHtml(conversation, branches, options),
+          mimeType: 'text/html',
+          fileExtension: 'html',
+          filename: `${baseFilename}.html`
+        }
+      default:
+        throw new Error(`Unsupported export format: ${options.format}`)
+    }
+  }
+
+  // Role headings match the Markdown transcript importer, so exports can be imported again
+  static toMarkdown(
+    conversation: ExportableConversation,
+    branches: ExportBranch[],
+    options: ConversationExportOptions
+  ): string {
+    const lines: string[] = [`# ${conversation.title || 'Untitled conversation'}`, '']
+    const allMessages = branches.flatMap(branch => branch.messages)
+
+    lines.push(`_Exported ${new Date().toLocaleString()} · started ${new Date(conversation.created_at).toLocaleString()}_`)
+    if (options.includeMetadata) {
+      const totals = getTotals(allMessages)
+      lines.push('', `_${allMessages.length} messages · ${totals.tokens.toLocaleString('en-US')} tokens · $${totals.cost.toFixed(4)}_`)
+    }
+    lines.push('')
+
+    branches.forEach(branch => {
+      if (branches.length > 1) {
+        lines.push('---', '', `**Branch ${branch.index} of ${branches.length}**`)
+        if (branch.forkedFrom) {
+          lines.push('', `_Continues after: "${excerpt(branch.forkedFrom)}"_`)
+        }
+        lines.push('')
+      }
+
+      branch.messages.forEach(message => {
+        const metadata = options.includeMetadata ? describeMetadata(message) : null
+        lines.push(`## ${ROLE_LABELS[message.role]}${metadata ? ` (${metadata})` : ''}`, '')
+
+        if (options.includeReasoning && message.reasoning) {
+          lines.push('<details>', '<summary>Reasoning</summary>', '', message.reasoning.trim(), '', '</details>', '')
+        }
+
+        lines.push(getMessageText(message).trim(), '')
+
+        const attachments = options.includeAttachments ? getAttachments(message) : []
+        if (attachments.length > 0) {
+          lines.push('**Attachments:**', ...attachments.map(file => file.url ? `- [${file.name}](${file.url})` : `- ${file.name}`), '')
+        }
+      })
+    })
+
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n'
+  }
+
+  static async toHtml(
+    conversation: ExportableConversation,
+    branches: ExportBranch[],
+    options: ConversationExportOptions
+  ): Promise<string> {
+    const title = escapeHtml(conversation.title || 'Untitled conversation')
+    const allMessages = branches.flatMap(branch => branch.messages)
+    const sections: string[] = []
+
+    for (const branch of branches) {
+      const parts: string[] = []
+      if (branches.length > 1) {
+        parts.push(`<h2 class="branch">Branch ${branch.index} of ${branches.length}</h2>`)
+        if (branch.forkedFrom) {
+          parts.push(`<p class="fork">Continues after: “${escapeHtml(excerpt(branch.forkedFrom))}”</p>`)
+        }
+      }
+
+      for (const message of branch.messages) {
+        const metadata = options.includeMetadata ? describeMetadata(message) : null
+        const attachments = options.includeAttachments ? getAttachments(message) : []
+        const reasoning = options.includeReasoning && message.reasoning
+          ? `<details class="reasoning"${options.format === ConversationExportFormat.PDF ? ' open' : ''}><summary>Reasoning</summary>${await renderMarkdownToHtml(message.reasoning)}</details>`
+          : ''
+        const attachmentList = attachments.length > 0
+          ? `<ul class="attachments">${attachments.map(file => `<li>📎 ${file.url
+            ? `<a href="${escapeHtml(file.url)}">${escapeHtml(file.name)}</a>`
+            : escapeHtml(file.name)}</li>`).join('')}</ul>`
+          : ''
+
+        parts.push(`<article class="message ${message.role}">
+<header><strong>${ROLE_LABELS[message.role]}</strong>${metadata ? `<span class="meta">${escapeHtml(metadata)}</span>` : ''}<time>${escapeHtml(new Date(message.created_at).toLocaleString())}</time></header>
+${reasoning}<div class="content">${await renderMarkdownToHtml(getMessageText(message))}</div>${attachmentList}
+</article>`)
+      }
+      sections.push(`<section>${parts.join('\n')}</section>`)
+    }
+
+    const totals = getTotals(allMessages)
+    const summary = options.includeMetadata
+      ? ` · ${allMessages.length} messages · ${totals.tokens.toLocaleString('en-US')} tokens · $${totals.cost.toFixed(4)}`
+      : ''
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; line-height: 1.6; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #0f172a; background: #fff; }
+h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+.subtitle, .fork, time, .meta { color: #64748b; font-size: 0.85rem; }
+.message { border-top: 1px solid #e2e8f0; padding: 1rem 0; break-inside: avoid-page; }
+.message header { display: flex; gap: 0.75rem; align-items: baseline; margin-bottom: 0.5rem; }
+.message header time { margin-left: auto; }
+.message.user strong { color: #2563eb; }
+.message.system { font-style: italic; color: #475569; }
+.branch { font-size: 1.1rem; margin-top: 2rem; padding-top: 1rem; border-top: 3px double #cbd5e1; }
+.reasoning { background: #f8fafc; border-left: 3px solid #a78bfa; padding: 0.25rem 0.75rem; margin-bottom: 0.75rem; font-size: 0.9rem; color: #475569; }
+.reasoning summary { cursor: pointer; font-weight: 600; }
+.attachments { list-style: none; padding: 0; font-size: 0.85rem; }
+pre { overflow-x: auto; border-radius: 6px; }
+pre code.hljs { display: block; padding: 0.75rem 1rem; font-size: 0.85rem; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+:not(pre) > code { background: #f1f5f9; padding: 0.1rem 0.3rem; border-radius: 4px; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #e2e8f0; padding: 0.25rem 0.5rem; }
+@media (prefers-color-scheme: dark) {
+  body { color: #e2e8f0; background: #0f172a; }
+  .message { border-color: #1e293b; }
+  .reasoning { background: #1e293b; color: #cbd5e1; }
+  :not(pre) > code { background: #1e293b; }
+}
+@page { size: A4; margin: 18mm 16mm; }
+@media print {
+  body { max-width: none; margin: 0; color: #000; background: #fff; font-size: 11pt; }
+  pre, pre code.hljs { white-space: pre-wrap; word-break: break-word; }
+  .branch { break-before: page; }
+  a { color: inherit; }
+}
+${HIGHLIGHT_CSS}
+@media print { .hljs { background: #f6f8fa; color: #24292e; } }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="subtitle">Started ${escapeHtml(new Date(conversation.created_at).toLocaleString())}${escapeHtml(summary)}</p>
+${sections.join('\n')}
+</body>
+</html>
+`
+  }
+
+  static getFormatDescription(format: ConversationExportFormat): string {
+    const descriptions: Record<ConversationExportFormat, string> = {
+      [ConversationExportFormat.MARKDOWN]: 'Plain Markdown with one heading per message. Can be imported back into T3 Chat.',
+      [ConversationExportFormat.HTML]: 'A single self-contained web page with syntax-highlighted code blocks.',
+      [ConversationExportFormat.PDF]: 'Opens a print-ready layout in the print dialog. Choose "Save as PDF" as the destination.'
+    }
+    return descriptions[format]
+  }
+}
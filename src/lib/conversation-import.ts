@@ -0,0 +1,629 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+export type ImportFormat = 't3-chat' | 'chatgpt' | 'claude' | 'markdown'
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  't3-chat': 'T3 Chat export',
+  chatgpt: 'ChatGPT export',
+  claude: 'Claude.ai export',
+  markdown: 'Markdown transcript'
+}
+
+type ImportRole = 'user' | 'assistant' | 'system'
+
+export interface ImportedMessage {
+  // Id in the source file; parentSourceId points at another message of the same conversation
+  sourceId: string
+  parentSourceId: string | null
+  role: ImportRole
+  text: string
+  createdAt?: string
+  reasoning?: string
+  modelMetadata?: Record<string, unknown> | null
+  attachments?: unknown
+}
+
+export interface ImportedConversation {
+  sourceId?: string
+  title: string
+  createdAt?: string
+  updatedAt?: string
+  modelProvider?: string
+  modelName?: string
+  systemPrompt?: string | null
+  // Per-conversation sampling settings, carried over from T3 Chat exports
+  generationSettings?: {
+    temperature?: number | null
+    top_p?: number | null
+    max_output_tokens?: number | null
+    stop_sequences?: string[] | null
+  }
+  // Ordered so that every parent comes before its children
+  messages: ImportedMessage[]
+  // Non-fatal problems, e.g. skipped tool calls or images
+  warnings: string[]
+}
+
+export type ImportStatus = 'new' | 'duplicate' | 'invalid'
+
+export interface ImportPreviewItem {
+  conversation: ImportedConversation
+  contentHash: string
+  status: ImportStatus
+  branchCount: number
+  issues: string[]
+}
+
+export interface ImportPreview {
+  format: ImportFormat
+  items: ImportPreviewItem[]
+  preferences?: Record<string, unknown> | null
+}
+
+export interface ImportResult {
+  importedConversations: number
+  importedMessages: number
+  skippedDuplicates: number
+  failed: number
+}
+
+export class ImportValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportValidationError'
+  }
+}
+
+// Claude.ai marks the first message of a conversation with this all-zero parent
+const CLAUDE_ROOT_PARENT = '00000000-0000-4000-8000-000000000000'
+
+const ROLE_LABELS: Record<string, ImportRole> = {
+  user: 'user',
+  you: 'user',
+  human: 'user',
+  me: 'user',
+  assistant: 'assistant',
+  ai: 'assistant',
+  chatgpt: 'assistant',
+  claude: 'assistant',
+  gemini: 'assistant',
+  bot: 'assistant',
+  model: 'assistant',
+  system: 'system'
+}
+
+type JsonRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+// ChatGPT stores times as unix seconds, everyone else as ISO strings
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value * 1000).toISOString()
+  }
+  if (typeof value === 'string' && !Number.isNaN(Date.parse(value))) {
+    return new Date(value).toISOString()
+  }
+  return undefined
+}
+
+function messageText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (isRecord(content) && typeof content.text === 'string') return content.text
+  return ''
+}
+
+/**
+ * Work out which exporter produced a file. JSON files are recognised by their shape; anything
+ * else is treated as a Markdown transcript.
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const trimmed = text.trimStart()
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    if (/\.json$/i.test(fileName)) {
+      throw new ImportValidationError('File is not valid JSON')
+    }
+    return 'markdown'
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(trimmed)
+  } catch {
+    throw new ImportValidationError('File is not valid JSON')
+  }
+
+  if (isRecord(data) && data.version && Array.isArray(data.conversations)) return 't3-chat'
+  const first = Array.isArray(data) ? data[0] : data
+  if (isRecord(first) && isRecord(first.mapping)) return 'chatgpt'
+  if (isRecord(first) && Array.isArray(first.chat_messages)) return 'claude'
+  throw new ImportValidationError('Unrecognised export format. Supported: T3 Chat, ChatGPT, Claude.ai and Markdown.')
+}
+
+function chatGptMessageText(message: JsonRecord): { text: string; skippedMedia: boolean } {
+  const content = isRecord(message.content) ? message.content : {}
+  const contentType = asString(content.content_type)
+  if (contentType === 'code' && typeof content.text === 'string') {
+    return { text: `\`\`\`\n${content.text}\n\`\`\``, skippedMedia: false }
+  }
+  if (contentType !== 'text' && contentType !== 'multimodal_text') {
+    return { text: '', skippedMedia: false }
+  }
+
+  const parts = Array.isArray(content.parts) ? content.parts : []
+  const text = parts.filter((part): part is string => typeof part === 'string').join('\n')
+  return { text, skippedMedia: parts.some(part => typeof part !== 'string') }
+}
+
+/**
+ * ChatGPT `conversations.json`. Each conversation is a `mapping` tree of nodes; regenerated
+ * answers and edited prompts are sibling nodes, which become sibling branches here. Hidden,
+ * empty and tool nodes are dropped and their children re-attached to the nearest kept ancestor.
+ */
+export function parseChatGptExport(data: unknown): ImportedConversation[] {
+  const exported = Array.isArray(data) ? data : [data]
+  return exported.filter(isRecord).map((conversation, index) => {
+    const mapping = isRecord(conversation.mapping) ? conversation.mapping : {}
+    const warnings: string[] = []
+    const messages: ImportedMessage[] = []
+    let skippedTools = 0
+    let skippedMedia = 0
+    let modelName: string | undefined = asString(conversation.default_model_slug)
+
+    const visit = (nodeId: string, keptParent: string | null, seen: Set<string>) => {
+      if (seen.has(nodeId)) return
+      seen.add(nodeId)
+      const node = mapping[nodeId]
+      if (!isRecord(node)) return
+
+      let parentForChildren = keptParent
+      const message = isRecord(node.message) ? node.message : undefined
+      if (message) {
+        const author = isRecord(message.author) ? message.author : {}
+        const role = asString(author.role)
+        const metadata = isRecord(message.metadata) ? message.metadata : {}
+        const { text, skippedMedia: hadMedia } = chatGptMessageText(message)
+        if (hadMedia) skippedMedia++
+
+        if (role === 'tool') {
+          skippedTools++
+        } else if ((role === 'user' || role === 'assistant' || role === 'system') &&
+          text.trim() && !metadata.is_visually_hidden_from_conversation) {
+          const model = asString(metadata.model_slug)
+          if (model) modelName = model
+          messages.push({
+            sourceId: nodeId,
+            parentSourceId: keptParent,
+            role,
+            text,
+            createdAt: toIsoDate(message.create_time),
+            modelMetadata: model ? { model, provider: 'openai', imported: true } : null
+          })
+          parentForChildren = nodeId
+        }
+      }
+
+      const children = Array.isArray(node.children) ? node.children : []
+      children.forEach(childId => {
+        if (typeof childId === 'string') visit(childId, parentForChildren, seen)
+      })
+    }
+
+    const seen = new Set<string>()
+    Object.entries(mapping)
+      .filter(([, node]) => isRecord(node) && (!node.parent || !(String(node.parent) in mapping)))
+      .forEach(([nodeId]) => visit(nodeId, null, seen))
+
+    if (skippedTools > 0) warnings.push(`${skippedTools} tool messages were skipped`)
+    if (skippedMedia > 0) warnings.push(`${skippedMedia} messages contained images or files that were not imported`)
+
+    return {
+      sourceId: asString(conversation.conversation_id) || asString(conversation.id),
+      title: asString(conversation.title)?.trim() || `ChatGPT conversation ${index + 1}`,
+      createdAt: toIsoDate(conversation.create_time),
+      updatedAt: toIsoDate(conversation.update_time),
+      modelProvider: 'openai',
+      modelName,
+      messages,
+      warnings
+    }
+  })
+}
+
+function claudeMessageText(message: JsonRecord): string {
+  const blocks = Array.isArray(message.content) ? message.content.filter(isRecord) : []
+  const text = blocks
+    .filter(block => block.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text as string)
+    .join('\n\n')
+  return text || asString(message.text) || ''
+}
+
+/**
+ * Claude.ai `conversations.json`. Messages are listed in order; newer exports also carry
+ * `parent_message_uuid`, which is used to keep edited and retried turns as branches. Empty turns
+ * are skipped and their replies re-attached to the nearest kept ancestor.
+ */
+export function parseClaudeExport(data: unknown): ImportedConversation[] {
+  const exported = Array.isArray(data) ? data : [data]
+  return exported.filter(isRecord).map((conversation, index) => {
+    const chatMessages = Array.isArray(conversation.chat_messages) ? conversation.chat_messages.filter(isRecord) : []
+    const ids = new Set(chatMessages.map(message => asString(message.uuid)).filter(Boolean))
+    const warnings: string[] = []
+    const messages: ImportedMessage[] = []
+    const skipped = new Map<string, string | null>()
+    let attachmentCount = 0
+    let previousId: string | null = null
+
+    chatMessages.forEach((message, position) => {
+      const sourceId = asString(message.uuid) || `message-${position}`
+      const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : undefined
+      const text = claudeMessageText(message)
+      const files = [
+        ...(Array.isArray(message.attachments) ? message.attachments : []),
+        ...(Array.isArray(message.files) ? message.files : [])
+      ]
+      attachmentCount += files.length
+
+      const declaredParent = asString(message.parent_message_uuid)
+      const parentSourceId = declaredParent && declaredParent !== CLAUDE_ROOT_PARENT && ids.has(declaredParent)
+        ? declaredParent
+        : declaredParent === CLAUDE_ROOT_PARENT ? null : previousId
+      if (!role || !text.trim()) {
+        skipped.set(sourceId, parentSourceId)
+        return
+      }
+      messages.push({
+        sourceId,
+        parentSourceId,
+        role,
+        text,
+        createdAt: toIsoDate(message.created_at)
+      })
+      previousId = sourceId
+    })
+
+    if (attachmentCount > 0) warnings.push(`${attachmentCount} attachments were not imported`)
+
+    return {
+      sourceId: asString(conversation.uuid),
+      title: asString(conversation.name)?.trim() || `Claude conversation ${index + 1}`,
+      createdAt: toIsoDate(conversation.created_at),
+      updatedAt: toIsoDate(conversation.updated_at),
+      modelProvider: 'anthropic',
+      modelName: asString(conversation.model),
+      messages: orderParentsFirst(reattachToKeptAncestors(messages, skipped)),
+      warnings
+    }
+  })
+}
+
+// Our own `version: '1.0'` export, which already carries parent_id and branch_index
+export function parseT3ChatExport(data: unknown): { conversations: ImportedConversation[]; preferences: JsonRecord | null } {
+  if (!isRecord(data) || !Array.isArray(data.conversations)) {
+    throw new ImportValidationError('Invalid T3 Chat export: missing conversations')
+  }
+
+  const conversations = data.conversations.filter(isRecord).map((conversation, index) => {
+    const rows = (Array.isArray(conversation.messages) ? conversation.messages.filter(isRecord) : [])
+      .slice()
+      .sort((a, b) => Number(a.branch_index ?? 0) - Number(b.branch_index ?? 0))
+    const ids = new Set(rows.map(row => asString(row.id)).filter(Boolean))
+    const parsed: ImportedMessage[] = rows
+      .map((row, position) => {
+        const parentId = asString(row.parent_id)
+        return {
+          sourceId: asString(row.id) || `message-${position}`,
+          parentSourceId: parentId && ids.has(parentId) ? parentId : null,
+          role: row.role as ImportRole,
+          text: messageText(row.content),
+          createdAt: toIsoDate(row.created_at),
+          reasoning: asString(row.reasoning),
+          modelMetadata: isRecord(row.model_metadata) ? row.model_metadata : null,
+          attachments: row.attachments ?? null
+        }
+      })
+    const isKept = (message: ImportedMessage) =>
+      ['user', 'assistant', 'system'].includes(message.role) && !!message.text.trim()
+    const skipped = new Map(parsed
+      .filter(message => !isKept(message))
+      .map(message => [message.sourceId, message.parentSourceId] as const))
+    const messages = reattachToKeptAncestors(parsed.filter(isKept), skipped)
+
+    return {
+      sourceId: asString(conversation.id),
+      title: asString(conversation.title)?.trim() || `Imported conversation ${index + 1}`,
+      createdAt: toIsoDate(conversation.created_at),
+      updatedAt: toIsoDate(conversation.updated_at),
+      modelProvider: asString(conversation.model_provider),
+      modelName: asString(conversation.model_name),
+      systemPrompt: asString(conversation.system_prompt) ?? null,
+      generationSettings: {
+        temperature: typeof conversation.temperature === 'number' ? conversation.temperature : null,
+        top_p: typeof conversation.top_p === 'number' ? conversation.top_p : null,
+        max_output_tokens: typeof conversation.max_output_tokens === 'number' ? conversation.max_output_tokens : null,
+        stop_sequences: Array.isArray(conversation.stop_sequences)
+          ? conversation.stop_sequences.filter((sequence): sequence is string => typeof sequence === 'string')
+          : null
+      },
+      messages: orderParentsFirst(messages),
+      warnings: []
+    }
+  })
+
+  const user = isRecord(data.user) ? data.user : {}
+  return { conversations, preferences: isRecord(user.preferences) ? user.preferences : null }
+}
+
+/**
+ * Generic Markdown transcript: an optional `# Title`, then one section per turn introduced by a
+ * role heading (`## User`, `### Assistant`) or a bold label (`**User:**`). Turns form one thread.
+ */
+export function parseMarkdownTranscript(text: string, fileName = 'transcript.md'): ImportedConversation[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const titleLine = lines.find(line => /^#\s+\S/.test(line))
+  const messages: ImportedMessage[] = []
+  let current: { role: ImportRole; lines: string[] } | null = null
+
+  const flush = () => {
+    if (!current) return
+    // Drop the horizontal rule many exporters put between turns
+    const body = current.lines.join('\n').replace(/\n-{3,}\s*$/, '').trim()
+    if (body) {
+      const sourceId = `turn-${messages.length}`
+      messages.push({
+        sourceId,
+        parentSourceId: messages.length > 0 ? messages[messages.length - 1].sourceId : null,
+        role: current.role,
+        text: body
+      })
+    }
+    current = null
+  }
+
+  let inFence = false
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence
+    const heading = inFence ? null : line.match(/^#{2,3}\s+\**([A-Za-z]+)\**\s*:?\s*(?:\(.*\))?\s*$/)
+    const label = inFence ? null : line.match(/^\*\*([A-Za-z]+):?\*\*:?\s*(.*)$/)
+    const role = ROLE_LABELS[(heading?.[1] || label?.[1] || '').toLowerCase()]
+    if (role) {
+      flush()
+      current = { role, lines: label?.[2] ? [label[2]] : [] }
+    } else if (current) {
+      current.lines.push(line)
+    }
+  }
+  flush()
+
+  if (messages.length === 0) {
+    throw new ImportValidationError('No messages found. Start each turn with a heading such as "## User" or "## Assistant".')
+  }
+
+  return [{
+    title: titleLine?.replace(/^#\s+/, '').trim() || fileName.replace(/\.(md|markdown|txt)$/i, ''),
+    messages,
+    warnings: []
+  }]
+}
+
+/**
+ * Point messages whose parent was skipped (empty, tool or unknown role) at the nearest ancestor
+ * that was kept, so skipping a message doesn't drop its replies. `skipped` maps each skipped
+ * message to its own parent.
+ */
+function reattachToKeptAncestors(messages: ImportedMessage[], skipped: Map<string, string | null>): ImportedMessage[] {
+  if (skipped.size === 0) return messages
+  return messages.map(message => {
+    let parentSourceId = message.parentSourceId
+    const visited = new Set<string>()
+    while (parentSourceId && skipped.has(parentSourceId) && !visited.has(parentSourceId)) {
+      visited.add(parentSourceId)
+      parentSourceId = skipped.get(parentSourceId) ?? null
+    }
+    return parentSourceId === message.parentSourceId
+      ? message
+      : { ...message, parentSourceId: parentSourceId && skipped.has(parentSourceId) ? null : parentSourceId }
+  })
+}
+
+// Parents must be inserted before their children; sources don't always list them that way
+function orderParentsFirst(messages: ImportedMessage[]): ImportedMessage[] {
+  const byParent = new Map<string | null, ImportedMessage[]>()
+  messages.forEach(message => {
+    const siblings = byParent.get(message.parentSourceId) || []
+    siblings.push(message)
+    byParent.set(message.parentSourceId, siblings)
+  })
+
+  const ordered: ImportedMessage[] = []
+  const visit = (parentId: string | null) => {
+    for (const message of byParent.get(parentId) || []) {
+      ordered.push(message)
+      visit(message.sourceId)
+    }
+  }
+  visit(null)
+  return ordered
+}
+
+export function parseImportFile(fileName: string, text: string): { format: ImportFormat; conversations: ImportedConversation[]; preferences?: JsonRecord | null } {
+  const format = detectImportFormat(fileName, text)
+  switch (format) {
+    case 'markdown':
+      return { format, conversations: parseMarkdownTranscript(text, fileName) }
+    case 'chatgpt':
+      return { format, conversations: parseChatGptExport(JSON.parse(text)) }
+    case 'claude':
+      return { format, conversations: parseClaudeExport(JSON.parse(text)) }
+    case 't3-chat':
+      return { format, ...parseT3ChatExport(JSON.parse(text)) }
+  }
+}
+
+/**
+ * SHA-256 over the normalised role and text of every message, in tree order. Titles and
+ * timestamps are left out so the same conversation hashes equally across re-exports.
+ */
+export async function hashConversation(conversation: ImportedConversation): Promise<string> {
+  const canonical = JSON.stringify(conversation.messages.map(message => [
+    message.role,
+    message.text.replace(/\r\n?/g, '\n').trim()
+  ]))
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function countBranches(messages: ImportedMessage[]): number {
+  const childCounts = new Map<string | null, number>()
+  messages.forEach(message => childCounts.set(message.parentSourceId, (childCounts.get(message.parentSourceId) || 0) + 1))
+  // A conversation with no forks has exactly one branch
+  return 1 + Array.from(childCounts.values()).reduce((sum, count) => sum + Math.max(0, count - 1), 0)
+}
+
+function validateConversation(conversation: ImportedConversation): string[] {
+  const issues: string[] = []
+  if (conversation.messages.length === 0) {
+    issues.push('No importable messages')
+  }
+  const ids = new Set<string>()
+  for (const message of conversation.messages) {
+    if (ids.has(message.sourceId)) {
+      issues.push(`Duplicate message id ${message.sourceId}`)
+      break
+    }
+    if (message.parentSourceId && !ids.has(message.parentSourceId)) {
+      issues.push(`Message ${message.sourceId} references a missing parent`)
+      break
+    }
+    ids.add(message.sourceId)
+  }
+  return issues
+}
+
+/**
+ * Dry run: validate every parsed conversation and flag the ones already imported for this user
+ * (or repeated within the file) by content hash. Nothing is written.
+ */
+export async function buildImportPreview(
+  supabase: SupabaseClient,
+  userId: string,
+  parsed: ReturnType<typeof parseImportFile>
+): Promise<ImportPreview> {
+  const hashes = await Promise.all(parsed.conversations.map(hashConversation))
+
+  const existing = new Set<string>()
+  const uniqueHashes = Array.from(new Set(hashes))
+  if (uniqueHashes.length > 0) {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('import_hash')
+      .eq('user_id', userId)
+      .in('import_hash', uniqueHashes)
+    if (error) {
+      logError('❌ [ConversationImport] Duplicate lookup failed:', error)
+      throw error
+    }
+    data?.forEach((row: { import_hash: string | null }) => row.import_hash && existing.add(row.import_hash))
+  }
+
+  const seenInFile = new Set<string>()
+  const items = parsed.conversations.map((conversation, index): ImportPreviewItem => {
+    const contentHash = hashes[index]
+    const issues = validateConversation(conversation)
+    let status: ImportStatus = 'new'
+    if (issues.length > 0) {
+      status = 'invalid'
+    } else if (existing.has(contentHash) || seenInFile.has(contentHash)) {
+      status = 'duplicate'
+    }
+    seenInFile.add(contentHash)
+    return { conversation, contentHash, status, branchCount: countBranches(conversation.messages), issues }
+  })
+
+  log(`🔍 [ConversationImport] Preview: ${items.filter(item => item.status === 'new').length}/${items.length} new (${parsed.format})`)
+  return { format: parsed.format, items, preferences: parsed.preferences }
+}
+
+/**
+ * Write the conversations marked `new` in a preview. Message ids are generated up front so the
+ * source tree maps directly onto parent_id, with branch_index numbering siblings in source order.
+ * Each conversation is written by the import_conversation function, so it lands completely or not at all.
+ */
+export async function importConversations(
+  supabase: SupabaseClient,
+  userId: string,
+  preview: ImportPreview
+): Promise<ImportResult> {
+  const result: ImportResult = { importedConversations: 0, importedMessages: 0, skippedDuplicates: 0, failed: 0 }
+
+  for (const item of preview.items) {
+    if (item.status === 'duplicate') {
+      result.skippedDuplicates++
+      continue
+    }
+    if (item.status !== 'new') continue
+
+    const { conversation } = item
+    const conversationId = globalThis.crypto.randomUUID()
+    const idMap = new Map(conversation.messages.map(message => [message.sourceId, globalThis.crypto.randomUUID()]))
+    const siblingCounts = new Map<string | null, number>()
+    const fallbackTime = Date.parse(conversation.createdAt || '') || Date.now()
+    const rows = conversation.messages.map((message, position) => {
+      const branchIndex = siblingCounts.get(message.parentSourceId) || 0
+      siblingCounts.set(message.parentSourceId, branchIndex + 1)
+      return {
+        id: idMap.get(message.sourceId),
+        conversation_id: conversationId,
+        parent_id: message.parentSourceId ? idMap.get(message.parentSourceId) ?? null : null,
+        role: message.role,
+        content: { text: message.text },
+        reasoning: message.reasoning ?? null,
+        model_metadata: message.modelMetadata ?? null,
+        attachments: message.attachments ?? null,
+        branch_index: branchIndex,
+        // Messages without timestamps keep their source order
+        created_at: message.createdAt || new Date(fallbackTime + position).toISOString()
+      }
+    })
+
+    const { error } = await supabase.rpc('import_conversation', {
+      p_conversation: {
+        id: conversationId,
+        user_id: userId,
+        title: conversation.title,
+        model_provider: conversation.modelProvider || 'openai',
+        model_name: conversation.modelName || 'gpt-4',
+        system_prompt: conversation.systemPrompt ?? null,
+        ...conversation.generationSettings,
+        import_hash: item.contentHash,
+        import_source: preview.format,
+        created_at: conversation.createdAt ?? null,
+        updated_at: conversation.updatedAt || conversation.createdAt || null
+      },
+      p_messages: rows
+    })
+
+    if (error) {
+      logError('❌ [ConversationImport] Failed to import conversation:', error)
+      result.failed++
+      continue
+    }
+
+    result.importedConversations++
+    result.importedMessages += rows.length
+  }
+
+  log(`✅ [ConversationImport] Imported ${result.importedConversations} conversations, ${result.importedMessages} messages`)
+  return result
+}
@@ -0,0 +1,133 @@
+import type { Database } from './supabase'
+
+type ConversationRow = Database['public']['Tables']['conversations']['Row']
+type OrganizationRow = Database['public']['Tables']['conversation_organization']['Row']
+type TagAssignmentRow = Database['public']['Tables']['conversation_tag_assignments']['Row']
+
+export type ConversationFolder = Database['public']['Tables']['conversation_folders']['Row']
+export type ConversationTag = Database['public']['Tables']['conversation_tags']['Row']
+
+// Where one conversation sits in the current user's sidebar
+export interface ConversationOrganization {
+  folderId: string | null
+  pinned: boolean
+  archived: boolean
+  tagIds: string[]
+}
+
+export const UNORGANIZED: ConversationOrganization = {
+  folderId: null,
+  pinned: false,
+  archived: false,
+  tagIds: []
+}
+
+// Tailwind-safe class names for each tag color
+export const TAG_COLORS: Record<string, string> = {
+  slate: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  green: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  red: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  purple: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300'
+}
+
+const MAX_LABEL_LENGTH = 50
+
+export class ConversationOrganizationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'ConversationOrganizationError'
+  }
+}
+
+/** Trim and validate a folder or tag name, rejecting duplicates of `existing` (case-insensitive) */
+export function normalizeLabelName(name: string, existing: { name: string }[] = []): string {
+  const normalized = name.trim().replace(/\s+/g, ' ')
+  if (!normalized) {
+    throw new ConversationOrganizationError('Name cannot be empty', 400)
+  }
+  if (normalized.length > MAX_LABEL_LENGTH) {
+    throw new ConversationOrganizationError(`Names are limited to ${MAX_LABEL_LENGTH} characters`, 400)
+  }
+  if (existing.some(item => item.name.toLowerCase() === normalized.toLowerCase())) {
+    throw new ConversationOrganizationError(`"${normalized}" already exists`, 409)
+  }
+  return normalized
+}
+
+// New tags cycle through the palette so neighbouring tags are easy to tell apart
+export function nextTagColor(tags: Pick<ConversationTag, 'color'>[]): string {
+  const colors = Object.keys(TAG_COLORS)
+  return colors[tags.length % colors.length]
+}
+
+export function buildOrganizationMap(
+  rows: Pick<OrganizationRow, 'conversation_id' | 'folder_id' | 'pinned_at' | 'archived_at'>[],
+  assignments: Pick<TagAssignmentRow, 'conversation_id' | 'tag_id'>[]
+): Map<string, ConversationOrganization> {
+  const map = new Map<string, ConversationOrganization>()
+  rows.forEach(row => {
+    map.set(row.conversation_id, {
+      folderId: row.folder_id,
+      pinned: !!row.pinned_at,
+      archived: !!row.archived_at,
+      tagIds: []
+    })
+  })
+  assignments.forEach(assignment => {
+    const current = map.get(assignment.conversation_id) || { ...UNORGANIZED, tagIds: [] }
+    map.set(assignment.conversation_id, { ...current, tagIds: [...current.tagIds, assignment.tag_id] })
+  })
+  return map
+}
+
+export interface SidebarSections {
+  pinned: ConversationRow[]
+  folders: { folder: ConversationFolder; conversations: ConversationRow[] }[]
+  unfiled: ConversationRow[]
+  archived: ConversationRow[]
+}
+
+/**
+ * Split conversations into the sidebar's sections. Archived conversations only appear under
+ * Archived and pinned ones only under Pinned, whatever folder they are in. `tagId` keeps just the
+ * conversations carrying that tag. Input order (newest first) is preserved within each section.
+ */
+export function groupConversations(
+  conversations: ConversationRow[],
+  organization: Map<string, ConversationOrganization>,
+  folders: ConversationFolder[],
+  tagId?: string | null
+): SidebarSections {
+  const sections: SidebarSections = {
+    pinned: [],
+    folders: [...folders]
+      .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name))
+      .map(folder => ({ folder, conversations: [] })),
+    unfiled: [],
+    archived: []
+  }
+  const folderSections = new Map(sections.folders.map(section => [section.folder.id, section.conversations]))
+
+  conversations.forEach(conversation => {
+    const placement = organization.get(conversation.id) || UNORGANIZED
+    if (tagId && !placement.tagIds.includes(tagId)) return
+
+    if (placement.archived) {
+      sections.archived.push(conversation)
+    } else if (placement.pinned) {
+      sections.pinned.push(conversation)
+    } else {
+      // A folder that has since been deleted falls back to unfiled
+      const folderConversations = placement.folderId ? folderSections.get(placement.folderId) : undefined
+      if (folderConversations) {
+        folderConversations.push(conversation)
+      } else {
+        sections.unfiled.push(conversation)
+      }
+    }
+  })
+
+  return sections
+}
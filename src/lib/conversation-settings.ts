@@ -0,0 +1,156 @@
+import type { AIModel } from './models'
+import type { Database } from './supabase'
+
+type ConversationRow = Database['public']['Tables']['conversations']['Row']
+type ConversationUpdate = Database['public']['Tables']['conversations']['Update']
+
+// Generation settings stored on a conversation; null means "use the default"
+export interface ConversationSettings {
+  systemPrompt: string | null
+  temperature: number | null
+  topP: number | null
+  maxOutputTokens: number | null
+  stopSequences: string[]
+}
+
+export const DEFAULT_CONVERSATION_SETTINGS: ConversationSettings = {
+  systemPrompt: null,
+  temperature: null,
+  topP: null,
+  maxOutputTokens: null,
+  stopSequences: []
+}
+
+export const DEFAULT_TEMPERATURE = 0.7
+export const DEFAULT_MAX_OUTPUT_TOKENS = 4000
+
+export const SETTINGS_LIMITS = {
+  systemPromptLength: 8000,
+  temperature: { min: 0, max: 2 },
+  topP: { min: 0, max: 1 },
+  maxStopSequences: 4,
+  stopSequenceLength: 100
+}
+
+export type SettingsValidation =
+  | { ok: true; settings: Partial<ConversationSettings> }
+  | { ok: false; errors: string[] }
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+}
+
+/**
+ * Validate a partial settings payload. Only the keys present in the input are returned, so the
+ * result can be used directly as a PATCH. Max output tokens are checked against the model's limit.
+ */
+export function validateConversationSettings(input: unknown, model?: AIModel): SettingsValidation {
+  if (!input || typeof input !== 'object') {
+    return { ok: false, errors: ['Settings must be an object'] }
+  }
+
+  const raw = input as Record<string, unknown>
+  const settings: Partial<ConversationSettings> = {}
+  const errors: string[] = []
+
+  if ('systemPrompt' in raw) {
+    const { systemPrompt } = raw
+    if (systemPrompt === null || systemPrompt === '') {
+      settings.systemPrompt = null
+    } else if (typeof systemPrompt !== 'string') {
+      errors.push('systemPrompt must be a string')
+    } else if (systemPrompt.length > SETTINGS_LIMITS.systemPromptLength) {
+      errors.push(`systemPrompt must be at most ${SETTINGS_LIMITS.systemPromptLength} characters`)
+    } else {
+      settings.systemPrompt = systemPrompt
+    }
+  }
+
+  if ('temperature' in raw) {
+    const { min, max } = SETTINGS_LIMITS.temperature
+    if (raw.temperature === null) {
+      settings.temperature = null
+    } else if (!isNumberInRange(raw.temperature, min, max)) {
+      errors.push(`temperature must be between ${min} and ${max}`)
+    } else {
+      settings.temperature = raw.temperature
+    }
+  }
+
+  if ('topP' in raw) {
+    const { min, max } = SETTINGS_LIMITS.topP
+    if (raw.topP === null) {
+      settings.topP = null
+    } else if (!isNumberInRange(raw.topP, min, max) || raw.topP === 0) {
+      errors.push(`topP must be greater than ${min} and at most ${max}`)
+    } else {
+      settings.topP = raw.topP
+    }
+  }
+
+  if ('maxOutputTokens' in raw) {
+    const limit = model?.maxTokens ?? Number.MAX_SAFE_INTEGER
+    const { maxOutputTokens } = raw
+    if (maxOutputTokens === null) {
+      settings.maxOutputTokens = null
+    } else if (!Number.isInteger(maxOutputTokens) || (maxOutputTokens as number) < 1) {
+      errors.push('maxOutputTokens must be a positive integer')
+    } else if ((maxOutputTokens as number) > limit) {
+      errors.push(`maxOutputTokens must be at most ${limit} for ${model?.name}`)
+    } else {
+      settings.maxOutputTokens = maxOutputTokens as number
+    }
+  }
+
+  if ('stopSequences' in raw) {
+    const { stopSequences } = raw
+    if (stopSequences === null) {
+      settings.stopSequences = []
+    } else if (!Array.isArray(stopSequences) || stopSequences.some(sequence => typeof sequence !== 'string')) {
+      errors.push('stopSequences must be an array of strings')
+    } else {
+      const sequences = (stopSequences as string[]).filter(sequence => sequence.length > 0)
+      if (sequences.length > SETTINGS_LIMITS.maxStopSequences) {
+        errors.push(`At most ${SETTINGS_LIMITS.maxStopSequences} stop sequences are allowed`)
+      } else if (sequences.some(sequence => sequence.length > SETTINGS_LIMITS.stopSequenceLength)) {
+        errors.push(`Stop sequences must be at most ${SETTINGS_LIMITS.stopSequenceLength} characters`)
+      } else {
+        settings.stopSequences = sequences
+      }
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, settings }
+}
+
+export function settingsFromConversation(
+  conversation: Pick<ConversationRow, 'system_prompt' | 'temperature' | 'top_p' | 'max_output_tokens' | 'stop_sequences'>
+): ConversationSettings {
+  return {
+    systemPrompt: conversation.system_prompt,
+    temperature: conversation.temperature,
+    topP: conversation.top_p,
+    maxOutputTokens: conversation.max_output_tokens,
+    stopSequences: conversation.stop_sequences || []
+  }
+}
+
+export function settingsToConversationUpdate(settings: Partial<ConversationSettings>): ConversationUpdate {
+  const update: ConversationUpdate = {}
+  if (settings.systemPrompt !== undefined) update.system_prompt = settings.systemPrompt
+  if (settings.temperature !== undefined) update.temperature = settings.temperature
+  if (settings.topP !== undefined) update.top_p = settings.topP
+  if (settings.maxOutputTokens !== undefined) update.max_output_tokens = settings.maxOutputTokens
+  if (settings.stopSequences !== undefined) update.stop_sequences = settings.stopSequences
+  return update
+}
+
+// Options passed to streamText; max output tokens are clamped in case the conversation switched models
+export function getGenerationOptions(settings: ConversationSettings, model: AIModel) {
+  return {
+    temperature: settings.temperature ?? DEFAULT_TEMPERATURE,
+    topP: settings.topP ?? undefined,
+    maxTokens: Math.min(settings.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS, model.maxTokens),
+    stopSequences: settings.stopSequences.length > 0 ? settings.stopSequences : undefined
+  }
+}
@@ -0,0 +1,223 @@
+import type { Database } from './supabase'
+import type { createServerClient } from './supabase'
+import { getActiveBranch } from './conversation-export'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+type MessageRow = Database['public']['Tables']['messages']['Row']
+type SharedConversationRow = Database['public']['Tables']['shared_conversations']['Row']
+
+// Expiry choices offered in the share dialog; null means the link lives until revoked
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 }
+]
+
+const MAX_EXPIRY_DAYS = 365
+
+export type ShareLink = Omit<SharedConversationRow, 'messages' | 'user_id'>
+
+// What a visitor to /share/[token] receives
+export interface SharedConversation {
+  token: string
+  title: string
+  model_provider: string | null
+  model_name: string | null
+  messages: MessageRow[]
+  expires_at: string | null
+  created_at: string
+}
+
+export interface CreateShareLinkOptions {
+  conversationId: string
+  // Last message of the branch to share; defaults to the newest message
+  leafId?: string
+  expiresInDays?: number | null
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'ShareLinkError'
+  }
+}
+
+const SHARE_LINK_COLUMNS = 'id, token, conversation_id, title, model_provider, model_name, leaf_message_id, expires_at, revoked_at, created_at'
+
+// 192 bits of randomness, URL-safe
+export function generateShareToken(): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(24))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function isShareLinkActive(link: Pick<ShareLink, 'revoked_at' | 'expires_at'>, now = Date.now()): boolean {
+  return !link.revoked_at && (!link.expires_at || Date.parse(link.expires_at) > now)
+}
+
+/**
+ * Copy of a branch that is safe to publish: only the fields the read-only view renders.
+ * Model metadata is reduced to the model name so costs and retrieved document chunks stay private.
+ */
+export function snapshotBranch(messages: MessageRow[], leafId?: string): MessageRow[] {
+  return getActiveBranch(messages, leafId).map((message, index, branch) => ({
+    id: message.id,
+    conversation_id: message.conversation_id,
+    parent_id: index > 0 ? branch[index - 1].id : null,
+    role: message.role,
+    content: message.content,
+    reasoning: message.reasoning ?? null,
+    attachments: message.attachments,
+    model_metadata: typeof message.model_metadata?.model === 'string' ? { model: message.model_metadata.model } : null,
+    created_at: message.created_at,
+    branch_index: 0
+  }))
+}
+
+export async function createShareLink(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  options: CreateShareLinkOptions
+): Promise<ShareLink> {
+  const { conversationId, leafId, expiresInDays = null } = options
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+    throw new ShareLinkError(`Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`, 400)
+  }
+
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('id, title, model_provider, model_name')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (!conversation) {
+    throw new ShareLinkError('Conversation not found', 404)
+  }
+
+  const { data: messages, error: messagesError } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true })
+  if (messagesError) throw messagesError
+
+  if (leafId && !messages?.some(message => message.id === leafId)) {
+    throw new ShareLinkError('Message not found in this conversation', 404)
+  }
+  const snapshot = snapshotBranch(messages || [], leafId)
+  if (snapshot.length === 0) {
+    throw new ShareLinkError('Cannot share an empty conversation', 400)
+  }
+
+  const { data, error } = await supabase
+    .from('shared_conversations')
+    .insert({
+      token: generateShareToken(),
+      conversation_id: conversationId,
+      user_id: userId,
+      title: conversation.title,
+      model_provider: conversation.model_provider,
+      model_name: conversation.model_name,
+      leaf_message_id: snapshot[snapshot.length - 1].id,
+      messages: snapshot,
+      expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null
+    })
+    .select(SHARE_LINK_COLUMNS)
+    .single()
+  if (error) throw error
+
+  log(`🔗 [ConversationShare] Shared ${snapshot.length} messages of ${conversationId}`)
+  return data
+}
+
+export async function listShareLinks(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<ShareLink[]> {
+  const { data, error } = await supabase
+    .from('shared_conversations')
+    .select(SHARE_LINK_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return data || []
+}
+
+export async function revokeShareLink(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  token: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('shared_conversations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('token', token)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id')
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+// Resolves through get_shared_conversation, so revoked and expired links simply return null
+export async function getSharedConversation(
+  supabase: ServerSupabaseClient,
+  token: string
+): Promise<SharedConversation | null> {
+  const { data, error } = await supabase.rpc('get_shared_conversation', { p_token: token })
+  if (error) throw error
+  const [shared] = (data || []) as SharedConversation[]
+  return shared || null
+}
+
+/**
+ * Copy a shared snapshot into the viewer's account as a new conversation. Ids are remapped and
+ * the write goes through import_conversation, so the fork is created completely or not at all.
+ */
+export async function forkSharedConversation(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  token: string
+): Promise<string | null> {
+  const shared = await getSharedConversation(supabase, token)
+  if (!shared) return null
+
+  const conversationId = globalThis.crypto.randomUUID()
+  const idMap = new Map(shared.messages.map(message => [message.id, globalThis.crypto.randomUUID()]))
+  const rows = shared.messages.map(message => ({
+    id: idMap.get(message.id),
+    conversation_id: conversationId,
+    parent_id: message.parent_id ? idMap.get(message.parent_id) ?? null : null,
+    role: message.role,
+    content: message.content,
+    reasoning: message.reasoning ?? null,
+    model_metadata: message.model_metadata,
+    attachments: message.attachments,
+    branch_index: 0,
+    created_at: message.created_at
+  }))
+
+  const { error } = await supabase.rpc('import_conversation', {
+    p_conversation: {
+      id: conversationId,
+      user_id: userId,
+      title: shared.title,
+      model_provider: shared.model_provider,
+      model_name: shared.model_name
+    },
+    p_messages: rows
+  })
+  if (error) {
+    logError('❌ [ConversationShare] Failed to fork shared conversation:', error)
+    throw error
+  }
+
+  log(`🍴 [ConversationShare] Forked share into ${conversationId}`)
+  return conversationId
+}
@@ -0,0 +1,234 @@
+import { generateText, type LanguageModelUsage, type LanguageModelV1 } from 'ai'
+import { AI_MODELS, type AIModel } from './models'
+import { resolveModel } from './provider-registry'
+import { getContentText, type ContextMessage } from './context-window'
+import { recordUsage } from './quota-policy'
+import type { createServerClient, Database } from './supabase'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+type ConversationRow = Database['public']['Tables']['conversations']['Row']
+
+// The summary is rewritten once this many messages have arrived since the last one
+export const SUMMARY_REFRESH_INTERVAL = 6
+export const MAX_TITLE_LENGTH = 60
+// Only the tail of a long backlog is sent, keeping the job cheap
+const MAX_TRANSCRIPT_CHARS = 12000
+const MAX_SUMMARY_TOKENS = 300
+
+type SummaryState = Pick<ConversationRow, 'title' | 'summary' | 'summary_message_count' | 'title_generated_at'>
+
+export interface SummaryModel {
+  modelInfo: AIModel
+  model: LanguageModelV1
+}
+
+// Receives each model call's token usage, for the usage ledger
+export type SummaryUsageHandler = (usage: LanguageModelUsage, modelInfo: AIModel, latencyMs: number) => void | Promise<void>
+
+export interface SummaryPlan {
+  title: boolean
+  summary: boolean
+}
+
+/**
+ * The cheapest model in AI_MODELS this server can serve with its own credentials, by combined
+ * input and output price. Titles and summaries never use a user's BYOK key.
+ */
+export function getSummaryModel(models: AIModel[] = AI_MODELS): SummaryModel | null {
+  const byPrice = [...models].sort((a, b) =>
+    (a.pricing.input + a.pricing.output) - (b.pricing.input + b.pricing.output))
+  for (const modelInfo of byPrice) {
+    const resolution = resolveModel(modelInfo)
+    if (resolution.ok) return { modelInfo, model: resolution.model }
+  }
+  return null
+}
+
+/** What is due for a conversation that now has `messageCount` messages */
+export function planSummaryUpdate(conversation: SummaryState, messageCount: number): SummaryPlan {
+  // Nothing to summarise until the first exchange is complete
+  if (messageCount < 2) return { title: false, summary: false }
+  const summarised = conversation.summary_message_count || 0
+  return {
+    title: !conversation.title_generated_at,
+    summary: !conversation.summary || messageCount - summarised >= SUMMARY_REFRESH_INTERVAL
+  }
+}
+
+/**
+ * Whether the title was set automatically and may be replaced: still "New Chat", or the
+ * truncated first message written by useRealtimeChat.sendMessage. Anything else is a user rename.
+ */
+export function isPlaceholderTitle(title: string | null, firstUserMessage: string): boolean {
+  if (!title || title === 'New Chat') return true
+  const truncated = firstUserMessage.slice(0, 50) + (firstUserMessage.length > 50 ? '...' : '')
+  return title === truncated
+}
+
+/** Reduce a model reply to a single short title line, or null if nothing usable is left */
+export function cleanGeneratedTitle(text: string): string | null {
+  const firstLine = text.trim().split('\n')[0] || ''
+  const title = firstLine
+    .replace(/^title:\s*/i, '')
+    .replace(/^[\s"'*#`]+|[\s"'*`]+$/g, '')
+    .replace(/\.$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (!title) return null
+  return title.length > MAX_TITLE_LENGTH ? title.slice(0, MAX_TITLE_LENGTH - 3).trimEnd() + '...' : title
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System'
+}
+
+export function formatTranscript(messages: ContextMessage[]): string {
+  const transcript = messages
+    .map(message => ({ role: message.role, text: getContentText(message.content).trim() }))
+    .filter(message => message.text)
+    .map(message => `${ROLE_LABELS[message.role] || 'Assistant'}: ${message.text}`)
+    .join('\n\n')
+  return transcript.length > MAX_TRANSCRIPT_CHARS ? transcript.slice(-MAX_TRANSCRIPT_CHARS) : transcript
+}
+
+async function generateTitle(
+  { model, modelInfo }: SummaryModel,
+  transcript: string,
+  onUsage?: SummaryUsageHandler
+): Promise<string | null> {
+  const startedAt = Date.now()
+  const { text, usage } = await generateText({
+    model,
+    system: 'You name chat conversations. Reply with a concise title of at most six words that says what the conversation is about. No quotes, no trailing punctuation, no preamble.',
+    prompt: transcript,
+    maxTokens: 30,
+    temperature: 0.3
+  })
+  await onUsage?.(usage, modelInfo, Date.now() - startedAt)
+  return cleanGeneratedTitle(text)
+}
+
+async function generateSummary(
+  { model, modelInfo }: SummaryModel,
+  previousSummary: string | null,
+  transcript: string,
+  onUsage?: SummaryUsageHandler
+): Promise<string | null> {
+  const prompt = previousSummary
+    ? `Summary so far:\n${previousSummary}\n\nNew messages:\n${transcript}`
+    : `Conversation:\n${transcript}`
+  const startedAt = Date.now()
+  const { text, usage } = await generateText({
+    model,
+    system: 'You keep a running summary of a chat conversation. Write at most three sentences covering the topics, decisions and open questions, folding the new messages into the summary so far. Reply with the summary only.',
+    prompt,
+    maxTokens: MAX_SUMMARY_TOKENS,
+    temperature: 0.3
+  })
+  await onUsage?.(usage, modelInfo, Date.now() - startedAt)
+  return text.trim() || null
+}
+
+/**
+ * Summarise turns that /api/chat had to leave out to fit a model's context window. Returns null
+ * when no model is configured or the call fails, in which case the turns are simply trimmed.
+ */
+export async function summarizeCompressedTurns(
+  messages: ContextMessage[],
+  onUsage?: SummaryUsageHandler
+): Promise<string | null> {
+  const summaryModel = getSummaryModel()
+  if (!summaryModel || messages.length === 0) return null
+  try {
+    return await generateSummary(summaryModel, null, formatTranscript(messages), onUsage)
+  } catch (error) {
+    logError('❌ [ConversationSummary] Failed to summarise compressed turns:', error)
+    return null
+  }
+}
+
+/**
+ * Generate a title after the first exchange and refresh the rolling summary every
+ * SUMMARY_REFRESH_INTERVAL messages. Run after /api/chat has saved the assistant message;
+ * failures are logged and retried on the next exchange since nothing is marked done. The calls are
+ * recorded in the usage ledger against `userId` when given.
+ */
+export async function refreshConversationSummary(
+  supabase: ServerSupabaseClient,
+  conversationId: string,
+  userId?: string
+): Promise<void> {
+  try {
+    const [{ data: conversation, error: conversationError }, { count, error: countError }] = await Promise.all([
+      supabase
+        .from('conversations')
+        .select('title, summary, summary_message_count, title_generated_at')
+        .eq('id', conversationId)
+        .maybeSingle(),
+      supabase
+        .from('messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('conversation_id', conversationId)
+    ])
+    if (conversationError) throw conversationError
+    if (countError) throw countError
+    if (!conversation) return
+
+    const messageCount = count || 0
+    const plan = planSummaryUpdate(conversation, messageCount)
+    if (!plan.title && !plan.summary) return
+
+    const summaryModel = getSummaryModel()
+    if (!summaryModel) {
+      log('⚠️ [ConversationSummary] No configured model available for titles and summaries')
+      return
+    }
+
+    // A title needs the opening exchange; the summary only needs what came after the last one
+    const from = plan.title ? 0 : conversation.summary_message_count || 0
+    const { data: messages, error: messagesError } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true })
+      .range(from, messageCount - 1)
+    if (messagesError) throw messagesError
+
+    const rows = messages || []
+    const firstUserMessage = rows.find(message => message.role === 'user')
+    const replaceTitle = plan.title && isPlaceholderTitle(conversation.title, getContentText(firstUserMessage?.content))
+
+    const onUsage: SummaryUsageHandler | undefined = userId
+      ? (usage, modelInfo, latencyMs) => recordUsage(supabase, userId, { route: 'summary', model: modelInfo, usage, conversationId, latencyMs })
+      : undefined
+    const [title, summary] = await Promise.all([
+      replaceTitle ? generateTitle(summaryModel, formatTranscript(rows.slice(0, 2)), onUsage) : null,
+      plan.summary
+        ? generateSummary(
+          summaryModel,
+          conversation.summary ?? null,
+          formatTranscript(rows.slice(Math.max(0, (conversation.summary_message_count || 0) - from))),
+          onUsage
+        )
+        : null
+    ])
+
+    const { error: saveError } = await supabase.rpc('save_conversation_summary', {
+      p_conversation_id: conversationId,
+      p_summary: summary,
+      p_message_count: messageCount,
+      p_title: title
+    })
+    if (saveError) throw saveError
+
+    log(`📝 [ConversationSummary] Updated ${conversationId} with ${summaryModel.modelInfo.id}${title ? `, titled "${title}"` : ''}`)
+  } catch (error) {
+    logError('❌ [ConversationSummary] Failed to update title and summary:', error)
+  }
+}
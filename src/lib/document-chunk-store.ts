@@ -0,0 +1,294 @@
+import { createServerClient } from '@/lib/supabase'
+import { embedTexts, getEmbeddingProvider } from './embeddings'
+import { rankHybrid } from './hybrid-search'
+import type { ProcessedDocument, RAGResponse, SearchResult } from './unified-rag'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+// Size of the candidate pool fetched from each of the vector and full-text indexes
+const CANDIDATE_POOL_SIZE = 50
+
+// Marks file_uploads rows that hold RAG documents, as opposed to analysed chat attachments
+const RAG_DOCUMENT_KIND = 'rag_document'
+
+export interface StoredDocument {
+  id: string
+  filename: string
+  chunks: number
+  size: number
+  fileType: string | null
+  summary: string
+  uploadedAt: string
+}
+
+interface MatchedChunkRow {
+  id: string
+  document_id: string
+  filename: string
+  chunk_index: number
+  content: string
+  page_number: number | null
+  embedding_model: string | null
+  similarity: number | null
+}
+
+/**
+ * RAG documents for signed-in users. Each document is a file_uploads row whose chunks and vectors
+ * live in the pgvector-backed document_chunks table; RLS keeps both per user. Search pulls a
+ * candidate pool from pgvector and Postgres full-text search, then re-ranks it with the same
+ * BM25 + cosine fusion the in-memory index uses.
+ */
+export class DocumentChunkStore {
+  private async getSupabase() {
+    return await createServerClient()
+  }
+
+  // Store a document and replace its chunks, embedding any chunk without a vector from the current provider
+  async saveDocument(userId: string, document: ProcessedDocument): Promise<number> {
+    const provider = getEmbeddingProvider()
+    const pending = document.chunks.filter(chunk => !chunk.embedding || chunk.embeddingModel !== provider.id)
+    if (pending.length > 0) {
+      const { embeddings, provider: usedProvider } = await embedTexts(pending.map(chunk => chunk.content), provider)
+      pending.forEach((chunk, i) => {
+        chunk.embedding = embeddings[i]
+        chunk.embeddingModel = usedProvider.id
+      })
+    }
+
+    const supabase = await this.getSupabase()
+    const { error: uploadError } = await supabase
+      .from('file_uploads')
+      .upsert({
+        id: document.id,
+        user_id: userId,
+        filename: document.filename,
+        file_type: document.fileType,
+        file_size: document.fileSize,
+        processed_data: {
+          kind: RAG_DOCUMENT_KIND,
+          summary: document.summary,
+          chunk_count: document.chunks.length,
+          uploaded_at: document.uploadedAt
+        }
+      })
+
+    if (uploadError) {
+      throw uploadError
+    }
+
+    const { error: deleteError } = await supabase
+      .from('document_chunks')
+      .delete()
+      .eq('user_id', userId)
+      .eq('document_id', document.id)
+
+    if (deleteError) {
+      throw deleteError
+    }
+
+    const { error } = await supabase
+      .from('document_chunks')
+      .insert(document.chunks.map((chunk, index) => ({
+        user_id: userId,
+        document_id: document.id,
+        file_upload_id: document.id,
+        filename: document.filename,
+        chunk_index: index,
+        content: chunk.content,
+        page_number: chunk.pageNumber ?? null,
+        embedding: chunk.embedding ?? null,
+        embedding_model: chunk.embeddingModel ?? null
+      })))
+
+    if (error) {
+      throw error
+    }
+
+    log(`🧮 [DocumentChunkStore] Stored ${document.chunks.length} chunk vectors for ${document.filename}`)
+    return document.chunks.length
+  }
+
+  async listDocuments(userId: string, conversationId?: string): Promise<StoredDocument[]> {
+    const supabase = await this.getSupabase()
+    let query = supabase
+      .from('file_uploads')
+      .select('id, filename, file_type, file_size, processed_data, created_at')
+      .eq('user_id', userId)
+      .eq('processed_data->>kind', RAG_DOCUMENT_KIND)
+      .order('created_at', { ascending: false })
+
+    if (conversationId) {
+      query = query.in('id', await this.getConversationDocumentIds(conversationId))
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw error
+    }
+
+    return (data || []).map(row => {
+      const processed = (row.processed_data || {}) as Record<string, unknown>
+      return {
+        id: row.id,
+        filename: row.filename || 'Untitled',
+        chunks: Number(processed.chunk_count) || 0,
+        size: row.file_size || 0,
+        fileType: row.file_type,
+        summary: typeof processed.summary === 'string' ? processed.summary : '',
+        uploadedAt: typeof processed.uploaded_at === 'string' ? processed.uploaded_at : row.created_at
+      }
+    })
+  }
+
+  async getConversationDocumentIds(conversationId: string): Promise<string[]> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('conversation_documents')
+      .select('file_upload_id')
+      .eq('conversation_id', conversationId)
+
+    if (error) {
+      throw error
+    }
+
+    return (data || []).map(row => row.file_upload_id)
+  }
+
+  async attachToConversation(userId: string, conversationId: string, documentId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('conversation_documents')
+      .upsert({
+        conversation_id: conversationId,
+        file_upload_id: documentId,
+        user_id: userId
+      }, {
+        onConflict: 'conversation_id,file_upload_id'
+      })
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async detachFromConversation(conversationId: string, documentId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('conversation_documents')
+      .delete()
+      .eq('conversation_id', conversationId)
+      .eq('file_upload_id', documentId)
+
+    if (error) {
+      throw error
+    }
+  }
+
+  // `documentIds` limits the search to those documents, e.g. the ones attached to a conversation
+  async search(query: string, maxResults: number = 5, documentIds?: string[]): Promise<RAGResponse> {
+    const startTime = Date.now()
+    if (documentIds && documentIds.length === 0) {
+      return { results: [], totalDocuments: 0, searchTime: 0, hasResults: false }
+    }
+
+    const { embeddings: [queryEmbedding], provider } = await embedTexts([query])
+
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase.rpc('match_document_chunks', {
+      query_embedding: queryEmbedding,
+      query_text: query,
+      match_count: CANDIDATE_POOL_SIZE,
+      filter_model: provider.id,
+      filter_document_ids: documentIds ?? null
+    })
+
+    if (error) {
+      logError('Error matching document chunks:', error)
+      throw error
+    }
+
+    const rows = (data || []) as MatchedChunkRow[]
+    const rowsById = new Map(rows.map(row => [row.id, row]))
+    const matches = rankHybrid(
+      query,
+      rows.map(row => ({ key: row.id, content: row.content, vectorSimilarity: row.similarity })),
+      { minSimilarity: provider.minSimilarity, maxResults }
+    )
+
+    const results: SearchResult[] = matches.map(match => {
+      const row = rowsById.get(match.key)!
+      return {
+        document: {
+          id: row.document_id,
+          filename: row.filename,
+          content: '',
+          chunks: [],
+          summary: '',
+          uploadedAt: '',
+          fileSize: 0,
+          fileType: ''
+        },
+        chunk: {
+          id: `chunk_${row.chunk_index}`,
+          content: row.content,
+          startIndex: 0,
+          endIndex: row.content.length,
+          pageNumber: row.page_number ?? undefined
+        },
+        relevanceScore: match.score,
+        matchedTerms: match.matchedTerms
+      }
+    })
+
+    return {
+      results,
+      totalDocuments: new Set(rows.map(row => row.document_id)).size,
+      searchTime: Date.now() - startTime,
+      hasResults: results.length > 0
+    }
+  }
+
+  // Chunks and conversation attachments are removed with the file_uploads row
+  async deleteDocument(userId: string, documentId: string): Promise<boolean> {
+    const supabase = await this.getSupabase()
+    const { data, error } = await supabase
+      .from('file_uploads')
+      .delete()
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .eq('processed_data->>kind', RAG_DOCUMENT_KIND)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    log(`🗑️ [DocumentChunkStore] Removed document ${documentId}`)
+    return (data || []).length > 0
+  }
+
+  async clear(userId: string): Promise<void> {
+    const supabase = await this.getSupabase()
+    const { error } = await supabase
+      .from('file_uploads')
+      .delete()
+      .eq('user_id', userId)
+      .eq('processed_data->>kind', RAG_DOCUMENT_KIND)
+
+    if (error) {
+      throw error
+    }
+  }
+}
+
+// Singleton instance for server-side usage
+let documentChunkStore: DocumentChunkStore | null = null
+
+export function getDocumentChunkStore(): DocumentChunkStore {
+  if (!documentChunkStore) {
+    documentChunkStore = new DocumentChunkStore()
+  }
+  return documentChunkStore
+}
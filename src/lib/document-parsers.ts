@@ -0,0 +1,400 @@
+// Structured ingestion for office, web and data files. Every format is reduced to typed blocks
+// (heading/text/list/table/code) so the RAG chunkers keep the document's structure.
+
+export type DocumentBlockType = 'heading' | 'text' | 'list' | 'table' | 'code'
+
+export interface DocumentBlock {
+  type: DocumentBlockType
+  // Markdown rendering of the block; headings keep their `#` prefix
+  content: string
+  level?: number // Headings: 1-6
+  page?: number // Spreadsheets: 1-based sheet index
+}
+
+export interface ParsedDocument {
+  blocks: DocumentBlock[]
+  totalPages: number
+  metadata: { title?: string; author?: string }
+}
+
+export type StructuredFormat = 'docx' | 'html' | 'csv' | 'xlsx' | 'json' | 'yaml'
+
+export interface ParseOptions {
+  // Tables are split into blocks of at most this many characters, each repeating the header row
+  maxTableChars?: number
+}
+
+const DEFAULT_MAX_TABLE_CHARS = 1500
+
+const EXTENSION_FORMATS: Record<string, StructuredFormat> = {
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  csv: 'csv',
+  tsv: 'csv',
+  xlsx: 'xlsx',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml'
+}
+
+const MIME_FORMATS: Record<string, StructuredFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/json': 'json',
+  'application/x-yaml': 'yaml',
+  'application/yaml': 'yaml',
+  'text/yaml': 'yaml'
+}
+
+// Browsers report an empty or generic type for many of these files, so the extension wins
+export function getStructuredFormat(file: { name: string; type: string }): StructuredFormat | null {
+  const extension = file.name.toLowerCase().split('.').pop() || ''
+  return EXTENSION_FORMATS[extension] || MIME_FORMATS[file.type] || null
+}
+
+export async function parseStructuredDocument(file: File, options: ParseOptions = {}): Promise<ParsedDocument> {
+  const format = getStructuredFormat(file)
+  const title = file.name.replace(/\.[^.]+$/, '')
+
+  switch (format) {
+    case 'docx': {
+      const mammoth = await import('mammoth')
+      const data = await file.arrayBuffer()
+      // mammoth's browser build reads an ArrayBuffer, its Node build a Buffer
+      const input = typeof window === 'undefined' ? { buffer: Buffer.from(data) } : { arrayBuffer: data }
+      const { value } = await mammoth.convertToHtml(input)
+      const parsed = parseHtml(value, options)
+      return { ...parsed, metadata: { ...parsed.metadata, title: parsed.metadata.title || title } }
+    }
+    case 'html': {
+      const parsed = parseHtml(await file.text(), options)
+      return { ...parsed, metadata: { ...parsed.metadata, title: parsed.metadata.title || title } }
+    }
+    case 'csv': {
+      const delimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : undefined
+      return { blocks: rowsToTableBlocks(parseCsv(await file.text(), delimiter), options), totalPages: 1, metadata: { title } }
+    }
+    case 'xlsx':
+      return { ...(await parseSpreadsheet(file, options)), metadata: { title } }
+    case 'json':
+      return { blocks: dataToBlocks(JSON.parse(await file.text()), options), totalPages: 1, metadata: { title } }
+    case 'yaml': {
+      const { parseAllDocuments } = await import('yaml')
+      const documents = parseAllDocuments(await file.text())
+      const blocks = documents.length === 1
+        ? dataToBlocks(documents[0].toJS(), options)
+        : documents.flatMap((document, i) => [heading(`Document ${i + 1}`, 1), ...dataToBlocks(document.toJS(), options, 2)])
+      return { blocks, totalPages: 1, metadata: { title } }
+    }
+    default:
+      throw new Error(`Unsupported file type: ${file.type || file.name}`)
+  }
+}
+
+export function blocksToMarkdown(blocks: DocumentBlock[]): string {
+  return blocks.map(block => block.content).join('\n\n')
+}
+
+function heading(text: string, level: number): DocumentBlock {
+  const clamped = Math.min(Math.max(level, 1), 6)
+  return { type: 'heading', content: `${'#'.repeat(clamped)} ${text}`, level: clamped }
+}
+
+// HTML
+
+const IGNORED_ELEMENTS = 'script, style, noscript, template, iframe, svg, canvas, nav, header, footer, aside, form, button, [hidden], [aria-hidden="true"]'
+
+/**
+ * Extract the readable content of an HTML page: the main/article element when present, with
+ * navigation, scripts and other page chrome removed.
+ */
+export function parseHtml(html: string, options: ParseOptions = {}): ParsedDocument {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const title = doc.querySelector('title')?.textContent?.trim() || undefined
+  const author = doc.querySelector('meta[name="author"]')?.getAttribute('content')?.trim() || undefined
+
+  const root = doc.querySelector('main') || doc.querySelector('article') || doc.body
+  root?.querySelectorAll(IGNORED_ELEMENTS).forEach(element => element.remove())
+
+  const blocks: DocumentBlock[] = []
+  let paragraph = ''
+  const flushParagraph = () => {
+    const text = collapseWhitespace(paragraph)
+    if (text) blocks.push({ type: 'text', content: text })
+    paragraph = ''
+  }
+
+  const walk = (node: Node) => {
+    if (node.nodeType === 3) {
+      paragraph += node.textContent || ''
+      return
+    }
+    if (node.nodeType !== 1) return
+
+    const element = node as Element
+    const tag = element.tagName.toLowerCase()
+
+    if (/^h[1-6]$/.test(tag)) {
+      flushParagraph()
+      const text = inlineText(element)
+      if (text) blocks.push(heading(text, Number(tag[1])))
+    } else if (tag === 'ul' || tag === 'ol') {
+      flushParagraph()
+      const items = listItems(element, 0)
+      if (items.length > 0) blocks.push({ type: 'list', content: items.join('\n') })
+    } else if (tag === 'table') {
+      flushParagraph()
+      blocks.push(...rowsToTableBlocks(tableRows(element), options))
+    } else if (tag === 'pre') {
+      flushParagraph()
+      const code = (element.textContent || '').replace(/\n+$/, '')
+      if (code.trim()) blocks.push({ type: 'code', content: `\`\`\`\n${code}\n\`\`\`` })
+    } else if (tag === 'br') {
+      paragraph += '\n'
+    } else if (tag === 'p' || tag === 'blockquote' || tag === 'li' || tag === 'dd' || tag === 'dt') {
+      flushParagraph()
+      const text = inlineText(element)
+      if (text) blocks.push({ type: 'text', content: tag === 'blockquote' ? `> ${text}` : text })
+    } else {
+      const isBlock = BLOCK_ELEMENTS.has(tag)
+      if (isBlock) flushParagraph()
+      element.childNodes.forEach(walk)
+      if (isBlock) flushParagraph()
+    }
+  }
+
+  if (root) root.childNodes.forEach(walk)
+  flushParagraph()
+
+  return {
+    blocks,
+    totalPages: 1,
+    metadata: {
+      title: title || blocks.find(block => block.type === 'heading')?.content.replace(/^#+\s*/, ''),
+      author
+    }
+  }
+}
+
+const BLOCK_ELEMENTS = new Set(['div', 'section', 'article', 'main', 'body', 'figure', 'figcaption', 'dl', 'address', 'details', 'summary', 'hr'])
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\r\f\v\u00a0]+/g, ' ').replace(/ *\n */g, '\n').trim()
+}
+
+function inlineText(element: Element): string {
+  return collapseWhitespace(element.textContent || '').replace(/\n+/g, ' ')
+}
+
+function listItems(list: Element, depth: number): string[] {
+  const ordered = list.tagName.toLowerCase() === 'ol'
+  const lines: string[] = []
+  let n = 1
+
+  for (const item of Array.from(list.children)) {
+    if (item.tagName.toLowerCase() !== 'li') continue
+    const nested = Array.from(item.children).filter(child => /^(ul|ol)$/i.test(child.tagName))
+    const clone = item.cloneNode(true) as Element
+    Array.from(clone.children).filter(child => /^(ul|ol)$/i.test(child.tagName)).forEach(child => child.remove())
+
+    const text = inlineText(clone)
+    if (text) lines.push(`${'  '.repeat(depth)}${ordered ? `${n++}.` : '-'} ${text}`)
+    nested.forEach(child => lines.push(...listItems(child, depth + 1)))
+  }
+  return lines
+}
+
+function tableRows(table: Element): string[][] {
+  return Array.from(table.querySelectorAll('tr'))
+    .filter(row => row.closest('table') === table)
+    .map(row => Array.from(row.children)
+      .filter(cell => /^(td|th)$/i.test(cell.tagName))
+      .map(cell => inlineText(cell)))
+}
+
+// Tables
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim()
+}
+
+function tableLine(cells: string[]): string {
+  return `| ${cells.map(escapeCell).join(' | ')} |`
+}
+
+/**
+ * Render rows as markdown table blocks. The first non-empty row is the header; long tables are
+ * split into several blocks that each repeat it, so every chunk can be read on its own.
+ */
+export function rowsToTableBlocks(rows: string[][], options: ParseOptions = {}, page?: number): DocumentBlock[] {
+  const maxChars = options.maxTableChars ?? DEFAULT_MAX_TABLE_CHARS
+  const nonEmpty = rows.filter(row => row.some(cell => cell.trim()))
+  if (nonEmpty.length === 0) return []
+
+  const width = Math.max(...nonEmpty.map(row => {
+    let last = row.length
+    while (last > 0 && !row[last - 1].trim()) last--
+    return last
+  }))
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => row[i] ?? '')
+
+  const [header, ...body] = nonEmpty.map(pad)
+  const headerLines = `${tableLine(header.map((cell, i) => cell || `Column ${i + 1}`))}\n${tableLine(header.map(() => '---'))}`
+
+  const blocks: DocumentBlock[] = []
+  let lines: string[] = []
+  let length = headerLines.length
+  const flush = () => {
+    blocks.push({ type: 'table', content: [headerLines, ...lines].join('\n'), page })
+    lines = []
+    length = headerLines.length
+  }
+
+  for (const row of body) {
+    const line = tableLine(row)
+    if (lines.length > 0 && length + line.length + 1 > maxChars) flush()
+    lines.push(line)
+    length += line.length + 1
+  }
+  if (lines.length > 0 || blocks.length === 0) flush()
+
+  return blocks
+}
+
+// RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and newlines
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const separator = delimiter ?? detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === separator) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'))
+  const candidates = [',', ';', '\t', '|']
+  return candidates
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].candidate
+}
+
+async function parseSpreadsheet(file: File, options: ParseOptions): Promise<Omit<ParsedDocument, 'metadata'>> {
+  const { default: readXlsxFile } = await import('read-excel-file/universal')
+  const sheets = await readXlsxFile(await file.arrayBuffer())
+
+  const blocks = sheets.flatMap((sheet, i) => {
+    const rows = sheet.data.map(row => row.map(formatCell))
+    const tables = rowsToTableBlocks(rows, options, i + 1)
+    return tables.length > 0 ? [{ ...heading(sheet.sheet, 2), page: i + 1 }, ...tables] : []
+  })
+
+  return { blocks, totalPages: sheets.length }
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) {
+    return value.getUTCHours() || value.getUTCMinutes() || value.getUTCSeconds()
+      ? value.toISOString()
+      : value.toISOString().slice(0, 10)
+  }
+  return String(value)
+}
+
+// JSON / YAML
+
+type PlainObject = Record<string, unknown>
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+function formatScalar(value: unknown): string {
+  if (value instanceof Date) return value.toISOString()
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const MAX_TABLE_COLUMNS = 12
+
+/**
+ * Turn parsed JSON/YAML into blocks: nested objects become headed sections, scalar fields a
+ * key/value list, arrays of scalars a list and arrays of flat records a table.
+ */
+export function dataToBlocks(value: unknown, options: ParseOptions = {}, depth = 1): DocumentBlock[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return []
+
+    if (value.every(isPlainObject)) {
+      const columns = Array.from(new Set(value.flatMap(item => Object.keys(item))))
+      const flat = value.every(item => Object.values(item).every(field => !isPlainObject(field) && !Array.isArray(field)))
+      if (flat && columns.length <= MAX_TABLE_COLUMNS) {
+        return rowsToTableBlocks([columns, ...value.map(item => columns.map(column => formatScalar(item[column])))], options)
+      }
+      return value.flatMap((item, i) => [heading(`Item ${i + 1}`, depth), ...dataToBlocks(item, options, depth + 1)])
+    }
+
+    if (value.every(item => !isPlainObject(item) && !Array.isArray(item))) {
+      return [{ type: 'list', content: value.map(item => `- ${formatScalar(item)}`).join('\n') }]
+    }
+
+    return value.flatMap((item, i) => [heading(`Item ${i + 1}`, depth), ...dataToBlocks(item, options, depth + 1)])
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+    const scalars = entries.filter(([, field]) => !isPlainObject(field) && !Array.isArray(field))
+    const nested = entries.filter(([, field]) => isPlainObject(field) || Array.isArray(field))
+
+    const blocks: DocumentBlock[] = []
+    if (scalars.length > 0) {
+      blocks.push({ type: 'list', content: scalars.map(([key, field]) => `- ${key}: ${formatScalar(field)}`).join('\n') })
+    }
+    for (const [key, field] of nested) {
+      blocks.push(heading(key, depth), ...dataToBlocks(field, options, depth + 1))
+    }
+    return blocks
+  }
+
+  const text = formatScalar(value)
+  return text ? [{ type: 'text', content: text }] : []
+}
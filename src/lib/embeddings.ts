@@ -0,0 +1,151 @@
+import { embedMany } from 'ai'
+import { createOpenAI } from '@ai-sdk/openai'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+// Every provider produces vectors of this size so they fit the document_chunks.embedding column
+export const EMBEDDING_DIMENSIONS = 384
+
+export interface EmbeddingProvider {
+  // Stored alongside each vector; vectors from different providers are never compared
+  id: string
+  dimensions: number
+  // Cosine similarity below which a chunk is not considered a semantic match
+  minSimilarity: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'as', 'is',
+  'was', 'are', 'were', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+  'should', 'may', 'might', 'must', 'can', 'this', 'that', 'these', 'those', 'what', 'how', 'why',
+  'when', 'where', 'which', 'who', 'about', 'into', 'than', 'then', 'there', 'their', 'its', 'it'
+])
+
+// Shared by the local embedding model and BM25 so both see the same terms
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+}
+
+// 32-bit FNV-1a; stable across runtimes so stored vectors stay comparable
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm === 0 ? vector : vector.map(value => value / norm)
+}
+
+/**
+ * Deterministic hashed bag-of-words model that runs anywhere without network access. Words and
+ * their character trigrams are hashed into signed buckets, so related word forms share dimensions.
+ */
+export function embedLocally(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const counts = new Map<string, number>()
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1)
+  }
+
+  const addFeature = (feature: string, weight: number) => {
+    const hash = fnv1a(feature)
+    const sign = hash & 1 ? 1 : -1
+    vector[(hash >>> 1) % dimensions] += sign * weight
+  }
+
+  counts.forEach((count, token) => {
+    const weight = 1 + Math.log(count)
+    addFeature(`w:${token}`, weight)
+    const padded = `#${token}#`
+    for (let i = 0; i <= padded.length - 3; i++) {
+      addFeature(`t:${padded.slice(i, i + 3)}`, weight * 0.3)
+    }
+  })
+
+  return normalize(vector)
+}
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: `local-hash-${EMBEDDING_DIMENSIONS}`,
+  dimensions: EMBEDDING_DIMENSIONS,
+  minSimilarity: 0.2,
+  embed: async (texts) => texts.map(text => embedLocally(text))
+}
+
+function createOpenAIEmbeddingProvider(apiKey: string): EmbeddingProvider {
+  const model = createOpenAI({ apiKey }).embedding('text-embedding-3-small', {
+    dimensions: EMBEDDING_DIMENSIONS
+  })
+  return {
+    id: `openai-text-embedding-3-small-${EMBEDDING_DIMENSIONS}`,
+    dimensions: EMBEDDING_DIMENSIONS,
+    minSimilarity: 0.3,
+    embed: async (texts) => {
+      const { embeddings } = await embedMany({ model, values: texts })
+      return embeddings
+    }
+  }
+}
+
+const embeddingProviders = new Map<string, () => EmbeddingProvider | null>()
+
+export function registerEmbeddingProvider(id: string, factory: () => EmbeddingProvider | null) {
+  embeddingProviders.set(id, factory)
+}
+
+registerEmbeddingProvider('local', () => localEmbeddingProvider)
+registerEmbeddingProvider('openai', () => {
+  const apiKey = process.env.OPENAI_API_KEY
+  return apiKey && apiKey !== 'your-openai-api-key' ? createOpenAIEmbeddingProvider(apiKey) : null
+})
+
+/**
+ * Pick the embedding provider from EMBEDDING_PROVIDER ('openai' | 'local'). Without it, OpenAI is
+ * used when a key is configured and the local model otherwise, e.g. in the browser or offline.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const requested = process.env.EMBEDDING_PROVIDER
+  const order = requested ? [requested, 'local'] : ['openai', 'local']
+  for (const id of order) {
+    const provider = embeddingProviders.get(id)?.()
+    if (provider) return provider
+    if (id === requested) {
+      logError(`Embedding provider "${id}" is not available, falling back to the local model`)
+    }
+  }
+  return localEmbeddingProvider
+}
+
+/**
+ * Embed texts with the given provider, falling back to the local model if the provider fails.
+ * Returns the provider that actually produced the vectors.
+ */
+export async function embedTexts(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<{ embeddings: number[][]; provider: EmbeddingProvider }> {
+  if (texts.length === 0) {
+    return { embeddings: [], provider }
+  }
+  try {
+    const embeddings = await provider.embed(texts)
+    log(`🧮 [Embeddings] Embedded ${texts.length} texts with ${provider.id}`)
+    return { embeddings, provider }
+  } catch (error) {
+    if (provider === localEmbeddingProvider) throw error
+    logError(`Embedding with ${provider.id} failed, using the local model:`, error)
+    return { embeddings: await localEmbeddingProvider.embed(texts), provider: localEmbeddingProvider }
+  }
+}
@@ -34,6 +34,39 @@ export class ExportUtils {
     URL.revokeObjectURL(url)
   }
 
+  /**
+   * Prints an HTML document from a hidden iframe, e.g. so the user can save it as PDF
+   */
+  static printHtml(html: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const iframe = document.createElement('iframe')
+      iframe.style.position = 'fixed'
+      iframe.style.width = '0'
+      iframe.style.height = '0'
+      iframe.style.border = '0'
+      iframe.setAttribute('aria-hidden', 'true')
+
+      iframe.onload = () => {
+        const frameWindow = iframe.contentWindow
+        if (!frameWindow) {
+          document.body.removeChild(iframe)
+          reject(new Error('Print frame is not available'))
+          return
+        }
+        // Remove the frame once the dialog closes; print() blocks in most browsers
+        frameWindow.addEventListener('afterprint', () => {
+          setTimeout(() => iframe.remove(), 0)
+        })
+        frameWindow.focus()
+        frameWindow.print()
+        resolve()
+      }
+
+      iframe.srcdoc = html
+      document.body.appendChild(iframe)
+    })
+  }
+
   /**
    * Copies text to clipboard with fallback for older browsers
    */
@@ -1,4 +1,5 @@
 // Utility functions for handling file attachments with AI SDK
+import { blocksToMarkdown, getStructuredFormat, parseStructuredDocument } from './document-parsers'
 
 export interface FileAttachment {
   name: string
@@ -15,6 +16,19 @@ export async function processFileForAI(file: File): Promise<FileAttachment> {
       type: file.type,
       data: arrayBuffer
     }
+  } else if (getStructuredFormat(file)) {
+    // Office, HTML and data files are sent to the model as markdown
+    try {
+      const { blocks } = await parseStructuredDocument(file)
+      return {
+        name: file.name,
+        type: file.type,
+        data: blocksToMarkdown(blocks)
+      }
+    } catch (error) {
+      console.error('Error parsing document:', error)
+      throw new Error(`Could not read file: ${file.name}`)
+    }
   } else if (file.type === 'application/pdf' || file.type.startsWith('text/') || file.name.endsWith('.md')) {
     // For text-based files, convert to text
     try {
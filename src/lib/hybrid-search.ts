@@ -0,0 +1,178 @@
+import { tokenize } from './embeddings'
+
+export interface SearchableChunk {
+  key: string
+  content: string
+  embedding?: number[]
+  // Provider that produced the embedding; only vectors from the query's provider are compared
+  embeddingModel?: string
+  // Similarity already computed elsewhere (e.g. by pgvector); takes precedence over `embedding`
+  vectorSimilarity?: number | null
+}
+
+export interface HybridMatch {
+  key: string
+  score: number
+  bm25: number
+  vectorSimilarity: number | null
+  matchedTerms: string[]
+}
+
+export interface HybridSearchOptions {
+  queryEmbedding?: number[]
+  embeddingModel?: string
+  // Share of the fused score taken by vector similarity; the rest comes from normalized BM25
+  vectorWeight?: number
+  minSimilarity?: number
+  maxResults?: number
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+
+  let dotProduct = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+/**
+ * Okapi BM25 over an incrementally maintained corpus. Term frequencies are kept per chunk so
+ * documents can be added and removed without rebuilding the index.
+ */
+export class BM25Index {
+  private termFrequencies = new Map<string, Map<string, number>>()
+  private lengths = new Map<string, number>()
+  private documentFrequencies = new Map<string, number>()
+  private totalLength = 0
+
+  constructor(private readonly k1 = 1.2, private readonly b = 0.75) {}
+
+  get size(): number {
+    return this.lengths.size
+  }
+
+  add(key: string, text: string): void {
+    this.remove(key)
+    const terms = tokenize(text)
+    const frequencies = new Map<string, number>()
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1))
+
+    frequencies.forEach((_, term) => {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1)
+    })
+    this.termFrequencies.set(key, frequencies)
+    this.lengths.set(key, terms.length)
+    this.totalLength += terms.length
+  }
+
+  remove(key: string): void {
+    const frequencies = this.termFrequencies.get(key)
+    if (!frequencies) return
+
+    frequencies.forEach((_, term) => {
+      const count = (this.documentFrequencies.get(term) || 1) - 1
+      if (count > 0) {
+        this.documentFrequencies.set(term, count)
+      } else {
+        this.documentFrequencies.delete(term)
+      }
+    })
+    this.totalLength -= this.lengths.get(key) || 0
+    this.termFrequencies.delete(key)
+    this.lengths.delete(key)
+  }
+
+  clear(): void {
+    this.termFrequencies.clear()
+    this.lengths.clear()
+    this.documentFrequencies.clear()
+    this.totalLength = 0
+  }
+
+  score(queryTerms: string[]): Map<string, number> {
+    const scores = new Map<string, number>()
+    const documentCount = this.size
+    if (documentCount === 0) return scores
+
+    const averageLength = this.totalLength / documentCount || 1
+    const uniqueTerms = Array.from(new Set(queryTerms))
+
+    this.termFrequencies.forEach((frequencies, key) => {
+      const length = this.lengths.get(key) || 0
+      let score = 0
+      for (const term of uniqueTerms) {
+        const frequency = frequencies.get(term)
+        if (!frequency) continue
+        const documentFrequency = this.documentFrequencies.get(term) || 0
+        const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5))
+        score += idf * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * length / averageLength))
+      }
+      if (score > 0) scores.set(key, score)
+    })
+
+    return scores
+  }
+}
+
+export const DEFAULT_VECTOR_WEIGHT = 0.5
+
+/**
+ * Rank chunks by a weighted fusion of BM25 (normalized by the best match) and cosine similarity.
+ * Chunks without a comparable vector are scored on BM25 alone. A chunk is a match when it has a
+ * lexical hit or its similarity clears `minSimilarity`.
+ */
+export function rankHybrid(
+  query: string,
+  chunks: SearchableChunk[],
+  options: HybridSearchOptions = {},
+  index?: BM25Index
+): HybridMatch[] {
+  const queryTerms = tokenize(query)
+  const bm25Index = index || chunks.reduce((built, chunk) => {
+    built.add(chunk.key, chunk.content)
+    return built
+  }, new BM25Index())
+
+  const bm25Scores = bm25Index.score(queryTerms)
+  const maxBm25 = Math.max(0, ...chunks.map(chunk => bm25Scores.get(chunk.key) || 0))
+  const vectorWeight = options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT
+  const minSimilarity = options.minSimilarity ?? 0
+
+  const matches: HybridMatch[] = []
+  for (const chunk of chunks) {
+    const bm25 = bm25Scores.get(chunk.key) || 0
+    const comparable = !!options.queryEmbedding && !!chunk.embedding &&
+      (!options.embeddingModel || chunk.embeddingModel === options.embeddingModel)
+    const vectorSimilarity = chunk.vectorSimilarity !== undefined
+      ? chunk.vectorSimilarity
+      : comparable ? cosineSimilarity(options.queryEmbedding!, chunk.embedding!) : null
+
+    const semanticMatch = vectorSimilarity !== null && vectorSimilarity >= minSimilarity
+    if (bm25 === 0 && !semanticMatch) continue
+
+    const lexical = maxBm25 > 0 ? bm25 / maxBm25 : 0
+    const score = vectorSimilarity === null
+      ? lexical
+      : (1 - vectorWeight) * lexical + vectorWeight * Math.max(0, vectorSimilarity)
+
+    const contentLower = chunk.content.toLowerCase()
+    matches.push({
+      key: chunk.key,
+      score,
+      bm25,
+      vectorSimilarity,
+      matchedTerms: Array.from(new Set(queryTerms.filter(term => contentLower.includes(term))))
+    })
+  }
+
+  matches.sort((a, b) => b.score - a.score)
+  return options.maxResults ? matches.slice(0, options.maxResults) : matches
+}
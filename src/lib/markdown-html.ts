@@ -0,0 +1,70 @@
+// Markdown to static HTML for exports, highlighted the same way MessageList renders code.
+// The unified pipeline is ESM-only and fairly large, so it is only loaded when an export runs.
+
+let processorPromise: Promise<{ process: (markdown: string) => Promise<{ toString(): string }> }> | null = null
+
+async function getProcessor() {
+  if (!processorPromise) {
+    processorPromise = (async () => {
+      const [{ unified }, { default: remarkParse }, { default: remarkRehype }, { default: rehypeHighlight }, { default: rehypeStringify }] =
+        await Promise.all([
+          import('unified'),
+          import('remark-parse'),
+          import('remark-rehype'),
+          import('rehype-highlight'),
+          import('rehype-stringify')
+        ])
+      // Raw HTML in messages is dropped rather than passed through, so exports can't carry scripts
+      return unified()
+        .use(remarkParse)
+        .use(remarkRehype)
+        .use(rehypeHighlight, { detect: true })
+        .use(rehypeStringify)
+    })()
+  }
+  return processorPromise
+}
+
+export async function renderMarkdownToHtml(markdown: string): Promise<string> {
+  const processor = await getProcessor()
+  return String(await processor.process(markdown))
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// highlight.js token colours (GitHub light/dark), inlined so exported files stay self-contained
+export const HIGHLIGHT_CSS = `
+.hljs { color: #24292e; background: #f6f8fa; }
+.hljs-doctag, .hljs-keyword, .hljs-meta .hljs-keyword, .hljs-template-tag, .hljs-template-variable, .hljs-type, .hljs-variable.language_ { color: #d73a49; }
+.hljs-title, .hljs-title.class_, .hljs-title.class_.inherited__, .hljs-title.function_ { color: #6f42c1; }
+.hljs-attr, .hljs-attribute, .hljs-literal, .hljs-meta, .hljs-number, .hljs-operator, .hljs-variable, .hljs-selector-attr, .hljs-selector-class, .hljs-selector-id { color: #005cc5; }
+.hljs-regexp, .hljs-string, .hljs-meta .hljs-string { color: #032f62; }
+.hljs-built_in, .hljs-symbol { color: #e36209; }
+.hljs-comment, .hljs-code, .hljs-formula { color: #6a737d; }
+.hljs-name, .hljs-quote, .hljs-selector-tag, .hljs-selector-pseudo { color: #22863a; }
+.hljs-subst { color: #24292e; }
+.hljs-section { color: #005cc5; font-weight: bold; }
+.hljs-bullet { color: #735c0f; }
+.hljs-emphasis { font-style: italic; }
+.hljs-strong { font-weight: bold; }
+.hljs-addition { color: #22863a; background-color: #f0fff4; }
+.hljs-deletion { color: #b31d28; background-color: #ffeef0; }
+@media (prefers-color-scheme: dark) {
+  .hljs { color: #c9d1d9; background: #161b22; }
+  .hljs-doctag, .hljs-keyword, .hljs-meta .hljs-keyword, .hljs-template-tag, .hljs-template-variable, .hljs-type, .hljs-variable.language_ { color: #ff7b72; }
+  .hljs-title, .hljs-title.class_, .hljs-title.class_.inherited__, .hljs-title.function_ { color: #d2a8ff; }
+  .hljs-attr, .hljs-attribute, .hljs-literal, .hljs-meta, .hljs-number, .hljs-operator, .hljs-variable, .hljs-selector-attr, .hljs-selector-class, .hljs-selector-id { color: #79c0ff; }
+  .hljs-regexp, .hljs-string, .hljs-meta .hljs-string { color: #a5d6ff; }
+  .hljs-built_in, .hljs-symbol { color: #ffa657; }
+  .hljs-comment, .hljs-code, .hljs-formula { color: #8b949e; }
+  .hljs-name, .hljs-quote, .hljs-selector-tag, .hljs-selector-pseudo { color: #7ee787; }
+  .hljs-subst { color: #c9d1d9; }
+}
+`
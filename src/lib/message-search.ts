@@ -0,0 +1,292 @@
+import type { Database } from './supabase'
+import type { createServerClient } from './supabase'
+import { embedTexts, getEmbeddingProvider, type EmbeddingProvider } from './embeddings'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+type ConversationRow = Database['public']['Tables']['conversations']['Row']
+type MessageRole = Database['public']['Tables']['messages']['Row']['role']
+
+export const SEARCH_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 50
+const MIN_QUERY_LENGTH = 2
+const MAX_QUERY_LENGTH = 200
+// Conversations whose title or summary matches are listed above message hits on the first page
+const TITLE_MATCH_LIMIT = 5
+// Messages embedded per semantic search; the index fills in as the user keeps searching
+const EMBEDDING_BACKFILL_BATCH = 50
+
+const MESSAGE_ROLES: MessageRole[] = ['user', 'assistant', 'system']
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface MessageSearchFilters {
+  model?: string
+  role?: MessageRole
+  // Inclusive ISO bounds; a bare date as `to` covers that whole day
+  from?: string
+  to?: string
+  hasAttachments?: boolean
+  folderId?: string
+  tagId?: string
+  // Archived conversations are left out unless this is set
+  includeArchived?: boolean
+}
+
+export interface MessageSearchOptions extends MessageSearchFilters {
+  query: string
+  page: number
+  pageSize: number
+  semantic: boolean
+}
+
+export interface MessageSearchResult {
+  messageId: string
+  conversationId: string
+  conversationTitle: string
+  role: MessageRole
+  model: string | null
+  createdAt: string
+  hasAttachments: boolean
+  // Message text around the matches, with hits wrapped in <mark></mark>
+  snippet: string
+  score: number
+  similarity: number | null
+}
+
+export interface MessageSearchPage {
+  query: string
+  results: MessageSearchResult[]
+  conversations: ConversationRow[]
+  total: number
+  page: number
+  pageSize: number
+  hasMore: boolean
+  semantic: boolean
+}
+
+interface SearchMessagesRow {
+  message_id: string
+  conversation_id: string
+  conversation_title: string | null
+  role: MessageRole
+  model: string | null
+  created_at: string
+  has_attachments: boolean
+  snippet: string
+  rank: number
+  similarity: number | null
+  score: number
+  total_count: number
+}
+
+export class MessageSearchError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'MessageSearchError'
+  }
+}
+
+function parseDate(value: string, name: string, endOfDay: boolean): string {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value)
+  const time = Date.parse(dateOnly ? `${value}T00:00:00.000Z` : value)
+  if (Number.isNaN(time)) {
+    throw new MessageSearchError(`Invalid ${name} date`, 400)
+  }
+  // The RPC treats `to` as exclusive, so a date-only upper bound moves to the next midnight
+  return new Date(dateOnly && endOfDay ? time + 24 * 60 * 60 * 1000 : time).toISOString()
+}
+
+function parsePositiveInteger(value: string | null, name: string, fallback: number): number {
+  if (value === null || value === '') return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new MessageSearchError(`${name} must be a positive integer`, 400)
+  }
+  return parsed
+}
+
+function parseId(value: string | null, name: string): string | undefined {
+  if (!value) return undefined
+  if (!UUID_PATTERN.test(value)) {
+    throw new MessageSearchError(`Invalid ${name} id`, 400)
+  }
+  return value
+}
+
+function parseBoolean(value: string | null): boolean | undefined {
+  if (value === null || value === '') return undefined
+  return value === 'true' || value === '1'
+}
+
+/** Read and validate the query string of GET /api/search */
+export function parseSearchParams(params: URLSearchParams): MessageSearchOptions {
+  const query = (params.get('q') || '').trim()
+  if (query.length < MIN_QUERY_LENGTH) {
+    throw new MessageSearchError(`Search for at least ${MIN_QUERY_LENGTH} characters`, 400)
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new MessageSearchError(`Search queries are limited to ${MAX_QUERY_LENGTH} characters`, 400)
+  }
+
+  const role = params.get('role') || undefined
+  if (role && !MESSAGE_ROLES.includes(role as MessageRole)) {
+    throw new MessageSearchError('Role must be user, assistant or system', 400)
+  }
+
+  const from = params.get('from')
+  const to = params.get('to')
+  const options: MessageSearchOptions = {
+    query,
+    page: parsePositiveInteger(params.get('page'), 'page', 1),
+    pageSize: Math.min(parsePositiveInteger(params.get('pageSize'), 'pageSize', SEARCH_PAGE_SIZE), MAX_PAGE_SIZE),
+    semantic: parseBoolean(params.get('semantic')) ?? false,
+    model: params.get('model') || undefined,
+    role: role as MessageRole | undefined,
+    from: from ? parseDate(from, 'from', false) : undefined,
+    to: to ? parseDate(to, 'to', true) : undefined,
+    hasAttachments: parseBoolean(params.get('attachments')),
+    folderId: parseId(params.get('folder'), 'folder'),
+    tagId: parseId(params.get('tag'), 'tag'),
+    includeArchived: parseBoolean(params.get('archived'))
+  }
+
+  if (options.from && options.to && options.from >= options.to) {
+    throw new MessageSearchError('The from date must be before the to date', 400)
+  }
+  return options
+}
+
+/**
+ * Embed the caller's messages that have no vector from `provider` yet. Only messages in the
+ * caller's own conversations are written; collaborators' searches reuse the owner's vectors.
+ */
+export async function indexMessageEmbeddings(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  provider: EmbeddingProvider = getEmbeddingProvider(),
+  limit = EMBEDDING_BACKFILL_BATCH
+): Promise<number> {
+  const { data, error } = await supabase.rpc('messages_missing_embeddings', {
+    p_embedding_model: provider.id,
+    p_limit: limit
+  })
+  if (error) throw error
+
+  const rows = (data || []) as { id: string; text: string }[]
+  if (rows.length === 0) return 0
+
+  const { embeddings, provider: usedProvider } = await embedTexts(rows.map(row => row.text), provider)
+  const { error: upsertError } = await supabase
+    .from('message_embeddings')
+    .upsert(rows.map((row, index) => ({
+      message_id: row.id,
+      user_id: userId,
+      embedding: embeddings[index],
+      embedding_model: usedProvider.id
+    })), { onConflict: 'message_id' })
+  if (upsertError) throw upsertError
+
+  log(`🧮 [MessageSearch] Embedded ${rows.length} messages with ${usedProvider.id}`)
+  return rows.length
+}
+
+async function searchConversationTitles(
+  supabase: ServerSupabaseClient,
+  options: MessageSearchOptions
+): Promise<ConversationRow[]> {
+  const { data, error } = await supabase.rpc('search_conversations', {
+    query_text: options.query,
+    filter_model: options.model ?? null,
+    filter_from: options.from ?? null,
+    filter_to: options.to ?? null,
+    filter_folder_id: options.folderId ?? null,
+    filter_tag_id: options.tagId ?? null,
+    include_archived: options.includeArchived ?? false,
+    result_limit: TITLE_MATCH_LIMIT
+  })
+  if (error) throw error
+  return (data || []) as ConversationRow[]
+}
+
+/**
+ * Ranked search over every message the caller can read, through the search_messages RPC.
+ * Semantic search embeds the query and blends vector similarity into the ranking; it falls
+ * back to keyword ranking for messages that have not been embedded yet.
+ */
+export async function searchMessages(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  options: MessageSearchOptions
+): Promise<MessageSearchPage> {
+  const { query, page, pageSize, semantic } = options
+
+  let embedding: number[] | null = null
+  let provider: EmbeddingProvider | null = null
+  if (semantic) {
+    provider = getEmbeddingProvider()
+    try {
+      await indexMessageEmbeddings(supabase, userId, provider)
+    } catch (error) {
+      // Stale or missing vectors only weaken semantic ranking; keyword hits still come back
+      logError('❌ [MessageSearch] Failed to embed messages:', error)
+    }
+    const embedded = await embedTexts([query], provider)
+    embedding = embedded.embeddings[0]
+    provider = embedded.provider
+  }
+
+  const { data, error } = await supabase.rpc('search_messages', {
+    query_text: query,
+    query_embedding: embedding,
+    filter_embedding_model: provider?.id ?? null,
+    min_similarity: provider?.minSimilarity ?? null,
+    filter_model: options.model ?? null,
+    filter_role: options.role ?? null,
+    filter_from: options.from ?? null,
+    filter_to: options.to ?? null,
+    filter_has_attachments: options.hasAttachments ?? null,
+    filter_folder_id: options.folderId ?? null,
+    filter_tag_id: options.tagId ?? null,
+    include_archived: options.includeArchived ?? false,
+    result_limit: pageSize,
+    result_offset: (page - 1) * pageSize
+  })
+  if (error) {
+    logError('❌ [MessageSearch] Search failed:', error)
+    throw error
+  }
+
+  const rows = (data || []) as SearchMessagesRow[]
+  // Title matches ignore message-level filters, so they are only offered without them
+  const conversations = page === 1 && !options.role && options.hasAttachments === undefined
+    ? await searchConversationTitles(supabase, options)
+    : []
+
+  const total = rows.length > 0 ? Number(rows[0].total_count) : 0
+  log(`🔎 [MessageSearch] "${query}" page ${page}: ${rows.length} of ${total}${semantic ? ' (semantic)' : ''}`)
+
+  return {
+    query,
+    results: rows.map(row => ({
+      messageId: row.message_id,
+      conversationId: row.conversation_id,
+      conversationTitle: row.conversation_title || 'Untitled Chat',
+      role: row.role,
+      model: row.model,
+      createdAt: row.created_at,
+      hasAttachments: row.has_attachments,
+      snippet: row.snippet,
+      score: row.score,
+      similarity: row.similarity
+    })),
+    conversations,
+    total,
+    page,
+    pageSize,
+    hasMore: page * pageSize < total,
+    semantic
+  }
+}
@@ -0,0 +1,140 @@
+import { getModelById, type AIModel } from './models'
+import type { createServerClient } from './supabase'
+import { resolveModel, type ProviderResolution } from './provider-registry'
+import { ServerUsageTracker } from './usage-tracker-server'
+import { checkQuota, getQuotaErrorBody, type QuotaRoute } from './quota-policy'
+import { consumeAnonymousQuota, type AnonymousQuota, type AnonymousVisitor } from './anonymous-quota'
+import { getApiKeyVault, type ByokCredentials } from './api-key-vault'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+
+export interface ModelAccessRequest {
+  route: QuotaRoute
+  modelId: string
+  // Key sent by the client for this request, used when no OpenRouter key is stored
+  openRouterApiKey?: string
+}
+
+// Who is asking: a signed-in user, or an anonymous visitor identified by cookie and IP
+export interface ModelAccessCaller {
+  user: { id: string } | null
+  visitor?: AnonymousVisitor
+}
+
+export type ModelAccess =
+  | {
+      ok: true
+      modelInfo: AIModel
+      resolution: Extract<ProviderResolution, { ok: true }>
+      credentials?: ByokCredentials
+      // Set when an anonymous request was recorded against the visitor's quota
+      anonymousQuota?: AnonymousQuota
+      // Set when a signed-in request was reserved against the user's quota plan
+      usageReservationId?: number | null
+    }
+  | {
+      ok: false
+      status: number
+      // JSON error body for the response
+      body: Record<string, unknown>
+      anonymousQuota?: AnonymousQuota
+    }
+
+function describeModel(modelInfo: AIModel) {
+  return { id: modelInfo.id, tier: modelInfo.tier, provider: modelInfo.provider }
+}
+
+/**
+ * Everything that decides whether a model request may run, shared by every route that calls the
+ * model the user picked: the tier gate for anonymous visitors, BYOK credentials, provider
+ * resolution and the usage quota. Requests served with the user's own keys skip the quota;
+ * other requests are recorded up front so concurrent requests can't overshoot. Anonymous requests
+ * should be released with releaseAnonymousQuota if no model ends up answering; signed-in ones are
+ * settled by passing usageReservationId to recordUsage, or released with releaseQuota.
+ */
+export async function authorizeModelRequest(
+  supabase: ServerSupabaseClient,
+  { user, visitor }: ModelAccessCaller,
+  { route, modelId, openRouterApiKey }: ModelAccessRequest
+): Promise<ModelAccess> {
+  const modelInfo = getModelById(modelId)
+  if (!modelInfo) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: `Model "${modelId}" not found`, type: 'model_not_found' }
+    }
+  }
+
+  if (!user && modelInfo.tier !== 'vertex-ai') {
+    return {
+      ok: false,
+      status: 401,
+      body: {
+        error: 'Anonymous users can only use Vertex AI models. Please sign in to access premium models.',
+        type: 'authentication_required',
+        modelInfo: describeModel(modelInfo)
+      }
+    }
+  }
+
+  // Stored keys are decrypted server-side and never sent to the client
+  let credentials: ByokCredentials | undefined
+  if (user) {
+    const usage = await new ServerUsageTracker().getUsage(user.id)
+    if (usage.byokEnabled) {
+      credentials = await getApiKeyVault().getCredentials(user.id)
+    }
+  }
+  if (openRouterApiKey && !credentials?.apiKeys.openRouter) {
+    credentials = {
+      apiKeys: { ...credentials?.apiKeys, openRouter: openRouterApiKey },
+      fallbackToDirectAPIs: credentials?.fallbackToDirectAPIs ?? true
+    }
+  }
+
+  const resolution = resolveModel(modelInfo, credentials)
+  if (!resolution.ok) {
+    return {
+      ok: false,
+      status: resolution.error.status,
+      body: { error: resolution.error.error, type: resolution.error.type, modelInfo: describeModel(modelInfo) }
+    }
+  }
+
+  if (resolution.source !== 'server') {
+    log(`🔑 [ModelAccess] ${route} ${modelInfo.id} served with user credentials, skipping usage limits`)
+    return { ok: true, modelInfo, resolution, credentials }
+  }
+
+  if (!user) {
+    if (!visitor) {
+      throw new Error('Anonymous model requests need a visitor')
+    }
+    const quota = await consumeAnonymousQuota(visitor, modelInfo.id)
+    if (!quota.allowed) {
+      return {
+        ok: false,
+        status: 429,
+        body: {
+          error: `You have reached the limit of ${quota.limit} free requests in 24 hours. Please sign in to continue.`,
+          type: 'usage_limit',
+          remainingCalls: 0,
+          resetAt: quota.resetAt?.toISOString() ?? null
+        },
+        anonymousQuota: quota
+      }
+    }
+    return { ok: true, modelInfo, resolution, credentials, anonymousQuota: quota }
+  }
+
+  // Signed-in users are checked against their (or their organization's) quota plan
+  const quota = await checkQuota(supabase, user.id, { route, model: modelInfo })
+  if (!quota.allowed) {
+    return { ok: false, status: 429, body: getQuotaErrorBody(quota) }
+  }
+  return { ok: true, modelInfo, resolution, credentials, usageReservationId: quota.reservationId }
+}
@@ -14,12 +14,14 @@ export interface AIModel {
     functionCalling: boolean
     codeGeneration: boolean
     multimodal: boolean
+    reasoning?: boolean // Streams native reasoning (thinking) tokens
   }
   performance: {
     speed: 'fast' | 'medium' | 'slow'
     quality: 'high' | 'medium' | 'basic'
   }
   tier: 'free' | 'premium' | 'special' | 'byok' | 'vertex-ai' // Access tier - special tier has 2-call limit, vertex-ai for anonymous users
+  fallbacks?: string[] // Model IDs tried in order when the provider fails; 'openrouter' means the same model via OpenRouter
 }
 
 export const AI_MODELS: AIModel[] = [
@@ -31,9 +33,10 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 1000000,
     description: 'Enterprise-grade Gemini hosted on Google Cloud - Available for anonymous users (10 calls/day)',
     pricing: { input: 0.15, output: 0.60, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'fast', quality: 'high' },
-    tier: 'vertex-ai'
+    tier: 'vertex-ai',
+    fallbacks: ['gemini-2.5-flash-azure', 'gemini-2.0-flash', 'openrouter']
   },
   {
     id: 'gemini-2.5-flash-lite-vertex',
@@ -42,9 +45,10 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 1000000,
     description: 'Lightweight Gemini model optimized for cost and speed - Available for anonymous users (10 calls/day)',
     pricing: { input: 0.075, output: 0.30, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: false },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: false, reasoning: true },
     performance: { speed: 'fast', quality: 'medium' },
-    tier: 'vertex-ai'
+    tier: 'vertex-ai',
+    fallbacks: ['gemini-2.0-flash', 'openrouter']
   },
 
   // Free Tier Models (Available for Logged-in Users)
@@ -57,7 +61,8 @@ export const AI_MODELS: AIModel[] = [
     pricing: { input: 0.15, output: 0.60, currency: 'USD' },
     capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
     performance: { speed: 'fast', quality: 'high' },
-    tier: 'free'
+    tier: 'free',
+    fallbacks: ['gemini-2.5-flash-vertex', 'gemini-2.0-flash', 'openrouter']
   },
   {
     id: 'gemini-2.5-flash-preview-05-20',
@@ -66,9 +71,10 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 1000000,
     description: 'Latest Gemini with enhanced reasoning and multimodal capabilities - Free for logged-in users',
     pricing: { input: 0.15, output: 0.60, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'fast', quality: 'high' },
-    tier: 'free'
+    tier: 'free',
+    fallbacks: ['gemini-2.5-flash-vertex', 'gemini-2.5-flash-azure', 'openrouter']
   },
   {
     id: 'gemini-2.0-flash',
@@ -101,7 +107,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 200000,
     description: 'Latest Claude 4 Sonnet model - Limited to 2 free calls per user',
     pricing: { input: 3, output: 15, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'fast', quality: 'high' },
     tier: 'special'
   },
@@ -116,7 +122,8 @@ export const AI_MODELS: AIModel[] = [
     pricing: { input: 0.15, output: 0.60, currency: 'USD' },
     capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
     performance: { speed: 'fast', quality: 'high' },
-    tier: 'premium'
+    tier: 'premium',
+    fallbacks: ['gpt-4o-mini-azure', 'openrouter']
   },
   {
     id: 'gpt-4o-mini-azure',
@@ -127,7 +134,8 @@ export const AI_MODELS: AIModel[] = [
     pricing: { input: 0.15, output: 0.60, currency: 'USD' },
     capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
     performance: { speed: 'fast', quality: 'high' },
-    tier: 'premium'
+    tier: 'premium',
+    fallbacks: ['gpt-4o-mini', 'openrouter']
   },
   {
     id: 'claude-sonnet-4',
@@ -136,7 +144,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 200000,
     description: 'Advanced reasoning with superior coding capabilities - Premium model',
     pricing: { input: 3, output: 15, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'fast', quality: 'high' },
     tier: 'premium'
   },
@@ -147,7 +155,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 200000,
     description: 'Advanced reasoning model with 80% price reduction (June 2025) - Premium model',
     pricing: { input: 2, output: 8, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'medium', quality: 'high' },
     tier: 'premium'
   },
@@ -158,7 +166,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 131072,
     description: 'Think mode with extended reasoning capabilities - Premium model',
     pricing: { input: 3, output: 15, currency: 'USD' },
-    capabilities: { vision: false, functionCalling: true, codeGeneration: true, multimodal: false },
+    capabilities: { vision: false, functionCalling: true, codeGeneration: true, multimodal: false, reasoning: true },
     performance: { speed: 'medium', quality: 'high' },
     tier: 'premium'
   },
@@ -171,7 +179,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 200000,
     description: 'OpenAI\'s most advanced reasoning model - BYOK required',
     pricing: { input: 20, output: 80, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'medium', quality: 'high' },
     tier: 'byok'
   },
@@ -182,7 +190,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 200000,
     description: 'Latest flagship Claude model - BYOK required',
     pricing: { input: 15, output: 75, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'medium', quality: 'high' },
     tier: 'byok'
   },
@@ -217,7 +225,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 2000000,
     description: 'Google\'s most advanced model - BYOK via OpenRouter required',
     pricing: { input: 1.25, output: 5, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'medium', quality: 'high' },
     tier: 'byok'
   },
@@ -228,7 +236,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 2000000,
     description: 'Google\'s experimental model with thinking capabilities - BYOK via OpenRouter required',
     pricing: { input: 1.25, output: 10, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'medium', quality: 'high' },
     tier: 'byok'
   },
@@ -239,7 +247,7 @@ export const AI_MODELS: AIModel[] = [
     maxTokens: 200000,
     description: 'Claude 4 with enhanced reasoning capabilities - BYOK via OpenRouter required',
     pricing: { input: 3, output: 15, currency: 'USD' },
-    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true },
+    capabilities: { vision: true, functionCalling: true, codeGeneration: true, multimodal: true, reasoning: true },
     performance: { speed: 'medium', quality: 'high' },
     tier: 'byok'
   },
@@ -273,4 +281,24 @@ export function getModelById(modelId: string): AIModel | undefined {
 
 export function getModelsByProvider(provider: string): AIModel[] {
   return AI_MODELS.filter(model => model.provider === provider)
-}
\ No newline at end of file
+}
+
+export interface ModelCost {
+  input: number
+  output: number
+  total: number
+  currency: 'USD'
+}
+
+// Pricing is per 1M tokens; feePercentage covers intermediaries such as OpenRouter
+export function calculateModelCost(
+  model: AIModel,
+  inputTokens: number,
+  outputTokens: number,
+  feePercentage = 0
+): ModelCost {
+  const multiplier = 1 + feePercentage / 100
+  const input = (inputTokens / 1000000) * model.pricing.input * multiplier
+  const output = (outputTokens / 1000000) * model.pricing.output * multiplier
+  return { input, output, total: input + output, currency: model.pricing.currency }
+}
@@ -3,9 +3,17 @@ import { createOpenRouter } from '@openrouter/ai-sdk-provider'
 export interface OpenRouterConfig {
   apiKey: string
   enabled: boolean
+  // When false, every model OpenRouter supports is routed through it instead of our direct APIs
   fallbackToDirectAPIs: boolean
 }
 
+// Client-side view of a user's OpenRouter setup - the key itself is stored encrypted on the server
+export interface OpenRouterClientConfig {
+  enabled: boolean
+  fallbackToDirectAPIs: boolean
+  keyHint?: string
+}
+
 // OpenRouter model mappings for the latest models
 export const OPENROUTER_MODEL_MAP: Record<string, string> = {
   // OpenAI Models
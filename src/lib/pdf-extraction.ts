@@ -0,0 +1,324 @@
+import { deflateSync } from 'zlib'
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+// Pages with less extractable text than this are treated as scanned and need OCR
+const MIN_TEXT_LAYER_CHARS = 20
+const IMAGE_LOAD_TIMEOUT_MS = 5000
+
+export interface PdfPageImage {
+  data: string // base64
+  mimeType: 'image/png'
+  width: number
+  height: number
+}
+
+export interface ExtractedPdfPage {
+  pageNumber: number
+  text: string
+  hasTextLayer: boolean
+  // Largest image on a scanned page, for OCR
+  image?: PdfPageImage
+}
+
+export interface PdfOutlineItem {
+  title: string
+  pageNumber?: number
+  url?: string
+  items: PdfOutlineItem[]
+}
+
+export interface PdfLink {
+  pageNumber: number
+  url: string
+}
+
+export interface PdfMetadata {
+  title?: string
+  author?: string
+  subject?: string
+  keywords?: string
+  creator?: string
+  producer?: string
+  creationDate?: string
+  modificationDate?: string
+}
+
+export interface ExtractedPdf {
+  pageCount: number
+  pages: ExtractedPdfPage[]
+  metadata: PdfMetadata
+  outline: PdfOutlineItem[]
+  links: PdfLink[]
+}
+
+export interface PdfExtractionOptions {
+  // Scanned pages beyond this many are left without an image, to bound OCR cost
+  maxScannedPageImages?: number
+  // Documents with more pages are rejected before any page is parsed
+  maxPages?: number
+}
+
+export class PdfExtractionError extends Error {
+  constructor(message: string, readonly reason: 'invalid' | 'password' | 'too-large' | 'unknown') {
+    super(message)
+    this.name = 'PdfExtractionError'
+  }
+}
+
+// The legacy build runs in Node without a worker or DOM
+async function loadPdfjs() {
+  return await import('pdfjs-dist/legacy/build/pdf.js')
+}
+
+/**
+ * Parse a PDF on the server: per-page text, document metadata, outline and link annotations.
+ * Pages without a usable text layer are flagged and, up to `maxScannedPageImages`, carry their
+ * largest embedded image as a PNG so they can be sent to OCR.
+ */
+export async function extractPdf(data: Uint8Array, options: PdfExtractionOptions = {}): Promise<ExtractedPdf> {
+  const pdfjs = await loadPdfjs()
+  let pdf: PDFDocumentProxy
+  try {
+    pdf = await pdfjs.getDocument({
+      data,
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+      isEvalSupported: false,
+      useSystemFonts: false
+    }).promise
+  } catch (error) {
+    const name = error instanceof Error ? error.name : ''
+    if (name === 'PasswordException') {
+      throw new PdfExtractionError('PDF is password protected', 'password')
+    }
+    if (name === 'InvalidPDFException' || name === 'FormatError') {
+      throw new PdfExtractionError('File is not a valid PDF', 'invalid')
+    }
+    throw new PdfExtractionError(error instanceof Error ? error.message : 'Could not read PDF', 'unknown')
+  }
+
+  try {
+    if (options.maxPages !== undefined && pdf.numPages > options.maxPages) {
+      throw new PdfExtractionError(`PDF has ${pdf.numPages} pages; at most ${options.maxPages} are supported`, 'too-large')
+    }
+    const maxImages = options.maxScannedPageImages ?? 0
+    const pages: ExtractedPdfPage[] = []
+    const links: PdfLink[] = []
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const text = await extractPageText(page)
+      const hasTextLayer = text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS
+
+      const extractedPage: ExtractedPdfPage = { pageNumber, text, hasTextLayer }
+      if (!hasTextLayer && pages.filter(p => p.image).length < maxImages) {
+        extractedPage.image = await extractLargestImage(page, pdfjs.OPS)
+      }
+      pages.push(extractedPage)
+
+      const annotations = await page.getAnnotations()
+      for (const annotation of annotations) {
+        if (annotation.subtype === 'Link' && typeof annotation.url === 'string') {
+          links.push({ pageNumber, url: annotation.url })
+        }
+      }
+      page.cleanup()
+    }
+
+    const [metadata, outline] = await Promise.all([
+      extractMetadata(pdf, pdfjs.PDFDateString),
+      extractOutline(pdf)
+    ])
+
+    log(`📑 [PdfExtraction] ${pdf.numPages} pages, ${pages.filter(p => !p.hasTextLayer).length} without text layer`)
+    return { pageCount: pdf.numPages, pages, metadata, outline, links }
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+async function extractPageText(page: PDFPageProxy): Promise<string> {
+  const content = await page.getTextContent()
+  let text = ''
+  for (const item of content.items) {
+    if (!('str' in item)) continue
+    text += item.str
+    text += item.hasEOL ? '\n' : ' '
+  }
+  return text.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim()
+}
+
+async function extractMetadata(
+  pdf: PDFDocumentProxy,
+  dates: { toDateObject(input: string): Date | null }
+): Promise<PdfMetadata> {
+  try {
+    const { info, metadata } = await pdf.getMetadata()
+    const raw = info as Record<string, unknown>
+    const str = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined
+    const date = (value: unknown) => {
+      const parsed = typeof value === 'string' ? dates.toDateObject(value) : null
+      return parsed ? parsed.toISOString() : undefined
+    }
+
+    return {
+      // XMP metadata is usually more accurate than the Info dictionary when both exist
+      title: str(metadata?.get('dc:title')) || str(raw.Title),
+      author: str(metadata?.get('dc:creator')) || str(raw.Author),
+      subject: str(raw.Subject),
+      keywords: str(raw.Keywords),
+      creator: str(raw.Creator),
+      producer: str(raw.Producer),
+      creationDate: date(raw.CreationDate),
+      modificationDate: date(raw.ModDate)
+    }
+  } catch (error) {
+    logError('Failed to read PDF metadata:', error)
+    return {}
+  }
+}
+
+async function extractOutline(pdf: PDFDocumentProxy): Promise<PdfOutlineItem[]> {
+  type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number]
+
+  const resolvePage = async (dest: OutlineNode['dest']): Promise<number | undefined> => {
+    try {
+      const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest
+      const ref = explicit?.[0]
+      if (ref === undefined || ref === null) return undefined
+      return typeof ref === 'number' ? ref + 1 : await pdf.getPageIndex(ref) + 1
+    } catch {
+      return undefined
+    }
+  }
+
+  const convert = async (nodes: OutlineNode[]): Promise<PdfOutlineItem[]> => Promise.all(nodes.map(async node => ({
+    title: node.title,
+    pageNumber: await resolvePage(node.dest),
+    url: node.url || undefined,
+    items: await convert(node.items || [])
+  })))
+
+  try {
+    return await convert((await pdf.getOutline()) || [])
+  } catch (error) {
+    logError('Failed to read PDF outline:', error)
+    return []
+  }
+}
+
+interface DecodedImage {
+  width: number
+  height: number
+  kind: number
+  data: Uint8Array | Uint8ClampedArray
+}
+
+async function extractLargestImage(
+  page: PDFPageProxy,
+  ops: { paintImageXObject: number; paintInlineImageXObject: number }
+): Promise<PdfPageImage | undefined> {
+  try {
+    const operatorList = await page.getOperatorList()
+    const images: DecodedImage[] = []
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+      const fn = operatorList.fnArray[i]
+      const args = operatorList.argsArray[i]
+      if (fn === ops.paintInlineImageXObject) {
+        images.push(args[0])
+      } else if (fn === ops.paintImageXObject) {
+        const image = await getPageObject(page, args[0])
+        if (image) images.push(image)
+      }
+    }
+
+    const largest = images
+      .filter(image => image?.data && image.width > 0 && image.height > 0)
+      .sort((a, b) => b.width * b.height - a.width * a.height)[0]
+    if (!largest) return undefined
+
+    const png = encodePng(largest)
+    return png ? { data: png.toString('base64'), mimeType: 'image/png', width: largest.width, height: largest.height } : undefined
+  } catch (error) {
+    logError(`Failed to extract image from page ${page.pageNumber}:`, error)
+    return undefined
+  }
+}
+
+// Decoded images live in the page's object store (or the shared one for `g_` ids) once the operator list is built
+function getPageObject(page: PDFPageProxy, id: string): Promise<DecodedImage | undefined> {
+  const store = (id.startsWith('g_') ? page.commonObjs : page.objs) as {
+    get(id: string, callback: (data: DecodedImage) => void): void
+  }
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(undefined), IMAGE_LOAD_TIMEOUT_MS)
+    store.get(id, data => {
+      clearTimeout(timer)
+      resolve(data)
+    })
+  })
+}
+
+// pdf.js ImageKind values
+const GRAYSCALE_1BPP = 1
+const RGB_24BPP = 2
+const RGBA_32BPP = 3
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+// Minimal PNG encoder for decoded pdf.js bitmaps, so OCR works without a canvas implementation
+function encodePng(image: DecodedImage): Buffer | undefined {
+  const formats: Record<number, { bitDepth: number; colorType: number; rowBytes: number }> = {
+    [GRAYSCALE_1BPP]: { bitDepth: 1, colorType: 0, rowBytes: Math.ceil(image.width / 8) },
+    [RGB_24BPP]: { bitDepth: 8, colorType: 2, rowBytes: image.width * 3 },
+    [RGBA_32BPP]: { bitDepth: 8, colorType: 6, rowBytes: image.width * 4 }
+  }
+  const format = formats[image.kind]
+  if (!format || image.data.length < format.rowBytes * image.height) return undefined
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(image.width, 0)
+  header.writeUInt32BE(image.height, 4)
+  header[8] = format.bitDepth
+  header[9] = format.colorType
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const raw = Buffer.alloc((format.rowBytes + 1) * image.height)
+  for (let y = 0; y < image.height; y++) {
+    raw.set(image.data.subarray(y * format.rowBytes, (y + 1) * format.rowBytes), y * (format.rowBytes + 1) + 1)
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ])
+}
@@ -0,0 +1,244 @@
+import { APICallError, type LanguageModelV1, type StreamTextResult, type ToolSet } from 'ai'
+import { getModelById, type AIModel } from './models'
+import {
+  resolveModel,
+  resolveViaOpenRouter,
+  type ModelSource,
+  type ProviderAdapter,
+  type ProviderError,
+  type ProviderResolution
+} from './provider-registry'
+import type { ByokCredentials } from './api-key-vault'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+// Fallback chain entry meaning "the requested model, served through OpenRouter"
+export const OPENROUTER_FALLBACK = 'openrouter'
+
+export interface FailoverTarget {
+  modelInfo: AIModel
+  adapter: ProviderAdapter
+  model: LanguageModelV1
+  source: ModelSource
+}
+
+export interface FailoverAttempt {
+  modelId: string
+  provider: string
+  error: string
+  status?: number
+  transient: boolean
+}
+
+export interface FailoverOptions {
+  retriesPerTarget: number
+  baseDelayMs: number
+  maxDelayMs: number
+  firstTokenTimeoutMs: number
+}
+
+export const DEFAULT_FAILOVER_OPTIONS: FailoverOptions = {
+  retriesPerTarget: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  firstTokenTimeoutMs: 20000
+}
+
+export type ChatStreamResult = StreamTextResult<ToolSet, never>
+
+export interface FailoverResult {
+  result: ChatStreamResult
+  target: FailoverTarget
+  attempts: FailoverAttempt[]
+}
+
+export class FirstTokenTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No response within ${timeoutMs}ms`)
+    this.name = 'FirstTokenTimeoutError'
+  }
+}
+
+// Thrown when every target in the chain failed; carries the last error for mapping
+export class FailoverError extends Error {
+  constructor(
+    public readonly target: FailoverTarget,
+    public readonly lastError: unknown,
+    public readonly attempts: FailoverAttempt[]
+  ) {
+    super(lastError instanceof Error ? lastError.message : 'All providers failed')
+    this.name = 'FailoverError'
+  }
+
+  toProviderError(): ProviderError {
+    return this.target.adapter.mapError(this.lastError)
+  }
+}
+
+// MODEL_FALLBACK_CHAINS='{"gemini-2.5-flash-vertex":["gemini-2.5-flash-azure","openrouter"]}'
+function getConfiguredChains(): Record<string, string[]> {
+  const raw = process.env.MODEL_FALLBACK_CHAINS
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch (error) {
+    logError('Invalid MODEL_FALLBACK_CHAINS, using model defaults:', error)
+    return {}
+  }
+}
+
+export function getFallbackChain(modelInfo: AIModel): string[] {
+  return getConfiguredChains()[modelInfo.id] || modelInfo.fallbacks || []
+}
+
+/**
+ * Build the ordered list of targets for a request: the primary resolution followed by every
+ * fallback that can be served. Requests served with the user's own credentials never fall back
+ * onto server credentials, so a BYOK request can't spend the server quota.
+ */
+export function buildFailoverTargets(
+  modelInfo: AIModel,
+  primary: Extract<ProviderResolution, { ok: true }>,
+  credentials?: ByokCredentials
+): FailoverTarget[] {
+  const targets: FailoverTarget[] = [
+    { modelInfo, adapter: primary.adapter, model: primary.model, source: primary.source }
+  ]
+
+  for (const fallbackId of getFallbackChain(modelInfo)) {
+    const fallbackModel = fallbackId === OPENROUTER_FALLBACK ? modelInfo : getModelById(fallbackId)
+    if (!fallbackModel) {
+      logError(`Unknown fallback model "${fallbackId}" for ${modelInfo.id}`)
+      continue
+    }
+
+    const resolution = fallbackId === OPENROUTER_FALLBACK
+      ? resolveViaOpenRouter(modelInfo, credentials)
+      : resolveModel(fallbackModel, credentials)
+    if (!resolution.ok) {
+      log(`⏭️ [Failover] Skipping ${fallbackId}: ${resolution.error.error}`)
+      continue
+    }
+    if (primary.source !== 'server' && resolution.source === 'server') {
+      continue
+    }
+
+    const duplicate = targets.some(target =>
+      target.adapter.id === resolution.adapter.id && target.model.modelId === resolution.model.modelId
+    )
+    if (!duplicate) {
+      targets.push({
+        modelInfo: fallbackModel,
+        adapter: resolution.adapter,
+        model: resolution.model,
+        source: resolution.source
+      })
+    }
+  }
+
+  return targets
+}
+
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT']
+
+// Rate limits, server errors, timeouts and dropped connections are worth retrying
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof FirstTokenTimeoutError) return true
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode
+    return error.isRetryable || status === 429 || (!!status && status >= 500)
+  }
+  if (error instanceof Error) {
+    const code = (error as { code?: string }).code || (error.cause as { code?: string } | undefined)?.code
+    return (!!code && TRANSIENT_ERROR_CODES.includes(code)) ||
+      (error.name === 'TypeError' && /fetch failed|network/i.test(error.message))
+  }
+  return false
+}
+
+// Exponential backoff with jitter, honouring a provider's retry-after header when present
+export function getRetryDelay(attempt: number, error: unknown, options: FailoverOptions): number {
+  if (APICallError.isInstance(error)) {
+    const retryAfter = Number(error.responseHeaders?.['retry-after'])
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return Math.min(retryAfter * 1000, options.maxDelayMs)
+    }
+  }
+  const exponential = options.baseDelayMs * 2 ** attempt
+  return Math.min(exponential + Math.random() * options.baseDelayMs, options.maxDelayMs)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Read the stream until the first real output so provider errors surface before we commit to it
+async function waitForFirstChunk(result: ChatStreamResult, timeoutMs: number): Promise<void> {
+  const reader = result.fullStream.getReader()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new FirstTokenTimeoutError(timeoutMs)), timeoutMs)
+  })
+
+  try {
+    while (true) {
+      const { done, value } = await Promise.race([reader.read(), timeout])
+      if (done) return
+      if (value.type === 'error') throw value.error
+      if (value.type !== 'step-start') return
+    }
+  } finally {
+    clearTimeout(timer)
+    // Only this peek branch is cancelled; the response reads its own copy of the stream
+    reader.cancel().catch(() => {})
+  }
+}
+
+/**
+ * Stream from the first target that produces output. Transient failures are retried on the same
+ * target with backoff, anything else moves on to the next target in the chain. Once the first
+ * chunk has arrived the stream is handed to the caller and no further failover happens.
+ */
+export async function streamWithFailover(
+  targets: FailoverTarget[],
+  createStream: (target: FailoverTarget, abortSignal: AbortSignal) => ChatStreamResult,
+  options: Partial<FailoverOptions> = {}
+): Promise<FailoverResult> {
+  const config = { ...DEFAULT_FAILOVER_OPTIONS, ...options }
+  const attempts: FailoverAttempt[] = []
+  let lastError: unknown
+
+  for (const target of targets) {
+    for (let retry = 0; retry <= config.retriesPerTarget; retry++) {
+      const controller = new AbortController()
+      try {
+        const result = createStream(target, controller.signal)
+        await waitForFirstChunk(result, config.firstTokenTimeoutMs)
+
+        if (attempts.length > 0) {
+          log(`🔁 [Failover] ${target.modelInfo.id} via ${target.adapter.name} after ${attempts.length} failed attempts`)
+        }
+        return { result, target, attempts }
+      } catch (error) {
+        controller.abort()
+        lastError = error
+
+        const transient = isTransientError(error)
+        const mapped = target.adapter.mapError(error)
+        attempts.push({
+          modelId: target.modelInfo.id,
+          provider: target.adapter.id,
+          error: mapped.error,
+          status: mapped.status,
+          transient
+        })
+        logError(`⚠️ [Failover] ${target.adapter.name} failed for ${target.modelInfo.id}:`, mapped.error)
+
+        if (!transient || retry === config.retriesPerTarget) break
+        await sleep(getRetryDelay(retry, error, config))
+      }
+    }
+  }
+
+  throw new FailoverError(targets[targets.length - 1], lastError, attempts)
+}
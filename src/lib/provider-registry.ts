@@ -0,0 +1,330 @@
+import { APICallError, type LanguageModelV1 } from 'ai'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { getVertexAIProvider } from './vertex-ai-provider'
+import { getAzureProvider } from './azure-openai-provider'
+import { getAzureAIProvider } from './azure-ai-provider'
+import { OpenRouterProvider, OPENROUTER_MODEL_MAP } from './openrouter'
+import type { AIModel } from './models'
+import type { ApiKeyProvider, ByokCredentials } from './api-key-vault'
+
+export type ProviderId = AIModel['provider'] | 'openrouter'
+
+// Whose credentials serve the request: ours, the user's own provider key, or the user's OpenRouter key
+export type ModelSource = 'server' | 'user-key' | 'openrouter'
+
+// Common error shape returned by every adapter so the chat route can respond uniformly
+export interface ProviderError {
+  error: string
+  type: string
+  provider: ProviderId
+  status: number
+}
+
+export interface ProviderAdapter {
+  id: ProviderId
+  name: string
+  errorType: string
+  // BYOK key this adapter can use in place of the server credentials
+  userKey?: ApiKeyProvider
+  isConfigured(): boolean
+  getModel(model: AIModel, apiKey?: string): LanguageModelV1
+  mapError(error: unknown): ProviderError
+}
+
+export type ProviderResolution =
+  | { ok: true; adapter: ProviderAdapter; model: LanguageModelV1; source: ModelSource }
+  | { ok: false; error: ProviderError }
+
+// Placeholder values copied from .env.example should not count as configured
+function hasKey(value: string | undefined, placeholder?: string): value is string {
+  return !!value && value !== placeholder
+}
+
+function createErrorMapper(id: ProviderId, name: string, type: string) {
+  return (error: unknown): ProviderError => {
+    const status = APICallError.isInstance(error) && error.statusCode ? error.statusCode : 500
+    return {
+      error: `${name} error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      type,
+      provider: id,
+      status
+    }
+  }
+}
+
+// Vertex AI credentials are parsed once per server instance
+let vertexProvider: ReturnType<typeof getVertexAIProvider> | undefined
+
+function getVertex() {
+  if (vertexProvider === undefined) {
+    vertexProvider = getVertexAIProvider()
+  }
+  return vertexProvider
+}
+
+const vertexAdapter: ProviderAdapter = {
+  id: 'vertex-ai',
+  name: 'Vertex AI',
+  errorType: 'vertex_ai_error',
+  isConfigured: () => !!getVertex()?.isAvailable,
+  getModel: (model) => {
+    const vertex = getVertex()!
+    return vertex.vertex(vertex.getModelId(model.id))
+  },
+  mapError: createErrorMapper('vertex-ai', 'Vertex AI', 'vertex_ai_error')
+}
+
+const googleAdapter: ProviderAdapter = {
+  id: 'google',
+  name: 'Google AI',
+  errorType: 'google_error',
+  userKey: 'google',
+  // Gemini models are served through Vertex AI when available, falling back to the Gemini API key
+  isConfigured: () => vertexAdapter.isConfigured() || hasKey(getGoogleApiKey()),
+  getModel: (model, apiKey) => {
+    if (!apiKey && vertexAdapter.isConfigured()) {
+      return vertexAdapter.getModel(model)
+    }
+    return createGoogleGenerativeAI({ apiKey: apiKey || getGoogleApiKey() })(model.id)
+  },
+  mapError: createErrorMapper('google', 'Google AI', 'google_error')
+}
+
+function getGoogleApiKey() {
+  return process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY
+}
+
+const openaiAdapter: ProviderAdapter = {
+  id: 'openai',
+  name: 'OpenAI',
+  errorType: 'openai_error',
+  userKey: 'openai',
+  isConfigured: () => hasKey(process.env.OPENAI_API_KEY, 'your-openai-api-key'),
+  getModel: (model, apiKey) => {
+    const openai = createOpenAI({ apiKey: apiKey || process.env.OPENAI_API_KEY })
+    // Reasoning summaries are only streamed by the Responses API
+    return model.capabilities.reasoning ? openai.responses(model.id) : openai(model.id)
+  },
+  mapError: createErrorMapper('openai', 'OpenAI', 'openai_error')
+}
+
+const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  errorType: 'anthropic_error',
+  userKey: 'anthropic',
+  isConfigured: () => hasKey(process.env.ANTHROPIC_API_KEY, 'your-anthropic-api-key'),
+  getModel: (model, apiKey) => createAnthropic({ apiKey: apiKey || process.env.ANTHROPIC_API_KEY })(model.id),
+  mapError: createErrorMapper('anthropic', 'Anthropic', 'anthropic_error')
+}
+
+// xAI exposes an OpenAI-compatible endpoint; think mode is only available on grok-3-mini
+const XAI_MODEL_MAP: Record<string, string> = {
+  'grok-3-reasoning': 'grok-3-mini'
+}
+
+const xaiAdapter: ProviderAdapter = {
+  id: 'xai',
+  name: 'xAI',
+  errorType: 'xai_error',
+  userKey: 'xai',
+  isConfigured: () => hasKey(process.env.XAI_API_KEY, 'your-xai-api-key'),
+  getModel: (model, apiKey) => {
+    const xai = createOpenAICompatible({
+      name: 'xai',
+      baseURL: process.env.XAI_BASE_URL || 'https://api.x.ai/v1',
+      apiKey: apiKey || process.env.XAI_API_KEY
+    })
+    return xai(XAI_MODEL_MAP[model.id] || model.id)
+  },
+  mapError: createErrorMapper('xai', 'xAI', 'xai_error')
+}
+
+const azureAdapter: ProviderAdapter = {
+  id: 'azure',
+  name: 'Azure OpenAI',
+  errorType: 'azure_error',
+  isConfigured: () => !!getAzureProvider()?.isAvailable,
+  getModel: () => {
+    // Azure routes by deployment name rather than model ID
+    const azure = getAzureProvider()!
+    return azure.provider(azure.deploymentName)
+  },
+  mapError: createErrorMapper('azure', 'Azure OpenAI', 'azure_error')
+}
+
+// Azure AI Studio deployment names for the models we host there
+const AZURE_AI_MODEL_MAP: Record<string, string> = {
+  'gemini-2.5-flash-azure': 'gemini-2.5-flash'
+}
+
+const azureAIAdapter: ProviderAdapter = {
+  id: 'azure-ai',
+  name: 'Azure AI',
+  errorType: 'azure_ai_error',
+  isConfigured: () => !!getAzureAIProvider()?.isAvailable,
+  getModel: (model) => {
+    const azureAI = getAzureAIProvider()!
+    return azureAI.provider(process.env.AZURE_AI_MODEL_NAME || AZURE_AI_MODEL_MAP[model.id] || model.id)
+  },
+  mapError: createErrorMapper('azure-ai', 'Azure AI', 'azure_ai_error')
+}
+
+const openRouterAdapter: ProviderAdapter = {
+  id: 'openrouter',
+  name: 'OpenRouter',
+  errorType: 'openrouter_error',
+  userKey: 'openRouter',
+  isConfigured: () => hasKey(process.env.OPENROUTER_API_KEY),
+  getModel: (model, apiKey) => {
+    const openRouter = new OpenRouterProvider({
+      apiKey: apiKey || process.env.OPENROUTER_API_KEY || '',
+      enabled: true,
+      fallbackToDirectAPIs: false
+    })
+    const instance = openRouter.getModel(model.id)
+    if (!instance) {
+      throw new Error(`${model.name} is not available on OpenRouter`)
+    }
+    return instance
+  },
+  mapError: createErrorMapper('openrouter', 'OpenRouter', 'openrouter_error')
+}
+
+const registry = new Map<ProviderId, ProviderAdapter>()
+
+export function registerProvider(adapter: ProviderAdapter) {
+  registry.set(adapter.id, adapter)
+}
+
+export function getProviderAdapter(providerId: ProviderId): ProviderAdapter | undefined {
+  return registry.get(providerId)
+}
+
+export function getRegisteredProviders(): ProviderAdapter[] {
+  return Array.from(registry.values())
+}
+
+function buildResolution(
+  adapter: ProviderAdapter,
+  model: AIModel,
+  source: ModelSource,
+  apiKey?: string
+): ProviderResolution {
+  try {
+    return { ok: true, adapter, model: adapter.getModel(model, apiKey), source }
+  } catch (error) {
+    return { ok: false, error: adapter.mapError(error) }
+  }
+}
+
+/**
+ * Resolve a model instance for an AIModel, or a ProviderError explaining why it can't be served.
+ *
+ * With BYOK credentials, a user's own key for the model's provider always wins. An OpenRouter key
+ * serves byok-tier models and models whose provider isn't configured on this server; when
+ * `fallbackToDirectAPIs` is off it serves every model it supports.
+ */
+export function resolveModel(model: AIModel, credentials?: ByokCredentials): ProviderResolution {
+  const adapter = registry.get(model.provider)
+  const apiKeys = credentials?.apiKeys || {}
+
+  const userKey = adapter?.userKey ? apiKeys[adapter.userKey] : undefined
+  if (adapter && userKey) {
+    return buildResolution(adapter, model, 'user-key', userKey)
+  }
+
+  const serverCanServe = !!adapter && model.tier !== 'byok' && adapter.isConfigured()
+  if (apiKeys.openRouter && OPENROUTER_MODEL_MAP[model.id]) {
+    if (!serverCanServe || credentials?.fallbackToDirectAPIs === false) {
+      return buildResolution(openRouterAdapter, model, 'openrouter', apiKeys.openRouter)
+    }
+  }
+
+  if (!adapter) {
+    return {
+      ok: false,
+      error: {
+        error: `Provider "${model.provider}" is not yet implemented.`,
+        type: 'provider_not_implemented',
+        provider: model.provider,
+        status: 501
+      }
+    }
+  }
+
+  if (model.tier === 'byok') {
+    return {
+      ok: false,
+      error: {
+        error: `${model.name} requires your own API key. Add an OpenRouter or ${adapter.name} key in settings.`,
+        type: 'byok_required',
+        provider: adapter.id,
+        status: 403
+      }
+    }
+  }
+
+  if (!adapter.isConfigured()) {
+    return {
+      ok: false,
+      error: {
+        error: `${adapter.name} is not configured. Please set up your ${adapter.name} credentials.`,
+        type: adapter.errorType,
+        provider: adapter.id,
+        status: 500
+      }
+    }
+  }
+
+  return buildResolution(adapter, model, 'server')
+}
+
+/**
+ * Resolve the same model through OpenRouter, used as the last hop of a fallback chain.
+ * The user's OpenRouter key is preferred; otherwise the server key serves the request.
+ */
+export function resolveViaOpenRouter(model: AIModel, credentials?: ByokCredentials): ProviderResolution {
+  if (!OPENROUTER_MODEL_MAP[model.id]) {
+    return {
+      ok: false,
+      error: {
+        error: `${model.name} is not available on OpenRouter`,
+        type: 'provider_not_implemented',
+        provider: 'openrouter',
+        status: 501
+      }
+    }
+  }
+
+  const userKey = credentials?.apiKeys.openRouter
+  if (userKey) {
+    return buildResolution(openRouterAdapter, model, 'openrouter', userKey)
+  }
+
+  if (!openRouterAdapter.isConfigured()) {
+    return {
+      ok: false,
+      error: {
+        error: 'OpenRouter is not configured. Please set OPENROUTER_API_KEY.',
+        type: openRouterAdapter.errorType,
+        provider: 'openrouter',
+        status: 500
+      }
+    }
+  }
+
+  return buildResolution(openRouterAdapter, model, 'server')
+}
+
+registerProvider(vertexAdapter)
+registerProvider(googleAdapter)
+registerProvider(openaiAdapter)
+registerProvider(anthropicAdapter)
+registerProvider(xaiAdapter)
+registerProvider(azureAdapter)
+registerProvider(azureAIAdapter)
+registerProvider(openRouterAdapter)
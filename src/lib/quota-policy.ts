@@ -0,0 +1,386 @@
+import type { LanguageModelUsage } from 'ai'
+import { calculateModelCost, type AIModel } from './models'
+import { createServiceRoleClient, type createServerClient } from './supabase'
+import type { ModelSource } from './provider-registry'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+const logError = console.error // Always log errors
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+
+// Allowances plans can cap. Vertex AI models share the premium allowance, and catalog models that
+// normally need the user's own key count as premium when a feature serves them with a server key.
+export type QuotaTier = 'free' | 'premium' | 'special'
+
+// Routes that make model calls. 'summary' covers background titles, rolling summaries and context
+// compression, which are recorded in the ledger but not held against the plan.
+export type QuotaRoute = 'chat' | 'vision' | 'analyze-file' | 'extract-tasks' | 'summary'
+
+export type QuotaMetric = 'requests' | 'tokens' | 'costUsd'
+
+export const QUOTA_METRICS: QuotaMetric[] = ['requests', 'tokens', 'costUsd']
+
+// Unset or null caps are unlimited
+export type QuotaCaps = Partial<Record<QuotaMetric, number | null>>
+
+// Shape of quota_plans.limits
+export interface QuotaLimits {
+  // Across every model
+  total?: QuotaCaps
+  tiers?: Partial<Record<QuotaTier, QuotaCaps>>
+  // Replace the tier caps for a single model
+  models?: Record<string, QuotaCaps>
+}
+
+export interface QuotaPlan {
+  id: string
+  name: string
+  windowHours: number
+  limits: QuotaLimits
+}
+
+// Used when no plan is assigned and no default plan row exists
+export const DEFAULT_QUOTA_PLAN: QuotaPlan = {
+  id: 'free',
+  name: 'Free',
+  windowHours: 24,
+  limits: {
+    tiers: {
+      premium: { requests: 18 },
+      special: { requests: 2 }
+    }
+  }
+}
+
+export type UsageTotals = Record<QuotaMetric, number>
+
+export interface UsageSummary {
+  total: UsageTotals
+  tiers: Record<QuotaTier, UsageTotals>
+  models: Record<string, UsageTotals>
+}
+
+export interface QuotaLimitStatus {
+  scope: 'total' | 'tier' | 'model'
+  // 'total', the tier or the model id
+  key: string
+  metric: QuotaMetric
+  limit: number
+  used: number
+}
+
+export interface QuotaDecision {
+  allowed: boolean
+  plan: QuotaPlan
+  // The first exhausted limit when the request is refused
+  exhausted: QuotaLimitStatus | null
+  // usage_events row reserved for an allowed request; settled by recordUsage or given back by releaseQuota
+  reservationId?: number | null
+}
+
+export interface QuotaRequest {
+  route: QuotaRoute
+  model: AIModel
+}
+
+export interface UsageRecord extends QuotaRequest {
+  usage?: LanguageModelUsage
+  // Defaults to the model's list price
+  costUsd?: number
+  // Defaults to the model's provider
+  provider?: string
+  source?: ModelSource
+  conversationId?: string | null
+  latencyMs?: number
+  // Settles this reservation from checkQuota instead of recording a new request
+  reservationId?: number | null
+}
+
+interface PlanRow {
+  id: string
+  name: string
+  window_hours: number
+  limits: QuotaLimits | null
+}
+
+interface ReservationRow {
+  allowed: boolean
+  event_id: number | null
+  exhausted_scope: QuotaLimitStatus['scope'] | null
+  exhausted_key: string | null
+  exhausted_metric: QuotaMetric | null
+  exhausted_limit: number | string | null
+  exhausted_used: number | string | null
+}
+
+// Reservations are made, settled and released with the service role: with their own session users
+// could release their requests or rewrite their usage
+let reservationClient: ReturnType<typeof createServiceRoleClient> | null = null
+
+function getReservationClient() {
+  if (!reservationClient) {
+    reservationClient = createServiceRoleClient()
+  }
+  return reservationClient
+}
+
+interface UsageTotalsRow {
+  model: string
+  tier: string
+  requests: number
+  tokens: number | string
+  cost_usd: number | string
+}
+
+export function getQuotaTier(tier: AIModel['tier']): QuotaTier {
+  if (tier === 'free' || tier === 'special') return tier
+  return 'premium'
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, tokens: 0, costUsd: 0 }
+}
+
+function toPlan(row: PlanRow): QuotaPlan {
+  return { id: row.id, name: row.name, windowHours: row.window_hours, limits: row.limits || {} }
+}
+
+/** The plan assigned to the user, else to one of their organizations, else the default plan */
+export async function loadQuotaPlan(supabase: ServerSupabaseClient, userId: string): Promise<QuotaPlan> {
+  // RLS limits assignments to the user's own and their organizations'
+  const { data: assignments, error } = await supabase
+    .from('quota_plan_assignments')
+    .select('user_id, created_at, plan:quota_plans(id, name, window_hours, limits)')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    logError('Error loading quota plan assignments:', error)
+  } else {
+    const rows = (assignments || []) as unknown as { user_id: string | null; plan: PlanRow | null }[]
+    const assigned = rows.find(row => row.user_id === userId && row.plan) || rows.find(row => row.plan)
+    if (assigned?.plan) return toPlan(assigned.plan)
+  }
+
+  const { data: fallback } = await supabase
+    .from('quota_plans')
+    .select('id, name, window_hours, limits')
+    .eq('is_default', true)
+    .maybeSingle()
+  return fallback ? toPlan(fallback as PlanRow) : DEFAULT_QUOTA_PLAN
+}
+
+export function summarizeUsage(rows: UsageTotalsRow[]): UsageSummary {
+  const summary: UsageSummary = {
+    total: emptyTotals(),
+    tiers: { free: emptyTotals(), premium: emptyTotals(), special: emptyTotals() },
+    models: {}
+  }
+  rows.forEach(row => {
+    const totals: UsageTotals = { requests: row.requests, tokens: Number(row.tokens), costUsd: Number(row.cost_usd) }
+    const tier = summary.tiers[row.tier as QuotaTier]
+    const model = summary.models[row.model] ||= emptyTotals()
+    for (const target of [summary.total, tier, model]) {
+      if (!target) continue
+      QUOTA_METRICS.forEach(metric => { target[metric] += totals[metric] })
+    }
+  })
+  return summary
+}
+
+/** The user's usage within the plan's rolling window */
+export async function loadUsageSummary(
+  supabase: ServerSupabaseClient,
+  plan: QuotaPlan,
+  now = Date.now()
+): Promise<UsageSummary> {
+  const since = new Date(now - plan.windowHours * 60 * 60 * 1000).toISOString()
+  const { data, error } = await supabase.rpc('usage_totals', { p_since: since })
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`)
+  }
+  return summarizeUsage((data || []) as UsageTotalsRow[])
+}
+
+function capStatuses(scope: QuotaLimitStatus['scope'], key: string, caps: QuotaCaps | undefined, used: UsageTotals): QuotaLimitStatus[] {
+  if (!caps) return []
+  return QUOTA_METRICS
+    .filter(metric => typeof caps[metric] === 'number')
+    .map(metric => ({ scope, key, metric, limit: caps[metric] as number, used: used[metric] }))
+}
+
+/**
+ * Every cap that applies to a request for `modelId`: the plan's total caps, plus the model's own
+ * caps if the plan overrides it, otherwise its tier's caps.
+ */
+function getApplicableLimits(plan: QuotaPlan, usage: UsageSummary, modelId: string, tier: QuotaTier): QuotaLimitStatus[] {
+  const { total, tiers, models } = plan.limits
+  const override = models?.[modelId]
+  return [
+    ...capStatuses('total', 'total', total, usage.total),
+    ...(override
+      ? capStatuses('model', modelId, override, usage.models[modelId] || emptyTotals())
+      : capStatuses('tier', tier, tiers?.[tier], usage.tiers[tier]))
+  ]
+}
+
+/** Every cap in the plan with its current usage, for showing the plan to the user */
+export function getPlanLimitStatuses(plan: QuotaPlan, usage: UsageSummary): QuotaLimitStatus[] {
+  const { total, tiers = {}, models = {} } = plan.limits
+  return [
+    ...capStatuses('total', 'total', total, usage.total),
+    ...(Object.keys(tiers) as QuotaTier[]).flatMap(tier => capStatuses('tier', tier, tiers[tier], usage.tiers[tier] || emptyTotals())),
+    ...Object.keys(models).flatMap(modelId => capStatuses('model', modelId, models[modelId], usage.models[modelId] || emptyTotals()))
+  ]
+}
+
+export function evaluateQuota(plan: QuotaPlan, usage: UsageSummary, modelId: string, tier: QuotaTier): QuotaDecision {
+  const exhausted = getApplicableLimits(plan, usage, modelId, tier).find(status => status.used >= status.limit) || null
+  return { allowed: !exhausted, plan, exhausted }
+}
+
+function toExhaustedLimit(row: ReservationRow): QuotaLimitStatus | null {
+  if (!row.exhausted_scope || !row.exhausted_key || !row.exhausted_metric) return null
+  return {
+    scope: row.exhausted_scope,
+    key: row.exhausted_key,
+    metric: row.exhausted_metric,
+    limit: Number(row.exhausted_limit),
+    used: Number(row.exhausted_used)
+  }
+}
+
+/**
+ * The usage-limit policy for signed-in users, shared by every route that spends server-funded
+ * model calls. The caps are checked and an allowed request is recorded atomically in the
+ * database, so concurrent requests can't overshoot the plan. Pass the decision's reservationId to
+ * recordUsage once the model answers, or to releaseQuota if none did. Requests served with the
+ * user's own keys shouldn't be checked.
+ */
+export async function checkQuota(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  request: QuotaRequest,
+  now = Date.now()
+): Promise<QuotaDecision> {
+  const plan = await loadQuotaPlan(supabase, userId)
+  const tier = getQuotaTier(request.model.tier)
+  // Usage is counted by the database; only the caps are sent
+  const limits = getApplicableLimits(plan, summarizeUsage([]), request.model.id, tier)
+    .map(({ scope, key, metric, limit }) => ({ scope, key, metric, limit }))
+
+  const { data, error } = await getReservationClient().rpc('reserve_usage', {
+    p_user_id: userId,
+    p_route: request.route,
+    p_model: request.model.id,
+    p_tier: tier,
+    p_since: new Date(now - plan.windowHours * 60 * 60 * 1000).toISOString(),
+    p_limits: limits
+  })
+  if (error) {
+    throw new Error(`Failed to reserve usage: ${error.message}`)
+  }
+
+  const row = (data as ReservationRow[] | null)?.[0]
+  const decision: QuotaDecision = {
+    allowed: !!row?.allowed,
+    plan,
+    exhausted: row ? toExhaustedLimit(row) : null,
+    reservationId: row?.event_id ?? null
+  }
+
+  if (decision.exhausted) {
+    const { scope, key, metric, used, limit } = decision.exhausted
+    log(`🚫 [QuotaPolicy] ${request.route} ${request.model.id} refused on ${plan.id} - ${scope} ${key} ${metric} ${used}/${limit}`)
+  } else {
+    log(`✅ [QuotaPolicy] ${request.route} ${request.model.id} allowed on ${plan.id}`)
+  }
+  return decision
+}
+
+/** Give back a reserved request that failed before any model answered */
+export async function releaseQuota(userId: string, reservationId: number | null | undefined): Promise<void> {
+  if (!reservationId) return
+
+  const { error } = await getReservationClient().rpc('release_usage', {
+    p_event_id: reservationId,
+    p_user_id: userId
+  })
+  if (error) {
+    logError('Error releasing usage reservation:', error)
+  }
+}
+
+/**
+ * Record a finished model call in the usage_events ledger, settling its reservation if it has one.
+ * Every call is recorded for analytics; only server-key calls outside the 'summary' route count
+ * against the plan.
+ */
+export async function recordUsage(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  { route, model, usage, costUsd, provider, source = 'server', conversationId, latencyMs, reservationId }: UsageRecord
+): Promise<void> {
+  // Providers occasionally omit usage; the request still counts
+  const promptTokens = usage?.promptTokens || 0
+  const completionTokens = usage?.completionTokens || 0
+  const event = {
+    model: model.id,
+    tier: getQuotaTier(model.tier),
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    cost_usd: costUsd ?? calculateModelCost(model, promptTokens, completionTokens).total,
+    provider: provider || model.provider,
+    source,
+    conversation_id: conversationId || null,
+    latency_ms: latencyMs === undefined ? null : Math.max(0, Math.round(latencyMs))
+  }
+
+  const { error } = reservationId
+    ? await getReservationClient().rpc('settle_usage', {
+        p_event_id: reservationId,
+        p_user_id: userId,
+        p_model: event.model,
+        p_tier: event.tier,
+        p_prompt_tokens: event.prompt_tokens,
+        p_completion_tokens: event.completion_tokens,
+        p_cost_usd: event.cost_usd,
+        p_provider: event.provider,
+        p_source: event.source,
+        p_conversation_id: event.conversation_id,
+        p_latency_ms: event.latency_ms
+      })
+    : await supabase
+        .from('usage_events')
+        .insert({ user_id: userId, route, ...event })
+
+  if (error) {
+    logError('Error recording usage:', error)
+  }
+}
+
+function describeLimit({ scope, key, metric, limit }: QuotaLimitStatus): string {
+  const amount = metric === 'costUsd'
+    ? `$${limit.toFixed(2)} of usage`
+    : `${limit.toLocaleString('en-US')} ${metric === 'tokens' ? 'tokens' : limit === 1 ? 'request' : 'requests'}`
+  const target = scope === 'total' ? '' : scope === 'tier' ? ` for ${key} models` : ` for ${key}`
+  return `${amount}${target}`
+}
+
+/** Body of the 429 returned when a plan limit is exhausted, naming the limit that was hit */
+export function getQuotaErrorBody(decision: QuotaDecision) {
+  const { plan, exhausted } = decision
+  const windowLabel = plan.windowHours === 24 ? '24 hours' : `${plan.windowHours} hours`
+  const suggestion = exhausted?.scope === 'total'
+    ? 'Please try again later or enable BYOK in settings.'
+    : 'You can still use other models or enable BYOK in settings.'
+  return {
+    error: exhausted
+      ? `You have reached your ${plan.name} plan limit of ${describeLimit(exhausted)} in ${windowLabel}. ${suggestion}`
+      : 'Usage limit reached',
+    type: 'usage_limit' as const,
+    plan: { id: plan.id, name: plan.name, windowHours: plan.windowHours },
+    limit: exhausted,
+    remainingCalls: 0
+  }
+}
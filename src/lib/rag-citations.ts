@@ -0,0 +1,80 @@
+import type { JSONValue } from 'ai'
+import type { RAGResponse } from './unified-rag'
+
+// A retrieved chunk injected into the prompt as [SOURCE n]; stored with the answer for citations
+export interface RAGSource {
+  index: number
+  documentId: string
+  filename: string
+  chunkId: string
+  pageNumber?: number
+  content: string
+  relevanceScore: number
+}
+
+// Citation links are rendered as in-page anchors so react-markdown keeps the href
+export const CITATION_HREF_PREFIX = '#rag-source-'
+
+const SOURCE_MARKER = /\[SOURCE\s+(\d+)(?:\s*:[^\]]*)?\]/gi
+
+export function buildSourcesFromSearch(response: RAGResponse): RAGSource[] {
+  return response.results.map((result, i) => ({
+    index: i + 1,
+    documentId: result.document.id,
+    filename: result.document.filename,
+    chunkId: result.chunk.id,
+    pageNumber: result.chunk.pageNumber,
+    content: result.chunk.content,
+    relevanceScore: result.relevanceScore
+  }))
+}
+
+// The chat route streams the sources ahead of the answer, so citations link up before it is saved
+export function sourcesAnnotation(sources: RAGSource[]): JSONValue {
+  return { sources: sources.map(source => ({ ...source, pageNumber: source.pageNumber ?? null })) }
+}
+
+export function getAnnotatedSources(annotations: JSONValue[] | undefined): RAGSource[] {
+  for (const annotation of annotations || []) {
+    if (annotation && typeof annotation === 'object' && !Array.isArray(annotation) && Array.isArray(annotation.sources)) {
+      return (annotation.sources as unknown as (RAGSource & { pageNumber: number | null })[])
+        .map(source => ({ ...source, pageNumber: source.pageNumber ?? undefined }))
+    }
+  }
+  return []
+}
+
+export function describeSource(source: RAGSource): string {
+  return source.pageNumber ? `${source.filename} (Page ${source.pageNumber})` : source.filename
+}
+
+// System prompt section with numbered sources and how the model should cite them
+export function formatSourcesForPrompt(sources: RAGSource[]): string {
+  if (sources.length === 0) return ''
+
+  const sections = sources.map(source => `[SOURCE ${source.index}: ${describeSource(source)}]\n${source.content}`)
+  return [
+    'DOCUMENT CONTEXT (retrieved from the documents attached to this conversation):',
+    ...sections,
+    'When you use information from these sources, cite it inline right after the statement using the [SOURCE #] format, e.g. [SOURCE 1]. Only cite sources listed above. If the sources do not answer the question, say so and answer from general knowledge without citations.'
+  ].join('\n\n')
+}
+
+/**
+ * Turn [SOURCE n] markers in an answer into markdown links to the cited chunk. Markers that
+ * don't match a stored source are left as plain text.
+ */
+export function linkCitations(text: string, sources: RAGSource[]): string {
+  if (sources.length === 0) return text
+  const known = new Set(sources.map(source => source.index))
+  return text.replace(SOURCE_MARKER, (marker, index: string) => {
+    const n = Number(index)
+    return known.has(n) ? `[[${n}]](${CITATION_HREF_PREFIX}${n})` : marker
+  })
+}
+
+export function getCitationIndex(href: string | undefined): number | null {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null
+  const n = Number(href.slice(CITATION_HREF_PREFIX.length))
+  return Number.isInteger(n) ? n : null
+}
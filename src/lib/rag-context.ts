@@ -1,6 +1,7 @@
 'use client'
 
 import { DocumentChunk } from './rag-processor'
+import type { RAGSource } from './rag-citations'
 
 export interface RAGContextItem {
   id: string
@@ -16,6 +17,7 @@ export interface RAGContextState {
   totalChunks: number
   totalTokens: number
   isEnabled: boolean
+  focusedChunkId: string | null // Chunk opened from a citation in a chat answer
 }
 
 class RAGContextManager {
@@ -24,7 +26,8 @@ class RAGContextManager {
     items: [],
     totalChunks: 0,
     totalTokens: 0,
-    isEnabled: true
+    isEnabled: true,
+    focusedChunkId: null
   }
 
   subscribe(listener: (state: RAGContextState) => void) {
@@ -37,7 +40,8 @@ class RAGContextManager {
   }
 
   private notify() {
-    this.listeners.forEach(listener => listener(this.state))
+    const currentState = { ...this.state }
+    this.listeners.forEach(listener => listener(currentState))
   }
 
   private updateStats() {
@@ -106,8 +110,61 @@ class RAGContextManager {
     }
   }
 
+  // Open a cited chunk, adding it under its document's context item if it isn't there yet
+  showSource(source: RAGSource) {
+    const itemId = `source_${source.documentId}`
+    const chunkId = `${source.documentId}:${source.chunkId}`
+
+    let item = this.state.items.find(item => item.id === itemId)
+    if (!item) {
+      item = {
+        id: itemId,
+        chunks: [],
+        source: source.filename,
+        addedAt: new Date(),
+        isActive: true,
+        summary: ''
+      }
+      this.state.items = [...this.state.items, item]
+    }
+
+    if (!item.chunks.some(chunk => chunk.id === chunkId)) {
+      item.chunks = [...item.chunks, {
+        id: chunkId,
+        content: source.content,
+        type: 'text',
+        metadata: {
+          page: source.pageNumber,
+          position: { x: 0, y: 0, width: 0, height: 0 },
+          confidence: source.relevanceScore,
+          keywords: [],
+          summary: ''
+        },
+        children: [],
+        relationships: { contextuallyRelated: [] }
+      }]
+      item.summary = this.generateContextSummary(item.chunks, item.source)
+    }
+
+    this.state.focusedChunkId = chunkId
+    this.updateStats()
+    this.notify()
+
+    console.log('🧠 [RAG Context] Showing cited source:', {
+      source: source.filename,
+      page: source.pageNumber,
+      chunkId
+    })
+  }
+
+  clearFocus() {
+    this.state.focusedChunkId = null
+    this.notify()
+  }
+
   clearAllContext() {
     this.state.items = []
+    this.state.focusedChunkId = null
     this.updateStats()
     this.notify()
 
@@ -202,6 +259,8 @@ export function useRAGContext() {
     toggleContext: ragContextManager.toggleContext.bind(ragContextManager),
     clearAllContext: ragContextManager.clearAllContext.bind(ragContextManager),
     toggleEnabled: ragContextManager.toggleEnabled.bind(ragContextManager),
+    showSource: ragContextManager.showSource.bind(ragContextManager),
+    clearFocus: ragContextManager.clearFocus.bind(ragContextManager),
     getActiveContext: ragContextManager.getActiveContext.bind(ragContextManager),
     getContextForPrompt: ragContextManager.getContextForPrompt.bind(ragContextManager)
   }
@@ -1,3 +1,7 @@
+import { embedTexts } from './embeddings'
+import { cosineSimilarity } from './hybrid-search'
+import { getStructuredFormat, parseStructuredDocument } from './document-parsers'
+
 export interface DocumentChunk {
   id: string
   content: string
@@ -12,6 +16,7 @@ export interface DocumentChunk {
     keywords: string[]
     summary: string
     embedding?: number[] // Vector embedding for similarity search
+    embeddingModel?: string // Embedding provider that produced the vector
   }
   parent?: string // Parent chunk ID for hierarchical structure
   children: string[] // Child chunk IDs
@@ -34,7 +39,7 @@ export interface DocumentStructure {
     subject?: string
     keywords: string[]
     language: string
-    documentType: 'pdf' | 'docx' | 'txt' | 'md' | 'html'
+    documentType: 'pdf' | 'docx' | 'txt' | 'md' | 'html' | 'csv' | 'xlsx' | 'json' | 'yaml'
     processingTimestamp: string
     chunkingStrategy: string
     totalTokens: number
@@ -161,6 +166,8 @@ class VisualRAGProcessor {
     
     if (file.type === 'application/pdf') {
       return this.extractPDFLayout(file)
+    } else if (getStructuredFormat(file)) {
+      return this.extractStructuredLayout(file)
     } else if (file.type.includes('text') || file.name.endsWith('.md')) {
       return this.extractTextLayout(file)
     } else {
@@ -255,6 +262,36 @@ class VisualRAGProcessor {
     }
   }
 
+  // DOCX, HTML, spreadsheets and data files arrive as typed blocks, so no type detection is needed
+  private async extractStructuredLayout(file: File): Promise<any> {
+    const parsed = await parseStructuredDocument(file)
+    let yPosition = 0
+
+    const layoutElements = parsed.blocks.map(block => {
+      const fontSize = block.type === 'heading' ? 18 - (block.level || 1) * 2 : block.type === 'code' ? 10 : 12
+      const lines = block.content.split('\n').length
+      const element = {
+        type: block.type,
+        content: block.content,
+        position: { x: 50, y: yPosition, width: 500, height: lines * (fontSize + 4) },
+        page: block.page || 1,
+        style: { fontSize, fontWeight: block.type === 'heading' ? 'bold' : 'normal' }
+      }
+      yPosition += element.position.height + 8
+      return element
+    })
+
+    return {
+      content: layoutElements.map(element => element.content).join('\n\n'),
+      totalPages: parsed.totalPages,
+      layoutElements,
+      metadata: {
+        title: parsed.metadata.title || file.name,
+        author: parsed.metadata.author || 'Unknown'
+      }
+    }
+  }
+
   private detectContentType(text: string): string {
     const trimmed = text.trim()
     
@@ -344,10 +381,14 @@ class VisualRAGProcessor {
     let chunkIndex = 0
     
     for (const element of elements) {
-      // Start new chunk on headings or when current chunk is too large
+      // Start new chunk on headings or when current chunk is too large. Tables and lists get
+      // chunks of their own, except that a list stays with the heading it follows.
       const shouldStartNewChunk = 
         element.type === 'heading' ||
-        (currentChunk && this.estimateTokens(currentChunk.content) > options.maxChunkSize)
+        (currentChunk && this.estimateTokens(currentChunk.content) > options.maxChunkSize) ||
+        (currentChunk && (element.type === 'table' || currentChunk.type === 'table')) ||
+        (currentChunk && currentChunk.type !== 'heading' && currentChunk.type !== element.type &&
+          (element.type === 'list' || currentChunk.type === 'list'))
       
       if (shouldStartNewChunk && currentChunk) {
         chunks.push(await this.finalizeChunk(currentChunk, chunkIndex++))
@@ -485,40 +526,18 @@ class VisualRAGProcessor {
   }
 
   private async generateEmbeddings(chunks: DocumentChunk[]): Promise<DocumentChunk[]> {
-    // In a real implementation, this would call an embedding API
-    // For now, we'll generate mock embeddings
+    const { embeddings, provider } = await embedTexts(chunks.map(chunk => chunk.content))
     
-    return chunks.map(chunk => ({
+    return chunks.map((chunk, i) => ({
       ...chunk,
       metadata: {
         ...chunk.metadata,
-        embedding: this.generateMockEmbedding(chunk.content)
+        embedding: embeddings[i],
+        embeddingModel: provider.id
       }
     }))
   }
 
-  private generateMockEmbedding(text: string): number[] {
-    // Generate a consistent mock embedding based on text content
-    const hash = this.simpleHash(text)
-    const embedding: number[] = []
-    
-    for (let i = 0; i < 384; i++) {
-      embedding.push((Math.sin(hash + i) + 1) / 2)
-    }
-    
-    return embedding
-  }
-
-  private simpleHash(str: string): number {
-    let hash = 0
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
-    }
-    return hash
-  }
-
   private establishChunkRelationships(chunks: DocumentChunk[]): DocumentChunk[] {
     return chunks.map((chunk, index) => ({
       ...chunk,
@@ -571,6 +590,10 @@ class VisualRAGProcessor {
       case 'docx': case 'doc': return 'docx'
       case 'md': return 'md'
       case 'html': case 'htm': return 'html'
+      case 'csv': case 'tsv': return 'csv'
+      case 'xlsx': return 'xlsx'
+      case 'json': return 'json'
+      case 'yaml': case 'yml': return 'yaml'
       default: return 'txt'
     }
   }
@@ -591,6 +614,7 @@ class VisualRAGProcessor {
     
     const startTime = Date.now()
     const allChunks: (DocumentChunk & { documentId: string; documentTitle: string })[] = []
+    const { embeddings: [queryEmbedding], provider } = await embedTexts([query.query])
     
     // Collect all chunks from all documents
     documents.forEach(doc => {
@@ -610,7 +634,12 @@ class VisualRAGProcessor {
     // Score chunks based on relevance
     const scoredChunks = allChunks.map(chunk => ({
       ...chunk,
-      relevanceScore: this.calculateRelevanceScore(query.query, chunk, query.options.rankingStrategy)
+      relevanceScore: this.calculateRelevanceScore(
+        query.query,
+        chunk,
+        query.options.rankingStrategy,
+        { embedding: queryEmbedding, model: provider.id }
+      )
     }))
     
     // Filter by similarity threshold and sort by relevance
@@ -641,7 +670,8 @@ class VisualRAGProcessor {
   private calculateRelevanceScore(
     query: string,
     chunk: DocumentChunk & { documentId: string },
-    strategy: 'semantic' | 'keyword' | 'hybrid'
+    strategy: 'semantic' | 'keyword' | 'hybrid',
+    queryVector: { embedding: number[]; model: string }
   ): number {
     const queryLower = query.toLowerCase()
     const contentLower = chunk.content.toLowerCase()
@@ -649,8 +679,8 @@ class VisualRAGProcessor {
     // Keyword-based scoring
     const keywordScore = this.calculateKeywordScore(queryLower, contentLower, chunk.metadata.keywords)
     
-    // Semantic scoring (simplified - would use actual embeddings in production)
-    const semanticScore = this.calculateSemanticScore(query, chunk)
+    // Semantic scoring from the chunk's embedding
+    const semanticScore = this.calculateSemanticScore(queryVector, chunk)
     
     // Position-based bonus (earlier chunks get slight boost)
     const positionBonus = Math.max(0, 1 - (chunk.metadata.position.y / 10000)) * 0.1
@@ -695,28 +725,12 @@ class VisualRAGProcessor {
     return Math.min(1, score / queryWords.length)
   }
 
-  private calculateSemanticScore(query: string, chunk: DocumentChunk): number {
-    // Simplified semantic scoring - in production would use actual vector similarity
-    const queryEmbedding = this.generateMockEmbedding(query)
-    const chunkEmbedding = chunk.metadata.embedding || this.generateMockEmbedding(chunk.content)
-    
-    return this.cosineSimilarity(queryEmbedding, chunkEmbedding)
-  }
-
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0
-    
-    let dotProduct = 0
-    let normA = 0
-    let normB = 0
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i]
-      normA += a[i] * a[i]
-      normB += b[i] * b[i]
+  private calculateSemanticScore(queryVector: { embedding: number[]; model: string }, chunk: DocumentChunk): number {
+    // Vectors from different embedding models live in different spaces
+    if (!chunk.metadata.embedding || chunk.metadata.embeddingModel !== queryVector.model) {
+      return 0
     }
-    
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB))
+    return Math.max(0, cosineSimilarity(queryVector.embedding, chunk.metadata.embedding))
   }
 }
 
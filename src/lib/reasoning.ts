@@ -1,3 +1,7 @@
+import type { ProviderMetadata } from 'ai'
+import type { AIModel } from './models'
+import type { ProviderId } from './provider-registry'
+
 export interface ThoughtStep {
   type: 'analysis' | 'reasoning' | 'conclusion' | 'verification' | 'reflection' | 'hypothesis' | 'evaluation'
   thought: string
@@ -16,7 +20,8 @@ export interface ReasoningExtraction {
   reasoning: ThoughtStep[]
 }
 
-// Extract reasoning from AI response using patterns
+// Extract reasoning from AI response using patterns. Only used for models without native
+// reasoning; the steps carry no confidence since the model never reported one.
 export function extractReasoning(message: string): ReasoningExtraction {
   const reasoning: ThoughtStep[] = []
   let cleanMessage = message
@@ -26,8 +31,7 @@ export function extractReasoning(message: string): ReasoningExtraction {
   if (analysisMatch) {
     reasoning.push({
       type: 'analysis',
-      thought: analysisMatch[1].trim(),
-      confidence: 0.85 + Math.random() * 0.1
+      thought: analysisMatch[1].trim()
     })
     cleanMessage = cleanMessage.replace(analysisMatch[0], '')
   }
@@ -37,8 +41,7 @@ export function extractReasoning(message: string): ReasoningExtraction {
   if (reasoningMatch) {
     reasoning.push({
       type: 'reasoning',
-      thought: reasoningMatch[1].trim(),
-      confidence: 0.8 + Math.random() * 0.15
+      thought: reasoningMatch[1].trim()
     })
     cleanMessage = cleanMessage.replace(reasoningMatch[0], '')
   }
@@ -48,8 +51,7 @@ export function extractReasoning(message: string): ReasoningExtraction {
   if (conclusionMatch) {
     reasoning.push({
       type: 'conclusion',
-      thought: conclusionMatch[1].trim(),
-      confidence: 0.9 + Math.random() * 0.1
+      thought: conclusionMatch[1].trim()
     })
     cleanMessage = cleanMessage.replace(conclusionMatch[0], '')
   }
@@ -65,6 +67,94 @@ export function extractReasoning(message: string): ReasoningExtraction {
   }
 }
 
+// Reasoning budget chosen per request. 'default' leaves the provider's own behaviour, 'off'
+// disables thinking where the model allows it.
+export type ReasoningBudget = 'default' | 'off' | 'low' | 'medium' | 'high'
+
+export const REASONING_BUDGETS: ReasoningBudget[] = ['default', 'off', 'low', 'medium', 'high']
+
+// Thinking tokens for providers that take an explicit budget (Anthropic, Gemini)
+export const REASONING_BUDGET_TOKENS: Record<'low' | 'medium' | 'high', number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576
+}
+
+export function isReasoningBudget(value: unknown): value is ReasoningBudget {
+  return typeof value === 'string' && (REASONING_BUDGETS as string[]).includes(value)
+}
+
+/**
+ * Provider options that make a reasoning model stream its thinking through the AI SDK, sized by
+ * the requested budget. Returns undefined for models or providers without native reasoning.
+ */
+export function getReasoningProviderOptions(
+  model: AIModel,
+  providerId: ProviderId,
+  budget: ReasoningBudget = 'default'
+): ProviderMetadata | undefined {
+  if (!model.capabilities.reasoning) return undefined
+  const tokens = budget === 'default' || budget === 'off' ? undefined : REASONING_BUDGET_TOKENS[budget]
+
+  switch (providerId) {
+    case 'anthropic':
+      // Extended thinking is opt-in; the SDK adds the budget on top of maxTokens
+      return tokens ? { anthropic: { thinking: { type: 'enabled', budgetTokens: tokens } } } : undefined
+    case 'google':
+    case 'vertex-ai': {
+      // Only Flash models can turn thinking off entirely
+      const thinkingBudget = budget === 'off' ? (model.id.includes('flash') ? 0 : undefined) : tokens
+      return {
+        google: {
+          thinkingConfig: {
+            ...(thinkingBudget !== undefined ? { thinkingBudget } : {}),
+            includeThoughts: budget !== 'off'
+          }
+        }
+      }
+    }
+    case 'openai':
+      // o-series models always reason; the budget maps to effort and only summaries are streamed
+      return {
+        openai: {
+          ...(budget !== 'default' ? { reasoningEffort: budget === 'off' ? 'low' : budget } : {}),
+          ...(budget !== 'off' ? { reasoningSummary: 'auto' } : {})
+        }
+      }
+    case 'xai':
+      // grok-3-mini accepts low or high effort and streams reasoning_content
+      return budget === 'default' ? undefined : { xai: { reasoningEffort: budget === 'high' ? 'high' : 'low' } }
+    default:
+      return undefined
+  }
+}
+
+// OpenAI-style providers report reasoning tokens in provider metadata rather than in usage
+export function getReasoningTokens(providerMetadata: ProviderMetadata | undefined): number | undefined {
+  for (const metadata of Object.values(providerMetadata ?? {})) {
+    if (typeof metadata?.reasoningTokens === 'number') return metadata.reasoningTokens
+  }
+  return undefined
+}
+
+/**
+ * Split native reasoning text into steps for the chain-of-thought panel. Models that summarize
+ * their thinking use bold headings ("**Planning the approach**"), otherwise paragraphs are used.
+ */
+export function reasoningToThoughtSteps(reasoning: string): ThoughtStep[] {
+  const text = reasoning.trim()
+  if (!text) return []
+
+  const sections = /^\*\*[^*\n]+\*\*\s*$/m.test(text)
+    ? text.split(/\n(?=\*\*[^*\n]+\*\*\s*$)/m)
+    : text.split(/\n\s*\n/)
+
+  return sections
+    .map(section => section.trim())
+    .filter(Boolean)
+    .map(thought => ({ type: 'reasoning' as const, thought }))
+}
+
 // Generate synthetic reasoning steps for responses that don't have explicit reasoning
 function generateSyntheticReasoning(message: string): ThoughtStep[] {
   const steps: ThoughtStep[] = []
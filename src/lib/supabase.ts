@@ -1,5 +1,8 @@
 import { createClient } from '@supabase/supabase-js'
 import { createBrowserClient, createServerClient as createServerClientSSR } from '@supabase/ssr'
+import type { QuotaLimits, QuotaRoute, QuotaTier } from './quota-policy'
+import type { ModelSource } from './provider-registry'
+import type { Task } from './task-extractor'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -56,6 +59,18 @@ export const createServerClient = async () => {
   )
 }
 
+// Server-only client with the service role key, which bypasses RLS. Only for bookkeeping no
+// user may do directly, such as counting anonymous requests; never import it into client code.
+export const createServiceRoleClient = () => {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+  return createClient(supabaseUrl || 'https://placeholder.supabase.co', serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
+
 // Client-side Supabase client for Client Components (singleton)
 let clientComponentClient: ReturnType<typeof createBrowserClient> | null = null
 
@@ -85,6 +100,7 @@ export type Database = {
           usage_last_reset?: string
           byok_enabled?: boolean
           api_keys?: Record<string, string>
+          byok_fallback_to_direct?: boolean
           traits_enabled?: boolean
         }
         Insert: {
@@ -98,6 +114,7 @@ export type Database = {
           usage_last_reset?: string
           byok_enabled?: boolean
           api_keys?: Record<string, string>
+          byok_fallback_to_direct?: boolean
           traits_enabled?: boolean
         }
         Update: {
@@ -111,6 +128,7 @@ export type Database = {
           usage_last_reset?: string
           byok_enabled?: boolean
           api_keys?: Record<string, string>
+          byok_fallback_to_direct?: boolean
           traits_enabled?: boolean
         }
       }
@@ -122,6 +140,16 @@ export type Database = {
           model_provider: string
           model_name: string
           system_prompt: string | null
+          temperature: number | null
+          top_p: number | null
+          max_output_tokens: number | null
+          stop_sequences: string[] | null
+          import_hash?: string | null
+          import_source?: string | null
+          summary?: string | null
+          summary_message_count?: number
+          summary_updated_at?: string | null
+          title_generated_at?: string | null
           created_at: string
           updated_at: string
         }
@@ -132,6 +160,16 @@ export type Database = {
           model_provider?: string
           model_name?: string
           system_prompt?: string | null
+          temperature?: number | null
+          top_p?: number | null
+          max_output_tokens?: number | null
+          stop_sequences?: string[] | null
+          import_hash?: string | null
+          import_source?: string | null
+          summary?: string | null
+          summary_message_count?: number
+          summary_updated_at?: string | null
+          title_generated_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -142,6 +180,16 @@ export type Database = {
           model_provider?: string
           model_name?: string
           system_prompt?: string | null
+          temperature?: number | null
+          top_p?: number | null
+          max_output_tokens?: number | null
+          stop_sequences?: string[] | null
+          import_hash?: string | null
+          import_source?: string | null
+          summary?: string | null
+          summary_message_count?: number
+          summary_updated_at?: string | null
+          title_generated_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -157,6 +205,9 @@ export type Database = {
           attachments: Record<string, unknown> | null
           created_at: string
           branch_index: number
+          reasoning?: string | null
+          pinned_at?: string | null
+          created_by?: string | null
         }
         Insert: {
           id?: string
@@ -168,6 +219,8 @@ export type Database = {
           attachments?: unknown | null
           created_at?: string
           branch_index?: number
+          reasoning?: string | null
+          pinned_at?: string | null
         }
         Update: {
           id?: string
@@ -179,6 +232,8 @@ export type Database = {
           attachments?: unknown | null
           created_at?: string
           branch_index?: number
+          reasoning?: string | null
+          pinned_at?: string | null
         }
       }
       file_uploads: {
@@ -213,6 +268,185 @@ export type Database = {
           created_at?: string
         }
       }
+      document_chunks: {
+        Row: {
+          id: string
+          user_id: string
+          document_id: string
+          file_upload_id: string | null
+          filename: string
+          chunk_index: number
+          content: string
+          page_number: number | null
+          embedding: string | null
+          embedding_model: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          document_id: string
+          file_upload_id?: string | null
+          filename: string
+          chunk_index: number
+          content: string
+          page_number?: number | null
+          embedding?: number[] | string | null
+          embedding_model?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          document_id?: string
+          file_upload_id?: string | null
+          filename?: string
+          chunk_index?: number
+          content?: string
+          page_number?: number | null
+          embedding?: number[] | string | null
+          embedding_model?: string | null
+          created_at?: string
+        }
+      }
+      message_embeddings: {
+        Row: {
+          message_id: string
+          user_id: string
+          embedding: string
+          embedding_model: string
+          created_at: string
+        }
+        Insert: {
+          message_id: string
+          user_id: string
+          embedding: number[] | string
+          embedding_model: string
+          created_at?: string
+        }
+        Update: {
+          message_id?: string
+          user_id?: string
+          embedding?: number[] | string
+          embedding_model?: string
+          created_at?: string
+        }
+      }
+      conversation_folders: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      conversation_tags: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          color: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          color?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          color?: string
+          created_at?: string
+        }
+      }
+      conversation_organization: {
+        Row: {
+          user_id: string
+          conversation_id: string
+          folder_id: string | null
+          pinned_at: string | null
+          archived_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          conversation_id: string
+          folder_id?: string | null
+          pinned_at?: string | null
+          archived_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          conversation_id?: string
+          folder_id?: string | null
+          pinned_at?: string | null
+          archived_at?: string | null
+          updated_at?: string
+        }
+      }
+      conversation_tag_assignments: {
+        Row: {
+          user_id: string
+          conversation_id: string
+          tag_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          conversation_id: string
+          tag_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          conversation_id?: string
+          tag_id?: string
+          created_at?: string
+        }
+      }
+      conversation_documents: {
+        Row: {
+          conversation_id: string
+          file_upload_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          conversation_id: string
+          file_upload_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          conversation_id?: string
+          file_upload_id?: string
+          user_id?: string
+          created_at?: string
+        }
+      }
       chat_sessions: {
         Row: {
           id: string
@@ -239,6 +473,35 @@ export type Database = {
           typing_indicator?: boolean
         }
       }
+      user_api_keys: {
+        Row: {
+          id: string
+          user_id: string
+          provider: 'openRouter' | 'openai' | 'anthropic' | 'google' | 'xai'
+          encrypted_key: string
+          key_hint: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          provider: 'openRouter' | 'openai' | 'anthropic' | 'google' | 'xai'
+          encrypted_key: string
+          key_hint?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          provider?: 'openRouter' | 'openai' | 'anthropic' | 'google' | 'xai'
+          encrypted_key?: string
+          key_hint?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
       user_preferences: {
         Row: {
           id: string
@@ -252,6 +515,7 @@ export type Database = {
           created_at: string
           updated_at: string
           traits_enabled?: boolean
+          monthly_budget_usd?: number | null
         }
         Insert: {
           id?: string
@@ -265,6 +529,7 @@ export type Database = {
           created_at?: string
           updated_at?: string
           traits_enabled?: boolean
+          monthly_budget_usd?: number | null
         }
         Update: {
           id?: string
@@ -278,6 +543,293 @@ export type Database = {
           created_at?: string
           updated_at?: string
           traits_enabled?: boolean
+          monthly_budget_usd?: number | null
+        }
+      }
+      shared_conversations: {
+        Row: {
+          id: string
+          token: string
+          conversation_id: string
+          user_id: string
+          title: string
+          model_provider: string | null
+          model_name: string | null
+          leaf_message_id: string | null
+          messages: Database['public']['Tables']['messages']['Row'][]
+          expires_at: string | null
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          token: string
+          conversation_id: string
+          user_id: string
+          title: string
+          model_provider?: string | null
+          model_name?: string | null
+          leaf_message_id?: string | null
+          messages?: Database['public']['Tables']['messages']['Row'][]
+          expires_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          token?: string
+          conversation_id?: string
+          user_id?: string
+          title?: string
+          model_provider?: string | null
+          model_name?: string | null
+          leaf_message_id?: string | null
+          messages?: Database['public']['Tables']['messages']['Row'][]
+          expires_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+      }
+      conversation_members: {
+        Row: {
+          conversation_id: string
+          user_id: string
+          role: 'viewer' | 'editor'
+          display_name: string | null
+          avatar_url: string | null
+          invited_by: string | null
+          created_at: string
+        }
+        Insert: {
+          conversation_id: string
+          user_id: string
+          role: 'viewer' | 'editor'
+          display_name?: string | null
+          avatar_url?: string | null
+          invited_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          conversation_id?: string
+          user_id?: string
+          role?: 'viewer' | 'editor'
+          display_name?: string | null
+          avatar_url?: string | null
+          invited_by?: string | null
+          created_at?: string
+        }
+      }
+      conversation_invites: {
+        Row: {
+          id: string
+          token: string
+          conversation_id: string
+          role: 'viewer' | 'editor'
+          created_by: string
+          expires_at: string | null
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          token: string
+          conversation_id: string
+          role: 'viewer' | 'editor'
+          created_by: string
+          expires_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          token?: string
+          conversation_id?: string
+          role?: 'viewer' | 'editor'
+          created_by?: string
+          expires_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+        }
+      }
+      quota_plans: {
+        Row: {
+          id: string
+          name: string
+          window_hours: number
+          limits: QuotaLimits
+          is_default: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          name: string
+          window_hours?: number
+          limits?: QuotaLimits
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          window_hours?: number
+          limits?: QuotaLimits
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      quota_plan_assignments: {
+        Row: {
+          id: string
+          plan_id: string
+          user_id: string | null
+          organization_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          plan_id: string
+          user_id?: string | null
+          organization_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          plan_id?: string
+          user_id?: string | null
+          organization_id?: string | null
+          created_at?: string
+        }
+      }
+      usage_events: {
+        Row: {
+          id: number
+          user_id: string
+          route: QuotaRoute
+          model: string
+          tier: QuotaTier
+          prompt_tokens: number
+          completion_tokens: number
+          cost_usd: number
+          provider: string | null
+          source: ModelSource
+          conversation_id: string | null
+          latency_ms: number | null
+          reserved: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          route: QuotaRoute
+          model: string
+          tier: QuotaTier
+          prompt_tokens?: number
+          completion_tokens?: number
+          cost_usd?: number
+          provider?: string | null
+          source?: ModelSource
+          conversation_id?: string | null
+          latency_ms?: number | null
+          reserved?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          route?: QuotaRoute
+          model?: string
+          tier?: QuotaTier
+          prompt_tokens?: number
+          completion_tokens?: number
+          cost_usd?: number
+          provider?: string | null
+          source?: ModelSource
+          conversation_id?: string | null
+          latency_ms?: number | null
+          reserved?: boolean
+          created_at?: string
+        }
+      }
+      tasks: {
+        Row: {
+          id: string
+          user_id: string
+          conversation_id: string
+          source_message_ids: string[]
+          title: string
+          description: string
+          priority: Task['priority']
+          category: Task['category']
+          status: Task['status']
+          due_date: string | null
+          assignee: string | null
+          estimated_hours: number | null
+          tags: string[]
+          confidence: number | null
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          conversation_id: string
+          source_message_ids?: string[]
+          title: string
+          description?: string
+          priority?: Task['priority']
+          category?: Task['category']
+          status?: Task['status']
+          due_date?: string | null
+          assignee?: string | null
+          estimated_hours?: number | null
+          tags?: string[]
+          confidence?: number | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          conversation_id?: string
+          source_message_ids?: string[]
+          title?: string
+          description?: string
+          priority?: Task['priority']
+          category?: Task['category']
+          status?: Task['status']
+          due_date?: string | null
+          assignee?: string | null
+          estimated_hours?: number | null
+          tags?: string[]
+          confidence?: number | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      task_dependencies: {
+        Row: {
+          user_id: string
+          task_id: string
+          depends_on_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          task_id: string
+          depends_on_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          task_id?: string
+          depends_on_id?: string
+          created_at?: string
         }
       }
     }
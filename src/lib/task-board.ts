@@ -0,0 +1,507 @@
+import type { createServerClient, Database } from './supabase'
+import type { Task, TaskExtractionResult } from './task-extractor'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+type TaskRow = Database['public']['Tables']['tasks']['Row']
+type TaskInsert = Database['public']['Tables']['tasks']['Insert']
+type TaskUpdate = Database['public']['Tables']['tasks']['Update']
+
+export type TaskStatus = Task['status']
+export type TaskPriority = Task['priority']
+
+// Board columns, left to right
+export const TASK_STATUSES: { status: TaskStatus; label: string }[] = [
+  { status: 'pending', label: 'To do' },
+  { status: 'in_progress', label: 'In progress' },
+  { status: 'blocked', label: 'Blocked' },
+  { status: 'completed', label: 'Done' }
+]
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = { urgent: 0, high: 1, medium: 2, low: 3 }
+const MAX_TITLE_LENGTH = 200
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// A stored task with what the board shows alongside it
+export interface BoardTask extends TaskRow {
+  // Ids of tasks that have to be completed first
+  dependsOn: string[]
+  conversationTitle: string | null
+}
+
+// Dependency edge: `taskId` depends on `dependsOnId`
+export interface TaskDependency {
+  taskId: string
+  dependsOnId: string
+}
+
+export interface TaskPatch {
+  title?: string
+  description?: string
+  status?: TaskStatus
+  priority?: TaskPriority
+  dueDate?: string | null
+  // Replaces the task's dependencies
+  dependsOn?: string[]
+}
+
+export class TaskBoardError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'TaskBoardError'
+  }
+}
+
+/** Titles that only differ in case, punctuation or spacing are the same task */
+export function normalizeTaskTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+function isDueDate(value: unknown): value is string {
+  return typeof value === 'string' && DUE_DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+}
+
+function union(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b]))
+}
+
+export interface TaskMerge {
+  // New rows, by the id the model gave the task
+  inserts: { key: string; row: TaskInsert }[]
+  // Stored tasks extracted again, by the id the model gave them this time
+  updates: { key: string; id: string; changes: TaskUpdate }[]
+  // Dependencies between extracted tasks, by the model's ids
+  dependencies: { key: string; dependsOnKey: string }[]
+}
+
+/**
+ * Merge a fresh extraction into the tasks stored for a conversation. Tasks whose normalized title
+ * matches a stored one update it instead of adding a duplicate; the extraction refreshes its
+ * details and adds source messages, while status and due date stay as the user left them (a due
+ * date is only filled in when none was set). `messageIds` are the extracted messages in prompt
+ * order, so the model's message numbers can be mapped back to them.
+ */
+export function mergeExtractedTasks(
+  stored: Pick<TaskRow, 'id' | 'title' | 'source_message_ids' | 'tags' | 'due_date' | 'assignee'>[],
+  extracted: Task[],
+  { userId, conversationId, messageIds }: { userId: string; conversationId: string; messageIds: string[] }
+): TaskMerge {
+  const storedByTitle = new Map(stored.map(task => [normalizeTaskTitle(task.title), task]))
+  // Model id -> key of the task it ended up as, so duplicates within one extraction collapse too
+  const keys = new Map<string, string>()
+  const seen = new Map<string, string>()
+  const merge: TaskMerge = { inserts: [], updates: [], dependencies: [] }
+
+  extracted.forEach(task => {
+    const title = task.title.trim().slice(0, MAX_TITLE_LENGTH)
+    const normalized = normalizeTaskTitle(title)
+    if (!normalized) return
+
+    const duplicate = seen.get(normalized)
+    if (duplicate) {
+      keys.set(task.id, duplicate)
+      return
+    }
+    seen.set(normalized, task.id)
+    keys.set(task.id, task.id)
+
+    const sources = (task.sourceMessages || [])
+      .map(number => messageIds[number - 1])
+      .filter((id): id is string => !!id)
+    const sourceMessageIds = sources.length > 0 ? sources : messageIds
+    const dueDate = isDueDate(task.dueDate) ? task.dueDate : null
+    const details = {
+      description: task.description,
+      priority: task.priority,
+      category: task.category,
+      estimated_hours: task.estimatedHours ?? null,
+      confidence: task.confidence
+    }
+
+    const match = storedByTitle.get(normalized)
+    if (match) {
+      merge.updates.push({
+        key: task.id,
+        id: match.id,
+        changes: {
+          ...details,
+          source_message_ids: union(match.source_message_ids, sourceMessageIds),
+          tags: union(match.tags, task.tags || []),
+          due_date: match.due_date ?? dueDate,
+          assignee: match.assignee ?? task.assignee ?? null,
+          updated_at: new Date().toISOString()
+        }
+      })
+    } else {
+      merge.inserts.push({
+        key: task.id,
+        row: {
+          ...details,
+          user_id: userId,
+          conversation_id: conversationId,
+          title,
+          source_message_ids: sourceMessageIds,
+          tags: task.tags || [],
+          due_date: dueDate,
+          assignee: task.assignee ?? null,
+          status: task.status === 'blocked' ? 'blocked' : 'pending'
+        }
+      })
+    }
+  })
+
+  extracted.forEach(task => {
+    const key = keys.get(task.id)
+    if (!key) return
+    const dependencies = task.dependencies || []
+    dependencies.forEach(dependency => {
+      const dependsOnKey = keys.get(dependency)
+      if (dependsOnKey && dependsOnKey !== key) {
+        merge.dependencies.push({ key, dependsOnKey })
+      }
+    })
+  })
+
+  return merge
+}
+
+/** Whether making `taskId` depend on `dependsOnId` would close a loop through `edges` */
+export function createsDependencyCycle(edges: TaskDependency[], taskId: string, dependsOnId: string): boolean {
+  const dependencies = new Map<string, string[]>()
+  edges.forEach(edge => {
+    dependencies.set(edge.taskId, [...(dependencies.get(edge.taskId) || []), edge.dependsOnId])
+  })
+
+  const visited = new Set<string>()
+  const stack = [dependsOnId]
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    if (current === taskId) return true
+    if (visited.has(current)) continue
+    visited.add(current)
+    stack.push(...(dependencies.get(current) || []))
+  }
+  return false
+}
+
+/** Dependencies of `task` that aren't completed yet */
+export function getOpenDependencies(task: BoardTask, tasksById: Map<string, BoardTask>): BoardTask[] {
+  return task.dependsOn
+    .map(id => tasksById.get(id))
+    .filter((dependency): dependency is BoardTask => !!dependency && dependency.status !== 'completed')
+}
+
+// Earliest due date first (so overdue tasks lead), then priority; tasks without a due date go last
+function compareTasks(a: BoardTask, b: BoardTask): number {
+  if (a.due_date !== b.due_date) {
+    if (!a.due_date) return 1
+    if (!b.due_date) return -1
+    return a.due_date.localeCompare(b.due_date)
+  }
+  return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.created_at.localeCompare(b.created_at)
+}
+
+export function groupTasksByStatus(tasks: BoardTask[]): Record<TaskStatus, BoardTask[]> {
+  const columns: Record<TaskStatus, BoardTask[]> = { pending: [], in_progress: [], blocked: [], completed: [] }
+  tasks.forEach(task => columns[task.status].push(task))
+  Object.values(columns).forEach(column => column.sort(compareTasks))
+  return columns
+}
+
+export interface DependencyGraph {
+  // Tasks with at least one dependency or dependent; `level` 0 tasks depend on nothing shown
+  nodes: { task: BoardTask; level: number; row: number }[]
+  edges: TaskDependency[]
+  levels: number
+}
+
+/** Lay out tasks that take part in dependencies in columns, each after everything it depends on */
+export function layoutDependencyGraph(tasks: BoardTask[]): DependencyGraph {
+  const tasksById = new Map(tasks.map(task => [task.id, task]))
+  const edges = tasks.flatMap(task => task.dependsOn
+    .filter(id => tasksById.has(id))
+    .map(dependsOnId => ({ taskId: task.id, dependsOnId })))
+  const connected = new Set(edges.flatMap(edge => [edge.taskId, edge.dependsOnId]))
+
+  const levels = new Map<string, number>()
+  const levelOf = (id: string, path: Set<string>): number => {
+    const known = levels.get(id)
+    if (known !== undefined) return known
+    // Cycles can't be saved, but guard against them anyway
+    if (path.has(id)) return 0
+    path.add(id)
+    const level = Math.max(-1, ...tasksById.get(id)!.dependsOn
+      .filter(dependency => tasksById.has(dependency))
+      .map(dependency => levelOf(dependency, path))) + 1
+    path.delete(id)
+    levels.set(id, level)
+    return level
+  }
+
+  const rows: number[] = []
+  const nodes = tasks
+    .filter(task => connected.has(task.id))
+    .sort(compareTasks)
+    .map(task => {
+      const level = levelOf(task.id, new Set())
+      const row = rows[level] ?? 0
+      rows[level] = row + 1
+      return { task, level, row }
+    })
+
+  return { nodes, edges, levels: rows.length }
+}
+
+/** Stored tasks in the shape extraction returns, for clients that show either */
+export function toExtractionResult(tasks: BoardTask[]): TaskExtractionResult {
+  const ids = new Set(tasks.map(task => task.id))
+  return {
+    tasks: tasks.map(task => ({
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      category: task.category,
+      assignee: task.assignee ?? undefined,
+      dueDate: task.due_date ?? undefined,
+      dependencies: task.dependsOn.filter(id => ids.has(id)),
+      estimatedHours: task.estimated_hours ?? undefined,
+      tags: task.tags,
+      status: task.status,
+      confidence: task.confidence ?? 1
+    })),
+    summary: tasks.length > 0
+      ? `${tasks.filter(task => task.status !== 'completed').length} of ${tasks.length} saved tasks are still open`
+      : 'No saved tasks for this conversation yet',
+    totalTasksFound: tasks.length,
+    extractionMetadata: {
+      conversationLength: new Set(tasks.flatMap(task => task.source_message_ids)).size,
+      primaryTopics: Array.from(new Set(tasks.flatMap(task => task.tags))).slice(0, 5),
+      urgencyLevel: tasks.some(task => task.status !== 'completed' && (task.priority === 'urgent' || task.priority === 'high'))
+        ? 'high'
+        : 'low',
+      complexity: tasks.length > 8 ? 'complex' : tasks.length > 3 ? 'moderate' : 'simple'
+    }
+  }
+}
+
+async function loadDependencies(supabase: ServerSupabaseClient): Promise<TaskDependency[]> {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select('task_id, depends_on_id')
+  if (error) throw error
+  return (data || []).map(row => ({ taskId: row.task_id, dependsOnId: row.depends_on_id }))
+}
+
+/** The user's tasks across conversations, or just one conversation's */
+export async function loadTaskBoard(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  { conversationId }: { conversationId?: string } = {}
+): Promise<BoardTask[]> {
+  let query = supabase
+    .from('tasks')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+  if (conversationId) {
+    query = query.eq('conversation_id', conversationId)
+  }
+
+  const [{ data: rows, error }, dependencies] = await Promise.all([query, loadDependencies(supabase)])
+  if (error) throw error
+  const tasks = rows || []
+
+  const conversationIds = Array.from(new Set(tasks.map(task => task.conversation_id)))
+  const { data: conversations, error: conversationsError } = conversationIds.length > 0
+    ? await supabase.from('conversations').select('id, title').in('id', conversationIds)
+    : { data: [], error: null }
+  if (conversationsError) throw conversationsError
+  const titles = new Map((conversations || []).map(conversation => [conversation.id, conversation.title]))
+
+  return tasks.map(task => ({
+    ...task,
+    dependsOn: dependencies.filter(edge => edge.taskId === task.id).map(edge => edge.dependsOnId),
+    conversationTitle: titles.get(task.conversation_id) ?? null
+  }))
+}
+
+/**
+ * Store an extraction for a conversation, merging with what is already stored (see
+ * mergeExtractedTasks). Dependencies that would form a loop with existing ones are dropped.
+ */
+export async function syncExtractedTasks(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  conversationId: string,
+  extracted: Task[],
+  messageIds: string[]
+): Promise<{ created: number; updated: number }> {
+  const { data: stored, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('conversation_id', conversationId)
+  if (error) throw error
+
+  const merge = mergeExtractedTasks(stored || [], extracted, { userId, conversationId, messageIds })
+  const ids = new Map(merge.updates.map(update => [update.key, update.id]))
+
+  if (merge.inserts.length > 0) {
+    const { data: inserted, error: insertError } = await supabase
+      .from('tasks')
+      .insert(merge.inserts.map(insert => insert.row))
+      .select('id')
+    if (insertError) throw insertError
+    // Rows come back in insert order
+    merge.inserts.forEach((insert, index) => {
+      if (inserted?.[index]) ids.set(insert.key, inserted[index].id)
+    })
+  }
+
+  await Promise.all(merge.updates.map(async update => {
+    const { error: updateError } = await supabase
+      .from('tasks')
+      .update(update.changes)
+      .eq('id', update.id)
+    if (updateError) throw updateError
+  }))
+
+  if (merge.dependencies.length > 0) {
+    const edges = await loadDependencies(supabase)
+    const rows: Database['public']['Tables']['task_dependencies']['Insert'][] = []
+    merge.dependencies.forEach(({ key, dependsOnKey }) => {
+      const taskId = ids.get(key)
+      const dependsOnId = ids.get(dependsOnKey)
+      if (!taskId || !dependsOnId) return
+      if (edges.some(edge => edge.taskId === taskId && edge.dependsOnId === dependsOnId)) return
+      if (createsDependencyCycle(edges, taskId, dependsOnId)) return
+      edges.push({ taskId, dependsOnId })
+      rows.push({ user_id: userId, task_id: taskId, depends_on_id: dependsOnId })
+    })
+    if (rows.length > 0) {
+      const { error: dependencyError } = await supabase.from('task_dependencies').insert(rows)
+      if (dependencyError) throw dependencyError
+    }
+  }
+
+  log(`📋 [TaskBoard] Synced ${conversationId}: ${merge.inserts.length} new, ${merge.updates.length} merged`)
+  return { created: merge.inserts.length, updated: merge.updates.length }
+}
+
+/** Apply a board edit, validating it first */
+export async function updateTask(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  taskId: string,
+  patch: TaskPatch
+): Promise<void> {
+  const changes: TaskUpdate = { updated_at: new Date().toISOString() }
+
+  if (patch.title !== undefined) {
+    const title = patch.title.trim()
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      throw new TaskBoardError(`Titles must be between 1 and ${MAX_TITLE_LENGTH} characters`, 400)
+    }
+    changes.title = title
+  }
+  if (patch.description !== undefined) {
+    changes.description = patch.description
+  }
+  if (patch.status !== undefined) {
+    if (!TASK_STATUSES.some(column => column.status === patch.status)) {
+      throw new TaskBoardError(`Unknown status "${patch.status}"`, 400)
+    }
+    changes.status = patch.status
+    changes.completed_at = patch.status === 'completed' ? new Date().toISOString() : null
+  }
+  if (patch.priority !== undefined) {
+    if (!(patch.priority in PRIORITY_ORDER)) {
+      throw new TaskBoardError(`Unknown priority "${patch.priority}"`, 400)
+    }
+    changes.priority = patch.priority
+  }
+  if (patch.dueDate !== undefined) {
+    if (patch.dueDate !== null && !isDueDate(patch.dueDate)) {
+      throw new TaskBoardError('Due dates must be YYYY-MM-DD', 400)
+    }
+    changes.due_date = patch.dueDate
+  }
+
+  if (!UUID_PATTERN.test(taskId)) {
+    throw new TaskBoardError('Task not found', 404)
+  }
+  // Checked before anything is written, so a rejected patch leaves the task untouched
+  const dependsOn = patch.dependsOn === undefined
+    ? undefined
+    : await validateDependencies(supabase, userId, taskId, patch.dependsOn)
+
+  const { data: updated, error } = await supabase
+    .from('tasks')
+    .update(changes)
+    .eq('id', taskId)
+    .eq('user_id', userId)
+    .select('id')
+  if (error) throw error
+  if (!updated || updated.length === 0) {
+    throw new TaskBoardError('Task not found', 404)
+  }
+
+  if (dependsOn !== undefined) {
+    // One statement, so a failed insert can't leave the task with its old dependencies deleted
+    const { error: replaceError } = await supabase.rpc('replace_task_dependencies', {
+      p_task_id: taskId,
+      p_depends_on: dependsOn
+    })
+    if (replaceError) throw replaceError
+  }
+}
+
+/** Dependencies must be other tasks of the same user and must not close a loop */
+async function validateDependencies(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  taskId: string,
+  requested: string[]
+): Promise<string[]> {
+  const dependsOn = Array.from(new Set(requested))
+  if (dependsOn.includes(taskId)) {
+    throw new TaskBoardError('A task cannot depend on itself', 400)
+  }
+  if (dependsOn.length === 0) return dependsOn
+
+  if (dependsOn.some(dependsOnId => !UUID_PATTERN.test(dependsOnId))) {
+    throw new TaskBoardError('Dependencies must be tasks on your board', 400)
+  }
+  const { data: owned, error } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', dependsOn)
+  if (error) throw error
+  if ((owned || []).length !== dependsOn.length) {
+    throw new TaskBoardError('Dependencies must be tasks on your board', 400)
+  }
+
+  const edges = (await loadDependencies(supabase)).filter(edge => edge.taskId !== taskId)
+  if (dependsOn.some(dependsOnId => createsDependencyCycle(edges, taskId, dependsOnId))) {
+    throw new TaskBoardError('That dependency would create a loop', 409)
+  }
+  return dependsOn
+}
+
+export async function deleteTask(supabase: ServerSupabaseClient, userId: string, taskId: string): Promise<void> {
+  const { data: deleted, error } = await supabase
+    .from('tasks')
+    .delete()
+    .eq('id', taskId)
+    .eq('user_id', userId)
+    .select('id')
+  if (error) throw error
+  if (!deleted || deleted.length === 0) {
+    throw new TaskBoardError('Task not found', 404)
+  }
+}
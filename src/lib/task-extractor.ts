@@ -1,7 +1,10 @@
-import { createAnthropic } from '@ai-sdk/anthropic'
-import { generateObject } from 'ai'
+import { streamObject, type LanguageModelUsage, type LanguageModelV1 } from 'ai'
 import { z } from 'zod'
 import { logger } from './logger'
+import { getActiveBranch } from './conversation-export'
+import type { Database } from './supabase'
+
+type MessageRow = Database['public']['Tables']['messages']['Row']
 
 // Schema for extracted tasks
 const TaskSchema = z.object({
@@ -12,14 +15,18 @@ const TaskSchema = z.object({
   category: z.enum(['technical', 'research', 'design', 'business', 'testing', 'documentation', 'other']),
   assignee: z.string().optional(),
   dueDate: z.string().optional(),
+  // Ids of other tasks in the same extraction that have to be done first
   dependencies: z.array(z.string()).optional(),
+  // Numbers of the messages (as labelled in the prompt) the task comes from
+  sourceMessages: z.array(z.number().int()).optional(),
   estimatedHours: z.number().optional(),
   tags: z.array(z.string()).optional(),
   status: z.enum(['pending', 'in_progress', 'completed', 'blocked']).default('pending'),
   confidence: z.number().min(0).max(1) // AI confidence in task extraction
 })
 
-const TaskExtractionResult = z.object({
+// Tasks come first so the client can show them while the summary and metadata are still streaming
+export const TaskExtractionSchema = z.object({
   tasks: z.array(TaskSchema),
   summary: z.string(),
   totalTasksFound: z.number(),
@@ -32,219 +39,130 @@ const TaskExtractionResult = z.object({
 })
 
 type Task = z.infer<typeof TaskSchema>
-type TaskExtractionResult = z.infer<typeof TaskExtractionResult>
+type TaskExtractionResult = z.infer<typeof TaskExtractionSchema>
 
-interface ConversationMessage {
-  id: string
+export interface ConversationMessage {
+  id?: string
   content: any // JSONB field from database
-  role: 'user' | 'assistant'
-  created_at: string
+  role: 'user' | 'assistant' | 'system'
+  created_at?: string
 }
 
-export class TaskExtractor {
-  private getModel() {
-    // Create Anthropic instance with API key
-    const anthropic = createAnthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY || ''
-    })
-    return anthropic('claude-3-5-sonnet-20241022')
+// Which part of a conversation to extract from
+export interface ExtractionScope {
+  // Leaf of the branch to extract from; defaults to the branch ending at the newest message
+  leafId?: string
+  // First and last messages of a range on that branch, both inclusive
+  fromMessageId?: string
+  toMessageId?: string
+}
+
+export class TaskScopeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'TaskScopeError'
   }
-  
-  async extractTasks(messages: ConversationMessage[]): Promise<TaskExtractionResult> {
-    logger.group('TaskExtractor.extractTasks')
-    logger.info('Extracting tasks from conversation', { messageCount: messages.length })
-    
-    // Check if API key is available
-    if (!process.env.ANTHROPIC_API_KEY) {
-      logger.error('ANTHROPIC_API_KEY is not set')
-      throw new Error('ANTHROPIC_API_KEY environment variable is not set')
-    }
-    
-    logger.info('API key is available', { 
-      keyLength: process.env.ANTHROPIC_API_KEY.length,
-      keyPrefix: process.env.ANTHROPIC_API_KEY.substring(0, 10) + '...'
-    })
-    
-    try {
-      // Prepare conversation context
-      const conversationText = this.formatConversation(messages)
-      
-      // Check if we have any meaningful content
-      if (!conversationText || conversationText.trim().length < 10) {
-        logger.warn('Conversation text is too short or empty', { 
-          textLength: conversationText.length,
-          messageCount: messages.length 
-        })
-        
-        return {
-          tasks: [],
-          summary: 'No meaningful conversation content found to extract tasks from.',
-          totalTasksFound: 0,
-          extractionMetadata: {
-            conversationLength: messages.length,
-            primaryTopics: [],
-            urgencyLevel: 'low' as const,
-            complexity: 'simple' as const
-          }
-        }
+}
+
+export interface TaskStreamOptions {
+  // The rolling summary from /api/chat, when one has been generated
+  summary?: string | null
+  // Titles of tasks already stored for the conversation, so the same task keeps its title
+  knownTasks?: string[]
+  abortSignal?: AbortSignal
+  // Called once the stream ends; object is undefined when the model's output didn't match the schema
+  onFinish?: (event: { object?: TaskExtractionResult; usage: LanguageModelUsage; error?: unknown }) => void | Promise<void>
+  onError?: (error: unknown) => void | Promise<void>
+}
+
+/** Messages from `fromMessageId` through `toMessageId` (both inclusive, either optional) */
+export function selectMessageRange<T extends { id?: string }>(messages: T[], scope: ExtractionScope = {}): T[] {
+  const start = scope.fromMessageId ? messages.findIndex(message => message.id === scope.fromMessageId) : 0
+  const end = scope.toMessageId ? messages.findIndex(message => message.id === scope.toMessageId) : messages.length - 1
+  if (start < 0 || end < 0) {
+    throw new TaskScopeError('Selected messages are not on the same branch of this conversation', 400)
+  }
+  if (start > end) {
+    throw new TaskScopeError('The selected range starts after it ends', 400)
+  }
+  return messages.slice(start, end + 1)
+}
+
+/**
+ * Narrow a stored conversation to the messages tasks should be extracted from: the branch ending at
+ * `toMessageId` or `leafId` (else at the newest message), starting at `fromMessageId` when given.
+ */
+export function selectExtractionMessages(messages: MessageRow[], scope: ExtractionScope = {}): MessageRow[] {
+  if (scope.leafId && !messages.some(message => message.id === scope.leafId)) {
+    throw new TaskScopeError('Selected branch was not found in this conversation', 404)
+  }
+  return selectMessageRange(getActiveBranch(messages, scope.toMessageId || scope.leafId), scope)
+}
+
+export class TaskExtractor {
+  // Returned without calling a model when there is nothing to extract from
+  emptyResult(conversationLength: number, summary = 'No meaningful conversation content found to extract tasks from.'): TaskExtractionResult {
+    return {
+      tasks: [],
+      summary,
+      totalTasksFound: 0,
+      extractionMetadata: {
+        conversationLength,
+        primaryTopics: [],
+        urgencyLevel: 'low',
+        complexity: 'simple'
       }
-      
-      logger.info('Prepared conversation text', { 
+    }
+  }
+
+  /**
+   * Stream tasks from `messages` with the given model, so callers can show each task as it
+   * arrives. Returns null when the messages hold too little text to extract from.
+   */
+  streamTasks(model: LanguageModelV1, messages: ConversationMessage[], options: TaskStreamOptions = {}) {
+    logger.group('TaskExtractor.streamTasks')
+    logger.info('Extracting tasks from conversation', { messageCount: messages.length, model: model.modelId })
+
+    // Prepare conversation context
+    const conversationText = this.formatConversation(messages)
+
+    // Check if we have any meaningful content
+    if (!conversationText || conversationText.trim().length < 10) {
+      logger.warn('Conversation text is too short or empty', {
         textLength: conversationText.length,
-        preview: conversationText.substring(0, 200) + '...'
-      })
-      
-      const result = await generateObject({
-        model: this.getModel(),
-        system: this.getSystemPrompt(),
-        prompt: this.buildExtractionPrompt(conversationText),
-        schema: TaskExtractionResult,
-        temperature: 0.3, // Lower temperature for more consistent extraction
+        messageCount: messages.length
       })
+      return null
+    }
 
-      logger.info('Task extraction completed', { 
-        tasksFound: result.object.totalTasksFound,
-        urgency: result.object.extractionMetadata.urgencyLevel 
-      })
+    logger.info('Prepared conversation text', {
+      textLength: conversationText.length,
+      preview: conversationText.substring(0, 200) + '...'
+    })
 
-      return result.object
-    } catch (error) {
-      logger.error('Task extraction failed', error)
-      console.error('TaskExtractor error details:', {
-        error,
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        errorStack: error instanceof Error ? error.stack : undefined,
-        hasApiKey: !!process.env.ANTHROPIC_API_KEY,
-        apiKeyLength: process.env.ANTHROPIC_API_KEY?.length
-      })
-      
-      // Check if this is a schema validation error with a malformed response
-      if (error instanceof Error && error.message.includes('response did not match schema')) {
-        // Try to parse the malformed response
-        const parsedResult = this.tryParseMalformedResponse(error)
-        if (parsedResult) {
-          logger.info('Successfully parsed malformed response', { 
-            tasksFound: parsedResult.totalTasksFound 
+    return streamObject({
+      model,
+      system: this.getSystemPrompt(),
+      prompt: this.buildExtractionPrompt(conversationText, options.summary, options.knownTasks),
+      schema: TaskExtractionSchema,
+      temperature: 0.3, // Lower temperature for more consistent extraction
+      abortSignal: options.abortSignal,
+      onError: async ({ error }) => {
+        logger.error('Task extraction failed', error)
+        await options.onError?.(error)
+      },
+      onFinish: async ({ object, usage, error }) => {
+        if (object) {
+          logger.info('Task extraction completed', {
+            tasksFound: object.totalTasksFound,
+            urgency: object.extractionMetadata.urgencyLevel
           })
-          return parsedResult
-        }
-      }
-      
-      throw new Error(`Failed to extract tasks: ${error instanceof Error ? error.message : 'Unknown error'}`)
-    }
-  }
-  
-  private tryParseMalformedResponse(error: any): TaskExtractionResult | null {
-    try {
-      logger.info('Attempting to parse malformed response')
-      
-      // Check if error has the expected structure from AI SDK
-      if (error.cause && error.cause.value) {
-        const errorValue = error.cause.value
-        
-        // Case 1: The AI put the entire response as a string in the tasks field
-        if (errorValue.tasks && typeof errorValue.tasks === 'string') {
-          logger.info('Found stringified response in tasks field')
-          
-          // The string contains the full JSON response
-          const tasksString = errorValue.tasks
-          
-          // Look for the actual JSON structure within the string
-          // It might have the format: "[{...tasks...}],\n\"summary\": ..., \"totalTasksFound\": ..."
-          // We need to reconstruct the proper object
-          
-          try {
-            // First, try to parse it as a complete JSON object
-            const actualResponse = JSON.parse(tasksString)
-            const validated = TaskExtractionResult.parse(actualResponse)
-            return validated
-          } catch {
-            // If that fails, try to extract the components manually
-            logger.info('Trying manual extraction from malformed string')
-            
-            // Extract tasks array
-            const tasksMatch = tasksString.match(/^\[([\s\S]*?)\]/)
-            if (!tasksMatch) {
-              logger.warn('Could not extract tasks array from string')
-              return null
-            }
-            
-            // Extract other fields
-            const summaryMatch = tasksString.match(/"summary":\s*"([^"]+)"/)
-            const totalMatch = tasksString.match(/"totalTasksFound":\s*(\d+)/)
-            
-            // For metadata, we need to capture the full nested object
-            const metadataMatch = tasksString.match(/"extractionMetadata":\s*({[\s\S]*?"complexity":\s*"[^"]+"\s*})/m)
-            
-            if (!summaryMatch || !totalMatch) {
-              logger.warn('Could not extract required fields')
-              return null
-            }
-            
-            // Parse the tasks array
-            const tasksArray = JSON.parse(`[${tasksMatch[1]}]`)
-            
-            // Parse metadata if found
-            let metadata = {
-              conversationLength: 1,
-              primaryTopics: [],
-              urgencyLevel: 'medium' as const,
-              complexity: 'moderate' as const
-            }
-            
-            if (metadataMatch) {
-              try {
-                metadata = JSON.parse(metadataMatch[1])
-              } catch (e) {
-                logger.warn('Could not parse metadata, using defaults', e)
-              }
-            }
-            
-            const reconstructed = {
-              tasks: tasksArray,
-              summary: summaryMatch[1],
-              totalTasksFound: parseInt(totalMatch[1]),
-              extractionMetadata: metadata
-            }
-            
-            const validated = TaskExtractionResult.parse(reconstructed)
-            return validated
-          }
-        }
-        
-        // Case 2: Try direct validation of the error value
-        try {
-          const validated = TaskExtractionResult.parse(errorValue)
-          return validated
-        } catch {
-          // Continue to other methods
-        }
-      }
-      
-      // Fallback: Try to extract from error string
-      const errorText = error.toString()
-      const responseMatch = errorText.match(/text:\s*'({.*})'/s)
-      
-      if (responseMatch) {
-        const responseText = responseMatch[1]
-        const parsed = JSON.parse(responseText)
-        
-        if (parsed.tasks && typeof parsed.tasks === 'string') {
-          // Recursive call with the parsed object
-          return this.tryParseMalformedResponse({ cause: { value: parsed } })
+        } else {
+          logger.error('Task extraction did not match the schema', error)
         }
-        
-        const validated = TaskExtractionResult.parse(parsed)
-        return validated
+        await options.onFinish?.({ object, usage, error })
       }
-      
-      logger.warn('Could not extract response from error')
-      return null
-      
-    } catch (parseError) {
-      logger.error('Failed to parse malformed response', parseError)
-      return null
-    }
+    })
   }
 
   private formatConversation(messages: ConversationMessage[]): string {
@@ -293,7 +211,7 @@ export class TaskExtractor {
           text = String(msg.content || '')
         }
         
-        return `[${msg.role.toUpperCase()}]: ${text}`
+        return `[#${index + 1} ${msg.role.toUpperCase()}]: ${text}`
       })
       .join('\n\n')
   }
@@ -347,9 +265,15 @@ CONFIDENCE SCORING:
 - 0.0-0.4: Uncertain or speculative items`
   }
 
-  private buildExtractionPrompt(conversationText: string): string {
+  private buildExtractionPrompt(conversationText: string, summary?: string | null, knownTasks: string[] = []): string {
     return `Analyze this conversation and extract all actionable tasks and requirements.
-
+${summary ? `
+CONVERSATION SUMMARY:
+${summary}
+` : ''}${knownTasks.length > 0 ? `
+TASKS ALREADY TRACKED (reuse the exact title when one of these comes up again):
+${knownTasks.map(title => `- ${title}`).join('\n')}
+` : ''}
 CONVERSATION:
 ${conversationText}
 
@@ -364,7 +288,8 @@ For each task, provide:
 - Detailed description of what needs to be done
 - Appropriate priority (low/medium/high/urgent) and category
 - Your confidence in this being a real task (0.0-1.0)
-- Any mentioned deadlines, assignees, or dependencies
+- Any mentioned deadlines (dueDate as YYYY-MM-DD), assignees, or dependencies (ids of other tasks in your list)
+- The numbers of the messages it comes from (sourceMessages, e.g. 3 for [#3 USER])
 
 Return a JSON object with this EXACT structure:
 {
@@ -378,6 +303,8 @@ Return a JSON object with this EXACT structure:
       "confidence": 0.9,
       "estimatedHours": 2,
       "tags": ["tag1", "tag2"],
+      "dependencies": [],
+      "sourceMessages": [1, 2],
       "status": "pending"
     }
   ],
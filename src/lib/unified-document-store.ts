@@ -18,6 +18,8 @@ interface DocumentStoreState {
 
 class UnifiedDocumentStore {
   private listeners: Set<(state: DocumentStoreState) => void> = new Set()
+  // Uploaded documents are attached to this conversation server-side
+  private conversationId: string | null = null
   private state: DocumentStoreState = {
     documents: [],
     isRAGEnabled: true,
@@ -50,6 +52,10 @@ class UnifiedDocumentStore {
     this.state.stats = unifiedRAG.getStats()
   }
 
+  setConversationId(conversationId: string | null): void {
+    this.conversationId = conversationId
+  }
+
   async addDocument(file: File): Promise<ProcessedDocument> {
     console.log('📁 [DocumentStore] Adding document:', file.name)
     
@@ -96,6 +102,7 @@ class UnifiedDocumentStore {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         action: 'store_processed',
+        conversationId: this.conversationId,
         document: {
           id: document.id,
           filename: document.filename,
@@ -306,6 +313,7 @@ export function useUnifiedDocumentStore() {
     searchDocuments: (query: string, maxResults?: number) => 
       unifiedDocumentStore.searchDocuments(query, maxResults),
     testRAGSystem: () => unifiedDocumentStore.testRAGSystem(),
+    setConversationId: (conversationId: string | null) => unifiedDocumentStore.setConversationId(conversationId),
     getDocument: (id: string) => unifiedDocumentStore.getDocument(id)
   }
 }
\ No newline at end of file
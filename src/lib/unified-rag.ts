@@ -1,4 +1,7 @@
 import { loadPDFJS } from './pdf-loader'
+import { embedTexts, getEmbeddingProvider } from './embeddings'
+import { BM25Index, rankHybrid } from './hybrid-search'
+import { blocksToMarkdown, getStructuredFormat, parseStructuredDocument, type DocumentBlock } from './document-parsers'
 
 export interface DocumentChunk {
   id: string
@@ -6,6 +9,8 @@ export interface DocumentChunk {
   startIndex: number
   endIndex: number
   pageNumber?: number
+  embedding?: number[]
+  embeddingModel?: string
 }
 
 export interface ProcessedDocument {
@@ -35,19 +40,23 @@ export interface RAGResponse {
 
 class UnifiedRAGSystem {
   private documents: Map<string, ProcessedDocument> = new Map()
+  private index = new BM25Index()
   private readonly CHUNK_SIZE = 1500
   private readonly CHUNK_OVERLAP = 150
-  private readonly MIN_RELEVANCE_SCORE = 0.1
 
   // Process different file types
   async processFile(file: File): Promise<ProcessedDocument> {
     console.log('📄 [UnifiedRAG] Processing file:', file.name, file.type, `${Math.round(file.size / 1024)}KB`)
     
     let content: string
+    let blocks: DocumentBlock[] | undefined
     
     try {
       if (file.type === 'application/pdf') {
         content = await this.extractPDFContent(file)
+      } else if (getStructuredFormat(file)) {
+        blocks = (await parseStructuredDocument(file, { maxTableChars: this.CHUNK_SIZE })).blocks
+        content = blocksToMarkdown(blocks)
       } else if (file.type.startsWith('text/') || file.name.endsWith('.md') || file.name.endsWith('.txt')) {
         content = await file.text()
       } else {
@@ -59,7 +68,7 @@ class UnifiedRAGSystem {
       }
       
       // Create chunks
-      const chunks = this.createIntelligentChunks(content)
+      const chunks = blocks ? this.createBlockChunks(blocks) : this.createIntelligentChunks(content)
       
       // Generate summary
       const summary = this.generateSummary(content, file.name)
@@ -75,8 +84,8 @@ class UnifiedRAGSystem {
         fileType: file.type
       }
       
-      // Store the document
-      this.documents.set(document.id, document)
+      // Embed and index the document
+      await this.addDocument(document)
       
       console.log(`✅ [UnifiedRAG] Document processed: ${chunks.length} chunks, ${Math.round(content.length / 1024)}KB content`)
       
@@ -87,6 +96,28 @@ class UnifiedRAGSystem {
     }
   }
 
+  // Index an already processed document, embedding any chunks the current provider has not seen
+  async addDocument(document: ProcessedDocument): Promise<void> {
+    const provider = getEmbeddingProvider()
+    const pending = document.chunks.filter(chunk => !chunk.embedding || chunk.embeddingModel !== provider.id)
+
+    if (pending.length > 0) {
+      const { embeddings, provider: usedProvider } = await embedTexts(pending.map(chunk => chunk.content), provider)
+      pending.forEach((chunk, i) => {
+        chunk.embedding = embeddings[i]
+        chunk.embeddingModel = usedProvider.id
+      })
+    }
+
+    this.removeDocument(document.id)
+    this.documents.set(document.id, document)
+    document.chunks.forEach(chunk => this.index.add(this.chunkKey(document.id, chunk.id), chunk.content))
+  }
+
+  private chunkKey(documentId: string, chunkId: string): string {
+    return `${documentId}:${chunkId}`
+  }
+
   private async extractPDFContent(file: File): Promise<string> {
     try {
       const pdfjs = await loadPDFJS()
@@ -167,6 +198,47 @@ class UnifiedRAGSystem {
     return chunks
   }
 
+  // Pack structured blocks into chunks without cutting through them; tables are already split
+  // with their header row repeated, so only oversized prose falls back to character chunking
+  private createBlockChunks(blocks: DocumentBlock[]): DocumentChunk[] {
+    const chunks: DocumentChunk[] = []
+    let pending: string[] = []
+    let pendingStart = 0
+    let offset = 0
+
+    const flush = () => {
+      const chunkContent = pending.join('\n\n')
+      if (chunkContent.trim()) {
+        chunks.push({
+          id: `chunk_${chunks.length}`,
+          content: chunkContent,
+          startIndex: pendingStart,
+          endIndex: pendingStart + chunkContent.length
+        })
+      }
+      pending = []
+    }
+
+    for (const block of blocks) {
+      if (block.content.length > this.CHUNK_SIZE && block.type !== 'table') {
+        flush()
+        chunks.push(...this.chunkText(block.content, offset, undefined, chunks.length))
+      } else {
+        const pendingLength = pending.reduce((total, content) => total + content.length + 2, 0)
+        // A heading opens a new chunk so its section stays together
+        if (pending.length > 0 && (pendingLength + block.content.length > this.CHUNK_SIZE || block.type === 'heading')) {
+          flush()
+        }
+        if (pending.length === 0) pendingStart = offset
+        pending.push(block.content)
+      }
+      offset += block.content.length + 2
+    }
+    flush()
+
+    return chunks
+  }
+
   private chunkText(text: string, startOffset: number, pageNumber: number | undefined, chunkStartIndex: number): DocumentChunk[] {
     const chunks: DocumentChunk[] = []
     let startIndex = 0
@@ -225,9 +297,10 @@ class UnifiedRAGSystem {
     return `Document: ${filename}\n\n${summary.trim()}`
   }
 
-  // Advanced search with multiple strategies
+  // Hybrid search: BM25 over chunk text fused with cosine similarity of chunk embeddings
   async searchDocuments(query: string, maxResults: number = 5): Promise<RAGResponse> {
-    const startTime = Date.now()
+    const startTime = performance.now()
+    const elapsed = () => Math.round((performance.now() - startTime) * 100) / 100
     
     console.log(`🔍 [UnifiedRAG] Searching ${this.documents.size} documents for: "${query}"`)
     
@@ -235,39 +308,44 @@ class UnifiedRAGSystem {
       return {
         results: [],
         totalDocuments: 0,
-        searchTime: Date.now() - startTime,
+        searchTime: elapsed(),
         hasResults: false
       }
     }
     
-    const queryLower = query.toLowerCase()
-    const queryWords = this.extractSearchTerms(queryLower)
-    const results: SearchResult[] = []
+    const { embeddings: [queryEmbedding], provider } = await embedTexts([query])
     
-    // Search all documents
+    const chunksByKey = new Map<string, { document: ProcessedDocument; chunk: DocumentChunk }>()
     for (const document of this.documents.values()) {
       for (const chunk of document.chunks) {
-        const score = this.calculateRelevanceScore(chunk.content, queryWords, queryLower)
-        
-        if (score >= this.MIN_RELEVANCE_SCORE) {
-          const matchedTerms = this.findMatchedTerms(chunk.content, queryWords)
-          
-          results.push({
-            document,
-            chunk,
-            relevanceScore: score,
-            matchedTerms
-          })
-        }
+        chunksByKey.set(this.chunkKey(document.id, chunk.id), { document, chunk })
       }
     }
     
-    // Sort by relevance and take top results
-    const sortedResults = results
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, maxResults)
+    const matches = rankHybrid(
+      query,
+      Array.from(chunksByKey, ([key, { chunk }]) => ({
+        key,
+        content: chunk.content,
+        embedding: chunk.embedding,
+        embeddingModel: chunk.embeddingModel
+      })),
+      {
+        queryEmbedding,
+        embeddingModel: provider.id,
+        minSimilarity: provider.minSimilarity,
+        maxResults
+      },
+      this.index
+    )
+    
+    const sortedResults: SearchResult[] = matches.map(match => ({
+      ...chunksByKey.get(match.key)!,
+      relevanceScore: match.score,
+      matchedTerms: match.matchedTerms
+    }))
     
-    const searchTime = Date.now() - startTime
+    const searchTime = elapsed()
     
     console.log(`✅ [UnifiedRAG] Search completed: ${sortedResults.length} results in ${searchTime}ms`)
     
@@ -279,55 +357,6 @@ class UnifiedRAGSystem {
     }
   }
 
-  private extractSearchTerms(query: string): string[] {
-    return query
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 2)
-      .filter(word => !['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that', 'these', 'those'].includes(word))
-  }
-
-  private calculateRelevanceScore(content: string, queryWords: string[], fullQuery: string): number {
-    const contentLower = content.toLowerCase()
-    let score = 0
-    
-    // Exact phrase match (highest weight)
-    if (contentLower.includes(fullQuery)) {
-      score += 2.0
-    }
-    
-    // Individual word matches
-    let wordMatches = 0
-    for (const word of queryWords) {
-      if (contentLower.includes(word)) {
-        wordMatches++
-        score += 0.5
-        
-        // Bonus for word at start of sentence
-        if (new RegExp(`\\b${word}\\b`).test(contentLower)) {
-          score += 0.2
-        }
-      }
-    }
-    
-    // Coverage bonus (percentage of query words found)
-    const coverage = wordMatches / Math.max(queryWords.length, 1)
-    score += coverage * 0.5
-    
-    // Length penalty for very short chunks
-    if (content.length < 100) {
-      score *= 0.8
-    }
-    
-    return Math.min(score, 5.0) // Cap at 5.0
-  }
-
-  private findMatchedTerms(content: string, queryWords: string[]): string[] {
-    const contentLower = content.toLowerCase()
-    return queryWords.filter(word => contentLower.includes(word))
-  }
-
   // Format search results for AI context
   formatContextForAI(searchResponse: RAGResponse, originalQuery: string): string {
     if (!searchResponse.hasResults) {
@@ -368,11 +397,15 @@ class UnifiedRAGSystem {
   }
 
   removeDocument(id: string): boolean {
+    const document = this.documents.get(id)
+    if (!document) return false
+    document.chunks.forEach(chunk => this.index.remove(this.chunkKey(id, chunk.id)))
     return this.documents.delete(id)
   }
 
   clearAllDocuments(): void {
     this.documents.clear()
+    this.index.clear()
   }
 
   getStats() {
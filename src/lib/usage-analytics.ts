@@ -0,0 +1,299 @@
+import type { createServerClient } from './supabase'
+
+const isDev = process.env.NODE_ENV === 'development'
+const log = isDev ? console.log : () => {}
+
+type ServerSupabaseClient = Awaited<ReturnType<typeof createServerClient>>
+
+export type UsageBucket = 'day' | 'week' | 'month'
+
+export const USAGE_BUCKETS: UsageBucket[] = ['day', 'week', 'month']
+
+// How many buckets of history each view shows
+const BUCKET_COUNTS: Record<UsageBucket, number> = { day: 30, week: 12, month: 12 }
+// CSV exports stop here; narrow the range to get the rest
+export const MAX_EXPORT_ROWS = 10000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface UsageHistoryRow {
+  bucket: string
+  model: string
+  requests: number
+  tokens: number | string
+  cost_usd: number | string
+  avg_latency_ms: number | null
+}
+
+export interface ConversationUsageRow {
+  conversation_id: string | null
+  title: string | null
+  requests: number
+  tokens: number | string
+  cost_usd: number | string
+}
+
+export interface UsagePoint {
+  // Bucket start (UTC)
+  start: string
+  requests: number
+  tokens: number
+  costUsd: number
+  // Cost per model within the bucket
+  models: Record<string, number>
+}
+
+export interface ModelUsage {
+  model: string
+  requests: number
+  tokens: number
+  costUsd: number
+  avgLatencyMs: number | null
+}
+
+export interface ConversationUsage {
+  // null for calls outside a conversation, such as image analysis
+  conversationId: string | null
+  title: string | null
+  requests: number
+  tokens: number
+  costUsd: number
+}
+
+export interface BudgetStatus {
+  monthlyBudgetUsd: number | null
+  monthToDateUsd: number
+  projectedUsd: number
+  // 'projected' once the month is on course to cross the budget, 'exceeded' once it has
+  alert: 'none' | 'projected' | 'exceeded'
+}
+
+export interface UsageReport {
+  bucket: UsageBucket
+  since: string
+  series: UsagePoint[]
+  models: ModelUsage[]
+  conversations: ConversationUsage[]
+  totals: { requests: number; tokens: number; costUsd: number }
+  budget: BudgetStatus
+}
+
+// One usage_events row with its conversation title, as exported to CSV
+export interface UsageEventExport {
+  created_at: string
+  route: string
+  model: string
+  provider: string | null
+  source: string
+  conversation_id: string | null
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number | string
+  latency_ms: number | null
+  conversation?: { title: string | null } | null
+}
+
+export function isUsageBucket(value: unknown): value is UsageBucket {
+  return typeof value === 'string' && USAGE_BUCKETS.includes(value as UsageBucket)
+}
+
+/** Start of the UTC day, ISO week (Monday) or month containing `date`, matching Postgres date_trunc */
+export function getBucketStart(date: Date, bucket: UsageBucket): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), bucket === 'month' ? 1 : date.getUTCDate()))
+  if (bucket === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7))
+  }
+  return start
+}
+
+function nextBucketStart(date: Date, bucket: UsageBucket): Date {
+  const next = new Date(date)
+  if (bucket === 'month') next.setUTCMonth(next.getUTCMonth() + 1)
+  else next.setUTCDate(next.getUTCDate() + (bucket === 'week' ? 7 : 1))
+  return next
+}
+
+/** First bucket shown for a view ending now */
+export function getHistoryStart(bucket: UsageBucket, now = new Date()): Date {
+  let start = getBucketStart(now, bucket)
+  for (let i = 1; i < BUCKET_COUNTS[bucket]; i++) {
+    if (bucket === 'month') start.setUTCMonth(start.getUTCMonth() - 1)
+    else start = new Date(start.getTime() - (bucket === 'week' ? 7 : 1) * DAY_MS)
+  }
+  return start
+}
+
+/** One point per bucket from `since` to now, including empty ones so charts keep their scale */
+export function buildUsageSeries(rows: UsageHistoryRow[], bucket: UsageBucket, since: Date, now = new Date()): UsagePoint[] {
+  const points = new Map<string, UsagePoint>()
+  for (let start = getBucketStart(since, bucket); start <= now; start = nextBucketStart(start, bucket)) {
+    const key = start.toISOString()
+    points.set(key, { start: key, requests: 0, tokens: 0, costUsd: 0, models: {} })
+  }
+
+  rows.forEach(row => {
+    const point = points.get(getBucketStart(new Date(row.bucket), bucket).toISOString())
+    if (!point) return
+    const cost = Number(row.cost_usd)
+    point.requests += row.requests
+    point.tokens += Number(row.tokens)
+    point.costUsd += cost
+    point.models[row.model] = (point.models[row.model] || 0) + cost
+  })
+  return [...points.values()]
+}
+
+/** Totals per model, most expensive first, with latency averaged over requests */
+export function summarizeModels(rows: UsageHistoryRow[]): ModelUsage[] {
+  const models = new Map<string, ModelUsage & { latencyTotal: number; latencyRequests: number }>()
+  rows.forEach(row => {
+    const model = models.get(row.model) || {
+      model: row.model, requests: 0, tokens: 0, costUsd: 0, avgLatencyMs: null, latencyTotal: 0, latencyRequests: 0
+    }
+    model.requests += row.requests
+    model.tokens += Number(row.tokens)
+    model.costUsd += Number(row.cost_usd)
+    if (row.avg_latency_ms !== null) {
+      model.latencyTotal += row.avg_latency_ms * row.requests
+      model.latencyRequests += row.requests
+    }
+    models.set(row.model, model)
+  })
+
+  return [...models.values()]
+    .map(({ latencyTotal, latencyRequests, ...model }) => ({
+      ...model,
+      avgLatencyMs: latencyRequests > 0 ? Math.round(latencyTotal / latencyRequests) : null
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests)
+}
+
+/** Month-to-date spend extrapolated linearly to the end of the UTC month */
+export function projectMonthlySpend(monthToDateUsd: number, now = new Date()): number {
+  const monthStart = getBucketStart(now, 'month')
+  const monthEnd = nextBucketStart(monthStart, 'month')
+  // At least a day in, so a single early request doesn't project a huge month
+  const elapsed = Math.max(DAY_MS, now.getTime() - monthStart.getTime())
+  return monthToDateUsd * (monthEnd.getTime() - monthStart.getTime()) / elapsed
+}
+
+export function getBudgetStatus(monthToDateUsd: number, monthlyBudgetUsd: number | null, now = new Date()): BudgetStatus {
+  const projectedUsd = projectMonthlySpend(monthToDateUsd, now)
+  let alert: BudgetStatus['alert'] = 'none'
+  if (monthlyBudgetUsd) {
+    if (monthToDateUsd >= monthlyBudgetUsd) alert = 'exceeded'
+    else if (projectedUsd >= monthlyBudgetUsd) alert = 'projected'
+  }
+  return { monthlyBudgetUsd, monthToDateUsd, projectedUsd, alert }
+}
+
+function toCsvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function usageEventsToCsv(events: UsageEventExport[]): string {
+  const header = ['timestamp', 'route', 'model', 'provider', 'source', 'conversation_id', 'conversation_title',
+    'prompt_tokens', 'completion_tokens', 'total_tokens', 'cost_usd', 'latency_ms']
+  const rows = events.map(event => [
+    event.created_at,
+    event.route,
+    event.model,
+    event.provider,
+    event.source,
+    event.conversation_id,
+    event.conversation?.title,
+    event.prompt_tokens,
+    event.completion_tokens,
+    event.prompt_tokens + event.completion_tokens,
+    Number(event.cost_usd).toFixed(6),
+    event.latency_ms
+  ])
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\n') + '\n'
+}
+
+async function loadMonthlyBudget(supabase: ServerSupabaseClient, userId: string): Promise<number | null> {
+  const { data } = await supabase
+    .from('user_preferences')
+    .select('monthly_budget_usd')
+    .eq('user_id', userId)
+    .maybeSingle()
+  return data?.monthly_budget_usd ? Number(data.monthly_budget_usd) : null
+}
+
+/** The dashboard's history, breakdowns and budget status for the signed-in user */
+export async function loadUsageReport(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  bucket: UsageBucket,
+  now = new Date()
+): Promise<UsageReport> {
+  const since = getHistoryStart(bucket, now)
+  const monthStart = getBucketStart(now, 'month')
+
+  const [history, conversations, month, monthlyBudgetUsd] = await Promise.all([
+    supabase.rpc('usage_history', { p_since: since.toISOString(), p_bucket: bucket }),
+    supabase.rpc('usage_by_conversation', { p_since: since.toISOString() }),
+    supabase.rpc('usage_history', { p_since: monthStart.toISOString(), p_bucket: 'month' }),
+    loadMonthlyBudget(supabase, userId)
+  ])
+  const failed = [history, conversations, month].find(result => result.error)
+  if (failed?.error) {
+    throw new Error(`Failed to load usage history: ${failed.error.message}`)
+  }
+
+  const rows = (history.data || []) as UsageHistoryRow[]
+  const series = buildUsageSeries(rows, bucket, since, now)
+  const monthToDateUsd = ((month.data || []) as UsageHistoryRow[]).reduce((sum, row) => sum + Number(row.cost_usd), 0)
+  log(`📈 [UsageAnalytics] ${rows.length} ${bucket} rows since ${since.toISOString()} for ${userId}`)
+
+  return {
+    bucket,
+    since: since.toISOString(),
+    series,
+    models: summarizeModels(rows),
+    conversations: ((conversations.data || []) as ConversationUsageRow[]).map(row => ({
+      conversationId: row.conversation_id,
+      title: row.title,
+      requests: row.requests,
+      tokens: Number(row.tokens),
+      costUsd: Number(row.cost_usd)
+    })),
+    totals: series.reduce(
+      (totals, point) => ({
+        requests: totals.requests + point.requests,
+        tokens: totals.tokens + point.tokens,
+        costUsd: totals.costUsd + point.costUsd
+      }),
+      { requests: 0, tokens: 0, costUsd: 0 }
+    ),
+    budget: getBudgetStatus(monthToDateUsd, monthlyBudgetUsd, now)
+  }
+}
+
+/** Ledger rows since `since`, oldest first, for CSV export */
+export async function loadUsageEvents(supabase: ServerSupabaseClient, since: Date): Promise<UsageEventExport[]> {
+  const { data, error } = await supabase
+    .from('usage_events')
+    .select('created_at, route, model, provider, source, conversation_id, prompt_tokens, completion_tokens, cost_usd, latency_ms, conversation:conversations(title)')
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(MAX_EXPORT_ROWS)
+  if (error) {
+    throw new Error(`Failed to load usage events: ${error.message}`)
+  }
+  return (data || []) as unknown as UsageEventExport[]
+}
+
+/** Set or clear (null) the projected monthly spend that triggers a budget alert */
+export async function saveMonthlyBudget(
+  supabase: ServerSupabaseClient,
+  userId: string,
+  monthlyBudgetUsd: number | null
+): Promise<void> {
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert({ user_id: userId, monthly_budget_usd: monthlyBudgetUsd }, { onConflict: 'user_id' })
+  if (error) {
+    throw new Error(`Failed to save budget: ${error.message}`)
+  }
+}
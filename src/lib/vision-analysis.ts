@@ -0,0 +1,63 @@
+import { anthropic } from '@ai-sdk/anthropic'
+import { generateObject, type LanguageModelUsage } from 'ai'
+import { z } from 'zod'
+
+export const ImageAnalysisSchema = z.object({
+  description: z.string().describe('Detailed description of what is shown in the image'),
+  summary: z.string().describe('Brief summary of the image content'),
+  objects: z.array(z.string()).describe('List of objects, people, or entities detected in the image'),
+  text: z.string().optional().describe('Any text found in the image (OCR)'),
+  mood: z.string().optional().describe('Overall mood or atmosphere of the image'),
+  colors: z.array(z.string()).describe('Dominant colors in the image'),
+  dimensions: z.object({
+    estimated_width: z.number().optional(),
+    estimated_height: z.number().optional(),
+    aspect_ratio: z.string().optional()
+  }).optional(),
+  technical_details: z.object({
+    lighting: z.string().optional(),
+    composition: z.string().optional(),
+    quality: z.string().optional()
+  }).optional()
+})
+
+export type ImageAnalysis = z.infer<typeof ImageAnalysisSchema>
+
+export type VisionTask = 'analyze' | 'ocr'
+
+export const VISION_MODEL_ID = 'claude-3-5-sonnet-20241022'
+
+// Shared by /api/vision and server-side callers such as OCR of scanned PDF pages
+export async function analyzeImage(
+  image: string,
+  task: VisionTask = 'analyze',
+  mimeType: string = 'image/jpeg',
+  // Token usage for callers that meter the request
+  onUsage?: (usage: LanguageModelUsage) => void | Promise<void>
+): Promise<ImageAnalysis> {
+  const result = await generateObject({
+    model: anthropic(VISION_MODEL_ID),
+    messages: [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'text',
+            text: task === 'ocr'
+              ? 'Extract and transcribe all text visible in this image. Maintain formatting and structure as much as possible.'
+              : 'Analyze this image in detail. Provide a comprehensive description, identify objects and entities, extract any text (OCR), and note the overall mood and technical aspects.'
+          },
+          {
+            type: 'image',
+            image: `data:${mimeType};base64,${image}`
+          }
+        ]
+      }
+    ],
+    schema: ImageAnalysisSchema,
+    temperature: 0.3
+  })
+
+  await onUsage?.(result.usage)
+  return result.object
+}
@@ -0,0 +1,47 @@
+-- Encrypted storage for bring-your-own-key (BYOK) provider keys
+-- Keys are encrypted with AES-256-GCM by the API before they reach the database,
+-- so the plaintext profiles.api_keys blob is no longer used.
+CREATE TABLE IF NOT EXISTS user_api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('openRouter', 'openai', 'anthropic', 'google', 'xai')),
+  encrypted_key TEXT NOT NULL,
+  key_hint TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, provider)
+);
+
+-- Enable RLS
+ALTER TABLE user_api_keys ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own api keys"
+  ON user_api_keys FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own api keys"
+  ON user_api_keys FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own api keys"
+  ON user_api_keys FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own api keys"
+  ON user_api_keys FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_user_api_keys_updated_at
+  BEFORE UPDATE ON user_api_keys
+  FOR EACH ROW
+  EXECUTE PROCEDURE update_updated_at_column();
+
+-- Create indexes
+CREATE INDEX idx_user_api_keys_user_id ON user_api_keys(user_id);
+
+-- Routing preference: when false, OpenRouter serves every request for users with an OpenRouter key
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS byok_fallback_to_direct BOOLEAN DEFAULT true;
+
+COMMENT ON COLUMN profiles.api_keys IS 'Deprecated: plaintext keys are migrated into user_api_keys on first access.';
@@ -0,0 +1,10 @@
+-- Per-conversation generation settings applied by /api/chat
+-- NULL means the server default (temperature 0.7, 4000 output tokens)
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS temperature REAL CHECK (temperature IS NULL OR (temperature >= 0 AND temperature <= 2)),
+  ADD COLUMN IF NOT EXISTS top_p REAL CHECK (top_p IS NULL OR (top_p > 0 AND top_p <= 1)),
+  ADD COLUMN IF NOT EXISTS max_output_tokens INTEGER CHECK (max_output_tokens IS NULL OR max_output_tokens > 0),
+  ADD COLUMN IF NOT EXISTS stop_sequences TEXT[] DEFAULT '{}';
+
+COMMENT ON COLUMN conversations.system_prompt IS 'Replaces the default system prompt for this conversation';
+COMMENT ON COLUMN conversations.max_output_tokens IS 'Clamped to the selected model''s maxTokens at request time';
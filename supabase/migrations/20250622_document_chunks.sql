@@ -0,0 +1,98 @@
+-- Chunk-level storage for RAG documents with pgvector embeddings and full-text search
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  document_id TEXT NOT NULL,
+  file_upload_id UUID REFERENCES file_uploads(id) ON DELETE CASCADE,
+  filename TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  page_number INTEGER,
+  embedding VECTOR(384),
+  embedding_model TEXT,
+  fts TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, document_id, chunk_index)
+);
+
+-- Enable RLS
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own document chunks"
+  ON document_chunks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own document chunks"
+  ON document_chunks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own document chunks"
+  ON document_chunks FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own document chunks"
+  ON document_chunks FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX idx_document_chunks_user_document ON document_chunks(user_id, document_id);
+CREATE INDEX idx_document_chunks_embedding ON document_chunks USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX idx_document_chunks_fts ON document_chunks USING gin (fts);
+
+-- Candidate pool for hybrid search: nearest neighbours by cosine distance plus full-text hits.
+-- Runs as the caller, so RLS limits candidates to the caller's own chunks. Final ranking
+-- (BM25 fused with similarity) happens in the API.
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding VECTOR(384),
+  query_text TEXT,
+  match_count INTEGER DEFAULT 50,
+  filter_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id TEXT,
+  filename TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  page_number INTEGER,
+  embedding_model TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH vector_matches AS (
+    SELECT c.id
+    FROM document_chunks c
+    WHERE c.embedding IS NOT NULL
+      AND (filter_model IS NULL OR c.embedding_model = filter_model)
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count
+  ),
+  text_matches AS (
+    SELECT c.id
+    FROM document_chunks c
+    WHERE c.fts @@ websearch_to_tsquery('english', query_text)
+    ORDER BY ts_rank(c.fts, websearch_to_tsquery('english', query_text)) DESC
+    LIMIT match_count
+  )
+  SELECT
+    c.id,
+    c.document_id,
+    c.filename,
+    c.chunk_index,
+    c.content,
+    c.page_number,
+    c.embedding_model,
+    CASE
+      WHEN c.embedding IS NOT NULL AND (filter_model IS NULL OR c.embedding_model = filter_model)
+        THEN 1 - (c.embedding <=> query_embedding)
+      ELSE NULL
+    END AS similarity
+  FROM document_chunks c
+  WHERE c.id IN (SELECT vector_matches.id FROM vector_matches UNION SELECT text_matches.id FROM text_matches);
+$$;
+
+COMMENT ON COLUMN document_chunks.embedding_model IS 'Embedding provider id; vectors are only compared within the same model.';
@@ -0,0 +1,96 @@
+-- Persist RAG documents per user: each document is a file_uploads row (same id as
+-- document_chunks.document_id) and documents are attached to conversations for search.
+ALTER TABLE document_chunks
+  ADD CONSTRAINT document_chunks_file_upload_id_matches_document
+  CHECK (file_upload_id IS NULL OR file_upload_id::text = document_id);
+
+CREATE TABLE IF NOT EXISTS conversation_documents (
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  file_upload_id UUID REFERENCES file_uploads(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, file_upload_id)
+);
+
+-- Enable RLS
+ALTER TABLE conversation_documents ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view own conversation documents"
+  ON conversation_documents FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can attach documents to own conversations"
+  ON conversation_documents FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM conversations WHERE id = conversation_id AND user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM file_uploads WHERE id = file_upload_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can detach own conversation documents"
+  ON conversation_documents FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create indexes
+CREATE INDEX idx_conversation_documents_file_upload_id ON conversation_documents(file_upload_id);
+CREATE INDEX idx_document_chunks_file_upload_id ON document_chunks(file_upload_id);
+
+-- Search can now be limited to a set of documents (e.g. those attached to a conversation)
+DROP FUNCTION IF EXISTS match_document_chunks(VECTOR(384), TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding VECTOR(384),
+  query_text TEXT,
+  match_count INTEGER DEFAULT 50,
+  filter_model TEXT DEFAULT NULL,
+  filter_document_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id TEXT,
+  filename TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  page_number INTEGER,
+  embedding_model TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH scoped AS (
+    SELECT *
+    FROM document_chunks c
+    WHERE filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids)
+  ),
+  vector_matches AS (
+    SELECT s.id
+    FROM scoped s
+    WHERE s.embedding IS NOT NULL
+      AND (filter_model IS NULL OR s.embedding_model = filter_model)
+    ORDER BY s.embedding <=> query_embedding
+    LIMIT match_count
+  ),
+  text_matches AS (
+    SELECT s.id
+    FROM scoped s
+    WHERE s.fts @@ websearch_to_tsquery('english', query_text)
+    ORDER BY ts_rank(s.fts, websearch_to_tsquery('english', query_text)) DESC
+    LIMIT match_count
+  )
+  SELECT
+    s.id,
+    s.document_id,
+    s.filename,
+    s.chunk_index,
+    s.content,
+    s.page_number,
+    s.embedding_model,
+    CASE
+      WHEN s.embedding IS NOT NULL AND (filter_model IS NULL OR s.embedding_model = filter_model)
+        THEN 1 - (s.embedding <=> query_embedding)
+      ELSE NULL
+    END AS similarity
+  FROM scoped s
+  WHERE s.id IN (SELECT vector_matches.id FROM vector_matches UNION SELECT text_matches.id FROM text_matches);
+$$;
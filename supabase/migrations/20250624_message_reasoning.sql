@@ -0,0 +1,5 @@
+-- Native reasoning (thinking) streamed by reasoning models, kept apart from the answer in content
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS reasoning TEXT;
+
+COMMENT ON COLUMN messages.reasoning IS 'Reasoning text streamed by the model before its answer; NULL for models without native reasoning';
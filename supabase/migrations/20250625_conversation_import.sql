@@ -0,0 +1,11 @@
+-- Conversations imported from other chat tools (ChatGPT, Claude.ai, Markdown, T3 Chat exports)
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS import_hash TEXT,
+  ADD COLUMN IF NOT EXISTS import_source TEXT CHECK (import_source IS NULL OR import_source IN ('t3-chat', 'chatgpt', 'claude', 'markdown'));
+
+COMMENT ON COLUMN conversations.import_hash IS 'SHA-256 of the imported messages (role and text, in tree order); used to skip re-imports';
+
+-- Duplicate detection looks up a user's conversations by hash
+CREATE INDEX IF NOT EXISTS idx_conversations_user_import_hash
+  ON conversations(user_id, import_hash)
+  WHERE import_hash IS NOT NULL;
@@ -0,0 +1,63 @@
+-- Server-side conversation export/import (/api/conversations/export and /api/conversations/import)
+
+-- Export pages through a user's conversations by (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_conversations_user_created_id
+  ON conversations(user_id, created_at, id);
+
+-- Insert one conversation and all of its messages in a single transaction. Ids are generated by
+-- the caller so parent_id can be remapped before the call; RLS still applies (SECURITY INVOKER)
+-- and the conversation always belongs to the calling user.
+CREATE OR REPLACE FUNCTION import_conversation(p_conversation JSONB, p_messages JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  INSERT INTO conversations (
+    id, user_id, title, model_provider, model_name, system_prompt,
+    temperature, top_p, max_output_tokens, stop_sequences,
+    import_hash, import_source, created_at, updated_at
+  )
+  SELECT
+    COALESCE(c.id, gen_random_uuid()),
+    auth.uid(),
+    c.title,
+    COALESCE(c.model_provider, 'openai'),
+    COALESCE(c.model_name, 'gpt-4'),
+    c.system_prompt,
+    c.temperature,
+    c.top_p,
+    c.max_output_tokens,
+    COALESCE(c.stop_sequences, '{}'),
+    c.import_hash,
+    c.import_source,
+    COALESCE(c.created_at, NOW()),
+    COALESCE(c.updated_at, c.created_at, NOW())
+  FROM jsonb_populate_record(NULL::conversations, p_conversation) AS c
+  RETURNING id INTO new_id;
+
+  -- A single statement, so parent_id may reference rows inserted alongside it
+  INSERT INTO messages (
+    id, conversation_id, parent_id, role, content, reasoning,
+    model_metadata, attachments, branch_index, created_at
+  )
+  SELECT
+    COALESCE(m.id, gen_random_uuid()),
+    new_id,
+    m.parent_id,
+    m.role,
+    m.content,
+    m.reasoning,
+    m.model_metadata,
+    m.attachments,
+    COALESCE(m.branch_index, 0),
+    COALESCE(m.created_at, NOW())
+  FROM jsonb_populate_recordset(NULL::messages, COALESCE(p_messages, '[]'::jsonb)) AS m;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_conversation(JSONB, JSONB) TO authenticated;
@@ -0,0 +1,54 @@
+-- Read-only share links (/share/[token]). Each link stores a snapshot of one branch, so later
+-- edits to the conversation never leak into a link that has already been handed out.
+CREATE TABLE IF NOT EXISTS shared_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  model_provider TEXT,
+  model_name TEXT,
+  leaf_message_id UUID,
+  messages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_conversations_conversation ON shared_conversations(conversation_id, created_at DESC);
+
+ALTER TABLE shared_conversations ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage their links; nobody else can list or read them directly
+CREATE POLICY "Users can view own share links" ON shared_conversations FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own share links" ON shared_conversations FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (SELECT 1 FROM conversations WHERE conversations.id = conversation_id AND conversations.user_id = auth.uid())
+);
+CREATE POLICY "Users can update own share links" ON shared_conversations FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own share links" ON shared_conversations FOR DELETE USING (auth.uid() = user_id);
+
+-- Visitors (including anonymous ones) resolve a single live link by its token
+CREATE OR REPLACE FUNCTION get_shared_conversation(p_token TEXT)
+RETURNS TABLE (
+  token TEXT,
+  title TEXT,
+  model_provider TEXT,
+  model_name TEXT,
+  messages JSONB,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.token, s.title, s.model_provider, s.model_name, s.messages, s.expires_at, s.created_at
+  FROM shared_conversations s
+  WHERE s.token = p_token
+    AND s.revoked_at IS NULL
+    AND (s.expires_at IS NULL OR s.expires_at > NOW());
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shared_conversation(TEXT) TO anon, authenticated;
@@ -0,0 +1,186 @@
+-- Collaborative conversations: owners invite members as viewers or editors through invite links
+
+CREATE TABLE IF NOT EXISTS conversation_members (
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'editor')),
+  display_name TEXT,
+  avatar_url TEXT,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_members_user ON conversation_members(user_id);
+
+CREATE TABLE IF NOT EXISTS conversation_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('viewer', 'editor')),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_invites_conversation ON conversation_invites(conversation_id, created_at DESC);
+
+-- The caller's role in a conversation: 'owner', 'editor', 'viewer' or NULL. SECURITY DEFINER so
+-- policies on conversations and conversation_members can use it without recursing into each other.
+CREATE OR REPLACE FUNCTION conversation_role(p_conversation_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM conversations WHERE id = p_conversation_id AND user_id = auth.uid()) THEN 'owner'
+    ELSE (SELECT role FROM conversation_members WHERE conversation_id = p_conversation_id AND user_id = auth.uid())
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION conversation_role(UUID) TO authenticated;
+
+-- Who wrote a message, so editors can be limited to their own. Assistant replies are saved with the
+-- session of the member who asked.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- The stored conversation of a message the caller can see, for policies that must compare against
+-- the row before an update. SECURITY DEFINER so a policy on messages can read messages without recursing.
+CREATE OR REPLACE FUNCTION message_conversation_id(p_message_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT conversation_id FROM messages
+  WHERE id = p_message_id AND conversation_role(conversation_id) IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION message_conversation_id(UUID) TO authenticated;
+
+ALTER TABLE conversation_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_invites ENABLE ROW LEVEL SECURITY;
+
+-- Members see each other; only the owner manages membership, but anyone can leave
+CREATE POLICY "Members can view conversation members" ON conversation_members FOR SELECT USING (
+  conversation_role(conversation_id) IS NOT NULL
+);
+CREATE POLICY "Owners can add members" ON conversation_members FOR INSERT WITH CHECK (
+  conversation_role(conversation_id) = 'owner'
+);
+CREATE POLICY "Owners can change member roles" ON conversation_members FOR UPDATE USING (
+  conversation_role(conversation_id) = 'owner'
+);
+CREATE POLICY "Owners can remove members and members can leave" ON conversation_members FOR DELETE USING (
+  conversation_role(conversation_id) = 'owner' OR user_id = auth.uid()
+);
+
+CREATE POLICY "Owners manage invites" ON conversation_invites FOR ALL USING (
+  conversation_role(conversation_id) = 'owner'
+) WITH CHECK (
+  conversation_role(conversation_id) = 'owner' AND created_by = auth.uid()
+);
+
+-- Extend the owner-only policies from schema.sql to members
+CREATE POLICY "Members can view shared conversations" ON conversations FOR SELECT USING (
+  conversation_role(id) IN ('viewer', 'editor')
+);
+CREATE POLICY "Members can view messages in shared conversations" ON messages FOR SELECT USING (
+  conversation_role(conversation_id) IN ('viewer', 'editor')
+);
+CREATE POLICY "Editors can create messages in shared conversations" ON messages FOR INSERT WITH CHECK (
+  conversation_role(conversation_id) = 'editor' AND created_by = auth.uid()
+);
+-- Editors can only change messages they wrote, and can't move them to another conversation
+CREATE POLICY "Editors can update their messages in shared conversations" ON messages FOR UPDATE USING (
+  conversation_role(conversation_id) = 'editor' AND created_by = auth.uid()
+) WITH CHECK (
+  conversation_role(conversation_id) = 'editor'
+  AND created_by = auth.uid()
+  AND conversation_id = message_conversation_id(id)
+);
+CREATE POLICY "Members can view sessions in shared conversations" ON chat_sessions FOR SELECT USING (
+  conversation_role(conversation_id) IS NOT NULL
+);
+
+-- Redeem an invite for the calling user. Accepting again (or a newer invite) updates the role;
+-- the owner accepting their own invite is a no-op.
+CREATE OR REPLACE FUNCTION accept_conversation_invite(p_token TEXT)
+RETURNS TABLE (conversation_id UUID, role TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite conversation_invites%ROWTYPE;
+  owner_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept an invite' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO invite
+  FROM conversation_invites i
+  WHERE i.token = p_token
+    AND i.revoked_at IS NULL
+    AND (i.expires_at IS NULL OR i.expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT c.user_id INTO owner_id FROM conversations c WHERE c.id = invite.conversation_id;
+  IF owner_id = auth.uid() THEN
+    RETURN QUERY SELECT invite.conversation_id, 'owner'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO conversation_members AS m (conversation_id, user_id, role, display_name, avatar_url, invited_by)
+  SELECT
+    invite.conversation_id,
+    u.id,
+    invite.role,
+    COALESCE(u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name', u.email),
+    u.raw_user_meta_data->>'avatar_url',
+    invite.created_by
+  FROM auth.users u
+  WHERE u.id = auth.uid()
+  ON CONFLICT ON CONSTRAINT conversation_members_pkey DO UPDATE SET role = EXCLUDED.role;
+
+  RETURN QUERY SELECT invite.conversation_id, invite.role;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_conversation_invite(TEXT) TO authenticated;
+
+-- Presence, typing and live AI output travel on private Realtime channels named presence:<conversation id>.
+-- Realtime checks these policies on join and on every send.
+CREATE OR REPLACE FUNCTION presence_conversation_id(p_topic TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_topic ~ '^presence:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    THEN substring(p_topic FROM 10)::UUID
+  END;
+$$;
+
+CREATE POLICY "Members can receive conversation presence" ON realtime.messages FOR SELECT TO authenticated USING (
+  realtime.messages.extension IN ('presence', 'broadcast')
+  AND conversation_role(presence_conversation_id(realtime.topic())) IS NOT NULL
+);
+CREATE POLICY "Members can share their presence" ON realtime.messages FOR INSERT TO authenticated WITH CHECK (
+  realtime.messages.extension = 'presence'
+  AND conversation_role(presence_conversation_id(realtime.topic())) IS NOT NULL
+);
+-- Viewers cannot send messages, so they have no AI output to broadcast
+CREATE POLICY "Editors can broadcast AI output" ON realtime.messages FOR INSERT TO authenticated WITH CHECK (
+  realtime.messages.extension = 'broadcast'
+  AND conversation_role(presence_conversation_id(realtime.topic())) IN ('owner', 'editor')
+);
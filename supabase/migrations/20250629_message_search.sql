@@ -0,0 +1,175 @@
+-- Full-text and semantic search over message text
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Older rows stored content as a bare JSON string instead of { text }
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('english', COALESCE(
+      content->>'text',
+      CASE WHEN jsonb_typeof(content) = 'string' THEN content #>> '{}' END,
+      ''
+    ))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON messages USING gin (search_vector);
+
+-- Vectors live beside messages so `select('*')` on messages stays small
+CREATE TABLE IF NOT EXISTS message_embeddings (
+  message_id UUID PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  embedding VECTOR(384) NOT NULL,
+  embedding_model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE message_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can read the message (owner or collaborator) can use its vector
+CREATE POLICY "Users can view embeddings of readable messages"
+  ON message_embeddings FOR SELECT
+  USING (EXISTS (SELECT 1 FROM messages m WHERE m.id = message_embeddings.message_id));
+
+CREATE POLICY "Owners can insert message embeddings"
+  ON message_embeddings FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM messages m
+      JOIN conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_embeddings.message_id AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can update message embeddings"
+  ON message_embeddings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_message_embeddings_embedding ON message_embeddings USING hnsw (embedding vector_cosine_ops);
+
+-- The caller's messages that have no vector from the given model yet, newest first
+CREATE OR REPLACE FUNCTION messages_missing_embeddings(
+  p_embedding_model TEXT,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (id UUID, text TEXT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT m.id, m.content->>'text'
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  LEFT JOIN message_embeddings e ON e.message_id = m.id
+  WHERE c.user_id = auth.uid()
+    AND COALESCE(m.content->>'text', '') <> ''
+    AND (e.message_id IS NULL OR e.embedding_model <> p_embedding_model)
+  ORDER BY m.created_at DESC
+  LIMIT p_limit;
+$$;
+
+-- Ranked, filtered and paginated message search. Keyword hits come from the GIN index; when a
+-- query embedding is given, the nearest message vectors by cosine distance join the candidate pool and
+-- the score blends text rank with similarity. Runs as the caller, so RLS limits results to
+-- conversations the caller owns or collaborates on.
+CREATE OR REPLACE FUNCTION search_messages(
+  query_text TEXT,
+  query_embedding VECTOR(384) DEFAULT NULL,
+  filter_embedding_model TEXT DEFAULT NULL,
+  min_similarity DOUBLE PRECISION DEFAULT 0.3,
+  filter_model TEXT DEFAULT NULL,
+  filter_role TEXT DEFAULT NULL,
+  filter_from TIMESTAMPTZ DEFAULT NULL,
+  filter_to TIMESTAMPTZ DEFAULT NULL,
+  filter_has_attachments BOOLEAN DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  candidate_count INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  message_id UUID,
+  conversation_id UUID,
+  conversation_title TEXT,
+  role TEXT,
+  model TEXT,
+  created_at TIMESTAMPTZ,
+  has_attachments BOOLEAN,
+  snippet TEXT,
+  rank DOUBLE PRECISION,
+  similarity DOUBLE PRECISION,
+  score DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', query_text) AS tsq
+  ),
+  text_matches AS (
+    SELECT m.id
+    FROM messages m, query q
+    WHERE m.search_vector @@ q.tsq
+  ),
+  vector_matches AS (
+    SELECT e.message_id AS id
+    FROM message_embeddings e
+    WHERE query_embedding IS NOT NULL
+      AND (filter_embedding_model IS NULL OR e.embedding_model = filter_embedding_model)
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  candidates AS (
+    SELECT
+      m.*,
+      c.title AS conversation_title,
+      COALESCE(m.model_metadata->>'model', c.model_name) AS model,
+      jsonb_typeof(m.attachments) = 'array' AND jsonb_array_length(m.attachments) > 0 AS has_attachments,
+      ts_rank_cd(m.search_vector, q.tsq, 32)::DOUBLE PRECISION AS rank,
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND (filter_embedding_model IS NULL OR e.embedding_model = filter_embedding_model)
+          THEN 1 - (e.embedding <=> query_embedding)
+        ELSE NULL
+      END AS similarity
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    LEFT JOIN message_embeddings e ON e.message_id = m.id
+    CROSS JOIN query q
+    WHERE m.id IN (SELECT id FROM text_matches UNION SELECT id FROM vector_matches)
+  ),
+  filtered AS (
+    SELECT *
+    FROM candidates
+    WHERE (filter_model IS NULL OR candidates.model = filter_model)
+      AND (filter_role IS NULL OR candidates.role = filter_role)
+      AND (filter_from IS NULL OR candidates.created_at >= filter_from)
+      AND (filter_to IS NULL OR candidates.created_at < filter_to)
+      AND (filter_has_attachments IS NULL OR COALESCE(candidates.has_attachments, FALSE) = filter_has_attachments)
+      AND (candidates.rank > 0 OR candidates.similarity >= min_similarity)
+  )
+  SELECT
+    f.id,
+    f.conversation_id,
+    f.conversation_title,
+    f.role,
+    f.model,
+    f.created_at::TIMESTAMPTZ,
+    COALESCE(f.has_attachments, FALSE),
+    ts_headline(
+      'english',
+      COALESCE(f.content->>'text', CASE WHEN jsonb_typeof(f.content) = 'string' THEN f.content #>> '{}' END, ''),
+      q.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    f.rank,
+    f.similarity,
+    CASE
+      WHEN query_embedding IS NULL THEN f.rank
+      ELSE 0.5 * f.rank + 0.5 * COALESCE(f.similarity, 0)
+    END AS score,
+    COUNT(*) OVER () AS total_count
+  FROM filtered f, query q
+  ORDER BY score DESC, f.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+COMMENT ON COLUMN messages.search_vector IS 'English tsvector of the message text, maintained by Postgres.';
+COMMENT ON COLUMN message_embeddings.embedding_model IS 'Embedding provider id; vectors are only compared within the same model.';
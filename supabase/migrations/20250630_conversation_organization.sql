@@ -0,0 +1,226 @@
+-- Folders, tags, pinning and archive for the sidebar. Everything is per user, so collaborators
+-- can file a shared conversation without affecting how the owner sees it.
+
+CREATE TABLE IF NOT EXISTS conversation_folders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_folders_user_name ON conversation_folders(user_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS conversation_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  color TEXT NOT NULL DEFAULT 'slate',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_tags_user_name ON conversation_tags(user_id, lower(name));
+
+-- One row per user and conversation once it has been filed, pinned or archived
+CREATE TABLE IF NOT EXISTS conversation_organization (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  folder_id UUID REFERENCES conversation_folders(id) ON DELETE SET NULL,
+  pinned_at TIMESTAMP WITH TIME ZONE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, conversation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_organization_folder ON conversation_organization(folder_id);
+
+CREATE TABLE IF NOT EXISTS conversation_tag_assignments (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  tag_id UUID REFERENCES conversation_tags(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_tag_assignments_tag ON conversation_tag_assignments(tag_id);
+
+ALTER TABLE conversation_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_organization ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_tag_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own folders" ON conversation_folders FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own tags" ON conversation_tags FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Only conversations the user can open, and only into the user's own folders
+CREATE POLICY "Users can manage own conversation organization" ON conversation_organization FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND conversation_role(conversation_id) IS NOT NULL
+    AND (folder_id IS NULL OR EXISTS (
+      SELECT 1 FROM conversation_folders f WHERE f.id = folder_id AND f.user_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Users can manage own tag assignments" ON conversation_tag_assignments FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND conversation_role(conversation_id) IS NOT NULL
+    AND EXISTS (SELECT 1 FROM conversation_tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+  );
+
+-- Search gains folder, tag and archive filters; archived conversations are left out unless asked for
+DROP FUNCTION IF EXISTS search_messages(TEXT, VECTOR, TEXT, DOUBLE PRECISION, TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, INTEGER, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_messages(
+  query_text TEXT,
+  query_embedding VECTOR(384) DEFAULT NULL,
+  filter_embedding_model TEXT DEFAULT NULL,
+  min_similarity DOUBLE PRECISION DEFAULT 0.3,
+  filter_model TEXT DEFAULT NULL,
+  filter_role TEXT DEFAULT NULL,
+  filter_from TIMESTAMPTZ DEFAULT NULL,
+  filter_to TIMESTAMPTZ DEFAULT NULL,
+  filter_has_attachments BOOLEAN DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  candidate_count INTEGER DEFAULT 200,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_tag_id UUID DEFAULT NULL,
+  include_archived BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  message_id UUID,
+  conversation_id UUID,
+  conversation_title TEXT,
+  role TEXT,
+  model TEXT,
+  created_at TIMESTAMPTZ,
+  has_attachments BOOLEAN,
+  snippet TEXT,
+  rank DOUBLE PRECISION,
+  similarity DOUBLE PRECISION,
+  score DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', query_text) AS tsq
+  ),
+  text_matches AS (
+    SELECT m.id
+    FROM messages m, query q
+    WHERE m.search_vector @@ q.tsq
+  ),
+  vector_matches AS (
+    SELECT e.message_id AS id
+    FROM message_embeddings e
+    WHERE query_embedding IS NOT NULL
+      AND (filter_embedding_model IS NULL OR e.embedding_model = filter_embedding_model)
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  candidates AS (
+    SELECT
+      m.*,
+      c.title AS conversation_title,
+      COALESCE(m.model_metadata->>'model', c.model_name) AS model,
+      jsonb_typeof(m.attachments) = 'array' AND jsonb_array_length(m.attachments) > 0 AS has_attachments,
+      ts_rank_cd(m.search_vector, q.tsq, 32)::DOUBLE PRECISION AS rank,
+      CASE
+        WHEN query_embedding IS NOT NULL
+          AND (filter_embedding_model IS NULL OR e.embedding_model = filter_embedding_model)
+          THEN 1 - (e.embedding <=> query_embedding)
+        ELSE NULL
+      END AS similarity,
+      o.folder_id,
+      o.archived_at
+    FROM messages m
+    JOIN conversations c ON c.id = m.conversation_id
+    LEFT JOIN message_embeddings e ON e.message_id = m.id
+    LEFT JOIN conversation_organization o ON o.conversation_id = m.conversation_id AND o.user_id = auth.uid()
+    CROSS JOIN query q
+    WHERE m.id IN (SELECT id FROM text_matches UNION SELECT id FROM vector_matches)
+  ),
+  filtered AS (
+    SELECT *
+    FROM candidates
+    WHERE (filter_model IS NULL OR candidates.model = filter_model)
+      AND (filter_role IS NULL OR candidates.role = filter_role)
+      AND (filter_from IS NULL OR candidates.created_at >= filter_from)
+      AND (filter_to IS NULL OR candidates.created_at < filter_to)
+      AND (filter_has_attachments IS NULL OR COALESCE(candidates.has_attachments, FALSE) = filter_has_attachments)
+      AND (filter_folder_id IS NULL OR candidates.folder_id = filter_folder_id)
+      AND (filter_tag_id IS NULL OR EXISTS (
+        SELECT 1 FROM conversation_tag_assignments a
+        WHERE a.conversation_id = candidates.conversation_id AND a.tag_id = filter_tag_id
+      ))
+      AND (include_archived OR candidates.archived_at IS NULL)
+      AND (candidates.rank > 0 OR candidates.similarity >= min_similarity)
+  )
+  SELECT
+    f.id,
+    f.conversation_id,
+    f.conversation_title,
+    f.role,
+    f.model,
+    f.created_at::TIMESTAMPTZ,
+    COALESCE(f.has_attachments, FALSE),
+    ts_headline(
+      'english',
+      COALESCE(f.content->>'text', CASE WHEN jsonb_typeof(f.content) = 'string' THEN f.content #>> '{}' END, ''),
+      q.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    f.rank,
+    f.similarity,
+    CASE
+      WHEN query_embedding IS NULL THEN f.rank
+      ELSE 0.5 * f.rank + 0.5 * COALESCE(f.similarity, 0)
+    END AS score,
+    COUNT(*) OVER () AS total_count
+  FROM filtered f, query q
+  ORDER BY score DESC, f.created_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
+
+-- Conversation title matches with the same organization filters as search_messages
+CREATE OR REPLACE FUNCTION search_conversations(
+  query_text TEXT,
+  filter_model TEXT DEFAULT NULL,
+  filter_from TIMESTAMPTZ DEFAULT NULL,
+  filter_to TIMESTAMPTZ DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_tag_id UUID DEFAULT NULL,
+  include_archived BOOLEAN DEFAULT FALSE,
+  result_limit INTEGER DEFAULT 5
+)
+RETURNS SETOF conversations
+LANGUAGE sql STABLE
+AS $$
+  SELECT c.*
+  FROM conversations c
+  LEFT JOIN conversation_organization o ON o.conversation_id = c.id AND o.user_id = auth.uid()
+  WHERE c.title ILIKE '%' || replace(replace(replace(query_text, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    AND (filter_model IS NULL OR c.model_name = filter_model)
+    AND (filter_from IS NULL OR c.created_at >= filter_from)
+    AND (filter_to IS NULL OR c.created_at < filter_to)
+    AND (filter_folder_id IS NULL OR o.folder_id = filter_folder_id)
+    AND (filter_tag_id IS NULL OR EXISTS (
+      SELECT 1 FROM conversation_tag_assignments a
+      WHERE a.conversation_id = c.id AND a.tag_id = filter_tag_id
+    ))
+    AND (include_archived OR o.archived_at IS NULL)
+  ORDER BY c.updated_at DESC
+  LIMIT result_limit;
+$$;
@@ -0,0 +1,75 @@
+-- AI-generated conversation titles and a rolling summary, written by /api/chat after each exchange
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_message_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_updated_at TIMESTAMPTZ;
+-- Set once a title has been generated (or skipped because the user renamed the conversation)
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS title_generated_at TIMESTAMPTZ;
+
+-- Editors can chat in shared conversations but only owners may update the row, so the summary is
+-- saved through this function. p_title is NULL when the current title should be kept.
+CREATE OR REPLACE FUNCTION save_conversation_summary(
+  p_conversation_id UUID,
+  p_summary TEXT,
+  p_message_count INTEGER,
+  p_title TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- conversation_role is NULL for non-members, and NULL NOT IN (...) is never true
+  IF COALESCE(conversation_role(p_conversation_id), '') NOT IN ('owner', 'editor') THEN
+    RAISE EXCEPTION 'Not allowed to update this conversation' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE conversations
+  SET summary = COALESCE(p_summary, summary),
+      summary_message_count = CASE WHEN p_summary IS NULL THEN summary_message_count ELSE p_message_count END,
+      summary_updated_at = CASE WHEN p_summary IS NULL THEN summary_updated_at ELSE NOW() END,
+      title = COALESCE(p_title, title),
+      title_generated_at = COALESCE(title_generated_at, NOW())
+  WHERE id = p_conversation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_conversation_summary(UUID, TEXT, INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_conversation_summary(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+
+-- Title search also matches the summary, so conversations are found by what was discussed
+CREATE OR REPLACE FUNCTION search_conversations(
+  query_text TEXT,
+  filter_model TEXT DEFAULT NULL,
+  filter_from TIMESTAMPTZ DEFAULT NULL,
+  filter_to TIMESTAMPTZ DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_tag_id UUID DEFAULT NULL,
+  include_archived BOOLEAN DEFAULT FALSE,
+  result_limit INTEGER DEFAULT 5
+)
+RETURNS SETOF conversations
+LANGUAGE sql STABLE
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(query_text, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  )
+  SELECT c.*
+  FROM conversations c
+  CROSS JOIN pattern p
+  LEFT JOIN conversation_organization o ON o.conversation_id = c.id AND o.user_id = auth.uid()
+  WHERE (c.title ILIKE p.value OR c.summary ILIKE p.value)
+    AND (filter_model IS NULL OR c.model_name = filter_model)
+    AND (filter_from IS NULL OR c.created_at >= filter_from)
+    AND (filter_to IS NULL OR c.created_at < filter_to)
+    AND (filter_folder_id IS NULL OR o.folder_id = filter_folder_id)
+    AND (filter_tag_id IS NULL OR EXISTS (
+      SELECT 1 FROM conversation_tag_assignments a
+      WHERE a.conversation_id = c.id AND a.tag_id = filter_tag_id
+    ))
+    AND (include_archived OR o.archived_at IS NULL)
+  -- Title hits rank above summary-only hits
+  ORDER BY (c.title ILIKE p.value) DESC, c.updated_at DESC
+  LIMIT result_limit;
+$$;
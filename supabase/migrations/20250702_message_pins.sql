@@ -0,0 +1,7 @@
+-- Pinned messages are always sent to the model, however long the conversation gets
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_messages_pinned
+  ON messages(conversation_id)
+  WHERE pinned_at IS NOT NULL;
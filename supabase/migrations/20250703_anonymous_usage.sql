@@ -0,0 +1,123 @@
+-- Per-visitor anonymous quotas: one row per request in a rolling window, keyed by the signed
+-- visitor cookie and an HMAC of the client IP. Shared by every server instance.
+
+CREATE TABLE IF NOT EXISTS anonymous_usage_events (
+  id BIGSERIAL PRIMARY KEY,
+  visitor_id TEXT NOT NULL,
+  ip_hash TEXT,
+  model TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_anonymous_usage_visitor ON anonymous_usage_events(visitor_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_anonymous_usage_ip ON anonymous_usage_events(ip_hash, created_at) WHERE ip_hash IS NOT NULL;
+
+-- No policies: rows are only read and written through the functions below
+ALTER TABLE anonymous_usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Requests counted for a visitor and an IP within the window, with the oldest of each so callers
+-- can tell when the next slot frees up
+CREATE OR REPLACE FUNCTION anonymous_quota_status(
+  p_visitor_id TEXT,
+  p_ip_hash TEXT,
+  p_window_seconds INTEGER
+)
+RETURNS TABLE (
+  visitor_used INTEGER,
+  ip_used INTEGER,
+  visitor_oldest TIMESTAMPTZ,
+  ip_oldest TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*)::INTEGER FROM anonymous_usage_events
+      WHERE visitor_id = p_visitor_id AND created_at > NOW() - make_interval(secs => p_window_seconds)),
+    (SELECT COUNT(*)::INTEGER FROM anonymous_usage_events
+      WHERE p_ip_hash IS NOT NULL AND ip_hash = p_ip_hash AND created_at > NOW() - make_interval(secs => p_window_seconds)),
+    (SELECT MIN(created_at) FROM anonymous_usage_events
+      WHERE visitor_id = p_visitor_id AND created_at > NOW() - make_interval(secs => p_window_seconds)),
+    (SELECT MIN(created_at) FROM anonymous_usage_events
+      WHERE p_ip_hash IS NOT NULL AND ip_hash = p_ip_hash AND created_at > NOW() - make_interval(secs => p_window_seconds));
+$$;
+
+-- Count and record one request atomically. Concurrent requests from the same visitor or IP are
+-- serialised by advisory locks (always taken visitor first, then IP) so neither limit can be
+-- overshot. event_id is NULL when the request was refused.
+CREATE OR REPLACE FUNCTION consume_anonymous_quota(
+  p_visitor_id TEXT,
+  p_ip_hash TEXT,
+  p_visitor_limit INTEGER,
+  p_ip_limit INTEGER,
+  p_window_seconds INTEGER,
+  p_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  event_id BIGINT,
+  visitor_used INTEGER,
+  ip_used INTEGER,
+  visitor_oldest TIMESTAMPTZ,
+  ip_oldest TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status RECORD;
+  v_event_id BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('anonymous-visitor:' || p_visitor_id));
+  IF p_ip_hash IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('anonymous-ip:' || p_ip_hash));
+  END IF;
+
+  -- Expired rows are never counted again
+  DELETE FROM anonymous_usage_events
+  WHERE created_at <= NOW() - make_interval(secs => p_window_seconds)
+    AND (visitor_id = p_visitor_id OR (p_ip_hash IS NOT NULL AND ip_hash = p_ip_hash));
+
+  SELECT * INTO v_status FROM anonymous_quota_status(p_visitor_id, p_ip_hash, p_window_seconds);
+
+  IF v_status.visitor_used >= p_visitor_limit OR v_status.ip_used >= p_ip_limit THEN
+    RETURN QUERY SELECT FALSE, NULL::BIGINT, v_status.visitor_used, v_status.ip_used, v_status.visitor_oldest, v_status.ip_oldest;
+    RETURN;
+  END IF;
+
+  INSERT INTO anonymous_usage_events (visitor_id, ip_hash, model)
+  VALUES (p_visitor_id, p_ip_hash, p_model)
+  RETURNING id INTO v_event_id;
+
+  RETURN QUERY SELECT
+    TRUE,
+    v_event_id,
+    v_status.visitor_used + 1,
+    v_status.ip_used + CASE WHEN p_ip_hash IS NULL THEN 0 ELSE 1 END,
+    COALESCE(v_status.visitor_oldest, NOW()),
+    CASE WHEN p_ip_hash IS NULL THEN NULL ELSE COALESCE(v_status.ip_oldest, NOW()) END;
+END;
+$$;
+
+-- Give back a request that never reached a model (the provider failed before streaming)
+CREATE OR REPLACE FUNCTION release_anonymous_quota(p_event_id BIGINT, p_visitor_id TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM anonymous_usage_events WHERE id = p_event_id AND visitor_id = p_visitor_id;
+$$;
+
+-- Only the server calls these, with the service role key (src/lib/anonymous-quota.ts). Visitors
+-- can read their own id from the cookie, so with the anon key they could refund every request
+-- or record usage for anyone.
+REVOKE EXECUTE ON FUNCTION anonymous_quota_status(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION consume_anonymous_quota(TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_anonymous_quota(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION anonymous_quota_status(TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION consume_anonymous_quota(TEXT, TEXT, INTEGER, INTEGER, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION release_anonymous_quota(BIGINT, TEXT) TO service_role;
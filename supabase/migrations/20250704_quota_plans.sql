@@ -0,0 +1,136 @@
+-- Quota plans: request, token and cost caps defined as data and assigned per user or per
+-- organization, enforced against a ledger of server-funded model requests.
+
+-- Organizations, so one plan can cover every member
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON organization_members(user_id);
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their organizations" ON organizations;
+CREATE POLICY "Members can view their organizations" ON organizations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM organization_members
+      WHERE organization_members.organization_id = organizations.id
+        AND organization_members.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view their memberships" ON organization_members;
+CREATE POLICY "Users can view their memberships" ON organization_members
+  FOR SELECT USING (user_id = auth.uid());
+
+-- limits is a QuotaLimits object (src/lib/quota-policy.ts): caps across all requests, per model
+-- tier and per model, each with optional requests, tokens and costUsd, over a rolling window
+CREATE TABLE IF NOT EXISTS quota_plans (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  window_hours INTEGER NOT NULL DEFAULT 24 CHECK (window_hours > 0),
+  limits JSONB NOT NULL DEFAULT '{}',
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Users without an assignment fall back to the one default plan
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quota_plans_default ON quota_plans(is_default) WHERE is_default;
+
+ALTER TABLE quota_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone signed in can view quota plans" ON quota_plans;
+CREATE POLICY "Anyone signed in can view quota plans" ON quota_plans
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- A plan for one user or for every member of one organization; a user's own assignment wins
+CREATE TABLE IF NOT EXISTS quota_plan_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id TEXT NOT NULL REFERENCES quota_plans(id) ON DELETE CASCADE,
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID UNIQUE REFERENCES organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((user_id IS NULL) <> (organization_id IS NULL))
+);
+
+ALTER TABLE quota_plan_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their plan assignments" ON quota_plan_assignments;
+CREATE POLICY "Users can view their plan assignments" ON quota_plan_assignments
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = auth.uid())
+  );
+
+-- One row per server-funded model request (requests served with the user's own keys aren't recorded)
+CREATE TABLE IF NOT EXISTS usage_events (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  route TEXT NOT NULL,
+  model TEXT NOT NULL,
+  tier TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0 CHECK (prompt_tokens >= 0),
+  completion_tokens INTEGER NOT NULL DEFAULT 0 CHECK (completion_tokens >= 0),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user ON usage_events(user_id, created_at DESC);
+
+ALTER TABLE usage_events ENABLE ROW LEVEL SECURITY;
+
+-- No update or delete policies, so recorded usage can't be taken back
+DROP POLICY IF EXISTS "Users can view their usage" ON usage_events;
+CREATE POLICY "Users can view their usage" ON usage_events
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can record their usage" ON usage_events;
+CREATE POLICY "Users can record their usage" ON usage_events
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+-- The caller's usage since p_since, per model and tier
+CREATE OR REPLACE FUNCTION usage_totals(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  model TEXT,
+  tier TEXT,
+  requests INTEGER,
+  tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.model,
+    e.tier,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(e.prompt_tokens + e.completion_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.cost_usd), 0)
+  FROM usage_events e
+  WHERE e.user_id = auth.uid()
+    AND e.created_at > p_since
+  GROUP BY e.model, e.tier;
+$$;
+
+GRANT EXECUTE ON FUNCTION usage_totals(TIMESTAMPTZ) TO authenticated;
+
+-- The limits the app shipped with: Vertex AI and premium models share 18 requests a day, special
+-- tier models get 2. Pro is an example of a larger plan with a daily spend ceiling.
+INSERT INTO quota_plans (id, name, window_hours, limits, is_default) VALUES
+  ('free', 'Free', 24, '{"tiers": {"premium": {"requests": 18}, "special": {"requests": 2}}}', TRUE),
+  ('pro', 'Pro', 24, '{"total": {"costUsd": 5}, "tiers": {"premium": {"requests": 500}, "special": {"requests": 50, "tokens": 2000000}}}', FALSE)
+ON CONFLICT (id) DO NOTHING;
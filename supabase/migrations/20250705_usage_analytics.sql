@@ -0,0 +1,108 @@
+-- Usage analytics: every model call lands in usage_events (including calls served with the user's
+-- own keys and background title/summary generation), with the details the dashboard breaks down by.
+
+ALTER TABLE usage_events
+  ADD COLUMN IF NOT EXISTS provider TEXT,
+  -- 'server', 'user-key' or 'openrouter' (see ModelSource in src/lib/provider-registry.ts)
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'server',
+  ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS latency_ms INTEGER CHECK (latency_ms IS NULL OR latency_ms >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_conversation ON usage_events(user_id, conversation_id) WHERE conversation_id IS NOT NULL;
+
+-- Quota plans only meter requests the user asked for that ran on server keys
+CREATE OR REPLACE FUNCTION usage_totals(p_since TIMESTAMPTZ)
+RETURNS TABLE (
+  model TEXT,
+  tier TEXT,
+  requests INTEGER,
+  tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.model,
+    e.tier,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(e.prompt_tokens + e.completion_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.cost_usd), 0)
+  FROM usage_events e
+  WHERE e.user_id = auth.uid()
+    AND e.created_at > p_since
+    AND e.source = 'server'
+    AND e.route <> 'summary'
+  GROUP BY e.model, e.tier;
+$$;
+
+-- The caller's usage per model in day, week or month buckets (UTC)
+CREATE OR REPLACE FUNCTION usage_history(p_since TIMESTAMPTZ, p_bucket TEXT DEFAULT 'day')
+RETURNS TABLE (
+  bucket TIMESTAMPTZ,
+  model TEXT,
+  requests INTEGER,
+  tokens BIGINT,
+  cost_usd NUMERIC,
+  avg_latency_ms INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unsupported bucket: %', p_bucket;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc(p_bucket, e.created_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC',
+    e.model,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(e.prompt_tokens + e.completion_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.cost_usd), 0),
+    AVG(e.latency_ms)::INTEGER
+  FROM usage_events e
+  WHERE e.user_id = auth.uid()
+    AND e.created_at >= p_since
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
+
+-- The caller's usage per conversation, most expensive first
+CREATE OR REPLACE FUNCTION usage_by_conversation(p_since TIMESTAMPTZ, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  conversation_id UUID,
+  title TEXT,
+  requests INTEGER,
+  tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.conversation_id,
+    c.title,
+    COUNT(*)::INTEGER,
+    COALESCE(SUM(e.prompt_tokens + e.completion_tokens), 0)::BIGINT,
+    COALESCE(SUM(e.cost_usd), 0)
+  FROM usage_events e
+  LEFT JOIN conversations c ON c.id = e.conversation_id
+  WHERE e.user_id = auth.uid()
+    AND e.created_at >= p_since
+  GROUP BY e.conversation_id, c.title
+  ORDER BY 5 DESC
+  LIMIT p_limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION usage_history(TIMESTAMPTZ, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION usage_by_conversation(TIMESTAMPTZ, INTEGER) TO authenticated;
+
+-- Budget alerts fire when projected monthly spend crosses this
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS monthly_budget_usd NUMERIC(10, 2) CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd > 0);
@@ -0,0 +1,74 @@
+-- Tasks extracted from conversations, kept per user so they survive reloads and can be tracked on
+-- the task board. Re-running extraction merges into these rows (see src/lib/task-board.ts).
+
+CREATE TABLE IF NOT EXISTS tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  -- Messages the task was extracted from
+  source_message_ids UUID[] NOT NULL DEFAULT '{}',
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  description TEXT NOT NULL DEFAULT '',
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('technical', 'research', 'design', 'business', 'testing', 'documentation', 'other')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'blocked')),
+  due_date DATE,
+  assignee TEXT,
+  estimated_hours NUMERIC CHECK (estimated_hours IS NULL OR estimated_hours >= 0),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  confidence NUMERIC CHECK (confidence IS NULL OR confidence BETWEEN 0 AND 1),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_status ON tasks(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_tasks_conversation ON tasks(conversation_id);
+
+-- task_id can't start until depends_on_id is completed
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE NOT NULL,
+  depends_on_id UUID REFERENCES tasks(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (task_id, depends_on_id),
+  CHECK (task_id <> depends_on_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on_id);
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Only from conversations the user can open
+CREATE POLICY "Users can manage own tasks" ON tasks FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND conversation_role(conversation_id) IS NOT NULL);
+
+-- Both ends must be the user's own tasks
+CREATE POLICY "Users can manage own task dependencies" ON task_dependencies FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM tasks t WHERE t.id = task_id AND t.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM tasks t WHERE t.id = depends_on_id AND t.user_id = auth.uid())
+  );
+
+-- Replace a task's dependencies in one transaction, so a failed insert keeps the old ones.
+-- Runs as the caller, so the policies above still decide which tasks can be linked.
+CREATE OR REPLACE FUNCTION replace_task_dependencies(p_task_id UUID, p_depends_on UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM task_dependencies WHERE task_id = p_task_id;
+  INSERT INTO task_dependencies (user_id, task_id, depends_on_id)
+  SELECT DISTINCT auth.uid(), p_task_id, depends_on_id
+  FROM unnest(p_depends_on) AS depends_on_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_task_dependencies(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION replace_task_dependencies(UUID, UUID[]) TO authenticated;
@@ -0,0 +1,126 @@
+-- Quota reservations: a signed-in request's usage_events row is written before the model is
+-- called, so concurrent requests can't all pass the plan check and overshoot a small cap. The row
+-- is settled with the real usage once the model answers, or released if none did.
+
+-- TRUE while the request is still running; its tokens and cost are filled in when it is settled
+ALTER TABLE usage_events
+  ADD COLUMN IF NOT EXISTS reserved BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Check the plan's caps and record one request atomically. Concurrent requests from the same user
+-- are serialised by an advisory lock, and reserved rows count as requests, so no request cap can be
+-- overshot. p_limits is the array of caps that apply to this model (QuotaLimitStatus in
+-- src/lib/quota-policy.ts, without `used`); event_id is NULL and the first exhausted cap is
+-- returned when the request is refused.
+CREATE OR REPLACE FUNCTION reserve_usage(
+  p_user_id UUID,
+  p_route TEXT,
+  p_model TEXT,
+  p_tier TEXT,
+  p_since TIMESTAMPTZ,
+  p_limits JSONB
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  event_id BIGINT,
+  exhausted_scope TEXT,
+  exhausted_key TEXT,
+  exhausted_metric TEXT,
+  exhausted_limit NUMERIC,
+  exhausted_used NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cap JSONB;
+  v_used NUMERIC;
+  v_event_id BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('usage-reservation:' || p_user_id::TEXT));
+
+  FOR v_cap IN SELECT value FROM jsonb_array_elements(COALESCE(p_limits, '[]'::JSONB)) LOOP
+    -- Same rows as usage_totals(): server-key requests the user asked for
+    SELECT CASE v_cap->>'metric'
+        WHEN 'requests' THEN COUNT(*)::NUMERIC
+        WHEN 'tokens' THEN COALESCE(SUM(e.prompt_tokens + e.completion_tokens), 0)::NUMERIC
+        ELSE COALESCE(SUM(e.cost_usd), 0)
+      END
+    INTO v_used
+    FROM usage_events e
+    WHERE e.user_id = p_user_id
+      AND e.created_at > p_since
+      AND e.source = 'server'
+      AND e.route <> 'summary'
+      AND CASE v_cap->>'scope'
+        WHEN 'tier' THEN e.tier = v_cap->>'key'
+        WHEN 'model' THEN e.model = v_cap->>'key'
+        ELSE TRUE
+      END;
+
+    IF v_used >= (v_cap->>'limit')::NUMERIC THEN
+      RETURN QUERY SELECT FALSE, NULL::BIGINT, v_cap->>'scope', v_cap->>'key', v_cap->>'metric', (v_cap->>'limit')::NUMERIC, v_used;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  INSERT INTO usage_events (user_id, route, model, tier, source, reserved)
+  VALUES (p_user_id, p_route, p_model, p_tier, 'server', TRUE)
+  RETURNING id INTO v_event_id;
+
+  RETURN QUERY SELECT TRUE, v_event_id, NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::NUMERIC, NULL::NUMERIC;
+END;
+$$;
+
+-- Fill in a reserved request once the model has answered. The model and source can differ from the
+-- reserved ones when the request failed over to a fallback.
+CREATE OR REPLACE FUNCTION settle_usage(
+  p_event_id BIGINT,
+  p_user_id UUID,
+  p_model TEXT,
+  p_tier TEXT,
+  p_prompt_tokens INTEGER,
+  p_completion_tokens INTEGER,
+  p_cost_usd NUMERIC,
+  p_provider TEXT,
+  p_source TEXT,
+  p_conversation_id UUID,
+  p_latency_ms INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE usage_events
+  SET model = p_model,
+      tier = p_tier,
+      prompt_tokens = p_prompt_tokens,
+      completion_tokens = p_completion_tokens,
+      cost_usd = p_cost_usd,
+      provider = p_provider,
+      source = p_source,
+      conversation_id = p_conversation_id,
+      latency_ms = p_latency_ms,
+      reserved = FALSE
+  WHERE id = p_event_id AND user_id = p_user_id AND reserved;
+$$;
+
+-- Give back a reserved request that never reached a model. Settled usage can't be released.
+CREATE OR REPLACE FUNCTION release_usage(p_event_id BIGINT, p_user_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM usage_events WHERE id = p_event_id AND user_id = p_user_id AND reserved;
+$$;
+
+-- Only the server calls these, with the service role key (src/lib/quota-policy.ts). With the
+-- user's own session anyone could release or rewrite their usage, or record usage for others.
+REVOKE EXECUTE ON FUNCTION reserve_usage(UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_usage(BIGINT, UUID, TEXT, TEXT, INTEGER, INTEGER, NUMERIC, TEXT, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_usage(BIGINT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_usage(UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_usage(BIGINT, UUID, TEXT, TEXT, INTEGER, INTEGER, NUMERIC, TEXT, TEXT, UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_usage(BIGINT, UUID) TO service_role;